@@ -1,51 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// Define attachment type
-type Attachment = {
-  id?: string;
-  type?: string;
-  url?: string;
-  name?: string;
-  size?: number;
-  uploadedAt?: string;
-};
-
-// Define request body type
-type ChatRequestBody = {
-  messages: any[];
+import { ApiRequestError, chatRequestSchema, readApiError } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody, toErrorResponse } from "@/lib/api/server";
+import { createChatStreamResponse, readServerSentEvents } from "@/lib/chat-stream";
+import { SUMMARY_MAX_TOKENS, buildSummaryRequest, getOutputReservation, planContext, withContextSummary, type ContextSummary } from "@/lib/context-window";
+import { checkCustomEndpoint, fetchCustomEndpoint } from "@/lib/custom-endpoint-server";
+import { getFailoverReason, type FallbackAttempt, type FallbackInfo } from "@/lib/fallback-chains";
+import { isVaultProvider } from "@/lib/key-vault";
+import { loadVaultKeys, pickApiKey, type VaultKeys } from "@/lib/key-vault-server";
+import { withKnowledgeSources } from "@/lib/knowledge-base";
+import { withMemories } from "@/lib/memories";
+import { resolveModel } from "@/lib/models";
+import { buildJsonInstructions, checkStructuredOutput, getResponseSchemaError, toSchemaName } from "@/lib/json-schema";
+import { fetchWithRetry, getProviderAdapter, normalizeCustomBaseUrl, withoutNativePdfs, type ChatAttachment, type ChatMessage, type MessagePart, type ReasoningEffort, type ReasoningTrace, type ResponseSchema, type TokenUsage, type ToolCall, type ToolResult } from "@/lib/providers";
+import { getCallerHeaders } from "@/lib/rate-limit";
+import { executeToolCall, getAvailableTools, toToolSpecs, type ToolContext } from "@/lib/tools";
+import { addUsage, priceUsage, type MessageUsage } from "@/lib/usage";
+
+// Upper bound on model -> tools -> model round trips for a single reply
+const MAX_TOOL_STEPS = 5;
+
+// Serverless functions are cut off at 60s; every provider call, retry included, has to finish before this
+const REQUEST_DEADLINE_MS = 58000;
+
+// Fallback models are only tried while there is still time left before the serverless deadline
+const FAILOVER_DEADLINE_MS = 40000;
+
+// A provider stream that sends nothing for this long has stalled; reasoning models can think quietly for a while
+const STREAM_IDLE_TIMEOUT_MS = 45000;
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["off", "low", "medium", "high"];
+
+// A model from the user's fallback chain, with the key for its provider (empty for keyless custom endpoints and vault keys)
+type FallbackCandidate = {
   model: string;
   provider: string;
   apiKey: string;
-  geminiApiKey?: string;
-  openaiApiKey?: string;
-  runwayApiKey?: string;
-  customModelName?: string;
-  webSearchEnabled?: boolean | string;
-  enhancedWebSearch?: boolean | string;
-  codeGenerationEnabled?: boolean | string;
-  temperature?: number;
-  userLocation?: string;
-  retryCount?: number;
 };
 
-// Helper function to get provider from model ID
-function getModelProvider(modelId: string): string {
-  // Special handling for OpenRouter format models (e.g. openai/gpt-4, anthropic/claude-3)
-  if (modelId.includes('/')) {
-    return 'openrouter';
-  }
-
-  if (modelId.includes('claude')) return 'claude';
-  if (modelId.includes('gpt') || modelId.includes('o3')) return 'openai';
-  if (modelId.includes('gemini')) return 'gemini';
-  if (modelId.includes('veo2')) return 'veo2';
-  if (modelId.includes('deepseek')) return 'deepseek';
-  if (modelId.includes('grok')) return 'grok';
-  if (modelId.includes('mistral') || modelId.includes('codestral')) return 'mistral';
-  if (modelId.includes('gen3') || modelId.includes('gen2') || modelId.includes('runway')) return 'runway';
-  return 'openai';
-}
-
 // Helper function to convert string or boolean to boolean
 function toBooleanStrict(value: string | boolean | undefined): boolean {
   if (typeof value === 'boolean') return value;
@@ -59,32 +50,46 @@ export async function POST(request: NextRequest) {
   // Set up timeout to handle long-running requests
   const emergencyTimeout = setTimeout(() => {
     console.error("Emergency timeout triggered - request took too long");
-  }, 58000); // Just under Vercel's 60s limit
+  }, REQUEST_DEADLINE_MS); // Just under Vercel's 60s limit
+  const requestStartedAt = Date.now();
   
   let provider = "unknown"; // Declare outside try block for error handling
   let model = "unknown"; // Declare outside try block for error handling
   let isCodeRequest = false; // Declare outside try block for error handling
   
   try {
-    const requestBody: ChatRequestBody = await request.json();
+    const limited = await enforceRateLimit(request, "chat");
+    if (limited) {
+      clearTimeout(emergencyTimeout);
+      return limited;
+    }
+
+    // The request contract (lib/api/contracts.ts) checks messages, model, provider and mode
+    const requestBody = await parseJsonBody(request, chatRequestSchema);
+    if (requestBody instanceof NextResponse) {
+      clearTimeout(emergencyTimeout);
+      return requestBody;
+    }
     
     // Initialize request type flags
     isCodeRequest = false;
     let isImageRequest: boolean = false;
     
     // Log the full request body for debugging
+    const lastRequestMessage = requestBody.messages[requestBody.messages.length - 1];
+    const firstRequestAttachment = lastRequestMessage.attachments?.[0];
     console.log('Chat API Request Body:', JSON.stringify({
-      messageCount: requestBody.messages?.length,
+      messageCount: requestBody.messages.length,
       model: requestBody.model,
       provider: requestBody.provider,
-      firstMessageContent: requestBody.messages?.[0]?.content?.substring(0, 50),
-      lastMessageContent: requestBody.messages?.[requestBody.messages.length - 1]?.content?.substring(0, 50),
-      lastMessageHasAttachments: !!requestBody.messages?.[requestBody.messages.length - 1]?.attachments,
-      lastMessageAttachmentsCount: requestBody.messages?.[requestBody.messages.length - 1]?.attachments?.length || 0,
-      firstAttachment: requestBody.messages?.[requestBody.messages.length - 1]?.attachments?.[0] ? {
-        type: requestBody.messages[requestBody.messages.length - 1].attachments[0].type,
-        hasUrl: !!requestBody.messages[requestBody.messages.length - 1].attachments[0].url,
-        urlPrefix: requestBody.messages[requestBody.messages.length - 1].attachments[0].url?.substring(0, 30)
+      firstMessageContent: requestBody.messages[0].content.substring(0, 50),
+      lastMessageContent: lastRequestMessage.content.substring(0, 50),
+      lastMessageHasAttachments: !!lastRequestMessage.attachments,
+      lastMessageAttachmentsCount: lastRequestMessage.attachments?.length || 0,
+      firstAttachment: firstRequestAttachment ? {
+        type: firstRequestAttachment.type,
+        hasUrl: !!firstRequestAttachment.url,
+        urlPrefix: firstRequestAttachment.url?.substring(0, 30)
       } : 'no attachments'
     }, null, 2));
     
@@ -92,15 +97,26 @@ export async function POST(request: NextRequest) {
       messages,
       model: requestModel,
       provider: requestProvider,
-      apiKey,
-      geminiApiKey,
-      openaiApiKey,
-      runwayApiKey,
+      apiKey: sentApiKey,
+      geminiApiKey: sentGeminiApiKey,
+      openaiApiKey: sentOpenaiApiKey,
+      runwayApiKey: sentRunwayApiKey,
+      veo2ApiKey: sentVeo2ApiKey,
       customModelName,
+      customBaseUrl,
       webSearchEnabled,
       enhancedWebSearch,
       codeGenerationEnabled,
       temperature,
+      systemPrompt,
+      contextSummary,
+      fallbacks,
+      responseSchema,
+      reasoningEfforts,
+      mode,
+      memories,
+      memoryEnabled,
+      knowledgeSources,
       userLocation,
       retryCount = 0
     } = requestBody;
@@ -108,43 +124,61 @@ export async function POST(request: NextRequest) {
     provider = requestProvider; // Assign to outer scope variable
     model = requestModel; // Assign to outer scope variable
 
-    // Validate required inputs
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
-      console.error("Invalid messages:", messages);
-      return NextResponse.json(
-        { error: "Messages array is required and must not be empty" },
-        { status: 400 }
-      );
+    // Keys not sent with the request come from the signed-in user's vault
+    const vaultKeys: VaultKeys = request.headers.has("authorization") ? await loadVaultKeys(request) : {};
+    const vaultKeyFor = (targetProvider: string) => targetProvider === "veo2"
+      ? vaultKeys.veo2 || vaultKeys.gemini // VEO 2 runs on a Gemini key when there is no dedicated one
+      : isVaultProvider(targetProvider) ? vaultKeys[targetProvider] : undefined;
+    const apiKey = pickApiKey(sentApiKey, vaultKeyFor(provider));
+    const openaiApiKey = pickApiKey(sentOpenaiApiKey, vaultKeys.openai) || undefined;
+    const geminiApiKey = pickApiKey(sentGeminiApiKey, vaultKeys.gemini) || undefined;
+    const runwayApiKey = pickApiKey(sentRunwayApiKey, vaultKeys.runway) || undefined;
+    const veo2ApiKey = pickApiKey(sentVeo2ApiKey, vaultKeys.veo2) || undefined;
+
+    // Self-hosted endpoints often run without authentication, so only they may omit the key
+    if (!apiKey && provider !== "custom") {
+      console.error("Invalid API key for provider:", provider);
+      clearTimeout(emergencyTimeout);
+      return errorResponse("auth", "Valid API key is required", { provider });
     }
 
-    if (!provider || typeof provider !== 'string') {
-      console.error("Invalid provider:", provider);
-      return NextResponse.json(
-        { error: "Valid provider is required" },
-        { status: 400 }
-      );
+    // A refused endpoint (private network on a hosted deploy) is treated as missing for fallbacks too
+    const requestedCustomUrl = normalizeCustomBaseUrl(customBaseUrl);
+    const customEndpointRefusal = requestedCustomUrl ? await checkCustomEndpoint(requestedCustomUrl) : null;
+    const customEndpointUrl = customEndpointRefusal ? null : requestedCustomUrl;
+    if (provider === "custom" && customEndpointRefusal) {
+      clearTimeout(emergencyTimeout);
+      return errorResponse("invalid_request", customEndpointRefusal, { provider });
     }
-
-    if (!model || typeof model !== 'string') {
-      console.error("Invalid model:", model);
-      return NextResponse.json(
-        { error: "Valid model is required" },
-        { status: 400 }
+    if (provider === "custom" && !customEndpointUrl) {
+      console.error("Invalid custom endpoint base URL:", customBaseUrl);
+      clearTimeout(emergencyTimeout);
+      return errorResponse(
+        "invalid_request",
+        "A valid http(s) base URL is required for the custom endpoint. Please set one in Settings → Models.",
+        { provider }
       );
     }
 
-    if (!apiKey || typeof apiKey !== 'string') {
-      console.error("Invalid API key for provider:", provider);
-      return NextResponse.json(
-        { error: "Valid API key is required" },
-        { status: 400 }
-      );
+    // Only the custom provider takes its base URL from the request
+    const baseUrlFor = (targetProvider: string) => targetProvider === "custom" && customEndpointUrl ? customEndpointUrl : undefined;
+
+    let structuredSchema: ResponseSchema | null = null;
+    if (responseSchema) {
+      const schemaError = getResponseSchemaError(responseSchema);
+      if (schemaError) {
+        console.error("Invalid response schema:", schemaError);
+        clearTimeout(emergencyTimeout);
+        return errorResponse("invalid_request", schemaError);
+      }
+      structuredSchema = { name: toSchemaName(responseSchema.title), schema: responseSchema };
     }
 
     // Convert flags to boolean using strict helper
-    const isWebSearchEnabled = toBooleanStrict(webSearchEnabled);
-    const isEnhancedWebSearch = toBooleanStrict(enhancedWebSearch);
-    const isCodeGenerationEnabled = toBooleanStrict(codeGenerationEnabled);
+    // /search and /deep turn web search on for this message only
+    const isWebSearchEnabled = toBooleanStrict(webSearchEnabled) || mode === "search" || mode === "deep";
+    const isEnhancedWebSearch = toBooleanStrict(enhancedWebSearch) || mode === "deep";
+    const isCodeGenerationEnabled = toBooleanStrict(codeGenerationEnabled) && !structuredSchema; // JSON replies skip the code prompt
 
     // Check if the last user message has image attachments
     const lastUserMessage = messages.length > 0 ? messages[messages.length - 1] : null;
@@ -152,7 +186,7 @@ export async function POST(request: NextRequest) {
       lastUserMessage.role === 'user' && 
       lastUserMessage.attachments && 
       Array.isArray(lastUserMessage.attachments) && 
-      lastUserMessage.attachments.some((att: Attachment) => {
+      lastUserMessage.attachments.some((att: ChatAttachment) => {
         return !!att.type && 
                typeof att.type === 'string' && 
                att.type.startsWith('image/') &&
@@ -178,297 +212,59 @@ export async function POST(request: NextRequest) {
     
     console.log(`Last message has image attachments: ${hasImageAttachments}`);
     
-    // Process messages based on provider and attachments
-    let processedMessages = [...messages]; // Default to original messages
-
-    // If there are image attachments, format them according to each provider's requirements
-    if (hasImageAttachments) {
-      console.log(`Processing image attachments for provider: ${provider}`);
-      
-      // We already know the last message has image attachments
-      const lastUserMessageIndex = messages.length - 1;
-      const userMessage = messages[lastUserMessageIndex];
-      
-      console.log('Processing last message with attachments:', {
-        role: userMessage.role,
-        hasAttachments: !!userMessage.attachments,
-        attachmentsLength: userMessage.attachments?.length,
-        content: userMessage.content?.substring(0, 50)
-      });
-      
-      // Filter to only include image attachments
-      const imageAttachments = userMessage.attachments.filter((att: any) => att.type?.startsWith('image/'));
-      
-      if (imageAttachments.length > 0) {
-        console.log(`Found ${imageAttachments.length} image attachments in message`);
-        
-        // Format based on provider
-        switch(provider.toLowerCase()) {
-          case 'openai':
-            // Format for OpenAI's vision models
-            processedMessages = messages.map((msg, i) => {
-              if (i === lastUserMessageIndex) {
-                // Convert to OpenAI's vision format
-                const contentParts = [];
-                
-                // Add text content if it exists
-                if (msg.content && typeof msg.content === 'string') {
-                  contentParts.push({ 
-                    type: "text", 
-                    text: msg.content 
-                  });
-                }
-                
-                // Add image attachments
-                imageAttachments.forEach((img: any) => {
-                  if (img.url) {
-                    contentParts.push({ 
-                      type: "image_url",
-                      image_url: {
-                        url: img.url
-                      }
-                    });
-                  }
-                });
-                
-                return {
-                  ...msg,
-                  content: contentParts
-                };
-              }
-              return msg;
-            });
-            console.log('Processed messages for OpenAI vision');
-            break;
-            
-          case 'openrouter':
-            // Format for OpenRouter's vision models - using same format as OpenAI
-            processedMessages = messages.map((msg, i) => {
-              if (i === lastUserMessageIndex) {
-                // Convert to OpenAI-compatible vision format for OpenRouter
-                const contentParts = [];
-                
-                // Add text content if it exists
-                if (msg.content && typeof msg.content === 'string') {
-                  contentParts.push({ 
-                    type: "text", 
-                    text: msg.content 
-                  });
-                }
-                
-                // Add image attachments
-                imageAttachments.forEach((img: any) => {
-                  if (img.url) {
-                    try {
-                      console.log('Processing image for OpenRouter:', img.type, img.url.substring(0, 50));
-                      contentParts.push({ 
-                        type: "image_url",
-                        image_url: {
-                          url: img.url
-                        }
-                      });
-                      console.log('Successfully added image to OpenRouter message');
-                    } catch (e) {
-                      console.error('Failed to process image for OpenRouter:', e);
-                    }
-                  }
-                });
-                
-                return {
-                  ...msg,
-                  content: contentParts
-                };
-              }
-              return msg;
-            });
-            console.log('Processed messages for OpenRouter vision');
-            break;
-            
-          case 'claude':
-            // Format for Claude's vision models
-            processedMessages = messages.map((msg, i) => {
-              if (i === lastUserMessageIndex) {
-                // Convert to Claude's vision format
-                const contentParts = [];
-                
-                // Add text content if it exists
-                if (msg.content && typeof msg.content === 'string') {
-                  contentParts.push({ 
-                    type: "text", 
-                    text: msg.content 
-                  });
-                }
-                
-                // Add image attachments
-                imageAttachments.forEach((img: any) => {
-                  if (img.url) {
-                    try {
-                      console.log('Processing image for Claude:', img.type, img.url.substring(0, 50));
-                      
-                      let base64Data = '';
-                      let mimeType = img.type || 'image/jpeg';
-                      
-                      // Handle data URLs
-                      if (img.url.startsWith('data:')) {
-                        const [header, data] = img.url.split(',');
-                        if (header && data) {
-                          // Extract mime type if available in the data URL
-                          const mimeMatch = header.match(/data:(.*?);/);
-                          if (mimeMatch && mimeMatch[1]) {
-                            mimeType = mimeMatch[1];
-                          }
-                          base64Data = data;
-                        } else {
-                          throw new Error('Invalid data URL format');
-                        }
-                      } 
-                      // Handle raw base64 data
-                      else if (img.url.match(/^[A-Za-z0-9+/=]+$/)) {
-                        base64Data = img.url;
-                      }
-                      // Handle external URLs - not supported by Claude
-                      else {
-                        throw new Error('Claude only supports base64 image data, not external URLs');
-                      }
-
-                      if (!base64Data) {
-                        throw new Error('Failed to extract image data');
-                      }
-
-                      contentParts.push({
-                        type: "image",
-                        source: {
-                          type: "base64",
-                          media_type: mimeType,
-                          data: base64Data
-                        }
-                      });
-                      
-                      console.log('Successfully added image to Claude message');
-                    } catch (e) {
-                      console.error('Failed to process image for Claude:', e);
-                      throw new Error('Failed to process image for Claude. Please ensure the image is in a supported format.');
-                    }
-                  }
-                });
-                
-                return {
-                  ...msg,
-                  content: contentParts
-                };
-              }
-              return msg;
-            });
-            console.log('Processed messages for Claude vision');
-            break;
-            
-          case 'gemini':
-            // Format for Gemini's vision models
-            const geminiMessages = [];
-            
-            // Add previous messages (excluding the last user message)
-            for (let i = 0; i < lastUserMessageIndex; i++) {
-              const msg = messages[i];
-              geminiMessages.push({
-                role: msg.role === 'assistant' ? 'model' : 'user',
-                parts: [{ text: msg.content }]
-              });
-            }
-            
-            // Add the last user message with images
-            const lastUserMsg = messages[lastUserMessageIndex];
-            const geminiParts = [];
-            
-            // Add text content if it exists
-            if (lastUserMsg.content && typeof lastUserMsg.content === 'string') {
-              geminiParts.push({ text: lastUserMsg.content });
-            }
-            
-            // Add image attachments
-            imageAttachments.forEach((img: any) => {
-              if (img.url) {
-                try {
-                  console.log('Processing image for Gemini:', img.type, img.url.substring(0, 50));
-                  
-                  let mimeType = img.type || 'image/jpeg';
-                  let imageData = img.url;
-                  
-                  // Handle data URLs by extracting the base64 part
-                  if (img.url.startsWith('data:')) {
-                    const [header, data] = img.url.split(',');
-                    if (header && data) {
-                      // Extract mime type if available in the data URL
-                      const mimeMatch = header.match(/data:(.*?);/);
-                      if (mimeMatch && mimeMatch[1]) {
-                        mimeType = mimeMatch[1];
-                      }
-                      imageData = data; // Just the base64 part for inline_data
-                    }
-                  }
-                  
-                  geminiParts.push({
-                    inline_data: {
-                      mime_type: mimeType,
-                      data: imageData
-                    }
-                  });
-                  
-                  console.log('Successfully added image to Gemini message');
-                } catch (e) {
-                  console.error('Failed to process image for Gemini:', e);
-                }
-              }
-            });
-            
-            geminiMessages.push({
-              role: 'user',
-              parts: geminiParts
-            });
-            
-            // Set the processed messages for Gemini
-            processedMessages = geminiMessages;
-            console.log('Processed messages for Gemini vision');
-            break;
-            
-          default:
-            // For other providers, enhance the text prompt
-            processedMessages = messages.map((msg, i) => {
-              if (i === lastUserMessageIndex) {
-                let enhancedContent = msg.content || '';
-                
-                // Add image context to the prompt
-                if (imageAttachments.length === 1) {
-                  enhancedContent = `[Image attached] ${enhancedContent}`;
-                } else {
-                  enhancedContent = `[${imageAttachments.length} images attached] ${enhancedContent}`;
-                }
-                
-                return {
-                  ...msg,
-                  content: enhancedContent
-                };
-              }
-              return msg;
-            });
-            console.log(`Enhanced text prompt for provider: ${provider}`);
-        }
-      }
-    }
-
-    // Validate model matches provider
-    const modelProvider = getModelProvider(model);
-    if (modelProvider !== provider) {
-      console.error(`Model ${model} does not match provider ${provider}`);
-      return NextResponse.json(
-        { error: `Model ${model} cannot be used with provider ${provider}. Please select a compatible model.` },
-        { status: 400 }
+    // Keep provider-neutral messages; each provider adapter converts them (and any images) to its own format
+    let processedMessages: ChatMessage[] = messages.map((msg: any) => ({
+      role: msg.role,
+      content: typeof msg.content === "string" ? msg.content : "",
+      attachments: Array.isArray(msg.attachments) ? msg.attachments : undefined
+    }));
+
+    // Look the model up in the catalog; unknown or mismatched models are rejected rather than substituted
+    const modelDefinition = resolveModel(model, provider);
+    if (!modelDefinition) {
+      console.error(`Model ${model} is not available for provider ${provider}`);
+      clearTimeout(emergencyTimeout);
+      return errorResponse(
+        "unsupported_model",
+        `Model ${model} cannot be used with provider ${provider}. Please select a compatible model.`,
+        { provider }
       );
     }
 
+    // Identifies the user to the tool routes called below, so they count against the user's own budgets
+    const callerHeaders = await getCallerHeaders(request);
+
+    // Tools are only offered to models that support native tool calling
+    const toolContext: ToolContext = {
+      origin: new URL(request.url).origin,
+      apiKeys: {
+        openai: openaiApiKey || (provider === "openai" ? apiKey : undefined),
+        gemini: geminiApiKey || (provider === "gemini" ? apiKey : undefined),
+        veo2: veo2ApiKey,
+        runway: runwayApiKey
+      },
+      webSearchEnabled: isWebSearchEnabled,
+      enhancedWebSearch: isEnhancedWebSearch,
+      userLocation: request.headers.get('x-user-location') || userLocation || null,
+      memoryEnabled: toBooleanStrict(memoryEnabled),
+      signal: request.signal,
+      callerHeaders
+    };
+    const availableTools = modelDefinition.tools ? getAvailableTools(toolContext) : [];
+    const offersTool = (name: string) => availableTools.some(tool => tool.name === name);
+    console.log("Tools offered:", availableTools.map(tool => tool.name));
+
     let response;
     let aiResponse = "";
-    let searchResults = null;
+    let searchResults: any[] | null = null;
     let isRetry: boolean = false;
+    let messageUsage: MessageUsage | null = null;
+
+    // Every provider call that contributes to the reply adds its tokens, priced for the model that made it
+    const recordUsage = (modelId: string, tokens: Partial<TokenUsage> | null) => {
+      if (!tokens || (tokens.inputTokens === undefined && tokens.outputTokens === undefined)) return;
+      messageUsage = addUsage(messageUsage, priceUsage(modelId, tokens));
+    };
 
     // Helper function to add timeout to fetch requests
     const fetchWithTimeout = async (url: string, options: any, timeoutMs: number = 18000): Promise<Response> => {
@@ -489,116 +285,217 @@ export async function POST(request: NextRequest) {
       const emergencyTimeout = setTimeout(() => controller.abort(), safeTimeout);
       
       try {
-        const response = await fetch(url, {
+        // Requests to the custom endpoint are checked again at connect time and never follow redirects
+        const send = customEndpointUrl && url.startsWith(customEndpointUrl) ? fetchCustomEndpoint : fetch;
+        const response = await send(url, {
           ...options,
-          signal: controller.signal
+          // The request signal stays attached to the body, so a user who stops the reply also ends a running stream
+          signal: AbortSignal.any([controller.signal, request.signal])
         });
         clearTimeout(emergencyTimeout);
         return response;
       } catch (error: any) {
         clearTimeout(emergencyTimeout);
+        if (request.signal.aborted) {
+          const abortError = new Error("Generation stopped by the user");
+          abortError.name = "AbortError"; // Never a reason to fall back to another model
+          throw abortError;
+        }
         if (error instanceof Error && error.name === 'AbortError') {
           const errorMsg = isEdgeFunction 
             ? `Edge function timed out after ${safeTimeout / 1000} seconds. Try a shorter request.`
             : `Request timed out after ${safeTimeout / 1000} seconds. ${isCodeRequest && !isRetry ? 'Code generation can take longer - try breaking complex requests into smaller parts.' : 'Serverless functions have strict time limits. Try a shorter request.'}`;
           isRetry = true; // Mark as retry for subsequent attempts
-          throw new Error(errorMsg);
+          const timeoutError = new Error(errorMsg);
+          timeoutError.name = "TimeoutError"; // Lets the fallback chain treat it as a timeout
+          throw timeoutError;
         }
         throw error;
       }
     };
 
-    // Detect if this is a code generation request
-    try {
-      const lastMessageContent = typeof processedMessages[processedMessages.length - 1]?.content === 'string' 
-        ? processedMessages[processedMessages.length - 1]?.content?.toLowerCase() || ""
-        : "";
-      
-      // Check if this is a retry by looking at message history
-      isRetry = processedMessages.length > 1 && processedMessages.some(m => 
-        m.role === 'assistant' && 
-        typeof m.content === 'string' && 
-        m.content.includes('Try Again')
-      );
+    // Fold turns the model has no room for into a summary; the client stores it on the conversation
+    const summarizeHistory = async (previous: ContextSummary | null, olderMessages: ChatMessage[]): Promise<string | null> => {
+      const summaryAdapter = getProviderAdapter(provider);
+      if (!summaryAdapter) return null;
 
-      // If there are image attachments, disable code generation detection
-      if (hasImageAttachments === true) {
-        isCodeRequest = false;
-        console.log("Image attachments detected - disabling code generation detection");
+      try {
+        const summaryRequest = summaryAdapter.buildRequest({
+          apiKey,
+          baseUrl: baseUrlFor(provider),
+          model: modelDefinition.apiModel,
+          messages: summaryAdapter.formatMessages([{
+            role: "user",
+            content: buildSummaryRequest(previous, olderMessages, Math.floor(modelDefinition.contextWindow / 2))
+          }]),
+          temperature: 0.2,
+          reasoningModel: modelDefinition.reasoningModel,
+          maxTokens: Math.min(SUMMARY_MAX_TOKENS, modelDefinition.maxOutputTokens),
+          stream: false,
+          referer: request.headers.get("referer") || ""
+        });
+        const summaryResponse = await fetchWithTimeout(summaryRequest.url, summaryRequest.init, 15000);
+        if (!summaryResponse.ok) {
+          console.error(`Context summary failed with status ${summaryResponse.status}:`, await summaryResponse.text().catch(() => ""));
+          return null;
+        }
+        const summaryData = await summaryResponse.json();
+        recordUsage(modelDefinition.id, summaryAdapter.parseUsage(summaryData));
+        const summary = summaryAdapter.parseResponse(summaryData).trim();
+        return summary || null;
+      } catch (error) {
+        console.error("Context summary failed:", error);
+        return null;
       }
-      // Only check for code patterns if codeGenerationEnabled is EXPLICITLY true and no image attachments
-      else if (toBooleanStrict(codeGenerationEnabled) === true && !isRetry) {
-        // Enhanced code detection patterns
-        const codePatterns = [
-          /create.*(?:website|web.*page|html.*page|landing.*page)/i,
-          /build.*(?:app|application|website|component)/i,
-          /generate.*(?:code|script|function|class|component)/i,
-          /write.*(?:code|script|function|program)/i,
-          /make.*(?:website|app|component|function)/i,
-          /develop.*(?:website|app|application)/i,
-          /code.*(?:for|to|that)/i,
-          /html.*css/i,
-          /javascript.*function/i,
-          /react.*component/i,
-          /vue.*component/i,
-          /angular.*component/i,
-          /python.*script/i,
-          /node.*js/i,
-          /create.*api/i,
-          /build.*dashboard/i,
-          /design.*interface/i
+    };
+
+    // Keep the system prompt, the user's memories, project excerpts and recent turns (with the text of
+    // their attached documents) within the model's context window
+    const trimmedSystemPrompt = withKnowledgeSources(
+      withMemories(typeof systemPrompt === "string" && systemPrompt.trim() ? systemPrompt.trim() : undefined, memories),
+      knowledgeSources
+    );
+    // Reserve the output this request asks for (doubled for code, as in getOptimizedParams below)
+    const baseOutputTokens = getProviderAdapter(provider)?.defaults.maxTokens ?? 3000;
+    const requestedOutputTokens = Math.min(
+      isCodeGenerationEnabled || mode === "code" ? Math.min(baseOutputTokens * 2, 8000) : baseOutputTokens,
+      modelDefinition.maxOutputTokens
+    );
+    const contextPlan = planContext({
+      messages: processedMessages,
+      systemPrompt: trimmedSystemPrompt,
+      summary: contextSummary,
+      contextWindow: modelDefinition.contextWindow,
+      reservedOutputTokens: requestedOutputTokens
+    });
+    let activeSummary = contextPlan.summary;
+
+    if (contextPlan.toSummarize.length > 0) {
+      console.log(`Context window full (~${contextPlan.usage.usedTokens}/${contextPlan.usage.contextWindow} tokens): summarizing ${contextPlan.toSummarize.length} older messages`);
+      const summary = await summarizeHistory(activeSummary, contextPlan.toSummarize);
+      // If summarizing fails the older turns are still dropped, so the request can go through
+      if (summary) {
+        activeSummary = {
+          content: summary,
+          messageCount: (activeSummary?.messageCount || 0) + contextPlan.toSummarize.length
+        };
+      }
+    }
+
+    // PDFs go to models that cannot read the files as their extracted text
+    processedMessages = modelDefinition.pdf ? contextPlan.messages : withoutNativePdfs(contextPlan.messages);
+    const summarizedSystemPrompt = withContextSummary(trimmedSystemPrompt, activeSummary);
+    const effectiveSystemPrompt = structuredSchema
+      ? [summarizedSystemPrompt, buildJsonInstructions(structuredSchema.schema)].filter(Boolean).join("\n\n")
+      : summarizedSystemPrompt;
+
+    // An explicit mode from a slash command decides the route; otherwise detect it from the message
+    if (mode) {
+      isCodeRequest = mode === "code" && !hasImageAttachments; // The code edge function cannot read images
+      isImageRequest = mode === "image" || modelDefinition.kind === "image";
+      console.log("Request mode set by slash command:", { mode, isCodeRequest, isImageRequest });
+    } else {
+      try {
+        const lastMessageContent = typeof processedMessages[processedMessages.length - 1]?.content === 'string' 
+          ? processedMessages[processedMessages.length - 1]?.content?.toLowerCase() || ""
+          : "";
+        
+        // Check if this is a retry by looking at message history
+        isRetry = processedMessages.length > 1 && processedMessages.some(m => 
+          m.role === 'assistant' && 
+          typeof m.content === 'string' && 
+          m.content.includes('Try Again')
+        );
+
+        // If there are image attachments, disable code generation detection
+        if (hasImageAttachments === true) {
+          isCodeRequest = false;
+          console.log("Image attachments detected - disabling code generation detection");
+        }
+        // Only check for code patterns if codeGenerationEnabled is EXPLICITLY true and no image attachments
+        else if (toBooleanStrict(codeGenerationEnabled) === true && !isRetry) {
+          // Enhanced code detection patterns
+          const codePatterns = [
+            /create.*(?:website|web.*page|html.*page|landing.*page)/i,
+            /build.*(?:app|application|website|component)/i,
+            /generate.*(?:code|script|function|class|component)/i,
+            /write.*(?:code|script|function|program)/i,
+            /make.*(?:website|app|component|function)/i,
+            /develop.*(?:website|app|application)/i,
+            /code.*(?:for|to|that)/i,
+            /html.*css/i,
+            /javascript.*function/i,
+            /react.*component/i,
+            /vue.*component/i,
+            /angular.*component/i,
+            /python.*script/i,
+            /node.*js/i,
+            /create.*api/i,
+            /build.*dashboard/i,
+            /design.*interface/i
+          ];
+          
+          isCodeRequest = Boolean(codePatterns.some(pattern => pattern.test(lastMessageContent)));
+          console.log("Code generation enabled and patterns matched:", isCodeRequest);
+        } else {
+          isCodeRequest = false;
+          console.log("Code generation disabled or retry request");
+        }
+        
+        // Enhanced image detection patterns
+        const imagePatterns = [
+          /generate.*(?:image|picture|photo|artwork|illustration)/i,
+          /create.*(?:image|picture|photo|artwork|illustration|visual)/i,
+          /draw.*(?:image|picture|illustration)/i,
+          /make.*(?:image|picture|photo|artwork)/i,
+          /design.*(?:image|logo|icon|graphic)/i,
+          /paint.*(?:image|picture|artwork)/i,
+          /sketch.*(?:image|drawing)/i,
+          /render.*(?:image|artwork)/i,
+          /visualize.*(?:image|concept)/i,
+          /show.*me.*(?:image|picture|visual)/i,
+          /can.*you.*(?:draw|create|generate|make).*(?:image|picture)/i
         ];
         
-        isCodeRequest = Boolean(codePatterns.some(pattern => pattern.test(lastMessageContent)));
-        console.log("Code generation enabled and patterns matched:", isCodeRequest);
-      } else {
+        // Check if model is an image/video generation model
+        const isImageModel = modelDefinition.kind === "image";
+        
+        // Check for image generation request; models with the generate_image tool decide for themselves
+        const matchesImagePattern = !offersTool("generate_image") && imagePatterns.some(pattern => pattern.test(lastMessageContent));
+        isImageRequest = Boolean(matchesImagePattern || isImageModel);
+        
+        // If image attachments are present, prioritize vision model handling for all providers
+        if (hasImageAttachments === true) {
+          console.log("Image attachments detected - prioritizing vision model handling for all providers");
+        }
+        
+        console.log("Request analysis:", { 
+          isCodeRequest: toBooleanStrict(isCodeRequest), 
+          isImageRequest: toBooleanStrict(isImageRequest), 
+          isImageModel: toBooleanStrict(isImageModel), 
+          model, 
+          codeGenerationEnabled: toBooleanStrict(isCodeGenerationEnabled),
+          hasImageAttachments,
+          lastMessage: lastMessageContent?.substring(0, 100) 
+        });
+      } catch (error) {
+        console.error("Error in request detection:", error);
         isCodeRequest = false;
-        console.log("Code generation disabled or retry request");
+        isImageRequest = false;
       }
-      
-      // Enhanced image detection patterns
-      const imagePatterns = [
-        /generate.*(?:image|picture|photo|artwork|illustration)/i,
-        /create.*(?:image|picture|photo|artwork|illustration|visual)/i,
-        /draw.*(?:image|picture|illustration)/i,
-        /make.*(?:image|picture|photo|artwork)/i,
-        /design.*(?:image|logo|icon|graphic)/i,
-        /paint.*(?:image|picture|artwork)/i,
-        /sketch.*(?:image|drawing)/i,
-        /render.*(?:image|artwork)/i,
-        /visualize.*(?:image|concept)/i,
-        /show.*me.*(?:image|picture|visual)/i,
-        /can.*you.*(?:draw|create|generate|make).*(?:image|picture)/i
-      ];
-      
-      // Check if model is an image/video generation model
-      const isImageModel = Boolean(model && (model.includes('gen3') || model.includes('gen2')));
-      
-      // Check for image generation request
-      isImageRequest = Boolean(imagePatterns.some(pattern => pattern.test(lastMessageContent)) || isImageModel);
-      
-      // If image attachments are present, prioritize vision model handling for all providers
-      if (hasImageAttachments === true) {
-        console.log("Image attachments detected - prioritizing vision model handling for all providers");
-      }
-      
-      console.log("Request analysis:", { 
-        isCodeRequest: toBooleanStrict(isCodeRequest), 
-        isImageRequest: toBooleanStrict(isImageRequest), 
-        isImageModel: toBooleanStrict(isImageModel), 
-        model, 
-        codeGenerationEnabled: toBooleanStrict(isCodeGenerationEnabled),
-        hasImageAttachments,
-        lastMessage: lastMessageContent?.substring(0, 100) 
-      });
-    } catch (error) {
-      console.error("Error in request detection:", error);
+    }
+
+    // Structured output always goes straight to the chat model
+    if (structuredSchema) {
       isCodeRequest = false;
       isImageRequest = false;
     }
 
+    // Edge functions run on Netlify's network, which cannot reach a self-hosted endpoint
+    const canUseEdgeFunctions = provider !== "custom";
+
     // Route code generation requests to Edge Function for better performance (both dev and production)
-    if (isCodeRequest === true) {
+    if (isCodeRequest === true && canUseEdgeFunctions) {
       try {
         console.log('Routing code generation request to edge function for optimal performance');
         const edgeFunctionUrl = `${new URL(request.url).origin}/api/generate-code`;
@@ -614,6 +511,7 @@ export async function POST(request: NextRequest) {
             apiKey,
             model,
             temperature,
+            systemPrompt: effectiveSystemPrompt,
             customModelName
           })
         }, 120000); // 2 minute timeout for edge function (allows more time for quality code generation)
@@ -641,7 +539,9 @@ export async function POST(request: NextRequest) {
           provider: edgeResult.provider || provider,
           codeGeneration: true,
           edgeFunction: true,
-          searchResults: null
+          searchResults: null,
+          contextSummary: activeSummary,
+          usage: addUsage(messageUsage, edgeResult.usage ? priceUsage(model, edgeResult.usage) : null)
         });
         
       } catch (edgeError) {
@@ -651,7 +551,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Route image processing requests to Edge Function for better performance and longer timeouts
-    if (hasImageAttachments === true) {
+    if (hasImageAttachments === true && !structuredSchema && canUseEdgeFunctions) {
       try {
         console.log('Routing image processing request to edge function for optimal performance');
         const edgeFunctionUrl = `${new URL(request.url).origin}/api/chat-with-images`;
@@ -667,6 +567,7 @@ export async function POST(request: NextRequest) {
             apiKey,
             model,
             temperature,
+            systemPrompt: effectiveSystemPrompt,
             hasImageAttachments: true
           })
         }, 90000); // 90 second timeout for edge function with images
@@ -694,7 +595,9 @@ export async function POST(request: NextRequest) {
           provider: edgeResult.provider || provider,
           imageProcessing: true,
           edgeFunction: true,
-          searchResults: null
+          searchResults: null,
+          contextSummary: activeSummary,
+          usage: addUsage(messageUsage, edgeResult.usage ? priceUsage(model, edgeResult.usage) : null)
         });
         
       } catch (edgeError) {
@@ -714,6 +617,7 @@ export async function POST(request: NextRequest) {
         // Prepare headers with API keys for the image generation API
         const headers: Record<string, string> = {
           'Content-Type': 'application/json',
+          ...callerHeaders, // Counts against the user's own image budget
         };
         
         // Add API keys as headers based on available keys
@@ -823,21 +727,23 @@ I can still help you with text-based responses. Would you like me to describe wh
     };
 
     // Clean and optimize messages for API requests
-    const optimizeMessagesForCode = (messages: any[]) => {
+    const optimizeMessagesForCode = (messages: ChatMessage[]): ChatMessage[] => {
       try {
         if (!Array.isArray(messages) || messages.length === 0) {
           return messages;
         }
         
         // Filter and clean messages
-        const cleanedMessages = messages
-          .filter((m: any) => {
-            // Remove messages with empty or invalid content
-            return m && m.role && m.content && typeof m.content === 'string' && m.content.trim().length > 0;
+        const cleanedMessages: ChatMessage[] = messages
+          .filter((m) => {
+            // Remove messages with empty or invalid content, unless they carry attachments
+            const hasText = typeof m?.content === 'string' && m.content.trim().length > 0;
+            return m && m.role && (hasText || (m.attachments && m.attachments.length > 0));
           })
-          .map((m: any) => ({
+          .map((m) => ({
             role: m.role,
-            content: m.content.trim()
+            content: (m.content || "").trim(),
+            attachments: m.attachments
           }));
         
         // Ensure we have at least one message
@@ -884,8 +790,8 @@ Generate the complete solution now:`;
       }
     };
 
-    // Perform web search if enabled for compatible models (Gemini and Grok)
-    if (isWebSearchEnabled && (provider === "gemini" || provider === "grok")) {
+    // Chat models without tool calling cannot run web_search, so they get the results injected into the prompt
+    if (isWebSearchEnabled && !modelDefinition.tools && modelDefinition.kind === "chat" && !isImageRequest) {
       const lastMessage = processedMessages[processedMessages.length - 1];
       if (lastMessage && lastMessage.role === "user") {
         try {
@@ -894,7 +800,7 @@ Generate the complete solution now:`;
           
           const searchResponse = await fetchWithTimeout(`${new URL(request.url).origin}/api/web-search`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: { "Content-Type": "application/json", ...callerHeaders },
             body: JSON.stringify({
               query: lastMessage.content,
               maxResults: 5,
@@ -905,11 +811,12 @@ Generate the complete solution now:`;
 
           if (searchResponse.ok) {
             const searchData = await searchResponse.json();
-            searchResults = searchData.results;
+            const legacyResults: any[] = searchData.results || [];
+            searchResults = legacyResults;
             
             // Enhance the user's message with search context
             // Use extracted content when available for better context
-            const searchContext = searchResults.map((result: any, index: number) => {
+            const searchContext = legacyResults.map((result: any, index: number) => {
               // Use extracted content if available, otherwise use snippet
               const contentSection = result.extractedContent 
                 ? `Content: ${result.extractedContent.substring(0, 1000)}${result.extractedContent.length > 1000 ? '...' : ''}`
@@ -999,563 +906,405 @@ Please provide a comprehensive response using the above search results.`;
       return trimmed;
     };
 
-    switch (provider) {
-      case "openai":
-        const openaiParams = getOptimizedParams(15000, 2500);
-        const openaiMessages = optimizeMessagesForCode(processedMessages.map((m: any) => ({ role: m.role, content: m.content })));
-        
-        response = await fetchWithTimeout("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${apiKey}`
-          },
-          body: JSON.stringify({
-            model: model.includes("gpt-3.5") ? "gpt-3.5-turbo" : "gpt-4o",
-            messages: openaiMessages,
-            temperature: openaiParams.temperature,
-            max_tokens: openaiParams.maxTokens,
-            stream: false
-          })
-        }, openaiParams.timeout);
-
-        if (!response.ok) {
-          const errorData = await response.text();
-          if (response.status === 504) {
-            throw new Error(`OpenAI request timed out. Serverless time limit reached. Try a shorter request.`);
-          }
-          throw new Error(`OpenAI is currently unavailable (${response.status}). Please try again in a moment.`);
+    // VEO2 video generation uses the dedicated endpoint rather than a chat provider; /video reaches it from any model
+    if (provider === "veo2" || mode === "video") {
+      const prompt = processedMessages[processedMessages.length - 1]?.content || "";
+      const videoApiKey = provider === "veo2" ? apiKey : veo2ApiKey || geminiApiKey;
+      if (!videoApiKey) {
+        clearTimeout(emergencyTimeout);
+        return errorResponse("auth", "Video generation needs a VEO 2 or Gemini API key. Please add one in Settings → Models.", { provider: "veo2" });
+      }
+      
+      // Construct the VEO2 endpoint URL properly
+      const baseUrl = new URL(request.url).origin;
+      const veo2Url = `${baseUrl}/api/veo2`;
+      
+      response = await fetchWithTimeout(veo2Url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...callerHeaders
+        },
+        body: JSON.stringify({
+          prompt: prompt,
+          apiKey: videoApiKey,
+          geminiApiKey: geminiApiKey,
+          duration: 8, // Use number instead of string
+          aspectRatio: "16:9"
+        })
+      }, 15000); // 15 second timeout for serverless compatibility
+
+      if (!response.ok) {
+        if (response.status === 504) {
+          throw new ApiRequestError("timeout", "VEO2 video generation timed out. Video generation requires more time than serverless functions allow. Please try a simpler prompt.", { provider: "veo2" });
         }
+        // Keep the video route's code (auth, quota, content_filtered, ...) for the client
+        throw ApiRequestError.from(await readApiError(response));
+      }
 
-        const openaiData = await safeJsonParse(response, "OpenAI");
-        aiResponse = cleanAIResponse(openaiData.choices[0]?.message?.content || "OpenAI didn't provide a response. Please try again.", "OpenAI");
-        break;
+      const veo2Data = await safeJsonParse(response, "VEO2");
+      aiResponse = cleanAIResponse(veo2Data.data?.message || "Video generation initiated with VEO2", "VEO2");
 
-      case "claude":
-        const claudeParams = getOptimizedParams(15000, 3000);
-        const claudeMessages = optimizeMessagesForCode(processedMessages.map((m: any) => ({ role: m.role, content: m.content })));
-        
-        response = await fetchWithTimeout("https://api.anthropic.com/v1/messages", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-api-key": apiKey,
-            "anthropic-version": "2023-06-01"
-          },
-          body: JSON.stringify({
-            model: "claude-3-opus-20240229",
-            max_tokens: claudeParams.maxTokens,
-            temperature: claudeParams.temperature,
-            messages: claudeMessages
-          })
-        }, claudeParams.timeout);
+      clearTimeout(emergencyTimeout);
+      return NextResponse.json({
+        response: aiResponse,
+        searchResults,
+        model: model,
+        provider: provider
+      });
+    }
 
-        if (!response.ok) {
-          const errorData = await response.text();
-          if (response.status === 504) {
-            throw new Error(`Claude request timed out. Serverless time limit reached. Try a shorter request.`);
+    // Models to try, in order, if the selected one is rate limited, out of credits, down or too slow
+    const fallbackCandidates = (Array.isArray(fallbacks) ? fallbacks : []).flatMap(candidate =>
+      candidate && typeof candidate.model === "string" && typeof candidate.provider === "string"
+        ? [{ ...candidate, apiKey: pickApiKey(candidate.apiKey, vaultKeyFor(candidate.provider)) }]
+        : []
+    ).filter(candidate => {
+      if (candidate.provider === "custom" ? !customEndpointUrl : !candidate.apiKey) {
+        return false;
+      }
+      const definition = resolveModel(candidate.model, candidate.provider);
+      if (!definition || definition.kind !== "chat" || !getProviderAdapter(candidate.provider)) {
+        console.warn(`Skipping fallback model ${candidate.model} (${candidate.provider}): not a supported chat model`);
+        return false;
+      }
+      return true;
+    });
+    const candidates: FallbackCandidate[] = [{ model, provider, apiKey }, ...fallbackCandidates];
+
+    // Adapter, parameters and request sender for one model of the chain
+    const prepareTarget = (candidate: FallbackCandidate) => {
+      const definition = resolveModel(candidate.model, candidate.provider);
+      const targetAdapter = getProviderAdapter(candidate.provider);
+      if (!definition || !targetAdapter) {
+        throw new ApiRequestError("unsupported_model", `Unsupported provider: ${candidate.provider}`, { provider: candidate.provider });
+      }
+
+      // Pick the base timeout for this provider, with extra time for images and slow models
+      let baseTimeout = hasImageAttachments ? targetAdapter.defaults.visionTimeoutMs : targetAdapter.defaults.timeoutMs;
+      if (definition.timeoutMs) {
+        baseTimeout = definition.timeoutMs; // e.g. 45s for Gemini 2.5 Pro regardless of request type
+        console.log(`Using model timeout for ${candidate.model}: ${baseTimeout}ms`);
+      }
+      const params = getOptimizedParams(baseTimeout, targetAdapter.defaults.maxTokens);
+      // Never ask for more output than the model can produce, or than its window leaves after the history
+      params.maxTokens = getOutputReservation(definition.contextWindow, Math.min(params.maxTokens, definition.maxOutputTokens));
+      const messages = targetAdapter.formatMessages(optimizeMessagesForCode(definition.pdf ? processedMessages : withoutNativePdfs(processedMessages)));
+
+      // Reasoning models think at the effort picked for them, or at their catalog default
+      const pickedEffort = reasoningEfforts?.[candidate.model];
+      const chosenEffort = definition.reasoning && definition.reasoning !== "fixed"
+        ? (pickedEffort && REASONING_EFFORTS.includes(pickedEffort) ? pickedEffort : definition.reasoning)
+        : undefined;
+      const reasoningEffort = chosenEffort === "off" && definition.thinkingRequired ? "low" : chosenEffort;
+
+      const targetTools = definition.tools && !structuredSchema ? getAvailableTools(toolContext) : [];
+      const toolSpecs = targetTools.length > 0 ? toToolSpecs(targetTools) : undefined;
+
+      const send = (messagesToSend: unknown[], overrides: { temperature?: number; maxTokens?: number; timeout?: number } = {}) => {
+        const providerRequest = targetAdapter.buildRequest({
+          apiKey: candidate.apiKey,
+          baseUrl: baseUrlFor(candidate.provider),
+          model: definition.apiModel,
+          messages: messagesToSend,
+          systemPrompt: effectiveSystemPrompt,
+          temperature: overrides.temperature ?? params.temperature,
+          reasoningModel: definition.reasoningModel,
+          maxTokens: overrides.maxTokens ?? params.maxTokens,
+          stream: targetAdapter.capabilities.streaming && !structuredSchema, // JSON is validated as a whole
+          referer: request.headers.get("referer") || "",
+          tools: toolSpecs,
+          responseSchema: structuredSchema || undefined,
+          reasoningEffort
+        });
+        console.log(`Calling ${targetAdapter.label} with model: ${definition.apiModel}`);
+        // Rate limits and overloads are retried with backoff, never past the serverless deadline
+        return fetchWithRetry(
+          (remainingMs) => fetchWithTimeout(providerRequest.url, providerRequest.init, Math.min(overrides.timeout ?? params.timeout, remainingMs)),
+          {
+            deadline: requestStartedAt + REQUEST_DEADLINE_MS,
+            signal: request.signal,
+            onRetry: ({ attempt, status, delayMs }) => console.warn(`${targetAdapter.label} returned ${status}, retry ${attempt} in ${delayMs}ms`)
           }
-          throw new Error(`Claude is currently unavailable (${response.status}). Please try again in a moment.`);
-        }
+        );
+      };
 
-        const claudeData = await safeJsonParse(response, "Claude");
-        aiResponse = cleanAIResponse(claudeData.content[0]?.text || "Claude didn't provide a response. Please try again.", "Claude");
-        break;
+      return { ...candidate, definition, adapter: targetAdapter, params, messages, send };
+    };
 
-      case "gemini":
-        // Increase timeout for Gemini, especially for code generation or image processing
-        let geminiBaseTimeout = isCodeRequest || isCodeGenerationEnabled ? 25000 : 15000; // 25s for code, 15s for regular
-        
-        // Increase timeout for Gemini 2.5 Pro regardless of request type
-        if (model.includes("2.5-pro")) {
-          geminiBaseTimeout = 45000; // 45s for 2.5 Pro
-          console.log(`Increased timeout for Gemini 2.5 Pro: ${geminiBaseTimeout}ms`);
-        }
-        // Increase timeout for image processing for other models
-        else if (hasImageAttachments === true) {
-          geminiBaseTimeout = 45000; // Increased from 30s to 45s for models with images
-          console.log(`Increased timeout for Gemini image processing: ${geminiBaseTimeout}ms`);
-        }
-        // Increase timeout for code generation
-        else if (isCodeRequest || isCodeGenerationEnabled) {
-          geminiBaseTimeout = 30000; // 30s for code generation
-          console.log(`Increased timeout for Gemini code generation: ${geminiBaseTimeout}ms`);
-        }
+    // First request to one model; provider errors are thrown so the chain can decide what to do
+    const openTarget = async (target: ReturnType<typeof prepareTarget>): Promise<Response> => {
+      const firstResponse = await target.send(target.messages);
+      if (firstResponse.ok) return firstResponse;
 
-        // If this is a retry, add extra time
-        if (isRetry) {
-          geminiBaseTimeout += 10000; // Add 10s for retries
-          console.log(`Added retry buffer to Gemini timeout: ${geminiBaseTimeout}ms`);
-        }
-        const geminiParams = getOptimizedParams(geminiBaseTimeout, 3000);
-        
-        // Check if we have pre-formatted Gemini messages with images
-        let geminiMessages;
-        
-        // If the processedMessages are already in Gemini format with parts array
-        if (hasImageAttachments === true && 
-            Array.isArray(processedMessages) && 
-            processedMessages.length > 0 && 
-            processedMessages[0].parts) {
-          console.log('Using pre-formatted Gemini messages with images');
-          
-          // Debug log to check the structure of image messages
-          if (model.includes("2.5-pro")) {
-            console.log('Gemini 2.5 Pro image message format:', 
-              JSON.stringify({
-                messageCount: processedMessages.length,
-                firstMessageFormat: processedMessages[0].parts ? typeof processedMessages[0].parts[0] : 'unknown',
-                partsCount: processedMessages[0].parts?.length || 0,
-                hasImagePart: processedMessages[0].parts?.some((p: any) => p.inline_data) || false
-              })
-            );
-          }
-          
-          geminiMessages = processedMessages;
-        } else {
-          // Clean messages first, then convert to Gemini format
-          const cleanedGeminiMessages = optimizeMessagesForCode(processedMessages);
-          geminiMessages = cleanedGeminiMessages.map((m: any) => ({
-            role: m.role === "assistant" ? "model" : "user",
-            parts: [{ text: m.content }]
-          }));
-        }
-        
-        // Use correct Gemini 2.5 model names
-        let geminiModel = "gemini-1.5-pro"; // Default fallback
-        if (model.includes("2.5-flash")) {
-          geminiModel = "gemini-2.5-flash-preview-05-20"; // Correct 2.5 Flash model name
-        } else if (model.includes("2.5-pro")) {
-          geminiModel = "gemini-2.5-pro-preview-06-05"; // Correct 2.5 Pro model name
-          console.log("Using Gemini 2.5 Pro model:", geminiModel);
-          console.log("Gemini 2.5 Pro request details:", {
-            hasImageAttachments,
-            messageCount: geminiMessages.length,
-            firstMessageType: geminiMessages[0]?.parts ? typeof geminiMessages[0].parts[0] : 'unknown'
-          });
+      const errorData = await firstResponse.text().catch(() => "");
+      console.error(`${target.adapter.label} API error:`, firstResponse.status, errorData);
+      const providerError = target.adapter.mapError(firstResponse.status, errorData);
+
+      // Code requests that time out get one simplified retry with a shorter history
+      const isTimeout = firstResponse.status === 504 || firstResponse.status === 524;
+      if (!(isCodeRequest || isCodeGenerationEnabled) || !isTimeout) {
+        throw providerError;
+      }
+
+      console.log(`Retrying ${target.adapter.label} with simplified request using model: ${target.definition.apiModel}`);
+      const retryResponse = await target.send(target.messages.slice(-3), {
+        temperature: 0.3, // Lower temperature for retry
+        maxTokens: Math.min(target.params.maxTokens, 2000), // Reduced tokens
+        timeout: 20000 // 20 second timeout for retry
+      }).catch(() => {
+        throw providerError;
+      });
+
+      if (!retryResponse.ok) {
+        throw providerError; // Throw original error if retry also fails
+      }
+      return retryResponse;
+    };
+
+    // Walk the chain until a model accepts the request; only retryable failures move on to the next one
+    const fallbackAttempts: FallbackAttempt[] = [];
+    let target: ReturnType<typeof prepareTarget> | null = null;
+    for (let i = 0; i < candidates.length && !target; i++) {
+      const candidate = prepareTarget(candidates[i]);
+      try {
+        response = await openTarget(candidate);
+        target = candidate;
+      } catch (error) {
+        const reason = getFailoverReason(error);
+        const hasNext = i < candidates.length - 1;
+        if (!reason || !hasNext || Date.now() - requestStartedAt > FAILOVER_DEADLINE_MS) {
+          throw error;
         }
-        
-        try {
-          console.log(`Calling Gemini API with model: ${geminiModel}, timeout: ${geminiBaseTimeout}ms`);
-          
-          // Special handling for Gemini 2.5 Pro
-          if (model.includes("2.5-pro")) {
-            console.log("Using enhanced error handling for Gemini 2.5 Pro");
-            try {
-              response = await fetchWithTimeout(
-                `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`,
-                {
-                  method: "POST",
-                  headers: {
-                    "Content-Type": "application/json"
-                  },
-                  body: JSON.stringify({
-                    contents: geminiMessages,
-                    generationConfig: {
-                      temperature: geminiParams.temperature,
-                      maxOutputTokens: geminiParams.maxTokens,
-                      topP: 0.95,
-                      topK: 40
-                    }
-                  })
-                },
-                geminiBaseTimeout
-              );
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.error(`Gemini 2.5 Pro API error (${response.status}): ${errorText}`);
-                
-                if (response.status === 504 || response.status === 524) {
-                  throw new Error(`Gemini 2.5 Pro is taking longer than expected. Please try again with a simpler request.`);
-                } else {
-                  throw new Error(`Gemini 2.5 Pro API error: ${response.status} - ${errorText.substring(0, 100)}`);
-                }
-              }
-              
-              const geminiData = await safeJsonParse(response, "Gemini");
-              aiResponse = cleanAIResponse(geminiData.candidates[0]?.content?.parts[0]?.text || "Gemini didn't provide a response. Please try again.", "Gemini");
-            } catch (error) {
-              console.error("Gemini 2.5 Pro specific error:", error);
-              throw error;
-            }
-          } else {
-            // Regular Gemini handling
-            response = await fetchWithTimeout(`https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json"
-              },
-              body: JSON.stringify({
-                contents: geminiMessages,
-                generationConfig: {
-                  temperature: geminiParams.temperature,
-                  maxOutputTokens: geminiParams.maxTokens,
-                  topP: 0.95,
-                  topK: 40
-                }
-              })
-            }, geminiParams.timeout);
-            
-            if (!response.ok) {
-              const errorData = await response.text();
-              console.error("Gemini API error:", response.status, errorData);
-              
-              if (response.status === 504 || response.status === 524) {
-                throw new Error(`Gemini is taking longer than expected to generate your ${isCodeRequest ? 'code' : 'response'}. This often happens with complex requests. Try breaking your request into smaller parts or try again in a moment.`);
-              } else if (response.status === 429) {
-                throw new Error(`Gemini rate limit exceeded. Please wait a moment before trying again.`);
-              } else if (response.status === 503) {
-                throw new Error(`Gemini service is temporarily unavailable. Please try again in a few minutes.`);
-              } else {
-                throw new Error(`Gemini API error (${response.status}): ${errorData}`);
-              }
-            }
-            
-            const geminiData = await safeJsonParse(response, "Gemini");
-            aiResponse = cleanAIResponse(geminiData.candidates[0]?.content?.parts[0]?.text || "Gemini didn't provide a response. Please try again.", "Gemini");
-          }
-        } catch (error) {
-          console.error("Gemini error:", error);
-          
-          // If this was a code generation request and it failed, try with reduced complexity
-          if ((isCodeRequest === true || isCodeGenerationEnabled === true) && error instanceof Error && error.message.includes('504')) {
-            console.log("Retrying Gemini with simplified request...");
-            
-            try {
-              // Simplify the request for retry
-              const simplifiedMessages = geminiMessages.slice(-2).map((m: any) => ({
-                role: m.role === "assistant" ? "model" : "user",
-                parts: [{ text: m.content.length > 1000 ? m.content.substring(0, 1000) + "..." : m.content }]
-              }));
-              
-              response = await fetchWithTimeout(`https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`, {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json"
-                },
-                body: JSON.stringify({
-                  contents: simplifiedMessages,
-                  generationConfig: {
-                    temperature: 0.3, // Lower temperature for retry
-                    maxOutputTokens: 2000, // Reduced tokens
-                    topP: 0.8,
-                    topK: 20
-                  }
-                })
-              }, 20000); // 20 second timeout for retry
-
-              if (!response.ok) {
-                throw error; // Throw original error if retry also fails
-              }
-
-              const retryData = await safeJsonParse(response, "Gemini");
-              aiResponse = cleanAIResponse(retryData.candidates[0]?.content?.parts[0]?.text || "Gemini didn't provide a response. Please try again.", "Gemini");
-              
-            } catch (retryError) {
-              throw error; // Throw original error
-            }
-          } else {
-            throw error;
-          }
+        console.warn(`${candidate.adapter.label} failed (${reason}), falling back to ${candidates[i + 1].model}`);
+        fallbackAttempts.push({
+          model: candidate.model,
+          provider: candidate.definition.provider,
+          reason,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    if (!target || !response) {
+      throw new Error(`No model in the fallback chain for ${requestModel} could answer`);
+    }
+
+    // From here on the reply comes from whichever model accepted the request
+    model = target.model;
+    provider = target.provider;
+    const adapter = target.adapter;
+    const providerMessages = target.messages;
+    const sendProviderRequest = target.send;
+    const fallback: FallbackInfo | undefined = fallbackAttempts.length > 0
+      ? { requestedModel: requestModel, attempts: fallbackAttempts }
+      : undefined;
+    if (fallback) {
+      console.log(`Answered by fallback model ${model} (${provider}) instead of ${requestModel}`);
+    }
+
+    // Follow-up request after tool results or a schema mismatch; errors surface like the first request's
+    const sendFollowUp = async (messagesToSend: unknown[]) => {
+      const stepResponse = await sendProviderRequest(messagesToSend);
+      if (!stepResponse.ok) {
+        const errorData = await stepResponse.text().catch(() => "");
+        console.error(`${adapter.label} API error on follow-up request:`, stepResponse.status, errorData);
+        throw adapter.mapError(stepResponse.status, errorData);
+      }
+      return stepResponse;
+    };
+
+    // Run every call from one step in parallel; failures come back as error results
+    const runToolCalls = async (toolCalls: ToolCall[]): Promise<ToolResult[]> => {
+      console.log("Running tools:", toolCalls.map(call => call.name));
+      const toolResults = await Promise.all(toolCalls.map(call => executeToolCall(call, toolContext)));
+
+      // Web search results also feed the sources list under the message
+      toolResults.forEach(result => {
+        const results = result.name === "web_search" && !result.isError ? (result.data as any)?.results : null;
+        if (Array.isArray(results)) {
+          searchResults = [...(searchResults || []), ...results];
         }
-        break;
+      });
 
-      case "deepseek":
-        const deepseekParams = getOptimizedParams(25000, 1500); // Increased timeout to 25 seconds, further reduced max tokens
-        const deepseekMessages = optimizeMessagesForCode(processedMessages.map((m: any) => ({ role: m.role, content: m.content })));
-        
-        // Use the specific model passed in (should be deepseek-v3), fallback to deepseek-chat
-        const deepseekModel = model === "deepseek-v3" ? "deepseek-v3" : "deepseek-chat";
-        
-        try {
-          response = await fetchWithTimeout("https://api.deepseek.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-              model: deepseekModel,
-              messages: deepseekMessages,
-              temperature: Math.min(deepseekParams.temperature, 0.3), // Lower temperature for more consistent responses
-              max_tokens: deepseekParams.maxTokens,
-              stream: false
-            })
-          }, deepseekParams.timeout);
+      return toolResults;
+    };
 
-          if (!response.ok) {
-            const errorData = await response.text();
-            console.error("DeepSeek API error:", response.status, errorData);
-            
-            if (response.status === 504 || response.status === 524) {
-              throw new Error(`DeepSeek is experiencing heavy load and timing out. Please try again in a few moments, or try a shorter request.`);
-            } else if (response.status === 429) {
-              throw new Error(`DeepSeek rate limit exceeded. Please wait a moment before trying again.`);
-            } else if (response.status === 503) {
-              throw new Error(`DeepSeek service is temporarily unavailable. Please try again in a few minutes.`);
-            } else {
-              throw new Error(`DeepSeek is currently unavailable (${response.status}). Please try again in a moment.`);
+    const toolLimitNotice = `I stopped after ${MAX_TOOL_STEPS} rounds of tool calls without reaching an answer. Please try narrowing your request.`;
+
+    // Structured output: validate the JSON against the schema and ask once more if it does not match
+    if (structuredSchema) {
+      const schema = structuredSchema.schema;
+      let providerData = await safeJsonParse(response, adapter.label);
+      recordUsage(model, adapter.parseUsage(providerData));
+      let outputText = adapter.parseStructuredOutput(providerData);
+      let structured = checkStructuredOutput(outputText, schema);
+
+      if (!structured.valid) {
+        console.warn(`${adapter.label} reply does not match the response schema, asking again:`, structured.errors);
+        const reaskMessages = [
+          ...providerMessages,
+          ...adapter.formatMessages([
+            { role: "assistant", content: outputText || "(empty response)" },
+            {
+              role: "user",
+              content: `That response does not match the required JSON schema:\n- ${(structured.errors || []).join("\n- ")}\n\nReply again with only the corrected JSON object.`
             }
-          }
+          ])
+        ];
+        providerData = await safeJsonParse(await sendFollowUp(reaskMessages), adapter.label);
+        recordUsage(model, adapter.parseUsage(providerData));
+        outputText = adapter.parseStructuredOutput(providerData);
+        structured = checkStructuredOutput(outputText, schema);
+      }
 
-          const deepseekData = await safeJsonParse(response, "DeepSeek");
-          aiResponse = cleanAIResponse(deepseekData.choices[0]?.message?.content || "DeepSeek didn't provide a response. Please try again.", "DeepSeek");
-          
-        } catch (deepseekError) {
-          console.error("DeepSeek error:", deepseekError);
-          
-          // If deepseek-v3 fails, try fallback to deepseek-chat
-          if (deepseekModel === "deepseek-v3") {
-            console.log("Retrying with deepseek-chat model...");
-            
-            try {
-              response = await fetchWithTimeout("https://api.deepseek.com/v1/chat/completions", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                  "Authorization": `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                  model: "deepseek-chat",
-                  messages: deepseekMessages.slice(-3), // Only use last 3 messages for fallback
-                  temperature: 0.2,
-                  max_tokens: 1000, // Further reduced for fallback
-                  stream: false
-                })
-              }, 20000); // 20 second timeout for fallback
-
-              if (!response.ok) {
-                throw deepseekError; // Throw original error if fallback also fails
-              }
-
-              const fallbackData = await safeJsonParse(response, "DeepSeek");
-              aiResponse = cleanAIResponse(fallbackData.choices[0]?.message?.content || "DeepSeek didn't provide a response. Please try again.", "DeepSeek");
-              
-            } catch (fallbackError) {
-              throw deepseekError; // Throw original error
-            }
-          } else {
-            throw deepseekError;
-          }
-        }
-        break;
+      aiResponse = structured.data !== null ? JSON.stringify(structured.data, null, 2) : cleanAIResponse(outputText, adapter.label);
 
-      case "grok":
-        const grokParams = getOptimizedParams(15000, 2500);
-        const grokMessages = optimizeMessagesForCode(processedMessages.map((m: any) => ({ role: m.role, content: m.content })));
-        
-        response = await fetchWithTimeout("https://api.x.ai/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${apiKey}`
-          },
-          body: JSON.stringify({
-            model: "grok-beta",
-            messages: grokMessages,
-            temperature: grokParams.temperature,
-            max_tokens: grokParams.maxTokens,
-            stream: false
-          })
-        }, grokParams.timeout);
+      clearTimeout(emergencyTimeout);
+      return NextResponse.json({
+        response: aiResponse,
+        parts: [{ type: "json", ...structured }],
+        searchResults,
+        contextSummary: activeSummary,
+        fallback,
+        usage: messageUsage,
+        model: model,
+        provider: provider
+      });
+    }
 
-        if (!response.ok) {
-          const errorData = await response.text();
-          if (response.status === 504) {
-            throw new Error(`Grok request timed out. Serverless time limit reached. Try a shorter request.`);
-          }
-          throw new Error(`Grok is currently unavailable (${response.status}). Please try again in a moment.`);
-        }
+    // Relay streamed provider output to the client as it arrives
+    if (adapter.capabilities.streaming && response.body) {
+      const firstResponse = response;
 
-        const grokData = await safeJsonParse(response, "Grok");
-        aiResponse = cleanAIResponse(grokData.choices[0]?.message?.content || "Grok didn't provide a response. Please try again.", "Grok");
-        break;
+      return createChatStreamResponse(async (emit) => {
+        let conversation = providerMessages;
+        let stepResponse = firstResponse;
+        let receivedText = false;
 
-      case "openrouter":
-        console.log("[DEBUG API] Processing OpenRouter request");
-        console.log("[DEBUG API] Model:", model);
-        console.log("[DEBUG API] API key exists:", !!apiKey);
-        
-        // Increase timeout for image requests
-        const openrouterBaseTimeout = hasImageAttachments ? 45000 : 15000;
-        const openrouterParams = getOptimizedParams(openrouterBaseTimeout, 2500);
-        
-        // Skip message optimization if we have image attachments to preserve the image format
-        const openrouterMessages = hasImageAttachments 
-          ? processedMessages 
-          : optimizeMessagesForCode(processedMessages.map((m: any) => ({ role: m.role, content: m.content })));
-        
-        // Log the message structure for debugging
-        if (hasImageAttachments) {
-          console.log("[DEBUG API] OpenRouter has image attachments, using processed messages format");
-          // Log the structure of the first message with images (without the full image data)
-          const lastMsg = processedMessages[processedMessages.length - 1];
-          if (lastMsg && Array.isArray(lastMsg.content)) {
-            console.log("[DEBUG API] OpenRouter message structure:", 
-              lastMsg.content.map((part: any) => ({
-                type: part.type,
-                hasImageUrl: !!part.image_url,
-                textPreview: part.type === 'text' ? part.text : null
-              }))
-            );
-          }
-        }
-        
-        // For OpenRouter, use the model ID directly as it already includes the provider prefix
-        // Make sure we have a properly formatted model ID (should contain a slash)
-        const openrouterModelId = model.includes('/') ? model : `openai/${model}`;
-        console.log("[DEBUG API] Using OpenRouter model ID:", openrouterModelId);
-        
-        try {
-          response = await fetchWithTimeout("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${apiKey}`,
-              "HTTP-Referer": request.headers.get("referer") || "",
-              "X-Title": "Apeiron Chat"
-            },
-            body: JSON.stringify({
-              model: openrouterModelId,
-              messages: openrouterMessages,
-              temperature: openrouterParams.temperature,
-              max_tokens: openrouterParams.maxTokens,
-              stream: false
-            })
-          }, openrouterParams.timeout);
+        // Each step streams one model turn; tool calls in it are run and fed back for the next step
+        for (let step = 1; ; step++) {
+          const accumulator = adapter.createToolCallAccumulator();
+          let stepText = "";
+          const stepReasoning: ReasoningTrace = { text: "" };
+          let stepUsage: Partial<TokenUsage> = {};
 
-          console.log("[DEBUG API] OpenRouter response status:", response.status);
-          
-          if (!response.ok) {
-            const errorData = await response.text();
-            console.error("[ERROR API] OpenRouter error:", response.status, errorData);
-            
-            if (response.status === 504) {
-              throw new Error(`OpenRouter request timed out. Serverless time limit reached. Try a shorter request.`);
-            } else if (response.status === 401) {
-              throw new Error(`OpenRouter API key is invalid or expired. Please check your API key.`);
-            } else if (response.status === 404) {
-              throw new Error(`The selected OpenRouter model is not available. Please choose a different model.`);
-            } else if (response.status === 402) {
-              throw new Error(`OpenRouter credits exhausted. Please check your account balance.`);
+          for await (const data of readServerSentEvents(stepResponse.body!, { idleTimeoutMs: STREAM_IDLE_TIMEOUT_MS })) {
+            if (data === "[DONE]") break;
+
+            let chunk;
+            try {
+              chunk = JSON.parse(data);
+            } catch (parseError) {
+              console.error(`${adapter.label} stream chunk parse error:`, data.substring(0, 200));
+              continue;
+            }
+
+            accumulator.add(chunk);
+            const chunkUsage = adapter.parseUsage(chunk);
+            if (chunkUsage) stepUsage = { ...stepUsage, ...chunkUsage };
+            // Thinking goes to the client as its own events and never into the answer text
+            const reasoning = adapter.parseStreamReasoning(chunk);
+            if (reasoning?.text) {
+              emit({ type: "reasoning", text: reasoning.text });
+              stepReasoning.text += reasoning.text;
+            }
+            if (reasoning?.signature) stepReasoning.signature = reasoning.signature;
+
+            const text = adapter.parseStreamChunk(chunk);
+            if (text) {
+              // Keep text from separate steps in separate paragraphs
+              emit({ type: "delta", text: receivedText && !stepText ? `\n\n${text}` : text });
+              stepText += text;
+              receivedText = true;
             }
-            throw new Error(`OpenRouter is currently unavailable (${response.status}). Please try again in a moment.`);
           }
 
-          const openrouterData = await safeJsonParse(response, "OpenRouter");
-          console.log("[DEBUG API] OpenRouter response received successfully");
-          aiResponse = cleanAIResponse(openrouterData.choices[0]?.message?.content || "OpenRouter didn't provide a response. Please try again.", "OpenRouter");
-        } catch (error) {
-          console.error("[ERROR API] OpenRouter fetch error:", error);
-          throw error;
-        }
-        break;
+          recordUsage(model, stepUsage);
+          const toolCalls = accumulator.finish();
+          if (toolCalls.length === 0) break;
 
-      case "mistral":
-        const mistralParams = getOptimizedParams(15000, 2500);
-        const mistralMessages = optimizeMessagesForCode(processedMessages.map((m: any) => ({ role: m.role, content: m.content })));
-        
+          if (step > MAX_TOOL_STEPS) {
+            emit({ type: "delta", text: receivedText ? `\n\n${toolLimitNotice}` : toolLimitNotice });
+            receivedText = true;
+            break;
+          }
 
-        
-        // Map model names to Mistral API model names
-        let mistralModel = "mistral-large-latest";
-        if (model.includes("large")) mistralModel = "mistral-large-latest";
-        else if (model.includes("medium")) mistralModel = "mistral-medium-latest";
-        else if (model.includes("small")) mistralModel = "mistral-small-latest";
-        else if (model.includes("codestral")) mistralModel = "codestral-latest";
-        
-        
-        
-        response = await fetchWithTimeout("https://api.mistral.ai/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${apiKey}`
-          },
-          body: JSON.stringify({
-            model: mistralModel,
-            messages: mistralMessages,
-            temperature: mistralParams.temperature,
-            max_tokens: mistralParams.maxTokens,
-            stream: false
-          })
-        }, mistralParams.timeout);
+          toolCalls.forEach(toolCall => emit({ type: "tool-call", toolCall }));
+          const toolResults = await runToolCalls(toolCalls);
+          toolResults.forEach(toolResult => emit({ type: "tool-result", toolResult }));
 
-        if (!response.ok) {
-          const errorData = await response.text();
-          console.error("Mistral API error:", response.status, errorData);
-          if (response.status === 504) {
-            throw new Error(`Mistral request timed out. Serverless time limit reached. Try a shorter request.`);
-          }
-          throw new Error(`Mistral API error (${response.status}): ${errorData}`);
+          conversation = [...conversation, ...adapter.formatToolTurn(stepText, toolCalls, toolResults, stepReasoning)];
+          stepResponse = await sendFollowUp(conversation);
         }
 
-        const mistralData = await safeJsonParse(response, "Mistral");
-        aiResponse = cleanAIResponse(mistralData.choices[0]?.message?.content || "Mistral didn't provide a response. Please try again.", "Mistral");
-        break;
+        if (!receivedText) {
+          emit({ type: "delta", text: cleanAIResponse("", adapter.label) });
+        }
 
-      case "veo2":
-        // VEO2 video generation using dedicated endpoint
-        const prompt = processedMessages[processedMessages.length - 1]?.content || "";
-        
-        // Construct the VEO2 endpoint URL properly
-        const baseUrl = new URL(request.url).origin;
-        const veo2Url = `${baseUrl}/api/veo2`;
-        
-        response = await fetchWithTimeout(veo2Url, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify({
-            prompt: prompt,
-            apiKey: apiKey,
-            geminiApiKey: geminiApiKey,
-            duration: 8, // Use number instead of string
-            aspectRatio: "16:9"
-          })
-        }, 15000); // 15 second timeout for serverless compatibility
+        emit({ type: "done", model, provider, searchResults, contextSummary: activeSummary, fallback, usage: messageUsage });
+      }, () => clearTimeout(emergencyTimeout));
+    }
 
-        if (!response.ok) {
-          const errorData = await response.text();
-          if (response.status === 504) {
-            throw new Error(`VEO2 video generation timed out. Video generation requires more time than serverless functions allow. Please try a simpler prompt.`);
-          }
-          throw new Error(`VEO2 is currently unavailable (${response.status}). Please try again in a moment.`);
-        }
+    // Non-streaming providers run the same tool loop on complete responses
+    const parts: MessagePart[] = [];
+    let conversation = providerMessages;
+    let providerData = await safeJsonParse(response, adapter.label);
 
-        const veo2Data = await safeJsonParse(response, "VEO2");
-        aiResponse = cleanAIResponse(veo2Data.data?.message || "Video generation initiated with VEO2", "VEO2");
+    for (let step = 1; ; step++) {
+      recordUsage(model, adapter.parseUsage(providerData));
+      const stepReasoning = adapter.parseReasoning(providerData);
+      if (stepReasoning?.text) parts.push({ type: "reasoning", text: stepReasoning.text });
+      const stepText = adapter.parseResponse(providerData);
+      if (stepText) parts.push({ type: "text", text: stepText });
+
+      const toolCalls = adapter.parseToolCalls(providerData);
+      if (toolCalls.length === 0) break;
+
+      if (step > MAX_TOOL_STEPS) {
+        parts.push({ type: "text", text: toolLimitNotice });
         break;
+      }
+
+      const toolResults = await runToolCalls(toolCalls);
+      parts.push(
+        ...toolCalls.map((toolCall): MessagePart => ({ type: "tool-call", ...toolCall })),
+        ...toolResults.map((toolResult): MessagePart => ({ type: "tool-result", ...toolResult }))
+      );
 
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+      conversation = [...conversation, ...adapter.formatToolTurn(stepText, toolCalls, toolResults, stepReasoning)];
+      providerData = await safeJsonParse(await sendFollowUp(conversation), adapter.label);
     }
 
+    aiResponse = cleanAIResponse(
+      parts.flatMap(part => part.type === "text" ? [part.text] : []).join("\n\n"),
+      adapter.label
+    );
+
     // Return the AI response with model info
     clearTimeout(emergencyTimeout);
     return NextResponse.json({
       response: aiResponse,
+      parts: parts.some(part => part.type !== "text") ? parts : undefined,
       searchResults,
+      contextSummary: activeSummary,
+      fallback,
+      usage: messageUsage,
       model: model,
       provider: provider
     });
 
   } catch (error) {
-    console.error("Chat API error:", error);
     clearTimeout(emergencyTimeout);
 
-    // Provide helpful error message
-    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
-    
-    return NextResponse.json(
-      { 
-        error: errorMessage,
-        model: model,
-        provider: provider
-      },
-      { status: 500 }
-    );
+    // Nobody is listening once the client has gone away
+    if (request.signal.aborted) {
+      console.log("Chat request cancelled by the client");
+      return new NextResponse(null, { status: 499 });
+    }
+
+    console.error("Chat API error:", error);
+
+    // Provider failures keep their status-derived code (auth, quota, rate_limited, ...)
+    return toErrorResponse(error, provider);
   }
 }
\ No newline at end of file
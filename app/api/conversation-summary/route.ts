@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { conversationSummaryRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody, toErrorResponse } from "@/lib/api/server";
+import { DESCRIPTION_MAX_TOKENS, buildDescriptionPrompt, parseDescription } from "@/lib/conversation-summary";
+import { checkCustomEndpoint, fetchCustomEndpoint } from "@/lib/custom-endpoint-server";
+import { isVaultProvider } from "@/lib/key-vault";
+import { loadVaultKeys, pickApiKey } from "@/lib/key-vault-server";
+import { resolveModel } from "@/lib/models";
+import { getProviderAdapter, normalizeCustomBaseUrl } from "@/lib/providers";
+
+// A title or summary is a nice-to-have; a slow model is given up on rather than waited for
+const DESCRIPTION_TIMEOUT_MS = 20000;
+
+// Titles and summaries for the sidebar, written by the cheap model picked in Settings
+export async function POST(request: NextRequest) {
+  let provider: string | null = null;
+
+  try {
+    const limited = await enforceRateLimit(request, "conversation-summary");
+    if (limited) return limited;
+
+    const body = await parseJsonBody(request, conversationSummaryRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { messages, model, apiKey: sentApiKey, customBaseUrl, title, summary } = body;
+    provider = body.provider;
+
+    const adapter = getProviderAdapter(provider);
+    const modelDefinition = resolveModel(model, provider);
+    if (!adapter || !modelDefinition) {
+      return errorResponse(
+        "unsupported_model",
+        `Model ${model} cannot be used with provider ${provider}. Please select a compatible model.`,
+        { provider }
+      );
+    }
+
+    // Keys not sent with the request come from the signed-in user's vault
+    const vaultKeys = request.headers.has("authorization") ? await loadVaultKeys(request) : {};
+    const apiKey = pickApiKey(sentApiKey, isVaultProvider(provider) ? vaultKeys[provider] : undefined);
+    if (!apiKey && provider !== "custom") {
+      return errorResponse("auth", "Valid API key is required", { provider });
+    }
+
+    const baseUrl = provider === "custom" ? normalizeCustomBaseUrl(customBaseUrl) : null;
+    if (provider === "custom" && !baseUrl) {
+      return errorResponse("invalid_request", "A valid http(s) base URL is required for the custom endpoint", { provider });
+    }
+    const refusal = baseUrl ? await checkCustomEndpoint(baseUrl) : null;
+    if (refusal) {
+      return errorResponse("invalid_request", refusal, { provider });
+    }
+
+    const providerRequest = adapter.buildRequest({
+      apiKey,
+      baseUrl: baseUrl || undefined,
+      model: modelDefinition.apiModel,
+      messages: adapter.formatMessages([{ role: "user", content: buildDescriptionPrompt(messages, { title, summary }) }]),
+      temperature: 0.2,
+      reasoningModel: modelDefinition.reasoningModel,
+      maxTokens: Math.min(DESCRIPTION_MAX_TOKENS, modelDefinition.maxOutputTokens),
+      stream: false,
+      referer: request.headers.get("referer") || ""
+    });
+
+    const response = await (baseUrl ? fetchCustomEndpoint : fetch)(providerRequest.url, {
+      ...providerRequest.init,
+      signal: AbortSignal.any([AbortSignal.timeout(DESCRIPTION_TIMEOUT_MS), request.signal])
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      console.error(`${adapter.label} title/summary error:`, response.status, errorText);
+      throw adapter.mapError(response.status, errorText);
+    }
+
+    const description = parseDescription(adapter.parseResponse(await response.json()));
+    return NextResponse.json({
+      title: title ? description.title ?? null : null,
+      summary: summary ? description.summary ?? null : null
+    });
+  } catch (error) {
+    console.error("Conversation title/summary error:", error);
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return timedOut
+      ? errorResponse("timeout", "The model did not answer in time", { provider })
+      : toErrorResponse(error, provider);
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { customModelsRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody } from "@/lib/api/server";
+import { checkCustomEndpoint, fetchCustomEndpoint } from "@/lib/custom-endpoint-server";
+import { loadVaultKeys, pickApiKey } from "@/lib/key-vault-server";
+import { normalizeCustomBaseUrl, parseModelList } from "@/lib/providers";
+
+// Listing models is quick on every server we support; a slow answer means the URL is wrong
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+// Model discovery for the custom OpenAI-compatible endpoint (GET {base}/v1/models)
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(request, "custom-models");
+    if (limited) return limited;
+
+    const body = await parseJsonBody(request, customModelsRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { baseUrl, apiKey: sentApiKey } = body;
+
+    const endpointUrl = normalizeCustomBaseUrl(baseUrl);
+    if (!endpointUrl) {
+      return errorResponse("invalid_request", "A valid http(s) base URL is required");
+    }
+    const refusal = await checkCustomEndpoint(endpointUrl);
+    if (refusal) {
+      return errorResponse("invalid_request", refusal, { provider: "custom" });
+    }
+
+    // A key stored in the vault is looked up for signed-in users
+    const vaultKeys = request.headers.has("authorization") ? await loadVaultKeys(request) : {};
+    const apiKey = pickApiKey(sentApiKey, vaultKeys.custom);
+
+    console.log("Listing models from custom endpoint:", endpointUrl);
+
+    const response = await fetchCustomEndpoint(`${endpointUrl}/models`, {
+      headers: apiKey ? { "Authorization": `Bearer ${apiKey}` } : {},
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      console.error(`Custom endpoint model list failed with status ${response.status}:`, errorText);
+      return response.status === 401 || response.status === 403
+        ? errorResponse("auth", "The endpoint rejected the API key", { provider: "custom" })
+        : errorResponse("unavailable", `The endpoint returned an error (${response.status})`, { provider: "custom", status: 502 });
+    }
+
+    const models = parseModelList(await response.json());
+    console.log(`Found ${models.length} models on custom endpoint`);
+
+    return NextResponse.json({ baseUrl: endpointUrl, models });
+  } catch (error) {
+    console.error("Custom endpoint model discovery error:", error);
+    const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+    return timedOut
+      ? errorResponse("timeout", "The endpoint did not answer in time. Check that the server is running and reachable from this app.", { provider: "custom" })
+      : errorResponse("unavailable", "Could not reach the endpoint. Check the URL and that the server is running.", { provider: "custom", status: 502 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { embeddingsRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody, toErrorResponse } from "@/lib/api/server";
+import { checkCustomEndpoint, fetchCustomEndpoint } from "@/lib/custom-endpoint-server";
+import { buildEmbeddingRequest, parseEmbeddingModel, parseEmbeddingResponse } from "@/lib/embeddings";
+import { loadVaultKeys, pickApiKey } from "@/lib/key-vault-server";
+import { getProviderAdapter, normalizeCustomBaseUrl } from "@/lib/providers";
+
+// A batch of document chunks; local models on modest hardware need the longest of it
+const EMBEDDING_TIMEOUT_MS = 60000;
+
+// Vectors for knowledge base chunks and for the questions searched against them
+export async function POST(request: NextRequest) {
+  let provider: string | null = null;
+
+  try {
+    const limited = await enforceRateLimit(request, "embeddings");
+    if (limited) return limited;
+
+    const body = await parseJsonBody(request, embeddingsRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { texts, model, apiKey: sentApiKey, customBaseUrl } = body;
+
+    const embeddingModel = parseEmbeddingModel(model);
+    if (!embeddingModel) {
+      return errorResponse("unsupported_model", `Unknown embedding model ${model}. Pick one in Settings → Models.`);
+    }
+    provider = embeddingModel.provider;
+
+    // Keys not sent with the request come from the signed-in user's vault
+    const vaultKeys = request.headers.has("authorization") ? await loadVaultKeys(request) : {};
+    const apiKey = pickApiKey(sentApiKey, vaultKeys[embeddingModel.provider]);
+    if (!apiKey && provider !== "custom") {
+      return errorResponse("auth", "Valid API key is required", { provider });
+    }
+
+    const baseUrl = provider === "custom" ? normalizeCustomBaseUrl(customBaseUrl) : null;
+    if (provider === "custom" && !baseUrl) {
+      return errorResponse("invalid_request", "A valid http(s) base URL is required for the custom endpoint", { provider });
+    }
+    const refusal = baseUrl ? await checkCustomEndpoint(baseUrl) : null;
+    if (refusal) {
+      return errorResponse("invalid_request", refusal, { provider });
+    }
+
+    const embeddingRequest = buildEmbeddingRequest({ model: embeddingModel, texts, apiKey: apiKey || undefined, baseUrl: baseUrl || undefined });
+    const response = await (baseUrl ? fetchCustomEndpoint : fetch)(embeddingRequest.url, {
+      ...embeddingRequest.init,
+      signal: AbortSignal.any([AbortSignal.timeout(EMBEDDING_TIMEOUT_MS), request.signal])
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      console.error(`${embeddingModel.name} embedding error:`, response.status, errorText);
+      const adapter = getProviderAdapter(provider);
+      if (adapter) throw adapter.mapError(response.status, errorText);
+      return errorResponse("unavailable", `The embedding provider returned an error (${response.status})`, { provider, status: 502 });
+    }
+
+    const embeddings = parseEmbeddingResponse(embeddingModel.provider, await response.json());
+    if (embeddings.length !== texts.length) {
+      return errorResponse("unavailable", "The embedding provider returned the wrong number of vectors", { provider, status: 502 });
+    }
+
+    return NextResponse.json({ model: embeddingModel.id, embeddings });
+  } catch (error) {
+    console.error("Embedding error:", error);
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return timedOut
+      ? errorResponse("timeout", "The embedding model did not answer in time", { provider })
+      : toErrorResponse(error, provider);
+  }
+}
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ApiRequestError, generateImageRequestSchema, getErrorCodeForStatus } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody, toErrorResponse } from "@/lib/api/server";
 
 // Image Generation API Route
 // Supports RunwayML and OpenAI DALL-E
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, model } = await request.json();
+    const limited = await enforceRateLimit(request, "generate-image");
+    if (limited) return limited;
 
-    if (!prompt) {
-      return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
-    }
+    const body = await parseJsonBody(request, generateImageRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { prompt, model } = body;
 
     const openaiApiKey = process.env.OPENAI_API_KEY || request.headers.get('openai-api-key');
     const runwayApiKey = process.env.RUNWAY_API_KEY || request.headers.get('runway-api-key');
@@ -19,12 +22,12 @@ export async function POST(request: NextRequest) {
     // Check if specific model is requested
     if (model?.includes('gen3') || model?.includes('gen2') || model?.includes('runway')) {
       if (!runwayApiKey) {
-        return NextResponse.json({ error: 'RunwayML API key required for RunwayML models' }, { status: 400 });
+        return errorResponse('auth', 'RunwayML API key required for RunwayML models', { provider: 'runway' });
       }
       provider = 'runway';
     } else if (model?.includes('dall-e') || model?.includes('gpt')) {
       if (!openaiApiKey) {
-        return NextResponse.json({ error: 'OpenAI API key required for DALL-E models' }, { status: 400 });
+        return errorResponse('auth', 'OpenAI API key required for DALL-E models', { provider: 'openai' });
       }
       provider = 'openai';
     } else {
@@ -34,42 +37,42 @@ export async function POST(request: NextRequest) {
       } else if (openaiApiKey) {
         provider = 'openai';
       } else {
-        return NextResponse.json({ error: 'No image generation API keys configured' }, { status: 400 });
+        return errorResponse('auth', 'No image generation API keys configured');
       }
     }
 
-    // Generate image based on provider
+    // Generate image based on provider; the request signal aborts when the caller stops waiting
     try {
       switch (provider) {
         case 'runway':
-          imageUrl = await generateWithRunway(prompt, runwayApiKey!);
+          imageUrl = await generateWithRunway(prompt, runwayApiKey!, request.signal);
           break;
         case 'openai':
         default:
-          imageUrl = await generateWithOpenAI(prompt, openaiApiKey!);
+          imageUrl = await generateWithOpenAI(prompt, openaiApiKey!, request.signal);
           break;
       }
 
       if (imageUrl) {
         return NextResponse.json({ imageUrl, provider });
       } else {
-        return NextResponse.json({ error: 'Failed to generate image' }, { status: 500 });
+        return errorResponse('internal', 'Failed to generate image', { provider });
       }
     } catch (error) {
       console.error(`${provider} generation error:`, error);
-      return NextResponse.json({ 
-        error: `Image generation failed with ${provider}. Please try again or use a different provider.`
-      }, { status: 500 });
+      // Provider rejections keep their code (auth, quota, content_filtered, ...)
+      if (error instanceof ApiRequestError) return toErrorResponse(error, provider);
+      return errorResponse('unavailable', `Image generation failed with ${provider}. Please try again or use a different provider.`, { provider });
     }
 
   } catch (error) {
     console.error('Image generation API error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return errorResponse('internal', 'Internal server error');
   }
 }
 
 // Helper function for OpenAI DALL-E
-async function generateWithOpenAI(prompt: string, apiKey: string): Promise<string | null> {
+async function generateWithOpenAI(prompt: string, apiKey: string, signal?: AbortSignal): Promise<string | null> {
   try {
     console.log('Attempting OpenAI DALL-E generation with prompt:', prompt);
     
@@ -85,23 +88,26 @@ async function generateWithOpenAI(prompt: string, apiKey: string): Promise<strin
         n: 1,
         size: '1024x1024',
         quality: 'standard'
-      })
+      }),
+      signal // Stopping the chat reply drops the generation instead of paying for an unseen image
     });
 
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+      const errorText = await response.text().catch(() => '');
+      throw new ApiRequestError(getErrorCodeForStatus(response.status, errorText), `OpenAI API error: ${response.status}`, { provider: 'openai' });
     }
 
     const data = await response.json();
     return data.data?.[0]?.url || null;
   } catch (error) {
     console.error('OpenAI DALL-E generation error:', error);
+    if (error instanceof ApiRequestError) throw error;
     return null;
   }
 }
 
 // Helper function for RunwayML
-async function generateWithRunway(prompt: string, apiKey: string): Promise<string | null> {
+async function generateWithRunway(prompt: string, apiKey: string, signal?: AbortSignal): Promise<string | null> {
   try {
     console.log('Attempting RunwayML generation with prompt:', prompt);
     
@@ -116,17 +122,20 @@ async function generateWithRunway(prompt: string, apiKey: string): Promise<strin
         model: 'gen3',
         width: 1024,
         height: 1024
-      })
+      }),
+      signal
     });
 
     if (!response.ok) {
-      throw new Error(`RunwayML API error: ${response.status}`);
+      const errorText = await response.text().catch(() => '');
+      throw new ApiRequestError(getErrorCodeForStatus(response.status, errorText), `RunwayML API error: ${response.status}`, { provider: 'runway' });
     }
 
     const data = await response.json();
     return data.url || null;
   } catch (error) {
     console.error('RunwayML generation error:', error);
+    if (error instanceof ApiRequestError) throw error;
     return null;
   }
 }
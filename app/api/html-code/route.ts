@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { v4 as uuidv4 } from 'uuid'
+import { htmlCodeActionQuerySchema, htmlCodeEntrySchema, htmlCodeIdQuerySchema, htmlCodeListQuerySchema, htmlCodeUpdateSchema } from '@/lib/api'
+import { enforceRateLimit, errorResponse, parseJsonBody, parseSearchParams } from '@/lib/api/server'
 
 // Types for HTML code storage
 export interface HTMLCodeEntry {
@@ -207,28 +209,25 @@ const db = process.env.NODE_ENV === 'production' ? PostgreSQLProduction : Postgr
 // API Handlers
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const id = searchParams.get('id')
+    const limited = await enforceRateLimit(request, 'html-code')
+    if (limited) return limited
+
+    const query = parseSearchParams(request, htmlCodeListQuerySchema)
+    if (query instanceof NextResponse) return query
     
-    if (id) {
+    if (query.id) {
       // Get specific HTML code entry
-      const entry = await db.findById(id)
+      const entry = await db.findById(query.id)
       if (!entry) {
-        return NextResponse.json(
-          { error: 'HTML code not found' },
-          { status: 404 }
-        )
+        return errorResponse('not_found', 'HTML code not found')
       }
       
       return NextResponse.json({ success: true, data: entry })
     } else {
       // Get list of HTML code entries
-      const userId = searchParams.get('userId')
-      const isPublic = searchParams.get('public') === 'true'
-      const templateType = searchParams.get('type')
-      const tags = searchParams.get('tags')?.split(',').filter(Boolean)
-      const limit = parseInt(searchParams.get('limit') || '20')
-      const offset = parseInt(searchParams.get('offset') || '0')
+      const { userId, type: templateType, limit, offset } = query
+      const isPublic = query.public === 'true'
+      const tags = query.tags?.split(',').filter(Boolean)
 
       const entries = await db.findMany({
         userId: userId || undefined,
@@ -251,43 +250,21 @@ export async function GET(request: NextRequest) {
     }
   } catch (error) {
     console.error('GET /api/html-code error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse('internal', 'Internal server error')
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    
-    // Validate required fields
-    if (!body.title || !body.htmlContent) {
-      return NextResponse.json(
-        { error: 'Title and HTML content are required' },
-        { status: 400 }
-      )
-    }
+    const limited = await enforceRateLimit(request, 'html-code')
+    if (limited) return limited
 
-    // Validate HTML content size (limit to 1MB)
-    if (body.htmlContent.length > 1024 * 1024) {
-      return NextResponse.json(
-        { error: 'HTML content too large (max 1MB)' },
-        { status: 400 }
-      )
-    }
+    // Title and content are required; content is limited to 1MB
+    const body = await parseJsonBody(request, htmlCodeEntrySchema)
+    if (body instanceof NextResponse) return body
 
     // Create new HTML code entry
-    const entry = await db.create({
-      title: body.title,
-      description: body.description,
-      htmlContent: body.htmlContent,
-      userId: body.userId,
-      isPublic: body.isPublic || false,
-      tags: body.tags || [],
-      templateType: body.templateType
-    })
+    const entry = await db.create(body)
 
     return NextResponse.json({ 
       success: true, 
@@ -296,33 +273,25 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('POST /api/html-code error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse('internal', 'Internal server error')
   }
 }
 
 export async function PUT(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { searchParams } = new URL(request.url)
-    const id = searchParams.get('id')
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'ID parameter is required' },
-        { status: 400 }
-      )
-    }
+    const limited = await enforceRateLimit(request, 'html-code')
+    if (limited) return limited
 
-    const updatedEntry = await db.update(id, body)
+    const query = parseSearchParams(request, htmlCodeIdQuerySchema)
+    if (query instanceof NextResponse) return query
+
+    const body = await parseJsonBody(request, htmlCodeUpdateSchema)
+    if (body instanceof NextResponse) return body
+
+    const updatedEntry = await db.update(query.id, body)
     
     if (!updatedEntry) {
-      return NextResponse.json(
-        { error: 'HTML code not found' },
-        { status: 404 }
-      )
+      return errorResponse('not_found', 'HTML code not found')
     }
 
     return NextResponse.json({ 
@@ -332,32 +301,22 @@ export async function PUT(request: NextRequest) {
 
   } catch (error) {
     console.error('PUT /api/html-code error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse('internal', 'Internal server error')
   }
 }
 
 export async function DELETE(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const id = searchParams.get('id')
+    const limited = await enforceRateLimit(request, 'html-code')
+    if (limited) return limited
 
-    if (!id) {
-      return NextResponse.json(
-        { error: 'ID parameter is required' },
-        { status: 400 }
-      )
-    }
+    const query = parseSearchParams(request, htmlCodeIdQuerySchema)
+    if (query instanceof NextResponse) return query
 
-    const deleted = await db.delete(id)
+    const deleted = await db.delete(query.id)
     
     if (!deleted) {
-      return NextResponse.json(
-        { error: 'HTML code not found' },
-        { status: 404 }
-      )
+      return errorResponse('not_found', 'HTML code not found')
     }
 
     return NextResponse.json({ 
@@ -367,45 +326,28 @@ export async function DELETE(request: NextRequest) {
 
   } catch (error) {
     console.error('DELETE /api/html-code error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse('internal', 'Internal server error')
   }
 }
 
 // Download endpoint with analytics
 export async function PATCH(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const id = searchParams.get('id')
-    const action = searchParams.get('action')
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'ID parameter is required' },
-        { status: 400 }
-      )
-    }
+    const limited = await enforceRateLimit(request, 'html-code')
+    if (limited) return limited
 
-    if (action === 'download') {
-      await db.incrementDownloadCount(id)
-      return NextResponse.json({ 
-        success: true, 
-        message: 'Download count incremented' 
-      })
-    }
+    // The only action so far is 'download'
+    const query = parseSearchParams(request, htmlCodeActionQuerySchema)
+    if (query instanceof NextResponse) return query
 
-    return NextResponse.json(
-      { error: 'Invalid action' },
-      { status: 400 }
-    )
+    await db.incrementDownloadCount(query.id)
+    return NextResponse.json({ 
+      success: true, 
+      message: 'Download count incremented' 
+    })
 
   } catch (error) {
     console.error('PATCH /api/html-code error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse('internal', 'Internal server error')
   }
 } 
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiKeyProviderQuerySchema, storeApiKeyRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody, parseSearchParams } from "@/lib/api/server";
+import { getKeyHint, isVaultProvider, type StoredKeyInfo } from "@/lib/key-vault";
+import { encryptApiKey, getRequestUser, isKeyVaultConfigured, type RequestUser } from "@/lib/key-vault-server";
+
+// Encrypted API key vault for signed-in users. Keys go in once and never come back out:
+// GET lists which providers have a key, and the other routes decrypt them when they need them.
+
+async function requireUser(request: NextRequest): Promise<RequestUser | NextResponse> {
+  const limited = await enforceRateLimit(request, "keys");
+  if (limited) return limited;
+
+  if (!isKeyVaultConfigured()) {
+    return errorResponse("unavailable", "The key vault is not configured on this server (API_KEY_ENCRYPTION_SECRET is missing)");
+  }
+
+  const user = await getRequestUser(request);
+  if (!user) {
+    return errorResponse("auth", "Sign in to store API keys on the server");
+  }
+  return user;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
+    const { data, error } = await user.client
+      .from("user_api_keys")
+      .select("provider, key_hint, updated_at")
+      .eq("user_id", user.userId);
+
+    if (error) throw error;
+
+    const keys: StoredKeyInfo[] = (data || []).flatMap(row =>
+      isVaultProvider(row.provider) ? [{ provider: row.provider, hint: row.key_hint, updatedAt: row.updated_at }] : []
+    );
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error("Key vault list error:", error);
+    return errorResponse("internal", "Failed to load stored API keys");
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
+    const body = await parseJsonBody(request, storeApiKeyRequestSchema);
+    if (body instanceof NextResponse) return body;
+
+    const { provider, apiKey: key } = body;
+    const { data, error } = await user.client
+      .from("user_api_keys")
+      .upsert(
+        { user_id: user.userId, provider, encrypted_key: await encryptApiKey(key), key_hint: getKeyHint(key) },
+        { onConflict: "user_id,provider" }
+      )
+      .select("provider, key_hint, updated_at")
+      .single();
+
+    if (error) throw error;
+
+    console.log(`Stored ${provider} API key for user ${user.userId}`);
+    const stored: StoredKeyInfo = { provider, hint: data.key_hint, updatedAt: data.updated_at };
+    return NextResponse.json({ key: stored });
+  } catch (error) {
+    console.error("Key vault save error:", error);
+    return errorResponse("internal", "Failed to store the API key");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
+    const query = parseSearchParams(request, apiKeyProviderQuerySchema);
+    if (query instanceof NextResponse) return query;
+    const { provider } = query;
+
+    const { error } = await user.client
+      .from("user_api_keys")
+      .delete()
+      .eq("user_id", user.userId)
+      .eq("provider", provider);
+
+    if (error) throw error;
+
+    console.log(`Removed ${provider} API key for user ${user.userId}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Key vault delete error:", error);
+    return errorResponse("internal", "Failed to remove the API key");
+  }
+}
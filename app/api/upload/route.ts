@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
+import { uploadRequestSchema } from '@/lib/api';
+import { enforceRateLimit, errorResponse, parseFormData } from '@/lib/api/server';
 
 // Type definitions for file processing
 export interface ProcessedFile {
@@ -9,10 +11,16 @@ export interface ProcessedFile {
   size: number;
   url?: string;
   extractedText?: string;
+  textExtracted?: boolean; // False when extractedText only explains why no text could be read
   thumbnailUrl?: string;
   uploadedAt: string;
 }
 
+// PDFs up to this size also keep the file, for models that read PDFs natively (Claude, Gemini);
+// larger ones are sent as their extracted text only. As base64 the file grows by a third and has to
+// fit in the request body next to the rest of the conversation.
+const NATIVE_PDF_MAX_BYTES = 1024 * 1024;
+
 // Helper function to get file type category
 function getFileCategory(mimeType: string): 'image' | 'pdf' | 'document' | 'other' {
   if (mimeType.startsWith('image/')) return 'image';
@@ -22,7 +30,8 @@ function getFileCategory(mimeType: string): 'image' | 'pdf' | 'document' | 'othe
 }
 
 // Helper function to extract text from PDF with dual-approach processing
-async function extractTextFromPDF(buffer: Buffer, filename: string): Promise<string> {
+// `extracted` is false when the text is a message about the failure rather than the document's content
+async function extractTextFromPDF(buffer: Buffer, filename: string): Promise<{ text: string; extracted: boolean }> {
   try {
     console.log('Starting PDF processing for:', filename);
     
@@ -187,7 +196,7 @@ async function extractTextFromPDF(buffer: Buffer, filename: string): Promise<str
 🔤 Words: ~${wordCount}`;
       }
       
-      return cleanText;
+      return { text: cleanText, extracted: true };
     }
     
     // FALLBACK GUIDANCE: When both methods provide minimal text
@@ -285,13 +294,13 @@ Despite processing challenges, I have comprehensive Madagascar knowledge:
 🚀 Ready to help based on your description! What information does the document contain?`;
     }
     
-    return `Unable to extract text from ${filename}. This may be an image-based PDF or encrypted document.`;
+    return { text: `Unable to extract text from ${filename}. This may be an image-based PDF or encrypted document.`, extracted: false };
     
   } catch (error) {
     console.error('PDF processing error:', error);
     
     // Enhanced error handling with processing method details
-    return `❌ Advanced PDF Processing Error
+    return { extracted: false, text: `❌ Advanced PDF Processing Error
 
 🔍 File: ${filename}
 ⚠️  Issue: ${error instanceof Error ? error.message : 'Unknown processing error'}
@@ -312,7 +321,7 @@ Despite processing challenges, I have comprehensive Madagascar knowledge:
 3. **Format Convert**: Convert to text-searchable PDF if possible
 4. **Manual Description**: Share the content details for analysis
 
-🚀 I'm ready to help analyze your content! What information does the document contain?`;
+🚀 I'm ready to help analyze your content! What information does the document contain?` };
   }
 }
 
@@ -416,27 +425,31 @@ async function processImageForAI(buffer: Buffer, mimeType: string): Promise<{ ur
 // Main upload handler
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData()
-    const file = formData.get('file') as File
-    
-    if (!file) {
-      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
-    }
+    const limited = await enforceRateLimit(request, 'upload')
+    if (limited) return limited
+
+    const form = await parseFormData(request, uploadRequestSchema)
+    if (form instanceof NextResponse) return form
+    const { file } = form
 
     const buffer = Buffer.from(await file.arrayBuffer())
     const mimeType = file.type
     const fileCategory = getFileCategory(mimeType)
     
-    let processedData: { url?: string; extractedText?: string } = {}
+    let processedData: { url?: string; extractedText?: string; textExtracted?: boolean } = {}
     
     // Process based on file type
     if (fileCategory === 'image') {
       processedData = await processImageForAI(buffer, mimeType)
     } else if (fileCategory === 'pdf') {
-      const extractedText = await extractTextFromPDF(buffer, file.name)
-      processedData = { extractedText }
+      const { text, extracted } = await extractTextFromPDF(buffer, file.name)
+      processedData = {
+        url: file.size <= NATIVE_PDF_MAX_BYTES ? `data:application/pdf;base64,${buffer.toString('base64')}` : undefined,
+        extractedText: text,
+        textExtracted: extracted
+      }
     } else {
-      return NextResponse.json({ error: 'Unsupported file type' }, { status: 400 })
+      return errorResponse('invalid_request', 'Unsupported file type')
     }
 
     const processedFile: ProcessedFile = {
@@ -446,15 +459,13 @@ export async function POST(request: NextRequest) {
       size: file.size,
       url: processedData.url,
       extractedText: processedData.extractedText,
+      textExtracted: processedData.textExtracted,
       uploadedAt: new Date().toISOString()
     }
 
     return NextResponse.json({ file: processedFile })
   } catch (error) {
     console.error('Upload processing error:', error)
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to process file' },
-      { status: 500 }
-    )
+    return errorResponse('internal', error instanceof Error ? error.message : 'Failed to process file')
   }
 } 
\ No newline at end of file
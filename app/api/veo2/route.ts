@@ -1,28 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ApiRequestError, getErrorCodeForStatus, toApiError, VIDEO_API_KEY_HEADER, videoOperationQuerySchema, videoRequestSchema, type ApiErrorCode } from "@/lib/api";
+import { apiErrorResponse, enforceRateLimit, errorResponse, parseJsonBody, parseSearchParams } from "@/lib/api/server";
+import { toRequestApiKey } from "@/lib/key-vault";
+import { loadVaultKeys } from "@/lib/key-vault-server";
 
 // VEO 2 API Configuration
 const GEMINI_API_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
 const VERTEX_AI_BASE_URL = "https://us-central1-aiplatform.googleapis.com/v1";
 
-// Helper function to validate parameters
-function validateParameters(prompt: string, apiKey: string, duration?: number, aspectRatio?: string) {
-  if (!prompt || prompt.trim().length === 0) {
-    throw new Error("Prompt is required and cannot be empty");
-  }
-
-  if (!apiKey || apiKey.trim().length === 0) {
-    throw new Error("Google API key is required for VEO 2");
-  }
+// Key sent by the caller, or the signed-in user's stored VEO 2 key (or Gemini key) from the key vault
+async function resolveVideoApiKey(request: NextRequest, apiKey?: string | null, geminiApiKey?: string | null): Promise<string | null> {
+  const sentKey = toRequestApiKey(apiKey) || toRequestApiKey(geminiApiKey);
+  if (sentKey || !request.headers.has("authorization")) return sentKey || null;
 
-  if (duration && (duration < 5 || duration > 8)) {
-    throw new Error("Duration must be between 5 and 8 seconds");
-  }
-
-  if (aspectRatio && !["16:9", "9:16"].includes(aspectRatio)) {
-    throw new Error("Aspect ratio must be either '16:9' or '9:16'");
-  }
+  const vaultKeys = await loadVaultKeys(request);
+  return vaultKeys.veo2 || vaultKeys.gemini || null;
 }
 
+// Clearer wording for the failures people hit most while VEO 2 is in limited preview
+const VEO2_ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  auth: "VEO 2 API access denied. Check your VEO 2 API key in Settings; VEO 2 is in limited preview, so the key may also need access from Google AI Studio.",
+  quota: "VEO 2 API quota exceeded. Please try again later or check your billing.",
+  rate_limited: "VEO 2 is rate limiting requests. Please try again in a moment.",
+  not_found: "VEO 2 model not found. The service may not be available in your region or your API key may not have VEO 2 access.",
+  unsupported_model: "VEO 2 model not found. The service may not be available in your region or your API key may not have VEO 2 access.",
+  unavailable: "VEO 2 service is temporarily unavailable. Please try again in a few minutes."
+};
+
 // Generate video using Google VEO 2 API
 async function generateVideoWithVEO2(
   prompt: string,
@@ -35,7 +39,7 @@ async function generateVideoWithVEO2(
 ) {
   try {
     // Use Gemini API endpoint for VEO 2
-    const url = `${GEMINI_API_BASE_URL}/models/veo-2.0-generate-001:predictLongRunning?key=${apiKey}`;
+    const url = `${GEMINI_API_BASE_URL}/models/veo-2.0-generate-001:predictLongRunning`;
     
     const requestBody = {
       instances: [{
@@ -58,6 +62,7 @@ async function generateVideoWithVEO2(
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        "x-goog-api-key": apiKey,
       },
       body: JSON.stringify(requestBody),
     });
@@ -67,12 +72,14 @@ async function generateVideoWithVEO2(
       console.error("VEO 2 API error response:", response.status, errorData);
       
       // Parse error details if possible
+      let errorMessage = errorData || 'Request failed';
       try {
         const parsedError = JSON.parse(errorData);
-        throw new Error(`VEO 2 API error: ${parsedError.error?.message || parsedError.message || 'Unknown error'}`);
+        errorMessage = parsedError.error?.message || parsedError.message || errorMessage;
       } catch {
-        throw new Error(`VEO 2 API error (${response.status}): ${errorData || 'Request failed'}`);
+        // Plain text error body
       }
+      throw new ApiRequestError(getErrorCodeForStatus(response.status, errorMessage), `VEO 2 API error (${response.status}): ${errorMessage}`, { provider: "veo2" });
     }
 
     const result = await response.json();
@@ -88,15 +95,15 @@ async function generateVideoWithVEO2(
 // Check operation status
 async function checkOperationStatus(operationName: string, apiKey: string) {
   try {
-    const url = `${GEMINI_API_BASE_URL}/${operationName}?key=${apiKey}`;
+    const url = `${GEMINI_API_BASE_URL}/${operationName}`;
     
     console.log("Checking operation status for:", operationName);
-    console.log("Status check URL:", url);
 
     const response = await fetch(url, {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
+        "x-goog-api-key": apiKey,
       },
     });
 
@@ -122,7 +129,7 @@ async function checkOperationStatus(operationName: string, apiKey: string) {
         };
       }
       
-      throw new Error(`Status check failed (${response.status}): ${errorData}`);
+      throw new ApiRequestError(getErrorCodeForStatus(response.status, errorData), `Status check failed (${response.status}): ${errorData}`, { provider: "veo2" });
     }
 
     const result = await response.json();
@@ -135,24 +142,53 @@ async function checkOperationStatus(operationName: string, apiKey: string) {
   }
 }
 
+// Ask Google to cancel a running operation. Not every operation supports it, so a refusal is reported, not thrown.
+async function cancelOperation(operationName: string, apiKey: string) {
+  const url = `${GEMINI_API_BASE_URL}/${operationName}:cancel`;
+
+  console.log("Cancelling operation:", operationName);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.warn("Operation cancel was not accepted:", response.status, errorData);
+    return false;
+  }
+
+  return true;
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const limited = await enforceRateLimit(request, "veo2");
+    if (limited) return limited;
+
+    // Prompt, duration (5-8s) and aspect ratio are checked by the contract
+    const body = await parseJsonBody(request, videoRequestSchema);
+    if (body instanceof NextResponse) return body;
     const { 
       prompt, 
       apiKey,
       geminiApiKey,
-      duration = 8, 
-      aspectRatio = "16:9",
-      personGeneration = "dont_allow",
+      duration, 
+      aspectRatio,
+      personGeneration,
       negativePrompt,
       seed
-    } = await request.json();
+    } = body;
 
     // Use geminiApiKey as fallback if apiKey is not provided
-    const effectiveApiKey = apiKey || geminiApiKey;
-
-    // Validate input parameters
-    validateParameters(prompt, effectiveApiKey, duration, aspectRatio);
+    const effectiveApiKey = await resolveVideoApiKey(request, apiKey, geminiApiKey);
+    if (!effectiveApiKey) {
+      return errorResponse("auth", "Google API key is required for VEO 2", { provider: "veo2" });
+    }
 
     console.log("=== NEW VEO 2 VIDEO GENERATION REQUEST ===");
     console.log("Starting VEO 2 video generation:", {
@@ -164,8 +200,8 @@ export async function POST(request: NextRequest) {
       usingGeminiKey: !apiKey && !!geminiApiKey
     });
 
-    // Check if this is a demo request (no API key or demo key)
-    if (!effectiveApiKey || effectiveApiKey === "demo" || effectiveApiKey === "your-google-api-key") {
+    // Check if this is a demo request (demo key)
+    if (effectiveApiKey === "demo" || effectiveApiKey === "your-google-api-key") {
       // Return demo response for testing
       const mockOperationName = `operations/generate-video-demo-${Date.now()}`;
       
@@ -252,67 +288,28 @@ Your video is being generated using Google's VEO 2 model. The video will appear
     console.error("VEO 2 generation error:", error);
     
     // Provide helpful error messages for common issues
-    let errorMessage = "Failed to generate video";
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      
-      // Handle specific API errors
-      if (errorMessage.includes("API key")) {
-        errorMessage = "Invalid or missing Google API key. Please check your VEO 2 API key in Settings.";
-      } else if (errorMessage.includes("quota")) {
-        errorMessage = "VEO 2 API quota exceeded. Please try again later or check your billing.";
-      } else if (errorMessage.includes("permission") || errorMessage.includes("403")) {
-        errorMessage = "VEO 2 API access denied. VEO 2 is currently in limited preview. Please apply for access at Google AI Studio.";
-      } else if (errorMessage.includes("404")) {
-        errorMessage = "VEO 2 model not found. The service may not be available in your region or your API key may not have VEO 2 access.";
-      } else if (errorMessage.includes("500") || errorMessage.includes("502") || errorMessage.includes("503")) {
-        errorMessage = "VEO 2 service is temporarily unavailable. Please try again in a few minutes.";
-      }
-    }
-
-    return NextResponse.json(
-      { 
-        error: errorMessage,
-        details: error instanceof Error ? error.message : "Unknown error occurred"
-      },
-      { status: 500 }
-    );
+    const apiError = toApiError(error, "veo2");
+    return apiErrorResponse({ ...apiError, message: VEO2_ERROR_MESSAGES[apiError.code] || apiError.message });
   }
 }
 
 // GET endpoint to check video generation status
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const operationName = searchParams.get('operationName');
-    const apiKey = searchParams.get('apiKey');
-    const geminiApiKey = searchParams.get('geminiApiKey');
-
-    // Use geminiApiKey as fallback if apiKey is not provided
-    const effectiveApiKey = apiKey || geminiApiKey;
+    const query = parseSearchParams(request, videoOperationQuerySchema);
+    if (query instanceof NextResponse) return query;
+    const { operationName } = query;
+    const effectiveApiKey = await resolveVideoApiKey(request, request.headers.get(VIDEO_API_KEY_HEADER));
 
     console.log("=== VEO 2 Status Check Request ===");
     console.log("Operation Name:", operationName);
-    console.log("API Key:", effectiveApiKey ? `${effectiveApiKey.substring(0, 10)}...` : "not provided");
-    console.log("Using Gemini API Key as fallback:", !apiKey && !!geminiApiKey);
-    console.log("Timestamp:", new Date().toISOString());
-
-    if (!operationName) {
-      return NextResponse.json(
-        { error: "Operation name is required" },
-        { status: 400 }
-      );
-    }
 
     if (!effectiveApiKey) {
-      return NextResponse.json(
-        { error: "API key is required" },
-        { status: 400 }
-      );
+      return errorResponse("auth", "API key is required", { provider: "veo2" });
     }
 
     // Handle demo operations
-    if (operationName.includes('demo') || !effectiveApiKey || effectiveApiKey === "demo" || effectiveApiKey === "your-google-api-key") {
+    if (operationName.includes('demo') || effectiveApiKey === "demo" || effectiveApiKey === "your-google-api-key") {
       console.log("Processing demo operation status check");
       // Simulate processing for demo
       const progress = Math.min(95, 20 + Math.floor(Math.random() * 60));
@@ -344,6 +341,7 @@ export async function GET(request: NextRequest) {
     let progress = 50;
     let videoUrl = null;
     let error = null;
+    let errorCode: ApiErrorCode | null = null;
     let debugInfo = {};
 
     console.log("Raw status result from Google:", JSON.stringify(statusResult, null, 2));
@@ -359,6 +357,7 @@ export async function GET(request: NextRequest) {
           progress: 0,
           videoUrl: null,
           error: "This video operation has expired and is no longer accessible. Please generate a new video.",
+          errorCode: "not_found",
           duration: "N/A",
           createdAt: new Date().toISOString(),
           debugInfo: { expired: true, originalError: statusResult.error }
@@ -449,6 +448,7 @@ export async function GET(request: NextRequest) {
               console.log("RAI filtered reasons:", generateVideoResponse.raiMediaFilteredReasons);
               
               status = "failed";
+              errorCode = "content_filtered";
               error = "Video content was blocked by Google's safety filters. Please try a different prompt that doesn't include potentially harmful, inappropriate, or copyrighted content.";
               
               debugInfo = {
@@ -498,6 +498,8 @@ export async function GET(request: NextRequest) {
         status = "failed";
         progress = 0;
         error = statusResult.error.message || "Video generation failed";
+        // Google reports safety rejections as a failed operation rather than an HTTP error
+        errorCode = /safety|blocked|policy/i.test(error) ? "content_filtered" : "internal";
         debugInfo = { hasError: true, errorMessage: statusResult.error.message };
       } else {
         console.log("Operation done but no response or error");
@@ -524,6 +526,7 @@ export async function GET(request: NextRequest) {
         progress: progress,
         videoUrl: videoUrl,
         error: error,
+        errorCode: error ? errorCode || "internal" : null,
         duration: "5-8s",
         createdAt: new Date().toISOString(),
         ...(status === "completed" && { completedAt: new Date().toISOString() }),
@@ -538,12 +541,39 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error("VEO 2 status check error:", error);
-    const errorResponse = { 
-      error: "Failed to check video status",
-      details: error instanceof Error ? error.message : "Unknown error occurred",
-      timestamp: new Date().toISOString()
-    };
-    console.log("Error response:", JSON.stringify(errorResponse, null, 2));
-    return NextResponse.json(errorResponse, { status: 500 });
+    const apiError = toApiError(error, "veo2");
+    console.log("Error response:", JSON.stringify(apiError, null, 2));
+    return apiErrorResponse({ ...apiError, message: `Failed to check video status: ${apiError.message}` });
+  }
+}
+
+// DELETE endpoint to cancel a video generation the user stopped
+export async function DELETE(request: NextRequest) {
+  try {
+    const query = parseSearchParams(request, videoOperationQuerySchema);
+    if (query instanceof NextResponse) return query;
+    const { operationName } = query;
+    const effectiveApiKey = await resolveVideoApiKey(request, request.headers.get(VIDEO_API_KEY_HEADER));
+
+    // Demo operations only exist on the client
+    if (operationName.includes('demo') || !effectiveApiKey || effectiveApiKey === "demo" || effectiveApiKey === "your-google-api-key") {
+      return NextResponse.json({ success: true, data: { operationName, status: "cancelled", providerCancelled: false } });
+    }
+
+    const providerCancelled = await cancelOperation(operationName, effectiveApiKey);
+
+    // Polling stops either way; providerCancelled says whether Google also stopped the job
+    return NextResponse.json({
+      success: true,
+      data: {
+        operationName,
+        status: "cancelled",
+        providerCancelled
+      }
+    });
+
+  } catch (error) {
+    console.error("VEO 2 cancel error:", error);
+    return errorResponse("internal", `Failed to cancel video generation: ${error instanceof Error ? error.message : "Unknown error occurred"}`, { provider: "veo2" });
   }
-} 
\ No newline at end of file
+}
@@ -1,48 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getErrorCodeForStatus, VIDEO_API_KEY_HEADER, videoProxyQuerySchema } from "@/lib/api";
+import { errorResponse, parseSearchParams } from "@/lib/api/server";
+import { toRequestApiKey } from "@/lib/key-vault";
+import { loadVaultKeys } from "@/lib/key-vault-server";
 
 // Video proxy to handle authenticated Google VEO 2 video URLs
+// The key comes from the x-veo2-api-key header or, for signed-in users, the key vault; the contract
+// only lets Google's own video URLs through, so the key is never sent to another host
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const videoUrl = searchParams.get('url');
-    const apiKey = searchParams.get('key');
-
-    console.log("=== Video Proxy Request ===");
-    console.log("Video URL:", videoUrl);
-    console.log("API Key:", apiKey ? `${apiKey.substring(0, 10)}...` : "not provided");
-
-    if (!videoUrl) {
-      return NextResponse.json(
-        { error: "Video URL is required" },
-        { status: 400 }
-      );
+    const query = parseSearchParams(request, videoProxyQuerySchema);
+    if (query instanceof NextResponse) return query;
+    const videoUrl = query.url;
+    let apiKey = toRequestApiKey(request.headers.get(VIDEO_API_KEY_HEADER)) || null;
+    if (!apiKey && request.headers.has('authorization')) {
+      const vaultKeys = await loadVaultKeys(request);
+      apiKey = vaultKeys.veo2 || vaultKeys.gemini || null;
     }
 
     if (!apiKey) {
-      return NextResponse.json(
-        { error: "API key is required" },
-        { status: 400 }
-      );
+      return errorResponse("auth", "API key is required", { provider: "veo2" });
     }
 
-    // Add API key to the video URL if not already present
-    const authUrl = videoUrl.includes('key=') 
-      ? videoUrl 
-      : videoUrl.includes('?') 
-        ? `${videoUrl}&key=${apiKey}`
-        : `${videoUrl}?key=${apiKey}`;
-
-    console.log("Fetching video from:", authUrl);
-
     // Fetch the video with authentication
-    const response = await fetch(authUrl, {
+    const response = await fetch(videoUrl, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'x-goog-api-key': apiKey,
       }
     });
 
-    console.log("Video fetch response status:", response.status);
-
     if (!response.ok) {
       const errorText = await response.text();
       console.error("Video fetch failed:", response.status, errorText);
@@ -56,24 +43,18 @@ export async function GET(request: NextRequest) {
           // Handle specific Google API errors
           if (errorMessage.includes('Generative Language API has not been used') || 
               errorMessage.includes('SERVICE_DISABLED')) {
-            return NextResponse.json(
-              { 
-                error: "Google API access issue",
-                message: "The video cannot be downloaded due to API access restrictions. You can try right-clicking the video and selecting 'Save video as...' or contact support.",
-                details: "API_ACCESS_DENIED"
-              },
-              { status: 403 }
+            return errorResponse(
+              "auth",
+              "The video cannot be downloaded due to API access restrictions. You can try right-clicking the video and selecting 'Save video as...' or contact support.",
+              { provider: "veo2", status: 403 }
             );
           }
           
           if (errorMessage.includes('PERMISSION_DENIED')) {
-            return NextResponse.json(
-              { 
-                error: "Permission denied",
-                message: "Access to this video is restricted. Try downloading directly from the browser.",
-                details: "PERMISSION_DENIED"
-              },
-              { status: 403 }
+            return errorResponse(
+              "auth",
+              "Access to this video is restricted. Try downloading directly from the browser.",
+              { provider: "veo2", status: 403 }
             );
           }
         }
@@ -81,19 +62,15 @@ export async function GET(request: NextRequest) {
         // Error text is not JSON, continue with generic error
       }
       
-      return NextResponse.json(
-        { 
-          error: `Failed to fetch video: ${response.status}`,
-          message: "Video download failed. You can try accessing the video directly in your browser.",
-          details: errorText.substring(0, 200) // Limit error details length
-        },
-        { status: response.status }
+      return errorResponse(
+        getErrorCodeForStatus(response.status, errorText),
+        `Video download failed (${response.status}). You can try accessing the video directly in your browser.`,
+        { provider: "veo2", status: response.status }
       );
     }
 
     // Get the video content
     const videoBuffer = await response.arrayBuffer();
-    console.log("Video buffer size:", videoBuffer.byteLength, "bytes");
 
     // Return the video with headers that prevent caching but allow streaming
     return new NextResponse(videoBuffer, {
@@ -113,9 +90,6 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error("Video proxy error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+    return errorResponse("internal", "Internal server error");
   }
 } 
\ No newline at end of file
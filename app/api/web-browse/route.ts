@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { webBrowseRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody } from "@/lib/api/server";
 
 // Configure runtime for Edge Function
 export const runtime = 'edge';
@@ -110,11 +112,12 @@ async function fetchUrlContent(urls: string[], maxUrls: number = 3): Promise<any
 
 export async function POST(request: NextRequest) {
   try {
-    const { urls, query } = await request.json();
-    
-    if (!urls || !Array.isArray(urls) || urls.length === 0) {
-      return NextResponse.json({ error: "URLs array is required" }, { status: 400 });
-    }
+    const limited = await enforceRateLimit(request, "web-browse");
+    if (limited) return limited;
+
+    const body = await parseJsonBody(request, webBrowseRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { urls, query } = body;
     
     console.log(`Processing ${urls.length} URLs for query: ${query || 'No query provided'}`);
     
@@ -140,9 +143,6 @@ export async function POST(request: NextRequest) {
     
   } catch (error) {
     console.error("Web browse error:", error);
-    return NextResponse.json({ 
-      error: "Failed to browse web content",
-      details: error instanceof Error ? error.message : "Unknown error" 
-    }, { status: 500 });
+    return errorResponse("internal", `Failed to browse web content: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 } 
\ No newline at end of file
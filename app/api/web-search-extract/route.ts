@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { webExtractRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody } from "@/lib/api/server";
 
 // Configure runtime for Edge Function
 export const runtime = 'edge';
@@ -65,11 +67,12 @@ function extractMainContent(html: string, url: string): string {
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
-    
-    if (!url) {
-      return NextResponse.json({ error: "URL is required" }, { status: 400 });
-    }
+    const limited = await enforceRateLimit(request, "web-search-extract");
+    if (limited) return limited;
+
+    const body = await parseJsonBody(request, webExtractRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { url } = body;
     
     console.log(`Extracting content from URL: ${url}`);
     
@@ -83,19 +86,17 @@ export async function POST(request: NextRequest) {
     });
     
     if (!response.ok) {
-      return NextResponse.json({ 
-        error: `Failed to fetch URL: ${response.status} ${response.statusText}` 
-      }, { status: 500 });
+      return errorResponse(
+        response.status === 404 ? "not_found" : "unavailable",
+        `Failed to fetch URL: ${response.status} ${response.statusText}`
+      );
     }
     
     const contentType = response.headers.get('content-type') || '';
     
     // Only process HTML content
     if (!contentType.includes('text/html')) {
-      return NextResponse.json({ 
-        error: "URL does not point to HTML content",
-        contentType 
-      }, { status: 400 });
+      return errorResponse("invalid_request", `URL does not point to HTML content (${contentType || "unknown type"})`);
     }
     
     const html = await response.text();
@@ -115,9 +116,6 @@ export async function POST(request: NextRequest) {
     
   } catch (error) {
     console.error("Content extraction error:", error);
-    return NextResponse.json({ 
-      error: "Failed to extract content",
-      details: error instanceof Error ? error.message : "Unknown error" 
-    }, { status: 500 });
+    return errorResponse("internal", `Failed to extract content: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 } 
\ No newline at end of file
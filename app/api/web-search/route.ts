@@ -1,17 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
+import { webSearchRequestSchema } from "@/lib/api";
+import { enforceRateLimit, errorResponse, parseJsonBody } from "@/lib/api/server";
 
 // Web search API optimized for serverless environments (Netlify/Vercel)
 // Kept under 25 seconds to work within serverless function limits
 export async function POST(request: NextRequest) {
   try {
-    const { query, maxResults = 5, userLocation, extractContent = false } = await request.json();
-    
-    if (!query || query.trim().length === 0) {
-      return NextResponse.json(
-        { error: "Search query is required" },
-        { status: 400 }
-      );
-    }
+    const limited = await enforceRateLimit(request, "web-search");
+    if (limited) return limited;
+
+    // maxResults is capped by the contract so one request cannot fan out to unbounded scraping
+    const body = await parseJsonBody(request, webSearchRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { query, maxResults, userLocation, extractContent } = body;
     
     console.log(`Web search request: "${query}" (max results: ${maxResults}, location: ${userLocation || 'not specified'}, extract content: ${extractContent})`);
     
@@ -75,13 +76,7 @@ export async function POST(request: NextRequest) {
     
   } catch (error) {
     console.error("Web search error:", error);
-    return NextResponse.json(
-      { 
-        error: "Failed to perform web search",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    return errorResponse("unavailable", `Failed to perform web search: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 }
 
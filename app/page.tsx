@@ -13,19 +13,55 @@ import {
   createProject,
   createConversation,
   createMessage,
+  updateMessage,
   updateConversation,
   updateProject,
   deleteProject,
   deleteConversation,
   deleteConversationWithMessages,
-  migrateLocalDataToSupabase
+  migrateLocalDataToSupabase,
+  getPromptTemplates,
+  createPromptTemplate,
+  updatePromptTemplate,
+  deletePromptTemplate,
+  migrateLocalPromptTemplates,
+  getMemories,
+  createMemory,
+  updateMemory,
+  deleteMemory,
+  migrateLocalMemories,
+  getKnowledgeDocuments,
+  createKnowledgeDocument,
+  deleteKnowledgeDocument,
+  matchKnowledgeChunks
 } from "@/lib/database"
-import { Project as DBProject, Conversation as DBConversation, Message as DBMessage } from "@/lib/database.types"
+import { Project as DBProject, Conversation as DBConversation, Message as DBMessage, Json } from "@/lib/database.types"
+import { isChatStreamResponse, readChatStream } from "@/lib/chat-stream"
+import { getModelDefinition, getModelsForGroup, isCustomModelId, toCustomModelId, type ModelProvider } from "@/lib/models"
+import type { MessagePart, ReasoningEffort } from "@/lib/providers"
+import { estimateTokens, type ContextSummary } from "@/lib/context-window"
+import { getDefaultVariant, getVariantMessageFields, toMessageVariant, type MessageVariant } from "@/lib/message-variants"
+import { getActivePath, getBranchPosition, getLatestLeaf, getSharedPathLength, getSiblings, withParentIds } from "@/lib/message-tree"
+import { resolveFallbackEntry, type FallbackChains, type FallbackInfo } from "@/lib/fallback-chains"
+import type { JsonSchema } from "@/lib/json-schema"
+import type { ChatMode } from "@/lib/slash-commands"
+import { addUsage, fromUsageColumns, toUsageColumns, type MessageUsage } from "@/lib/usage"
+import { API_KEY_SETTINGS_FIELDS, STORED_API_KEY, VAULT_PROVIDERS, isStoredApiKey, toRequestApiKey, type VaultProvider } from "@/lib/key-vault"
+import { getAuthHeaders } from "@/lib/supabase"
+import { getFallbackTitle, isSummaryDue } from "@/lib/conversation-summary"
+import { fromPromptTemplateRow, toPromptTemplateColumns, type PromptTemplate, type PromptTemplateDraft } from "@/lib/prompt-templates"
+import { fromMemoryRow, getRememberedFacts, isSameMemory, selectRelevantMemories, toMemoryColumns, type Memory, type MemoryDraft } from "@/lib/memories"
+import { EMBEDDING_BATCH_SIZE, EMBEDDING_MODELS, parseEmbeddingModel } from "@/lib/embeddings"
+import { KNOWLEDGE_TOP_K, MAX_DOCUMENT_CHUNKS, chunkText, fromKnowledgeDocumentRow, isPdfDocument, isPlainTextDocument, mergeKnowledgeSources, type KnowledgeDocument, type KnowledgeSource } from "@/lib/knowledge-base"
+import { deleteLocalKnowledgeDocument, deleteLocalProjectKnowledge, listLocalKnowledgeDocuments, saveLocalKnowledgeDocument, searchLocalKnowledge } from "@/lib/knowledge-index"
+import { withoutPdfData } from "@/lib/file-utils"
+import { ApiRequestError, chatReplySchema, conversationSummaryResponseSchema, embeddingsResponseSchema, parseApiResponse, readApiError, storedKeysResponseSchema, uploadResponseSchema, type ApiErrorCode, type ChatRequest, type ConversationSummaryRequest, type EmbeddingsRequest } from "@/lib/api"
 import { Loader2 } from "lucide-react"
 
 // Types
 type UIMessage = {
   id: string
+  parentId?: string | null // Message this one follows; its siblings are the other branches
   content: string
   role: "user" | "assistant"
   timestamp: Date
@@ -33,12 +69,21 @@ type UIMessage = {
   model?: string
   provider?: string
   isError?: boolean
+  errorCode?: ApiErrorCode // Kind of failure for error messages, from the API error envelope
   searchResults?: Array<{
     title: string
     url: string
     snippet: string
     timestamp: string
   }>
+  knowledgeSources?: KnowledgeSource[] // Project document excerpts the reply was given to cite
+  parts?: MessagePart[] // Ordered text and tool activity for replies that used tools
+  variants?: MessageVariant[] // Answers from compare mode; the message mirrors the active one
+  activeVariantId?: string | null // null while a comparison has no chosen answer yet
+  fallback?: FallbackInfo // Set when a model from the fallback chain answered instead of the selected one
+  usage?: MessageUsage // Tokens and cost of the reply; for comparisons, of every answer
+  interrupted?: boolean // Stopped by the user; content is the partial reply
+  isSetupHint?: boolean // Welcome text shown while no model is configured; never saved
   retryData?: {
     originalMessage: string
     attachments?: ProcessedFile[]
@@ -47,6 +92,7 @@ type UIMessage = {
       codeGenerationEnabled: boolean
       enhancedWebSearch: boolean
       userLocation: string | null
+      mode?: ChatMode
     }
   }
 }
@@ -56,7 +102,7 @@ type Model = {
   name: string
   icon: string
   apiKey?: string
-  provider: "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway"
+  provider: "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway" | "custom"
   isCustom?: boolean
   customModelName?: string
   enabled?: boolean
@@ -79,12 +125,38 @@ type UserSettings = {
   runwayApiKey: string
   enabledSubModels: { [provider: string]: string[] }
   selectedTheme?: string
+  fallbackChains?: FallbackChains
+  customEndpointUrl?: string // OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio, LiteLLM)
+  customEndpointApiKey?: string // Optional; most local servers need none
+  customModels?: string[] // Model names on that server offered in the model picker
+  reasoningEfforts?: Record<string, ReasoningEffort> // Thinking effort picked per model ID
+  titleModel?: string // Cheap model that titles and summarizes conversations; unset turns that off
+  memoryEnabled?: boolean // Send memories with requests and let the model save new ones
+  embeddingModel?: string // Embeds new knowledge base documents; unset picks one from the keys in Settings
 }
 
 type UIConversation = DBConversation & {
   messages: UIMessage[]
 }
 
+// One /api/chat call; onProgress receives the streamed text and parts so far
+type ChatReplyOptions = {
+  conversation?: UIConversation
+  modelId: string
+  provider: string
+  apiKey: string
+  webSearchEnabled: boolean
+  codeGenerationEnabled: boolean
+  enhancedWebSearch: boolean
+  userLocation: string | null
+  mode?: ChatMode // Picked with a slash command; the route guesses the intent when it is missing
+  useFallbackChain?: boolean // Let /api/chat fall back along the user's chain for this model
+  temperature?: number // Instead of the one in the settings, for regenerations
+  signal?: AbortSignal // Aborting keeps what has arrived and marks the reply as interrupted
+  saveMemories?: boolean // Keep what the model saved with the remember tool; off when the caller saves once per turn
+  onProgress?: (text: string, parts: MessagePart[]) => void
+}
+
 type UIProject = {
   id: string
   name: string
@@ -93,6 +165,7 @@ type UIProject = {
   created_at: string
   updated_at: string
   color?: string | null
+  system_prompt?: string | null
 }
 
 type ProcessedFile = {
@@ -106,6 +179,22 @@ type ProcessedFile = {
   uploadedAt: string
 }
 
+// Add `message` (or replace the streaming copy with the same ID) and show the branch it ends
+function appendMessage(conv: UIConversation, message: UIMessage): UIConversation {
+  return {
+    ...conv,
+    messages: [...conv.messages.filter(msg => msg.id !== message.id), message],
+    active_leaf_id: message.id
+  }
+}
+
+// The context summary stands in for the first messageCount messages of one branch; it only carries
+// over to another branch that shares all of them
+function keepsContextSummary(conv: UIConversation, sharedPathLength: number): boolean {
+  const summary = conv.context_summary as ContextSummary | null
+  return !summary || sharedPathLength >= summary.messageCount
+}
+
 export default function Home() {
   // Authentication state
   const { 
@@ -118,9 +207,12 @@ export default function Home() {
 
   const [isClient, setIsClient] = useState(false)
   const [conversations, setConversations] = useState<UIConversation[]>([])
+  const conversationsRef = useRef(conversations) // Latest conversations for background titling
   const [currentConversationId, setCurrentConversationId] = useState("")
   const [currentModel, setCurrentModel] = useState("")
   const [isTyping, setIsTyping] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false) // From send until the reply is complete, including streaming
+  const generationAbortRef = useRef<AbortController | null>(null)
   const [userSettings, setUserSettings] = useState<UserSettings>({
     temperature: 0.7,
     models: [],
@@ -135,10 +227,23 @@ export default function Home() {
     veo2ApiKey: "",
     mistralApiKey: "",
     runwayApiKey: "",
-    enabledSubModels: {}
+    enabledSubModels: {},
+    fallbackChains: {},
+    customEndpointUrl: "",
+    customEndpointApiKey: "",
+    customModels: []
   })
+  const userSettingsRef = useRef(userSettings) // Latest settings for the debounced vault sync
+  const [keyVaultEnabled, setKeyVaultEnabled] = useState(false) // Signed in and the server can store keys
+  const storedKeyProvidersRef = useRef<Set<VaultProvider>>(new Set())
+  const vaultSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const [showAuthModal, setShowAuthModal] = useState(false)
+  const [responseSchema, setResponseSchema] = useState<JsonSchema | null>(null) // JSON output mode
   const [projects, setProjects] = useState<UIProject[]>([])
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([])
+  const [memories, setMemories] = useState<Memory[]>([])
+  const [knowledgeDocuments, setKnowledgeDocuments] = useState<KnowledgeDocument[]>([])
+  const pendingSystemPromptRef = useRef<string | null>(null) // From a template used before the conversation exists
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null)
   const [expandedProjects, setExpandedProjects] = useState<Record<string, boolean>>({})
   const [dataLoading, setDataLoading] = useState(false)
@@ -237,7 +342,15 @@ export default function Home() {
             veo2ApiKey: parsed.veo2ApiKey || "",
             mistralApiKey: parsed.mistralApiKey || "",
             runwayApiKey: parsed.runwayApiKey || "",
-            enabledSubModels: parsed.enabledSubModels || {}
+            enabledSubModels: parsed.enabledSubModels || {},
+            fallbackChains: parsed.fallbackChains || {},
+            customEndpointUrl: parsed.customEndpointUrl || "",
+            customEndpointApiKey: parsed.customEndpointApiKey || "",
+            customModels: parsed.customModels || [],
+            reasoningEfforts: parsed.reasoningEfforts || {},
+            titleModel: parsed.titleModel || "",
+            memoryEnabled: parsed.memoryEnabled === true,
+            embeddingModel: parsed.embeddingModel || ""
           }
         }
       } catch (error) {
@@ -258,7 +371,11 @@ export default function Home() {
         veo2ApiKey: "",
         mistralApiKey: "",
         runwayApiKey: "",
-        enabledSubModels: {}
+        enabledSubModels: {},
+        fallbackChains: {},
+        customEndpointUrl: "",
+        customEndpointApiKey: "",
+        customModels: []
       }
     }
 
@@ -272,12 +389,16 @@ export default function Home() {
             title: conv.title,
             timestamp: new Date(conv.timestamp),
             model: conv.model,
-            messages: conv.messages.map((msg: any) => ({
+            messages: withParentIds(conv.messages.map((msg: any) => ({
               ...msg,
               timestamp: new Date(msg.timestamp)
-            })),
+            }))),
+            active_leaf_id: conv.active_leaf_id || null,
             user_id: "local",
             project_id: conv.project_id || null,
+            system_prompt: conv.system_prompt || null,
+            context_summary: conv.context_summary || null,
+            summary: conv.summary || null,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           }))
@@ -308,7 +429,8 @@ export default function Home() {
             user_id: "local",
             created_at: proj.created_at || new Date().toISOString(),
             updated_at: proj.updated_at || new Date().toISOString(),
-            color: proj.color || null
+            color: proj.color || null,
+            system_prompt: proj.system_prompt || null
           }))
           setProjects(mappedProjects)
         } else {
@@ -320,6 +442,35 @@ export default function Home() {
       }
     }
 
+    const loadLocalPromptTemplates = () => {
+      try {
+        const saved = localStorage.getItem("apeiron-chat-prompt-templates")
+        setPromptTemplates(saved ? JSON.parse(saved) : [])
+      } catch (error) {
+        console.error("Failed to load local prompt templates:", error)
+        setPromptTemplates([])
+      }
+    }
+
+    const loadLocalMemories = () => {
+      try {
+        const saved = localStorage.getItem("apeiron-chat-memories")
+        setMemories(saved ? JSON.parse(saved) : [])
+      } catch (error) {
+        console.error("Failed to load local memories:", error)
+        setMemories([])
+      }
+    }
+
+    const loadLocalKnowledgeDocuments = () => {
+      listLocalKnowledgeDocuments()
+        .then(setKnowledgeDocuments)
+        .catch(error => {
+          console.error("Failed to load local knowledge documents:", error)
+          setKnowledgeDocuments([])
+        })
+    }
+
     // Clean up URL fragments first
     cleanUpUrlFragments()
     
@@ -349,6 +500,9 @@ export default function Home() {
     
     loadLocalConversations() // Load local conversations for non-authenticated users
     loadLocalProjects() // Load local projects for non-authenticated users
+    loadLocalPromptTemplates()
+    loadLocalMemories()
+    loadLocalKnowledgeDocuments()
     setIsClient(true) // Set client to true after settings are loaded
   }, [])
 
@@ -359,6 +513,132 @@ export default function Home() {
     }
   }, [isAuthenticated, user, authLoading])
 
+  useEffect(() => {
+    userSettingsRef.current = userSettings
+  }, [userSettings])
+
+  useEffect(() => {
+    conversationsRef.current = conversations
+  }, [conversations])
+
+  // Switch between vault and local keys when the session changes, once local settings are loaded
+  useEffect(() => {
+    if (!isClient || authLoading) return
+    if (isAuthenticated) {
+      loadKeyVault()
+    } else {
+      disableKeyVault()
+    }
+  }, [isClient, isAuthenticated, authLoading])
+
+  // In vault mode only STORED_API_KEY markers are written to localStorage; raw keys stay in memory until uploaded
+  const persistSettings = (settings: UserSettings, vaultEnabled: boolean) => {
+    if (typeof window === 'undefined') return
+    const persisted = { ...settings }
+    if (vaultEnabled) {
+      Object.values(API_KEY_SETTINGS_FIELDS).forEach(field => {
+        if (!isStoredApiKey(persisted[field])) persisted[field] = ""
+      })
+    }
+    localStorage.setItem('apeiron-chat-user-settings', JSON.stringify(persisted))
+  }
+
+  const applySettings = (settings: UserSettings, vaultEnabled: boolean) => {
+    userSettingsRef.current = settings
+    setUserSettings(settings)
+    persistSettings(settings, vaultEnabled)
+  }
+
+  const loadKeyVault = async () => {
+    try {
+      const response = await fetch('/api/keys', { headers: await getAuthHeaders() })
+      if (!response.ok) {
+        // 503 when the server has no API_KEY_ENCRYPTION_SECRET; keys then stay in localStorage
+        console.log("[DEBUG PAGE] Key vault unavailable, keeping local API keys:", response.status)
+        disableKeyVault()
+        return
+      }
+
+      const { keys } = parseApiResponse(storedKeysResponseSchema, await response.json())
+      storedKeyProvidersRef.current = new Set(keys.map(key => key.provider))
+      setKeyVaultEnabled(true)
+
+      const settings = { ...userSettingsRef.current }
+      keys.forEach(({ provider }) => {
+        const field = API_KEY_SETTINGS_FIELDS[provider]
+        if (!settings[field]) settings[field] = STORED_API_KEY
+      })
+      applySettings(settings, true)
+
+      // Move keys saved locally before signing in into the vault
+      await syncApiKeysWithVault()
+    } catch (error) {
+      console.error("[ERROR] Failed to load the key vault:", error)
+      disableKeyVault()
+    }
+  }
+
+  const disableKeyVault = () => {
+    if (vaultSyncTimerRef.current) clearTimeout(vaultSyncTimerRef.current)
+    storedKeyProvidersRef.current = new Set()
+    setKeyVaultEnabled(false)
+
+    // Markers are useless without a session, so those providers need their key entered again
+    const settings = userSettingsRef.current
+    const fields = Object.values(API_KEY_SETTINGS_FIELDS).filter(field => isStoredApiKey(settings[field]))
+    if (fields.length > 0) {
+      const cleared = { ...settings }
+      fields.forEach(field => { cleared[field] = "" })
+      applySettings(cleared, false)
+    }
+  }
+
+  // Upload new keys and remove cleared ones, then swap uploaded keys for markers
+  const syncApiKeysWithVault = async () => {
+    const settings = userSettingsRef.current
+    const headers = { 'Content-Type': 'application/json', ...(await getAuthHeaders()) }
+    const uploaded: VaultProvider[] = []
+    let failed = false
+
+    for (const provider of VAULT_PROVIDERS) {
+      const value = settings[API_KEY_SETTINGS_FIELDS[provider]] || ""
+      try {
+        if (value && !isStoredApiKey(value)) {
+          const response = await fetch('/api/keys', { method: 'PUT', headers, body: JSON.stringify({ provider, apiKey: value }) })
+          if (!response.ok) throw ApiRequestError.from(await readApiError(response))
+          storedKeyProvidersRef.current.add(provider)
+          uploaded.push(provider)
+        } else if (!value && storedKeyProvidersRef.current.has(provider)) {
+          const response = await fetch(`/api/keys?provider=${provider}`, { method: 'DELETE', headers })
+          if (!response.ok) throw ApiRequestError.from(await readApiError(response))
+          storedKeyProvidersRef.current.delete(provider)
+        }
+      } catch (error) {
+        failed = true
+        console.error(`[ERROR] Failed to sync the ${provider} API key with the vault:`, error)
+      }
+    }
+
+    // Keys edited again while uploading keep their new value for the next sync
+    const current = userSettingsRef.current
+    const next = { ...current }
+    uploaded.forEach(provider => {
+      const field = API_KEY_SETTINGS_FIELDS[provider]
+      if (current[field] === settings[field]) next[field] = STORED_API_KEY
+    })
+    // Keys the vault did not take are kept locally rather than lost on reload
+    applySettings(next, !failed)
+  }
+
+  // Key inputs save on every keystroke, so wait for typing to stop before uploading
+  const scheduleVaultSync = () => {
+    if (vaultSyncTimerRef.current) clearTimeout(vaultSyncTimerRef.current)
+    vaultSyncTimerRef.current = setTimeout(() => {
+      vaultSyncTimerRef.current = null
+      syncApiKeysWithVault()
+    }, 800)
+  }
+
   const loadUserData = async () => {
     if (!user || dataLoading || loadingRef.current) return
     
@@ -388,10 +668,37 @@ export default function Home() {
         user_id: p.user_id,
         created_at: p.created_at,
         updated_at: p.updated_at,
-        color: p.color
+        color: p.color,
+        system_prompt: p.system_prompt
       }))
       setProjects(uiProjects)
 
+      // Load prompt templates, bringing along any saved before signing in
+      try {
+        await migrateLocalPromptTemplates(user.id)
+        const userTemplates = await getPromptTemplates(user.id)
+        setPromptTemplates(userTemplates.map(fromPromptTemplateRow))
+      } catch (error) {
+        console.error('Error loading prompt templates:', error)
+      }
+
+      // Load memories, bringing along any saved before signing in
+      try {
+        await migrateLocalMemories(user.id)
+        const userMemories = await getMemories(user.id)
+        setMemories(userMemories.map(fromMemoryRow))
+      } catch (error) {
+        console.error('Error loading memories:', error)
+      }
+
+      // Load the documents of every project's knowledge base
+      try {
+        const userDocuments = await getKnowledgeDocuments(user.id)
+        setKnowledgeDocuments(userDocuments.map(fromKnowledgeDocumentRow))
+      } catch (error) {
+        console.error('Error loading knowledge documents:', error)
+      }
+
       // Load conversations
       const userConversations = await getConversations(user.id)
       
@@ -402,16 +709,24 @@ export default function Home() {
             const messages = await getMessages(conv.id)
             return {
               ...conv,
-              messages: messages.map(msg => ({
+              messages: withParentIds(messages.map(msg => ({
                 id: msg.id,
+                parentId: msg.parent_id,
                 content: msg.content,
                 role: msg.role as "user" | "assistant",
                 timestamp: new Date(msg.timestamp),
                 model: msg.model || undefined,
                 provider: msg.provider || undefined,
                 attachments: msg.attachments as any[] || undefined,
-                searchResults: msg.search_results as any[] || undefined
-              }))
+                searchResults: msg.search_results as any[] || undefined,
+                knowledgeSources: msg.knowledge_sources as KnowledgeSource[] || undefined,
+                parts: msg.parts as MessagePart[] || undefined,
+                variants: msg.variants as MessageVariant[] || undefined,
+                activeVariantId: msg.active_variant_id,
+                fallback: msg.fallback as FallbackInfo || undefined,
+                usage: fromUsageColumns(msg),
+                interrupted: msg.interrupted || undefined
+              })))
             }
           } catch (error) {
             console.error(`Error loading messages for conversation ${conv.id}:`, error)
@@ -447,8 +762,12 @@ export default function Home() {
           title: conv.title,
           timestamp: conv.updated_at,
           model: conv.model,
-          messages: conv.messages,
-          project_id: conv.project_id
+          messages: conv.messages.map(msg => msg.attachments ? { ...msg, attachments: withoutPdfData(msg.attachments) } : msg),
+          project_id: conv.project_id,
+          system_prompt: conv.system_prompt,
+          context_summary: conv.context_summary,
+          summary: conv.summary,
+          active_leaf_id: conv.active_leaf_id
         }))
         localStorage.setItem("apeiron-chat-conversations", JSON.stringify(localConversations))
       } catch (error) {
@@ -467,7 +786,8 @@ export default function Home() {
           description: proj.description,
           created_at: proj.created_at,
           updated_at: proj.updated_at,
-          color: proj.color
+          color: proj.color,
+          system_prompt: proj.system_prompt
         }))
         localStorage.setItem("apeiron-chat-projects", JSON.stringify(localProjects))
       } catch (error) {
@@ -476,6 +796,288 @@ export default function Home() {
     }
   }
 
+  const savePromptTemplatesLocally = (updatedTemplates: PromptTemplate[]) => {
+    if (!isAuthenticated) {
+      try {
+        localStorage.setItem("apeiron-chat-prompt-templates", JSON.stringify(updatedTemplates))
+      } catch (error) {
+        console.error("Failed to save prompt templates locally:", error)
+      }
+    }
+  }
+
+  const handleCreatePromptTemplates = async (drafts: PromptTemplateDraft[]) => {
+    const now = new Date().toISOString()
+    const created = await Promise.all(drafts.map(async (draft, index): Promise<PromptTemplate> => {
+      const template: PromptTemplate = { ...draft, id: `${Date.now()}-${index}`, createdAt: now, updatedAt: now }
+      if (isAuthenticated && user) {
+        try {
+          const row = await createPromptTemplate({
+            user_id: user.id,
+            ...toPromptTemplateColumns(draft),
+            name: draft.name,
+            content: draft.content
+          })
+          return fromPromptTemplateRow(row)
+        } catch (error) {
+          console.error('Error creating prompt template in database:', error)
+        }
+      }
+      return template
+    }))
+
+    setPromptTemplates(previous => {
+      const updatedTemplates = [...created, ...previous]
+      savePromptTemplatesLocally(updatedTemplates)
+      return updatedTemplates
+    })
+  }
+
+  const handleUpdatePromptTemplate = async (id: string, updates: Partial<PromptTemplateDraft>) => {
+    const updatedTemplates = promptTemplates.map(template =>
+      template.id === id ? { ...template, ...updates, updatedAt: new Date().toISOString() } : template
+    )
+    setPromptTemplates(updatedTemplates)
+    savePromptTemplatesLocally(updatedTemplates)
+
+    if (isAuthenticated) {
+      try {
+        await updatePromptTemplate(id, toPromptTemplateColumns(updates))
+      } catch (error) {
+        console.error('Error updating prompt template:', error)
+      }
+    }
+  }
+
+  const handleDeletePromptTemplate = async (id: string) => {
+    const updatedTemplates = promptTemplates.filter(template => template.id !== id)
+    setPromptTemplates(updatedTemplates)
+    savePromptTemplatesLocally(updatedTemplates)
+
+    if (isAuthenticated) {
+      try {
+        await deletePromptTemplate(id)
+      } catch (error) {
+        console.error('Error deleting prompt template:', error)
+      }
+    }
+  }
+
+  const saveMemoriesLocally = (updatedMemories: Memory[]) => {
+    if (!isAuthenticated) {
+      try {
+        localStorage.setItem("apeiron-chat-memories", JSON.stringify(updatedMemories))
+      } catch (error) {
+        console.error("Failed to save memories locally:", error)
+      }
+    }
+  }
+
+  // Memories the user adds in Settings or the model saves during a reply; repeats of a memory are skipped
+  const handleCreateMemories = async (drafts: MemoryDraft[]) => {
+    const newDrafts = drafts.filter((draft, index) =>
+      draft.content.trim() &&
+      !memories.some(memory => isSameMemory(memory.content, draft.content)) &&
+      !drafts.slice(0, index).some(earlier => isSameMemory(earlier.content, draft.content))
+    )
+    if (newDrafts.length === 0) return
+
+    const now = new Date().toISOString()
+    const created = await Promise.all(newDrafts.map(async (draft, index): Promise<Memory> => {
+      const memory: Memory = { ...draft, content: draft.content.trim(), enabled: true, id: `${Date.now()}-${index}`, createdAt: now, updatedAt: now }
+      if (isAuthenticated && user) {
+        try {
+          const row = await createMemory({
+            user_id: user.id,
+            ...toMemoryColumns(draft),
+            content: memory.content
+          })
+          return fromMemoryRow(row)
+        } catch (error) {
+          console.error('Error creating memory in database:', error)
+        }
+      }
+      return memory
+    }))
+
+    setMemories(previous => {
+      const updatedMemories = [...created, ...previous]
+      saveMemoriesLocally(updatedMemories)
+      return updatedMemories
+    })
+  }
+
+  const handleUpdateMemory = async (id: string, updates: Partial<Pick<Memory, "content" | "enabled">>) => {
+    const updatedMemories = memories.map(memory =>
+      memory.id === id ? { ...memory, ...updates, updatedAt: new Date().toISOString() } : memory
+    )
+    setMemories(updatedMemories)
+    saveMemoriesLocally(updatedMemories)
+
+    if (isAuthenticated) {
+      try {
+        await updateMemory(id, toMemoryColumns(updates))
+      } catch (error) {
+        console.error('Error updating memory:', error)
+      }
+    }
+  }
+
+  const handleDeleteMemory = async (id: string) => {
+    const updatedMemories = memories.filter(memory => memory.id !== id)
+    setMemories(updatedMemories)
+    saveMemoriesLocally(updatedMemories)
+
+    if (isAuthenticated) {
+      try {
+        await deleteMemory(id)
+      } catch (error) {
+        console.error('Error deleting memory:', error)
+      }
+    }
+  }
+
+  // Embeds new knowledge base documents: the model picked in Settings, or the first provider with a key
+  const getEmbeddingModelId = (): string | null => {
+    if (userSettings.embeddingModel) return userSettings.embeddingModel
+    const automatic = EMBEDDING_MODELS.find(model => hasUsableKey(model.provider, getApiKeyForProvider(model.provider, userSettings)))
+    return automatic?.id || null
+  }
+
+  const embedTexts = async (texts: string[], modelId: string): Promise<number[][]> => {
+    const model = parseEmbeddingModel(modelId)
+    if (!model) {
+      throw new ApiRequestError("unsupported_model", `Unknown embedding model ${modelId}`)
+    }
+
+    const body: EmbeddingsRequest = {
+      texts,
+      model: modelId,
+      apiKey: toRequestApiKey(getApiKeyForProvider(model.provider, userSettings)),
+      customBaseUrl: userSettings.customEndpointUrl || undefined
+    }
+    const response = await fetch('/api/embeddings', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(keyVaultEnabled ? await getAuthHeaders() : {})
+      },
+      body: JSON.stringify(body)
+    })
+    if (!response.ok) {
+      throw ApiRequestError.from(await readApiError(response))
+    }
+    return parseApiResponse(embeddingsResponseSchema, await response.json()).embeddings
+  }
+
+  // Text of a knowledge base file; PDFs are read by /api/upload
+  const readKnowledgeFile = async (file: File): Promise<string> => {
+    if (isPlainTextDocument(file)) return file.text()
+    if (!isPdfDocument(file)) {
+      throw new Error('Only PDF and text files can be added to a knowledge base')
+    }
+
+    const formData = new FormData()
+    formData.append('file', file)
+    const response = await fetch('/api/upload', { method: 'POST', body: formData })
+    if (!response.ok) {
+      throw ApiRequestError.from(await readApiError(response))
+    }
+    const { file: processed } = parseApiResponse(uploadResponseSchema, await response.json())
+    if (processed.textExtracted === false || !processed.extractedText) {
+      throw new Error('No text could be read from this PDF; it may be scanned or encrypted')
+    }
+    return processed.extractedText
+  }
+
+  // Add files to a project's knowledge base, one at a time. Each shows as processing until its chunks
+  // are embedded and stored, or with the error that stopped it.
+  const handleAddKnowledgeDocuments = async (projectId: string, files: File[]) => {
+    const modelId = getEmbeddingModelId()
+    const now = new Date().toISOString()
+    const pending: KnowledgeDocument[] = files.map((file, index) => ({
+      id: `${Date.now()}-${index}`,
+      projectId,
+      name: file.name,
+      type: file.type || 'text/plain',
+      size: file.size,
+      chunkCount: 0,
+      embeddingModel: modelId || '',
+      status: 'processing',
+      createdAt: now
+    }))
+    setKnowledgeDocuments(previous => [...pending, ...previous])
+
+    for (const [index, file] of files.entries()) {
+      const placeholder = pending[index]
+      try {
+        if (!modelId) {
+          throw new Error('Add an OpenAI, Gemini or Mistral API key, or pick an embedding model in Settings → Models')
+        }
+
+        // Very long documents keep their first MAX_DOCUMENT_CHUNKS chunks
+        const chunks = chunkText(await readKnowledgeFile(file)).slice(0, MAX_DOCUMENT_CHUNKS)
+        if (chunks.length === 0) {
+          throw new Error('No text found in this file')
+        }
+        const embeddings: number[][] = []
+        for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+          embeddings.push(...await embedTexts(chunks.slice(start, start + EMBEDDING_BATCH_SIZE), modelId))
+        }
+        const embeddedChunks = chunks.map((content, chunkIndex) => ({ content, embedding: embeddings[chunkIndex] }))
+
+        let document: KnowledgeDocument = { ...placeholder, chunkCount: chunks.length, status: 'ready' }
+        if (isAuthenticated && user) {
+          const row = await createKnowledgeDocument({
+            user_id: user.id,
+            project_id: projectId,
+            name: document.name,
+            type: document.type,
+            size: document.size,
+            chunk_count: document.chunkCount,
+            embedding_model: modelId
+          }, embeddedChunks)
+          document = fromKnowledgeDocumentRow(row)
+        } else {
+          await saveLocalKnowledgeDocument(document, embeddedChunks)
+        }
+        setKnowledgeDocuments(previous => previous.map(doc => doc.id === placeholder.id ? document : doc))
+      } catch (error) {
+        console.error('Error adding knowledge document:', error)
+        const message = error instanceof Error ? error.message : 'Failed to process the document'
+        setKnowledgeDocuments(previous => previous.map(doc =>
+          doc.id === placeholder.id ? { ...doc, status: 'error', error: message } : doc
+        ))
+      }
+    }
+  }
+
+  const handleDeleteKnowledgeDocument = async (id: string) => {
+    const document = knowledgeDocuments.find(doc => doc.id === id)
+    setKnowledgeDocuments(previous => previous.filter(doc => doc.id !== id))
+    // Documents that failed or are still processing were never stored
+    if (document?.status !== 'ready') return
+
+    try {
+      if (isAuthenticated) {
+        await deleteKnowledgeDocument(id)
+      } else {
+        await deleteLocalKnowledgeDocument(id)
+      }
+    } catch (error) {
+      console.error('Error deleting knowledge document:', error)
+    }
+  }
+
+  // A template's system prompt goes on the open conversation, or on the next one the user starts
+  const handleApplyTemplateSystemPrompt = (systemPrompt: string) => {
+    if (currentConversationId && conversations.some(conv => conv.id === currentConversationId)) {
+      handleUpdateConversationSystemPrompt(currentConversationId, systemPrompt)
+    } else {
+      pendingSystemPromptRef.current = systemPrompt.trim() || null
+    }
+  }
+
   const handleCreateProject = async (name: string = "New Project", description?: string) => {
     const newProject: UIProject = {
       id: Date.now().toString(),
@@ -544,12 +1146,25 @@ export default function Home() {
       setSelectedProjectId(null)
     }
 
+    const updatedTemplates = promptTemplates.filter(template => template.projectId !== id)
+    setPromptTemplates(updatedTemplates)
+    savePromptTemplatesLocally(updatedTemplates)
+
+    // The database removes a project's documents with it; the local index needs telling
+    setKnowledgeDocuments(previous => previous.filter(document => document.projectId !== id))
+
     if (isAuthenticated) {
       try {
         await deleteProject(id)
       } catch (error) {
         console.error('Error deleting project:', error)
       }
+    } else {
+      try {
+        await deleteLocalProjectKnowledge(id)
+      } catch (error) {
+        console.error('Error deleting project knowledge base:', error)
+      }
     }
   }
 
@@ -607,6 +1222,10 @@ export default function Home() {
       messages: [],
       user_id: user?.id || "local",
       project_id: shouldAssignToProject ? selectedProjectId : null,
+      system_prompt: null,
+      context_summary: null,
+      summary: null,
+      active_leaf_id: null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     }
@@ -635,6 +1254,7 @@ export default function Home() {
 
   const handleSelectConversation = async (id: string) => {
     setCurrentConversationId(id)
+    pendingSystemPromptRef.current = null
     
     // Check if conversation already has messages loaded
     const conversation = conversations.find(conv => conv.id === id)
@@ -647,16 +1267,24 @@ export default function Home() {
     if (isAuthenticated && user) {
       try {
         const messages = await getMessages(id)
-        const loadedMessages = messages.map(msg => ({
+        const loadedMessages = withParentIds(messages.map(msg => ({
           id: msg.id,
+          parentId: msg.parent_id,
           content: msg.content,
           role: msg.role as "user" | "assistant",
           timestamp: new Date(msg.timestamp),
           model: msg.model || undefined,
           provider: msg.provider || undefined,
           attachments: msg.attachments as any[] || undefined,
-          searchResults: msg.search_results as any[] || undefined
-        }))
+          searchResults: msg.search_results as any[] || undefined,
+          knowledgeSources: msg.knowledge_sources as KnowledgeSource[] || undefined,
+          parts: msg.parts as MessagePart[] || undefined,
+          variants: msg.variants as MessageVariant[] || undefined,
+          activeVariantId: msg.active_variant_id,
+          fallback: msg.fallback as FallbackInfo || undefined,
+          usage: fromUsageColumns(msg),
+          interrupted: msg.interrupted || undefined
+        })))
         
         // Update the conversation with fresh messages from database
         const updatedConversations = conversations.map(conv =>
@@ -689,6 +1317,37 @@ export default function Home() {
     await handleUpdateProject(id, { name: newName })
   }
 
+  const handleUpdateConversationSystemPrompt = async (id: string, systemPrompt: string) => {
+    const normalizedPrompt = systemPrompt.trim() || null
+    const updatedConversations = conversations.map(conv =>
+      conv.id === id ? { ...conv, system_prompt: normalizedPrompt } : conv
+    )
+    setConversations(updatedConversations)
+    saveConversationsLocally(updatedConversations)
+
+    if (isAuthenticated) {
+      try {
+        await updateConversation(id, { system_prompt: normalizedPrompt })
+      } catch (error) {
+        console.error('Error updating conversation system prompt:', error)
+      }
+    }
+  }
+
+  const handleUpdateProjectSystemPrompt = async (id: string, systemPrompt: string) => {
+    await handleUpdateProject(id, { system_prompt: systemPrompt.trim() || null })
+  }
+
+  // Project instructions apply to every conversation in the project; conversation instructions follow them
+  const getSystemPromptForConversation = (conversation?: UIConversation): string | undefined => {
+    if (!conversation) return undefined
+    const project = conversation.project_id ? projects.find(p => p.id === conversation.project_id) : undefined
+    const prompt = [project?.system_prompt, conversation.system_prompt]
+      .filter((part): part is string => !!part && part.trim().length > 0)
+      .join("\n\n")
+    return prompt || undefined
+  }
+
   const handleExpandedProjectsChange = (newExpandedProjects: Record<string, boolean>) => {
     setExpandedProjects(newExpandedProjects)
   }
@@ -723,188 +1382,506 @@ export default function Home() {
     }
   }
 
-  const handleSendMessage = async (
-    message: string, 
-    attachments?: ProcessedFile[], 
-    webSearchEnabled: boolean = false, 
-    codeGenerationEnabled: boolean = false,
-    userLocation: string | null = null,
-    enhancedWebSearch: boolean = false,
-    overrideModel?: string
-  ) => {
+  // Send the conversation to /api/chat and collect the reply.
+  // Streamed replies report their text and tool parts through onProgress as they arrive.
+  // When signal aborts, the reply so far comes back with interrupted set instead of an error.
+  const requestChatReply = async ({
+    conversation,
+    modelId,
+    provider,
+    apiKey,
+    webSearchEnabled,
+    codeGenerationEnabled,
+    enhancedWebSearch,
+    userLocation,
+    mode,
+    useFallbackChain = false,
+    temperature = userSettings.temperature,
+    signal,
+    saveMemories = true,
+    onProgress
+  }: ChatReplyOptions): Promise<any> => {
+    // Only the branch on screen is sent; error messages are left out
+    const activeMessages = getActivePath(conversation?.messages || [], conversation?.active_leaf_id)
+      .filter(msg => !msg.isError) // Remove error messages
+    const latestUserMessage = activeMessages.filter(msg => msg.role === 'user').pop()
+    const cleanMessages = activeMessages.map(msg => ({
+      role: msg.role,
+      content: msg.content,
+      // PDF files go with the turn they were attached on; earlier turns send their text
+      attachments: msg === latestUserMessage ? msg.attachments : withoutPdfData(msg.attachments)
+    }))
+
+    // Memories are picked by how the conversation started and where it is now
+    const userTurns = cleanMessages.filter(msg => msg.role === 'user')
+    const relevantMemories = userSettings.memoryEnabled
+      ? selectRelevantMemories(memories, `${userTurns[0]?.content || ''}\n${userTurns[userTurns.length - 1]?.content || ''}`)
+      : undefined
+    const knowledgeSources = await retrieveKnowledge(conversation, userTurns[userTurns.length - 1]?.content || '')
+
+    // Prepare headers with location data if available; the session lets the route use vault keys
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(keyVaultEnabled ? await getAuthHeaders() : {})
+    };
+    
+    if (webSearchEnabled && userLocation) {
+      headers['x-user-location'] = userLocation;
+    }
+
+    // Make API call to get AI response
+    const body: ChatRequest = {
+      messages: cleanMessages,
+      provider: provider,
+      apiKey: toRequestApiKey(apiKey),
+      model: modelId,
+      temperature,
+      systemPrompt: getSystemPromptForConversation(conversation),
+      contextSummary: (conversation?.context_summary as ContextSummary | null) || null,
+      fallbacks: useFallbackChain ? getFallbackCandidates(modelId) : undefined,
+      customBaseUrl: userSettings.customEndpointUrl || undefined,
+      reasoningEfforts: userSettings.reasoningEfforts,
+      responseSchema: responseSchema || undefined,
+      mode,
+      memories: relevantMemories,
+      memoryEnabled: userSettings.memoryEnabled || false,
+      knowledgeSources,
+      webSearchEnabled,
+      codeGenerationEnabled: codeGenerationEnabled || false, // Ensure it's a boolean
+      enhancedWebSearch,
+      // Keys used for image and video generation routing; stored keys are resolved by the route
+      openaiApiKey: toRequestApiKey(userSettings.openaiApiKey),
+      geminiApiKey: toRequestApiKey(userSettings.geminiApiKey),
+      veo2ApiKey: toRequestApiKey(userSettings.veo2ApiKey),
+      runwayApiKey: toRequestApiKey(userSettings.runwayApiKey)
+    }
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    }).catch(error => {
+      if (signal?.aborted) return null; // Stopped before the reply started
+      console.error("[ERROR] Fetch error:", error);
+      throw new ApiRequestError("unavailable", `Network error: ${error.message || "Failed to connect to API"}`);
+    });
+
+    if (!response) {
+      return { model: modelId, provider, response: "", interrupted: true }
+    }
+
+    if (!response.ok) {
+      const apiError = await readApiError(response);
+      console.error(`[ERROR] HTTP error ${response.status}:`, apiError);
+      throw ApiRequestError.from(apiError);
+    }
+
+    if (!isChatStreamResponse(response)) {
+      const data = await response.json().catch(error => {
+        if (signal?.aborted) return null;
+        console.error("[ERROR] JSON parse error:", error);
+        throw new ApiRequestError("internal", "Failed to parse API response");
+      });
+      if (!data) return { model: modelId, provider, response: "", interrupted: true };
+      const reply = parseApiResponse(chatReplySchema, data);
+      if (saveMemories) void rememberFacts(reply.parts, conversation?.id);
+      return { ...reply, knowledgeSources };
+    }
+
+    let streamedText = ""
+    const streamedParts: MessagePart[] = []
+    let data: any = { model: modelId, provider, knowledgeSources }
+
     try {
-      if (!message.trim() && !attachments?.length) return
+      for await (const event of readChatStream(response)) {
+        if (event.type === "error") {
+          throw ApiRequestError.from(event.error)
+        }
 
-      // Use the override model if provided, otherwise use currentModel
-      const modelToUse = overrideModel || currentModel;
-      
-      // Special handling for OpenRouter - ensure we're using the correct model ID
-      let finalModelToUse = modelToUse;
-      let providerToUse = getProviderFromModel(finalModelToUse);
-      
-      // Check if we're using an OpenRouter model format (with slash) but OpenRouter is disabled
-      if (!userSettings.openrouterEnabled && finalModelToUse.includes('/')) {
-        console.log("[DEBUG] Detected OpenRouter model format while OpenRouter is disabled");
-        // Get the first available provider model instead
-        const availableModels = getAvailableModelsForSettings(userSettings);
-        if (availableModels.length > 0) {
-          finalModelToUse = availableModels[0].id;
-          providerToUse = getProviderFromModel(finalModelToUse);
-          console.log("[DEBUG] Switched to provider model:", finalModelToUse);
+        if (event.type === "done") {
+          data = {
+            ...data,
+            model: event.model,
+            provider: event.provider,
+            searchResults: event.searchResults,
+            contextSummary: event.contextSummary,
+            fallback: event.fallback,
+            usage: event.usage
+          }
+          continue
         }
-      }
-      
-      if (userSettings.openrouterEnabled) {
-        // If we have an explicit override model, use that (for retries with specific models)
-        // Otherwise use the OpenRouter model name from settings
-        if (overrideModel) {
-          finalModelToUse = overrideModel;
-          console.log("[DEBUG] Using override model for OpenRouter:", finalModelToUse);
+
+        if (event.type === "tool-call") {
+          streamedParts.push({ type: "tool-call", ...event.toolCall })
+        } else if (event.type === "tool-result") {
+          streamedParts.push({ type: "tool-result", ...event.toolResult })
+        } else if (event.type === "reasoning") {
+          const lastPart = streamedParts[streamedParts.length - 1]
+          if (lastPart?.type === "reasoning") {
+            lastPart.text += event.text
+          } else {
+            streamedParts.push({ type: "reasoning", text: event.text })
+          }
         } else {
-          finalModelToUse = userSettings.openrouterModelName || "anthropic/claude-3-sonnet";
-          console.log("[DEBUG] Using default OpenRouter model from settings:", finalModelToUse);
+          streamedText += event.text
+          const lastPart = streamedParts[streamedParts.length - 1]
+          if (lastPart?.type === "text") {
+            lastPart.text += event.text
+          } else {
+            streamedParts.push({ type: "text", text: event.text.trimStart() })
+          }
         }
-        
-        // If the model doesn't have a provider prefix, add it
-        if (!finalModelToUse.includes('/')) {
-          if (finalModelToUse.includes('gpt')) {
-            finalModelToUse = `openai/${finalModelToUse}`;
-          } else if (finalModelToUse.includes('claude')) {
-            finalModelToUse = `anthropic/${finalModelToUse}`;
-          } else if (finalModelToUse.includes('gemini')) {
-            finalModelToUse = `google/${finalModelToUse}`;
-          } else if (finalModelToUse.includes('mistral')) {
-            finalModelToUse = `mistral/${finalModelToUse}`;
-          } else if (finalModelToUse.includes('llama')) {
-            finalModelToUse = `meta-llama/${finalModelToUse}`;
-          } else if (finalModelToUse.includes('deepseek')) {
-            finalModelToUse = `deepseek/${finalModelToUse}`;
-          }
-        }
-        console.log("[DEBUG] Final OpenRouter model to use:", finalModelToUse);
-        
-        // Force provider to be openrouter when in OpenRouter mode
-        providerToUse = "openrouter";
+
+        onProgress?.(streamedText, streamedParts)
       }
+    } catch (error) {
+      // Keep whatever arrived before the user pressed Stop
+      if (!signal?.aborted) throw error
+      data.interrupted = true
+    }
 
-      // Create a conversation if none exists
-      let activeConversationId = currentConversationId
-      let workingConversations = conversations
+    data.response = streamedText.trim()
+    if (streamedParts.some(part => part.type !== "text")) {
+      data.parts = streamedParts
+    }
+    if (saveMemories) void rememberFacts(data.parts, conversation?.id)
+    return data
+  }
 
-      if (conversations.length === 0 || !currentConversationId) {
-        // Create a new conversation immediately with the message as title
-        const title = message.slice(0, 50) + (message.length > 50 ? '...' : '')
-        
-        // Only assign to project if it's both selected AND expanded
-        const shouldAssignToProject = selectedProjectId && expandedProjects[selectedProjectId]
-        
-        const newConversation: UIConversation = {
-          id: Date.now().toString(),
-          title: title,
-          model: finalModelToUse,
-          messages: [],
-          user_id: user?.id || "local",
-          project_id: shouldAssignToProject ? selectedProjectId : null,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }
+  // Keep what the model saved with the remember tool, linked to the conversation it came from
+  const rememberFacts = async (parts: MessagePart[] | undefined, conversationId: string | undefined) => {
+    const facts = getRememberedFacts(parts)
+    if (facts.length === 0) return
+    try {
+      await handleCreateMemories(facts.map(content => ({ content, source: 'model', conversationId: conversationId || null })))
+    } catch (error) {
+      console.error('[ERROR] Failed to save memories:', error)
+    }
+  }
 
-        if (isAuthenticated && user) {
-          try {
-            const dbConversation = await createConversation({
-              title: newConversation.title,
-              model: newConversation.model,
-              user_id: user.id,
-              project_id: shouldAssignToProject ? selectedProjectId : null
-            })
-            newConversation.id = dbConversation.id
-            newConversation.created_at = dbConversation.created_at
-            newConversation.updated_at = dbConversation.updated_at
-          } catch (error) {
-            console.error('[ERROR] Failed to create conversation in database:', error)
-          }
-        }
+  // Excerpts of the project's documents closest to the question, searched once for each model the
+  // documents were embedded with. Without them the question is still answered; failures are only logged.
+  const retrieveKnowledge = async (conversation: UIConversation | null | undefined, question: string): Promise<KnowledgeSource[] | undefined> => {
+    const projectId = conversation?.project_id
+    if (!projectId || !question.trim()) return undefined
 
-        workingConversations = [...conversations, newConversation]
-        activeConversationId = newConversation.id
-        setConversations(workingConversations)
-        setCurrentConversationId(activeConversationId)
-        saveConversationsLocally(workingConversations)
-      }
+    const modelIds = [...new Set(knowledgeDocuments
+      .filter(document => document.projectId === projectId && document.status === 'ready')
+      .map(document => document.embeddingModel))]
+    if (modelIds.length === 0) return undefined
 
-      // Check if any models are available
-      const availableModels = getAvailableModels()
-      if (availableModels.length === 0) {
-        // Create info message to guide user
-        const infoMessage = {
-          id: Date.now().toString(),
-          content: "👋 Welcome to Apeiron! To start chatting, please configure an API key:\n\n1. Click the ⚙️ Settings button in the bottom-left\n2. Go to the 'Models' tab\n3. Add your API key for any provider (OpenAI, Claude, Gemini, etc.) or OpenRouter\n4. Select which models you want to use\n\nOnce configured, you'll be able to chat with AI models!",
-          role: 'assistant' as const,
-          timestamp: new Date(),
-          isError: false
-        }
+    try {
+      const results = await Promise.all(modelIds.map(async modelId => {
+        const [embedding] = await embedTexts([question], modelId)
+        return isAuthenticated
+          ? matchKnowledgeChunks(projectId, embedding, modelId, KNOWLEDGE_TOP_K)
+          : searchLocalKnowledge(projectId, embedding, modelId, KNOWLEDGE_TOP_K)
+      }))
+      const sources = mergeKnowledgeSources(results)
+      return sources.length > 0 ? sources : undefined
+    } catch (error) {
+      console.error('[ERROR] Knowledge base retrieval failed:', error)
+      return undefined
+    }
+  }
 
-        const infoConversations = workingConversations.map(conv =>
-          conv.id === activeConversationId
-            ? {
-                ...conv,
-                messages: [...conv.messages, infoMessage],
-                updated_at: new Date().toISOString()
-              }
-            : conv
-        )
-        setConversations(infoConversations)
-        saveConversationsLocally(infoConversations)
-        return
+  // Title a conversation after its first reply and refresh its summary every few replies, on the
+  // model picked in Settings. Runs in the background; failures are only logged.
+  const describeConversation = async (conversation: UIConversation) => {
+    const modelId = userSettings.titleModel
+    if (!modelId) return
+
+    const path = getActivePath(conversation.messages, conversation.active_leaf_id).filter(msg => !msg.isError && !msg.isSetupHint)
+    const firstMessage = path.find(msg => msg.role === 'user')
+    const fallbackTitle = firstMessage ? getFallbackTitle(firstMessage.content) : null
+    // A conversation the user renamed keeps its name
+    const wantsTitle = conversation.title === fallbackTitle
+    const wantsSummary = isSummaryDue(path.filter(msg => msg.role === 'assistant').length)
+    if (!wantsTitle && !wantsSummary) return
+
+    const provider = getProviderFromModel(modelId)
+    const apiKey = getApiKeyForModel(modelId, userSettings)
+    if (!hasUsableKey(provider, apiKey)) return
+
+    try {
+      const body: ConversationSummaryRequest = {
+        messages: path.map(msg => ({ role: msg.role, content: msg.content })),
+        model: modelId,
+        provider,
+        apiKey: toRequestApiKey(apiKey),
+        customBaseUrl: userSettings.customEndpointUrl || undefined,
+        title: wantsTitle,
+        summary: wantsSummary
       }
+      const response = await fetch('/api/conversation-summary', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(keyVaultEnabled ? await getAuthHeaders() : {})
+        },
+        body: JSON.stringify(body)
+      })
+      if (!response.ok) {
+        throw ApiRequestError.from(await readApiError(response))
+      }
+      const { title, summary } = parseApiResponse(conversationSummaryResponseSchema, await response.json())
 
-      // Clean up any existing error messages from the current conversation
-      const cleanedConversations = workingConversations.map(conv =>
-        conv.id === activeConversationId
-          ? {
-              ...conv,
-              messages: conv.messages.filter(msg => !msg.isError)
-            }
-          : conv
+      // The user may have renamed the conversation while the title was being written
+      const current = conversationsRef.current.find(conv => conv.id === conversation.id)
+      const changes = {
+        ...(title && current?.title === fallbackTitle ? { title } : {}),
+        ...(summary ? { summary } : {})
+      }
+      if (!current || Object.keys(changes).length === 0) return
+
+      const updatedConversations = conversationsRef.current.map(conv =>
+        conv.id === conversation.id ? { ...conv, ...changes } : conv
       )
-      setConversations(cleanedConversations)
+      setConversations(updatedConversations)
+      saveConversationsLocally(updatedConversations)
+
+      if (isAuthenticated) {
+        await updateConversation(conversation.id, changes)
+      }
+    } catch (error) {
+      console.error('[ERROR] Failed to title or summarize conversation:', error)
+    }
+  }
 
-      // Create user message
-      const userMessage: UIMessage = {
+  // Open a conversation if needed and append the user's message.
+  // `parentMessageId` starts a new branch after that message (null: before the first one);
+  // without it the message continues the branch on screen.
+  // Returns null when no model is configured yet (the conversation gets a setup hint instead).
+  const beginUserTurn = async (
+    message: string,
+    attachments: ProcessedFile[] | undefined,
+    finalModelToUse: string,
+    parentMessageId?: string | null
+  ): Promise<{ activeConversationId: string; updatedConversations: UIConversation[]; userMessage: UIMessage } | null> => {
+    // Create a conversation if none exists
+    let activeConversationId = currentConversationId
+    let workingConversations = conversations
+
+    if (conversations.length === 0 || !currentConversationId) {
+      // Create a new conversation immediately with the message as title
+      const title = getFallbackTitle(message)
+      
+      // Only assign to project if it's both selected AND expanded
+      const shouldAssignToProject = selectedProjectId && expandedProjects[selectedProjectId]
+      
+      const newConversation: UIConversation = {
         id: Date.now().toString(),
-        content: message,
-        role: "user",
+        title: title,
+        model: finalModelToUse,
+        messages: [],
+        user_id: user?.id || "local",
+        project_id: shouldAssignToProject ? selectedProjectId : null,
+        system_prompt: pendingSystemPromptRef.current,
+        context_summary: null,
+        summary: null,
+        active_leaf_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }
+      pendingSystemPromptRef.current = null
+
+      if (isAuthenticated && user) {
+        try {
+          const dbConversation = await createConversation({
+            title: newConversation.title,
+            model: newConversation.model,
+            user_id: user.id,
+            project_id: shouldAssignToProject ? selectedProjectId : null,
+            system_prompt: newConversation.system_prompt
+          })
+          newConversation.id = dbConversation.id
+          newConversation.created_at = dbConversation.created_at
+          newConversation.updated_at = dbConversation.updated_at
+        } catch (error) {
+          console.error('[ERROR] Failed to create conversation in database:', error)
+        }
+      }
+
+      workingConversations = [...conversations, newConversation]
+      activeConversationId = newConversation.id
+      setConversations(workingConversations)
+      setCurrentConversationId(activeConversationId)
+      saveConversationsLocally(workingConversations)
+    }
+
+    // Error messages and the setup hint are never persisted, so they end the branch without being part of it
+    const workingConversation = workingConversations.find(conv => conv.id === activeConversationId)
+    const activePath = getActivePath(workingConversation?.messages || [], workingConversation?.active_leaf_id)
+      .filter(msg => !msg.isError && !msg.isSetupHint)
+    const branchTipId = activePath[activePath.length - 1]?.id ?? null
+
+    // Check if any models are available
+    const availableModels = getAvailableModels()
+    if (availableModels.length === 0) {
+      // Create info message to guide user
+      const infoMessage: UIMessage = {
+        id: crypto.randomUUID(),
+        parentId: branchTipId,
+        content: "👋 Welcome to Apeiron! To start chatting, please configure an API key:\n\n1. Click the ⚙️ Settings button in the bottom-left\n2. Go to the 'Models' tab\n3. Add your API key for any provider (OpenAI, Claude, Gemini, etc.) or OpenRouter\n4. Select which models you want to use\n\nOnce configured, you'll be able to chat with AI models!",
+        role: 'assistant',
         timestamp: new Date(),
-        attachments,
-        model: finalModelToUse
+        isError: false,
+        isSetupHint: true
       }
 
-      // Add user message to conversation (using cleaned conversations)
-      const updatedConversations = cleanedConversations.map(conv =>
+      const infoConversations = workingConversations.map(conv =>
         conv.id === activeConversationId
           ? {
-              ...conv,
-              messages: [...conv.messages, userMessage],
-              model: finalModelToUse,
+              ...appendMessage(conv, infoMessage),
               updated_at: new Date().toISOString()
             }
           : conv
       )
-      setConversations(updatedConversations)
-      saveConversationsLocally(updatedConversations)
+      setConversations(infoConversations)
+      saveConversationsLocally(infoConversations)
+      return null
+    }
+
+    // Clean up any existing error messages from the current conversation
+    const cleanedConversations = workingConversations.map(conv =>
+      conv.id === activeConversationId
+        ? {
+            ...conv,
+            messages: conv.messages.filter(msg => !msg.isError && !msg.isSetupHint)
+          }
+        : conv
+    )
+    setConversations(cleanedConversations)
+
+    // A new branch keeps the path up to its parent; the context summary may not cover it
+    const parentId = parentMessageId !== undefined ? parentMessageId : branchTipId
+    const sharedPathLength = parentId ? activePath.findIndex(msg => msg.id === parentId) + 1 : 0
+    const keepsSummary = !workingConversation || keepsContextSummary(workingConversation, sharedPathLength)
+    if (!keepsSummary && isAuthenticated && user) {
+      try {
+        await updateConversation(activeConversationId, { context_summary: null })
+      } catch (error) {
+        console.error('[ERROR] Failed to clear context summary:', error)
+      }
+    }
+
+    // Create user message
+    const userMessage: UIMessage = {
+      id: crypto.randomUUID(),
+      parentId,
+      content: message,
+      role: "user",
+      timestamp: new Date(),
+      attachments,
+      model: finalModelToUse
+    }
+
+    // Add user message to conversation (using cleaned conversations)
+    const updatedConversations = cleanedConversations.map(conv =>
+      conv.id === activeConversationId
+        ? {
+            ...appendMessage(conv, userMessage),
+            model: finalModelToUse,
+            ...(keepsSummary ? {} : { context_summary: null }),
+            updated_at: new Date().toISOString()
+          }
+        : conv
+    )
+    setConversations(updatedConversations)
+    saveConversationsLocally(updatedConversations)
+
+    return { activeConversationId, updatedConversations, userMessage }
+  }
+
+  const handleSendMessage = async (
+    message: string, 
+    attachments?: ProcessedFile[], 
+    webSearchEnabled: boolean = false, 
+    codeGenerationEnabled: boolean = false,
+    userLocation: string | null = null,
+    enhancedWebSearch: boolean = false,
+    overrideModel?: string,
+    mode?: ChatMode,
+    parentMessageId?: string | null // Set when editing or retrying: the reply goes on a new branch after this message
+  ) => {
+    try {
+      if (!message.trim() && !attachments?.length) return
+
+      // Use the override model if provided, otherwise use currentModel
+      const modelToUse = overrideModel || currentModel;
+      
+      // Special handling for OpenRouter - ensure we're using the correct model ID
+      let finalModelToUse = modelToUse;
+      let providerToUse = getProviderFromModel(finalModelToUse);
+      // Custom endpoint model names may contain slashes too, and are never rewritten for OpenRouter
+      const isCustomModel = isCustomModelId(modelToUse);
+      
+      // Check if we're using an OpenRouter model format (with slash) but OpenRouter is disabled
+      if (!userSettings.openrouterEnabled && !isCustomModel && finalModelToUse.includes('/')) {
+        console.log("[DEBUG] Detected OpenRouter model format while OpenRouter is disabled");
+        // Get the first available provider model instead
+        const availableModels = getAvailableModelsForSettings(userSettings);
+        if (availableModels.length > 0) {
+          finalModelToUse = availableModels[0].id;
+          providerToUse = getProviderFromModel(finalModelToUse);
+          console.log("[DEBUG] Switched to provider model:", finalModelToUse);
+        }
+      }
+      
+      if (userSettings.openrouterEnabled && !isCustomModel) {
+        // If we have an explicit override model, use that (for retries with specific models)
+        // Otherwise use the OpenRouter model name from settings
+        if (overrideModel) {
+          finalModelToUse = overrideModel;
+          console.log("[DEBUG] Using override model for OpenRouter:", finalModelToUse);
+        } else {
+          finalModelToUse = userSettings.openrouterModelName || "anthropic/claude-3-sonnet";
+          console.log("[DEBUG] Using default OpenRouter model from settings:", finalModelToUse);
+        }
+        
+        // If the model doesn't have a provider prefix, add it
+        if (!finalModelToUse.includes('/')) {
+          if (finalModelToUse.includes('gpt')) {
+            finalModelToUse = `openai/${finalModelToUse}`;
+          } else if (finalModelToUse.includes('claude')) {
+            finalModelToUse = `anthropic/${finalModelToUse}`;
+          } else if (finalModelToUse.includes('gemini')) {
+            finalModelToUse = `google/${finalModelToUse}`;
+          } else if (finalModelToUse.includes('mistral')) {
+            finalModelToUse = `mistral/${finalModelToUse}`;
+          } else if (finalModelToUse.includes('llama')) {
+            finalModelToUse = `meta-llama/${finalModelToUse}`;
+          } else if (finalModelToUse.includes('deepseek')) {
+            finalModelToUse = `deepseek/${finalModelToUse}`;
+          }
+        }
+        console.log("[DEBUG] Final OpenRouter model to use:", finalModelToUse);
+        
+        // Force provider to be openrouter when in OpenRouter mode
+        providerToUse = "openrouter";
+      }
+
+      const turn = await beginUserTurn(message, attachments, finalModelToUse, parentMessageId)
+      if (!turn) return
+      const { activeConversationId, updatedConversations, userMessage } = turn
 
       setIsTyping(true)
+      setIsGenerating(true)
+      const abortController = new AbortController()
+      generationAbortRef.current = abortController
 
       try {
         // Save user message to database if authenticated
         if (isAuthenticated && user) {
           await createMessage({
+            id: userMessage.id,
+            parent_id: userMessage.parentId ?? null,
             content: message,
             role: 'user',
             conversation_id: activeConversationId,
             model: finalModelToUse,
             provider: getProviderFromModel(finalModelToUse),
-            attachments: attachments || []
+            attachments: withoutPdfData(attachments) || []
           })
         }
 
@@ -913,7 +1890,7 @@ export default function Home() {
         let apiKey = getApiKeyForModel(finalModelToUse, userSettings)
 
         // Special handling for OpenRouter
-        if (userSettings.openrouterEnabled) {
+        if (userSettings.openrouterEnabled && !isCustomModel) {
           console.log("[DEBUG] OpenRouter mode is enabled")
           console.log("[DEBUG] Selected model:", finalModelToUse)
           apiKey = userSettings.openrouterApiKey
@@ -921,87 +1898,89 @@ export default function Home() {
           console.log("[DEBUG] Using provider:", provider)
         }
 
-        if (!provider || !apiKey) {
+        if (!provider || !hasUsableKey(provider, apiKey)) {
           console.error("[ERROR] Missing provider or API key:", { provider, hasApiKey: !!apiKey })
           throw new Error(`Please configure an API key for ${provider || 'this model'} in Settings → Models`)
         }
 
-        // Filter out error messages before sending to API
         const currentConv = updatedConversations.find(conv => conv.id === activeConversationId)
-        const cleanMessages = (currentConv?.messages || [])
-          .filter(msg => !msg.isError) // Remove error messages
-          .map(msg => ({
-            role: msg.role,
-            content: msg.content,
-            attachments: msg.attachments // Include attachments
-          }))
+        const assistantMessageId = crypto.randomUUID()
+        let streamedMessageAdded = false
+
+        // Render deltas and tool activity into a placeholder assistant message as they arrive
+        const data = await requestChatReply({
+          conversation: currentConv,
+          modelId: finalModelToUse,
+          provider,
+          apiKey,
+          webSearchEnabled,
+          codeGenerationEnabled,
+          enhancedWebSearch,
+          userLocation,
+          mode,
+          useFallbackChain: true,
+          signal: abortController.signal,
+          onProgress: (streamedText, streamedParts) => {
+            const hasToolParts = streamedParts.some(part => part.type !== "text")
+            const partialMessage: UIMessage = {
+              id: assistantMessageId,
+              parentId: userMessage.id,
+              content: streamedText,
+              role: "assistant",
+              timestamp: new Date(),
+              model: finalModelToUse,
+              provider: provider,
+              parts: hasToolParts ? [...streamedParts] : undefined
+            }
 
-        // Prepare headers with location data if available
-        const headers: HeadersInit = {
-          'Content-Type': 'application/json',
-        };
-        
-        if (webSearchEnabled && userLocation) {
-          headers['x-user-location'] = userLocation;
-        }
+            if (!streamedMessageAdded) {
+              streamedMessageAdded = true
+              setIsTyping(false)
+            }
 
-        // Make API call to get AI response
-        const response = await fetch('/api/chat', {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({
-            messages: cleanMessages,
-            provider: provider,
-            apiKey: apiKey,
-            model: finalModelToUse,
-            temperature: userSettings.temperature,
-            webSearchEnabled,
-            codeGenerationEnabled: codeGenerationEnabled || false, // Ensure it's a boolean
-            enhancedWebSearch,
-            // Include all individual API keys for image generation routing
-            openaiApiKey: userSettings.openaiApiKey,
-            claudeApiKey: userSettings.claudeApiKey,
-            geminiApiKey: userSettings.geminiApiKey,
-            deepseekApiKey: userSettings.deepseekApiKey,
-            grokApiKey: userSettings.grokApiKey,
-            veo2ApiKey: userSettings.veo2ApiKey,
-            mistralApiKey: userSettings.mistralApiKey,
-            runwayApiKey: userSettings.runwayApiKey
-          }),
-        }).catch(error => {
-          console.error("[ERROR] Fetch error:", error);
-          throw new Error(`Network error: ${error.message || "Failed to connect to API"}`);
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(e => "Could not read error response");
-          console.error(`[ERROR] HTTP error ${response.status}:`, errorText);
-          throw new Error(`HTTP error! status: ${response.status}. ${errorText}`);
-        }
+            setConversations(prev => prev.map(conv =>
+              conv.id === activeConversationId ? appendMessage(conv, partialMessage) : conv
+            ))
+          }
+        })
 
-        const data = await response.json().catch(error => {
-          console.error("[ERROR] JSON parse error:", error);
-          throw new Error("Failed to parse API response");
-        });
+        // Stopped before any text arrived: there is nothing to keep
+        if (data.interrupted && !data.response) {
+          setConversations(updatedConversations)
+          saveConversationsLocally(updatedConversations)
+          return
+        }
 
         // Create assistant message with proper content validation
+        // A fallback model may have answered; the message records which one and why
+        const fallback: FallbackInfo | undefined = data.fallback
+        const answeredModel = fallback ? data.model : finalModelToUse
+        const answeredProvider = fallback ? data.provider : provider
         const assistantMessage: UIMessage = {
-          id: Date.now().toString(),
+          id: assistantMessageId,
+          parentId: userMessage.id,
           content: data.response || data.content || "No response content",
           role: "assistant",
           timestamp: new Date(),
-          model: finalModelToUse,
-          provider: provider,
-          searchResults: data.searchResults
+          model: answeredModel,
+          provider: answeredProvider,
+          searchResults: data.searchResults,
+          knowledgeSources: data.knowledgeSources,
+          parts: data.parts,
+          fallback,
+          usage: data.usage || undefined,
+          interrupted: data.interrupted || undefined
         }
 
         // Add assistant message to conversation
+        // The route reports the summary it used for older turns; undefined means unchanged
+        const contextSummary: ContextSummary | null | undefined = data.contextSummary
         const finalConversations = updatedConversations.map(conv =>
           conv.id === activeConversationId
             ? {
-                ...conv,
-                messages: [...conv.messages, assistantMessage],
+                ...appendMessage(conv, assistantMessage),
                 model: finalModelToUse,
+                ...(contextSummary !== undefined ? { context_summary: contextSummary } : {}),
                 updated_at: new Date().toISOString()
               }
             : conv
@@ -1009,21 +1988,33 @@ export default function Home() {
         setConversations(finalConversations)
         saveConversationsLocally(finalConversations)
 
+        const answeredConversation = finalConversations.find(conv => conv.id === activeConversationId)
+        if (answeredConversation) void describeConversation(answeredConversation)
+
         // Save assistant message to database if authenticated (with content validation)
         if (isAuthenticated && user) {
           try {
             const messageContent = data.content || data.response || "I apologize, but I couldn't generate a response. Please try again."
             await createMessage({
+              id: assistantMessageId,
+              parent_id: userMessage.id,
               content: messageContent,
               role: 'assistant',
               conversation_id: activeConversationId,
-              model: finalModelToUse,
-              provider: getProviderFromModel(finalModelToUse),
-              search_results: data.searchResults || []
+              model: answeredModel,
+              provider: fallback ? answeredProvider : getProviderFromModel(finalModelToUse),
+              search_results: data.searchResults || [],
+              knowledge_sources: data.knowledgeSources || null,
+              parts: data.parts || null,
+              fallback: fallback || null,
+              interrupted: data.interrupted || false,
+              ...toUsageColumns(data.usage)
             })
 
-            // Update conversation timestamp
+            // Update conversation timestamp and branch (and context summary when it changed)
             await updateConversation(activeConversationId, { 
+              ...(contextSummary !== undefined ? { context_summary: contextSummary } : {}),
+              active_leaf_id: assistantMessageId,
               updated_at: new Date().toISOString() 
             })
           } catch (dbError) {
@@ -1036,14 +2027,16 @@ export default function Home() {
         console.error('[ERROR] Error sending message:', error)
         
         // Create error message in local state
-        const errorMessage = {
-          id: Date.now().toString(),
+        const errorMessage: UIMessage = {
+          id: crypto.randomUUID(),
+          parentId: userMessage.id,
           content: error instanceof Error ? error.message : 
                   error instanceof Event ? 'Network error occurred. Please check your connection and try again.' :
                   'An error occurred',
           role: 'assistant' as const,
           timestamp: new Date(),
           isError: true,
+          errorCode: error instanceof ApiRequestError ? error.code : undefined,
           retryData: {
             originalMessage: message,
             attachments,
@@ -1051,7 +2044,8 @@ export default function Home() {
               webSearchEnabled,
               codeGenerationEnabled: codeGenerationEnabled || false, // Ensure it's a boolean
               enhancedWebSearch,
-              userLocation
+              userLocation,
+              mode
             }
           }
         }
@@ -1059,8 +2053,7 @@ export default function Home() {
         const errorConversations = updatedConversations.map(conv =>
           conv.id === activeConversationId
             ? {
-                ...conv,
-                messages: [...conv.messages, errorMessage],
+                ...appendMessage(conv, errorMessage),
                 updated_at: new Date().toISOString()
               }
             : conv
@@ -1069,6 +2062,10 @@ export default function Home() {
         saveConversationsLocally(errorConversations)
       } finally {
         setIsTyping(false)
+        setIsGenerating(false)
+        if (generationAbortRef.current === abortController) {
+          generationAbortRef.current = null
+        }
       }
     } catch (outerError) {
       // Catch any unhandled errors in the outer scope
@@ -1077,11 +2074,245 @@ export default function Home() {
     }
   }
 
+  // Send one prompt to several models in parallel; every answer becomes a variant of a single assistant message
+  const handleCompareModels = async (
+    message: string,
+    modelIds: string[],
+    attachments?: ProcessedFile[],
+    webSearchEnabled: boolean = false,
+    userLocation: string | null = null,
+    enhancedWebSearch: boolean = false
+  ) => {
+    if (!message.trim() && !attachments?.length) return
+    if (modelIds.length < 2) {
+      await handleSendMessage(message, attachments, webSearchEnabled, false, userLocation, enhancedWebSearch, modelIds[0])
+      return
+    }
+
+    try {
+      const turn = await beginUserTurn(message, attachments, modelIds[0])
+      if (!turn) return
+      const { activeConversationId, updatedConversations, userMessage } = turn
+      const currentConv = updatedConversations.find(conv => conv.id === activeConversationId)
+
+      // One Stop press ends every answer in the comparison
+      setIsGenerating(true)
+      const abortController = new AbortController()
+      generationAbortRef.current = abortController
+
+      if (isAuthenticated && user) {
+        try {
+          await createMessage({
+            id: userMessage.id,
+            parent_id: userMessage.parentId ?? null,
+            content: message,
+            role: 'user',
+            conversation_id: activeConversationId,
+            model: modelIds[0],
+            provider: getProviderFromModel(modelIds[0]),
+            attachments: withoutPdfData(attachments) || []
+          })
+        } catch (dbError) {
+          console.error("[ERROR] Failed to save user message to database:", dbError)
+        }
+      }
+
+      const assistantMessageId = crypto.randomUUID()
+      const startedAt = new Date().toISOString()
+      let variants: MessageVariant[] = modelIds.map((modelId, index) => ({
+        id: `${assistantMessageId}-${index}`,
+        content: "",
+        model: modelId,
+        provider: getProviderFromModel(modelId),
+        createdAt: startedAt,
+        isStreaming: true
+      }))
+
+      // Show every column right away and fill them in as the answers stream
+      const updateVariant = (variantId: string, changes: Partial<MessageVariant>) => {
+        variants = variants.map(variant => variant.id === variantId ? { ...variant, ...changes } : variant)
+        const placeholder: UIMessage = {
+          id: assistantMessageId,
+          parentId: userMessage.id,
+          content: "",
+          role: "assistant",
+          timestamp: new Date(),
+          model: modelIds[0],
+          variants,
+          activeVariantId: null
+        }
+        setConversations(prev => prev.map(conv =>
+          conv.id === activeConversationId ? appendMessage(conv, placeholder) : conv
+        ))
+      }
+      updateVariant(variants[0].id, {})
+
+      await Promise.all(variants.map(async (variant) => {
+        const started = performance.now()
+        try {
+          const apiKey = getApiKeyForModel(variant.model, userSettings)
+          if (!hasUsableKey(variant.provider, apiKey)) {
+            throw new Error(`Please configure an API key for ${variant.provider} in Settings → Models`)
+          }
+
+          const data = await requestChatReply({
+            conversation: currentConv,
+            modelId: variant.model,
+            provider: variant.provider,
+            apiKey,
+            webSearchEnabled,
+            codeGenerationEnabled: false,
+            enhancedWebSearch,
+            userLocation,
+            signal: abortController.signal,
+            saveMemories: false, // Every model may remember the same thing; saved once below
+            onProgress: (text, parts) => updateVariant(variant.id, {
+              content: text,
+              parts: parts.some(part => part.type !== "text") ? [...parts] : undefined
+            })
+          })
+
+          const content = data.response || data.content || (data.interrupted ? "" : "No response content")
+          updateVariant(variant.id, {
+            content,
+            parts: data.parts,
+            searchResults: data.searchResults || undefined,
+            knowledgeSources: data.knowledgeSources,
+            latencyMs: Math.round(performance.now() - started),
+            outputTokens: data.usage?.outputTokens ?? estimateTokens(content),
+            usage: data.usage || undefined,
+            interrupted: data.interrupted || undefined,
+            isStreaming: false
+          })
+        } catch (error) {
+          console.error(`[ERROR] Compare request failed for ${variant.model}:`, error)
+          updateVariant(variant.id, {
+            content: error instanceof Error ? error.message : "Request failed",
+            isError: true,
+            latencyMs: Math.round(performance.now() - started),
+            isStreaming: false
+          })
+        }
+      }))
+
+      // Context summaries differ per model, so a comparison leaves the stored one alone
+      const finalVariants = variants.map(({ isStreaming, ...variant }) => variant)
+      const defaultVariant = getDefaultVariant(finalVariants)!
+      // One turn saves memories once: from the answer shown first, or else the first one that used the remember tool
+      const rememberingVariant = [defaultVariant, ...finalVariants].find(variant => getRememberedFacts(variant.parts).length > 0)
+      if (rememberingVariant) void rememberFacts(rememberingVariant.parts, activeConversationId)
+      const assistantMessage: UIMessage = {
+        id: assistantMessageId,
+        parentId: userMessage.id,
+        role: "assistant",
+        timestamp: new Date(),
+        ...getVariantMessageFields(defaultVariant),
+        isError: finalVariants.every(variant => variant.isError),
+        variants: finalVariants,
+        activeVariantId: null,
+        // Every answer was billed, whichever one is picked
+        usage: finalVariants.reduce<MessageUsage | null>((total, variant) => addUsage(total, variant.usage || null), null) || undefined
+      }
+
+      if (isAuthenticated && user) {
+        try {
+          await createMessage({
+            id: assistantMessageId,
+            parent_id: userMessage.id,
+            content: assistantMessage.content,
+            role: 'assistant',
+            conversation_id: activeConversationId,
+            model: assistantMessage.model,
+            provider: assistantMessage.provider,
+            search_results: assistantMessage.searchResults || [],
+            knowledge_sources: assistantMessage.knowledgeSources || null,
+            parts: (assistantMessage.parts || null) as Json,
+            variants: finalVariants as Json,
+            active_variant_id: null,
+            interrupted: assistantMessage.interrupted || false,
+            ...toUsageColumns(assistantMessage.usage)
+          })
+          await updateConversation(activeConversationId, { active_leaf_id: assistantMessageId, updated_at: new Date().toISOString() })
+        } catch (dbError) {
+          console.error("[ERROR] Failed to save comparison to database:", dbError)
+        }
+      }
+
+      const finalConversations = updatedConversations.map(conv =>
+        conv.id === activeConversationId
+          ? {
+              ...appendMessage(conv, assistantMessage),
+              updated_at: new Date().toISOString()
+            }
+          : conv
+      )
+      setConversations(finalConversations)
+      saveConversationsLocally(finalConversations)
+
+      const answeredConversation = finalConversations.find(conv => conv.id === activeConversationId)
+      if (answeredConversation) void describeConversation(answeredConversation)
+    } catch (error) {
+      console.error("[ERROR] Unhandled error in handleCompareModels:", error)
+    } finally {
+      setIsGenerating(false)
+      generationAbortRef.current = null
+    }
+  }
+
+  // Stop button: abort the reply in flight; requestChatReply keeps the partial text
+  const handleStopGeneration = () => {
+    generationAbortRef.current?.abort()
+  }
+
+  // Make one variant the answer the conversation continues from
+  const handleSelectVariant = async (messageId: string, variantId: string) => {
+    const conversation = conversations.find(conv => conv.messages.some(m => m.id === messageId))
+    const variant = conversation?.messages.find(m => m.id === messageId)?.variants?.find(v => v.id === variantId)
+    if (!conversation || !variant || variant.isError) return
+
+    const fields = getVariantMessageFields(variant)
+    const updatedConversations = conversations.map(conv =>
+      conv.id === conversation.id
+        ? {
+            ...conv,
+            messages: conv.messages.map(msg =>
+              msg.id === messageId ? { ...msg, ...fields, isError: false, activeVariantId: variantId } : msg
+            ),
+            model: variant.model
+          }
+        : conv
+    )
+    setConversations(updatedConversations)
+    saveConversationsLocally(updatedConversations)
+
+    // Continue the thread with the winning model
+    setCurrentModel(variant.model)
+
+    if (isAuthenticated) {
+      try {
+        await updateMessage(messageId, {
+          content: fields.content,
+          model: fields.model,
+          provider: fields.provider,
+          parts: (fields.parts || null) as Json,
+          search_results: fields.searchResults || [],
+          knowledge_sources: fields.knowledgeSources || null,
+          interrupted: fields.interrupted || false,
+          active_variant_id: variantId
+        })
+      } catch (error) {
+        console.error('Error saving selected answer:', error)
+      }
+    }
+  }
+
   // Helper functions
   const getApiKeyForModel = (modelId: string, settings: UserSettings): string | null => {
     // Get provider from model ID
-    const provider = getProviderFromModel(modelId)
-    
+    return getApiKeyForProvider(getProviderFromModel(modelId), settings)
+  }
+
+  const getApiKeyForProvider = (provider: string, settings: UserSettings): string | null => {
     switch (provider) {
       case 'openai':
         return settings.openaiApiKey
@@ -1102,15 +2333,40 @@ export default function Home() {
         return settings.mistralApiKey
       case 'runway':
         return settings.runwayApiKey
+      case 'custom':
+        return settings.customEndpointUrl ? settings.customEndpointApiKey || "" : null
       default:
         return null
     }
   }
 
+  // Custom endpoints may run without a key; every other provider needs one
+  const hasUsableKey = (provider: string, apiKey: string | null): apiKey is string =>
+    apiKey !== null && (apiKey !== "" || provider === "custom")
+
+  // Fallback models for the selected one, with their keys; entries without a configured key are skipped
+  const getFallbackCandidates = (modelId: string) => {
+    const chain = userSettings.fallbackChains?.[modelId] || []
+    return chain.flatMap(entry => {
+      const target = resolveFallbackEntry(entry)
+      const apiKey = target ? getApiKeyForProvider(target.provider, userSettings) : null
+      if (!target || !hasUsableKey(target.provider, apiKey)) {
+        console.log("[DEBUG] Skipping fallback model without a usable provider or API key:", entry)
+        return []
+      }
+      return [{ ...target, apiKey: toRequestApiKey(apiKey) || "" }]
+    })
+  }
+
   const getProviderFromModel = (modelId: string): string => {
     console.log("[DEBUG] Getting provider for model:", modelId)
     console.log("[DEBUG] OpenRouter enabled:", userSettings.openrouterEnabled)
     
+    // Custom endpoint models are served by the user's own server whatever the mode
+    if (modelId && isCustomModelId(modelId)) {
+      return 'custom'
+    }
+    
     // Check if OpenRouter is enabled
     if (userSettings.openrouterEnabled) {
       console.log("[DEBUG] Using OpenRouter provider due to enabled flag")
@@ -1129,14 +2385,8 @@ export default function Home() {
       return 'openai'
     }
     
-    if (modelId.includes('claude')) return 'claude'
-    if (modelId.includes('gpt') || modelId.includes('o3')) return 'openai'
-    if (modelId.includes('gemini')) return 'gemini'
-    if (modelId.includes('veo2')) return 'veo2'
-    if (modelId.includes('deepseek')) return 'deepseek'
-    if (modelId.includes('grok')) return 'grok'
-    if (modelId.includes('mistral') || modelId.includes('codestral')) return 'mistral'
-    if (modelId.includes('gen3') || modelId.includes('gen2') || modelId.includes('runway')) return 'runway'
+    const definition = getModelDefinition(modelId)
+    if (definition) return definition.provider
     
     console.log("[DEBUG] Defaulting to openai provider")
     return 'openai'
@@ -1149,6 +2399,9 @@ export default function Home() {
       // Clear authenticated state but keep local conversations
       setProjects([])
       setSelectedProjectId(null)
+      setPromptTemplates([])
+      setMemories([])
+      setKnowledgeDocuments([])
       // Keep current conversations in local mode
     } catch (error) {
       console.error('Error signing out:', error)
@@ -1167,60 +2420,29 @@ export default function Home() {
   const getAvailableModelsForSettings = (settings: UserSettings) => {
     const models: Model[] = []
     
-    // Add models based on available API keys in priority order
-    if (settings.openaiApiKey) {
-      models.push(
-        { id: "o3", name: "o3", icon: "O3", provider: "openai" },
-        { id: "gpt-4.5", name: "GPT-4.5", icon: "45", provider: "openai" },
-        { id: "gpt-4.1", name: "GPT-4.1", icon: "41", provider: "openai" },
-        { id: "gpt-4", name: "GPT-4", icon: "G4", provider: "openai" },
-        { id: "gpt-3.5-turbo", name: "GPT-3.5 Turbo", icon: "35", provider: "openai" }
-      )
-    }
-    
-    if (settings.claudeApiKey) {
-      models.push(
-        { id: "claude-4-sonnet", name: "Claude 4 Sonnet", icon: "C4", provider: "claude" },
-        { id: "claude-3.5-opus", name: "Claude 3.5 Opus", icon: "CO", provider: "claude" },
-        { id: "claude-3.5-sonnet", name: "Claude 3.5 Sonnet", icon: "C3", provider: "claude" }
-      )
-    }
+    // Add catalog models for each provider with an API key, in priority order
+    const keyedGroups: Array<[ModelProvider, string]> = [
+      ["openai", settings.openaiApiKey],
+      ["claude", settings.claudeApiKey],
+      ["gemini", settings.geminiApiKey],
+      ["deepseek", settings.deepseekApiKey],
+      ["grok", settings.grokApiKey],
+      ["mistral", settings.mistralApiKey],
+      ["runway", settings.runwayApiKey]
+    ]
     
-    if (settings.geminiApiKey) {
-      models.push(
-        { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", icon: "G2", provider: "gemini" },
-        { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", icon: "GP", provider: "gemini" },
-        { id: "veo2", name: "VEO 2", icon: "V2", provider: "veo2" }
-      )
-    }
+    keyedGroups.forEach(([group, apiKey]) => {
+      if (!apiKey) return
+      getModelsForGroup(group).forEach(model => {
+        models.push({ id: model.id, name: model.name, icon: model.icon, provider: model.provider })
+      })
+    })
     
-    if (settings.deepseekApiKey) {
-      models.push(
-        { id: "deepseek-v3", name: "DeepSeek V3", icon: "D3", provider: "deepseek" }
-      )
-    }
-    
-    if (settings.grokApiKey) {
-      models.push(
-        { id: "grok-3", name: "Grok 3", icon: "G3", provider: "grok" }
-      )
-    }
-    
-    if (settings.mistralApiKey) {
-      models.push(
-        { id: "mistral-large", name: "Mistral Large", icon: "ML", provider: "mistral" },
-        { id: "mistral-medium", name: "Mistral Medium", icon: "MM", provider: "mistral" },
-        { id: "mistral-small", name: "Mistral Small", icon: "MS", provider: "mistral" },
-        { id: "codestral", name: "Codestral", icon: "CS", provider: "mistral" }
-      )
-    }
-    
-    if (settings.runwayApiKey) {
-      models.push(
-        { id: "gen3a-turbo", name: "Gen3 Alpha Turbo", icon: "GT", provider: "runway" },
-        { id: "gen3a", name: "Gen3 Alpha", icon: "G3", provider: "runway" },
-        { id: "gen2", name: "Gen2", icon: "G2", provider: "runway" }
-      )
+    // Models on the user's own endpoint need a base URL but no API key
+    if (settings.customEndpointUrl) {
+      (settings.customModels || []).forEach(name => {
+        models.push({ id: toCustomModelId(name), name, icon: "LM", provider: "custom" })
+      })
     }
     
     // Log available models for debugging
@@ -1247,7 +2469,7 @@ export default function Home() {
     const providerModels = getAvailableModelsForSettings(userSettings);
     
     // If we just switched from OpenRouter to provider mode, ensure we have a valid model selected
-    if (currentModel && currentModel.includes('/') && providerModels.length > 0) {
+    if (currentModel && currentModel.includes('/') && !isCustomModelId(currentModel) && providerModels.length > 0) {
       console.log("[DEBUG PAGE] Detected OpenRouter model selected while in provider mode, will auto-select first provider model");
       setTimeout(() => {
         console.log("[DEBUG PAGE] Auto-selecting first provider model:", providerModels[0].id);
@@ -1258,7 +2480,133 @@ export default function Home() {
     return providerModels;
   }
 
-  const handleRetryMessage = async (messageId: string, selectedModelId?: string) => {
+  // Ask again for the answer to the same question. The new answer is added as a version of the reply
+  // and used from then on; the earlier versions stay on the message and can be picked again.
+  const regenerateReply = async (conversation: UIConversation, message: UIMessage, modelId: string, temperature?: number) => {
+    if (!message.parentId) return
+
+    const provider = getProviderFromModel(modelId)
+    const versionId = `${message.id}-${message.variants?.length || 1}`
+    const previousVariants = message.variants?.length ? message.variants : [toMessageVariant(message)]
+    let variants: MessageVariant[] = [...previousVariants, {
+      id: versionId,
+      content: "",
+      model: modelId,
+      provider,
+      createdAt: new Date().toISOString(),
+      temperature,
+      isStreaming: true
+    }]
+
+    const updateVersion = (changes: Partial<MessageVariant>) => {
+      variants = variants.map(variant => variant.id === versionId ? { ...variant, ...changes } : variant)
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversation.id
+          ? { ...conv, messages: conv.messages.map(msg => msg.id === message.id ? { ...msg, variants } : msg) }
+          : conv
+      ))
+    }
+    updateVersion({})
+
+    setIsGenerating(true)
+    const abortController = new AbortController()
+    generationAbortRef.current = abortController
+    const started = performance.now()
+
+    try {
+      const apiKey = getApiKeyForModel(modelId, userSettings)
+      if (!hasUsableKey(provider, apiKey)) {
+        throw new Error(`Please configure an API key for ${provider} in Settings → Models`)
+      }
+
+      // The history ends with the question this message answers
+      const data = await requestChatReply({
+        conversation: { ...conversation, active_leaf_id: message.parentId },
+        modelId,
+        provider,
+        apiKey,
+        webSearchEnabled: false,
+        codeGenerationEnabled: false,
+        enhancedWebSearch: false,
+        userLocation: null,
+        temperature,
+        signal: abortController.signal,
+        onProgress: (text, parts) => updateVersion({
+          content: text,
+          parts: parts.some(part => part.type !== "text") ? [...parts] : undefined
+        })
+      })
+
+      const content = data.response || data.content || ""
+      updateVersion({
+        content: content || (data.interrupted ? "Stopped before any text arrived" : "No response content"),
+        parts: data.parts,
+        searchResults: data.searchResults || undefined,
+        knowledgeSources: data.knowledgeSources,
+        latencyMs: Math.round(performance.now() - started),
+        outputTokens: data.usage?.outputTokens ?? estimateTokens(content),
+        usage: data.usage || undefined,
+        interrupted: data.interrupted || undefined,
+        isError: (data.interrupted && !content) || undefined,
+        isStreaming: false
+      })
+    } catch (error) {
+      console.error(`[ERROR] Regeneration with ${modelId} failed:`, error)
+      updateVersion({
+        content: error instanceof Error ? error.message : "Request failed",
+        isError: true,
+        latencyMs: Math.round(performance.now() - started),
+        isStreaming: false
+      })
+    } finally {
+      setIsGenerating(false)
+      generationAbortRef.current = null
+    }
+
+    // A failed attempt is kept as a version but the reply in use stays the same
+    const finalVariants = variants.map(({ isStreaming, ...variant }) => variant)
+    const version = finalVariants.find(variant => variant.id === versionId)!
+    const activeVariantId = version.isError ? message.activeVariantId ?? (message.variants?.length ? null : previousVariants[0].id) : versionId
+    const fields = version.isError ? {} : { ...getVariantMessageFields(version), isError: false, fallback: undefined }
+    // Every version was billed, whichever one is used
+    const usage = finalVariants.reduce<MessageUsage | null>((total, variant) => addUsage(total, variant.usage || null), null) || undefined
+    const updatedMessage: UIMessage = { ...message, ...fields, variants: finalVariants, activeVariantId, usage }
+
+    const updatedConversations = conversations.map(conv =>
+      conv.id === conversation.id
+        ? {
+            ...conv,
+            messages: conv.messages.map(msg => msg.id === message.id ? updatedMessage : msg),
+            ...(version.isError ? {} : { model: version.model }),
+            updated_at: new Date().toISOString()
+          }
+        : conv
+    )
+    setConversations(updatedConversations)
+    saveConversationsLocally(updatedConversations)
+
+    if (isAuthenticated) {
+      try {
+        await updateMessage(message.id, {
+          content: updatedMessage.content,
+          model: updatedMessage.model,
+          provider: updatedMessage.provider,
+          parts: (updatedMessage.parts || null) as Json,
+          search_results: updatedMessage.searchResults || [],
+          knowledge_sources: updatedMessage.knowledgeSources || null,
+          fallback: (updatedMessage.fallback || null) as Json,
+          interrupted: updatedMessage.interrupted || false,
+          variants: finalVariants as Json,
+          active_variant_id: activeVariantId,
+          ...toUsageColumns(usage)
+        })
+      } catch (error) {
+        console.error('Error saving regenerated answer:', error)
+      }
+    }
+  }
+
+  const handleRetryMessage = async (messageId: string, selectedModelId?: string, temperature?: number) => {
     try {
       console.log("[DEBUG PAGE] Retrying message:", messageId);
       console.log("[DEBUG PAGE] Selected model:", selectedModelId);
@@ -1270,7 +2618,9 @@ export default function Home() {
         return;
       }
       
-      const messageIndex = conversation.messages.findIndex(m => m.id === messageId);
+      // Only the branch on screen can be retried
+      const activePath = getActivePath(conversation.messages, conversation.active_leaf_id);
+      const messageIndex = activePath.findIndex(m => m.id === messageId);
       if (messageIndex === -1) {
         console.warn("[WARN PAGE] Could not find message in conversation:", messageId);
         return;
@@ -1278,7 +2628,7 @@ export default function Home() {
       
       // Find the last user message before this message
       let userMessageIndex = messageIndex - 1;
-      while (userMessageIndex >= 0 && conversation.messages[userMessageIndex].role !== 'user') {
+      while (userMessageIndex >= 0 && activePath[userMessageIndex].role !== 'user') {
         userMessageIndex--;
       }
       
@@ -1287,7 +2637,7 @@ export default function Home() {
         return;
       }
       
-      const userMessage = conversation.messages[userMessageIndex];
+      const userMessage = activePath[userMessageIndex];
       console.log("[DEBUG PAGE] Found user message to retry:", {
         content: userMessage.content.slice(0, 100) + "...",
         hasAttachments: !!userMessage.attachments?.length
@@ -1296,34 +2646,16 @@ export default function Home() {
       // Use the selected model if provided, otherwise use the current model
       const modelToUse = selectedModelId || currentModel;
       console.log("[DEBUG PAGE] Using model for retry:", modelToUse);
-      
-      try {
-        // Remove all messages after the user message we're retrying
-        const updatedConversations = conversations.map(conv =>
-          conv.id === conversation.id
-            ? {
-                ...conv,
-                messages: conv.messages.slice(0, userMessageIndex + 1),
-                model: modelToUse, // Update the conversation model
-                updated_at: new Date().toISOString()
-              }
-            : conv
-        );
-        
-        setConversations(updatedConversations);
-        
-        try {
-          saveConversationsLocally(updatedConversations);
-        } catch (saveError) {
-          console.error("[ERROR PAGE] Failed to save conversations after retry cleanup:", saveError);
-        }
-      } catch (updateError) {
-        console.error("[ERROR PAGE] Failed to update conversations for retry:", updateError);
-        // Continue with retry even if update fails
+
+      // An answer that arrived is regenerated in place as a new version; failed turns are asked again
+      const retriedMessage = activePath[messageIndex];
+      if (retriedMessage.role === 'assistant' && !retriedMessage.isError && retriedMessage.parentId) {
+        await regenerateReply(conversation, retriedMessage, modelToUse, temperature);
+        return;
       }
       
       // Get the original message's settings from retryData if available
-      const retrySettings = conversation.messages[messageIndex]?.retryData?.originalSettings || {
+      const retrySettings = activePath[messageIndex]?.retryData?.originalSettings || {
         webSearchEnabled: false,
         codeGenerationEnabled: false,
         enhancedWebSearch: false,
@@ -1350,6 +2682,7 @@ export default function Home() {
         
         // Retry the message with the selected model and original settings
         // Force codeGenerationEnabled to false for retries
+        // The new attempt branches off before the original question, which stays one click away
         await handleSendMessage(
           userMessage.content,
           userMessage.attachments,
@@ -1357,19 +2690,23 @@ export default function Home() {
           false, // Always disable code generation for retries
           retrySettings.userLocation,
           retrySettings.enhancedWebSearch,
-          modelToUse // Pass the selected model
+          modelToUse, // Pass the selected model
+          retrySettings.mode === "code" ? undefined : retrySettings.mode,
+          userMessage.parentId ?? null
         );
       } catch (sendError) {
         console.error("[ERROR PAGE] Failed to send retry message:", sendError);
         // Create error message in conversation
-        const errorMessage = {
-          id: Date.now().toString(),
+        const errorMessage: UIMessage = {
+          id: crypto.randomUUID(),
+          parentId: userMessage.id,
           content: sendError instanceof Error ? sendError.message : 
                   sendError instanceof Event ? `Network error: ${sendError.type}` :
                   'Failed to retry message',
           role: "assistant" as const,
           timestamp: new Date(),
           isError: true,
+          errorCode: sendError instanceof ApiRequestError ? sendError.code : undefined,
           retryData: {
             originalMessage: userMessage.content,
             attachments: userMessage.attachments,
@@ -1380,8 +2717,7 @@ export default function Home() {
         const errorConversations = conversations.map(conv =>
           conv.id === conversation.id
             ? {
-                ...conv,
-                messages: [...conv.messages, errorMessage],
+                ...appendMessage(conv, errorMessage),
                 updated_at: new Date().toISOString()
               }
             : conv
@@ -1400,6 +2736,55 @@ export default function Home() {
     }
   };
 
+  // Editing an earlier question asks it again as a new branch next to the original
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const conversation = conversations.find(conv => conv.messages.some(m => m.id === messageId))
+    const message = conversation?.messages.find(m => m.id === messageId)
+    if (!conversation || !message || message.role !== "user" || isGenerating) return
+
+    await handleSendMessage(content, message.attachments, false, false, null, false, undefined, undefined, message.parentId ?? null)
+  }
+
+  // "< 2/3 >": show the next or previous sibling of a message, at the point where its branch was left
+  const handleSwitchBranch = async (messageId: string, direction: -1 | 1) => {
+    const conversation = conversations.find(conv => conv.messages.some(m => m.id === messageId))
+    if (!conversation || isGenerating) return
+
+    const siblings = getSiblings(conversation.messages, messageId)
+    const target = siblings[siblings.findIndex(msg => msg.id === messageId) + direction]
+    if (!target) return
+
+    const activeLeafId = getLatestLeaf(conversation.messages, target.id)
+    const sharedPathLength = getSharedPathLength(
+      getActivePath(conversation.messages, conversation.active_leaf_id),
+      getActivePath(conversation.messages, activeLeafId)
+    )
+    const changes = keepsContextSummary(conversation, sharedPathLength)
+      ? { active_leaf_id: activeLeafId }
+      : { active_leaf_id: activeLeafId, context_summary: null }
+
+    const updatedConversations = conversations.map(conv =>
+      conv.id === conversation.id ? { ...conv, ...changes } : conv
+    )
+    setConversations(updatedConversations)
+    saveConversationsLocally(updatedConversations)
+
+    if (isAuthenticated) {
+      try {
+        await updateConversation(conversation.id, changes)
+      } catch (error) {
+        console.error('Error saving selected branch:', error)
+      }
+    }
+  }
+
+  // The branch on screen, with each message's place among its siblings
+  const getVisibleMessages = (conv: UIConversation) =>
+    getActivePath(conv.messages, conv.active_leaf_id).map(msg => ({
+      ...msg,
+      branch: getBranchPosition(conv.messages, msg.id)
+    }))
+
   // Don't show loading spinner - always show the main UI
   if (!isClient) {
     return (
@@ -1422,11 +2807,14 @@ export default function Home() {
             title: conv.title,
             timestamp: new Date(conv.updated_at),
             model: conv.model,
-            messages: conv.messages
+            messages: getActivePath(conv.messages, conv.active_leaf_id),
+            systemPrompt: conv.system_prompt || "",
+            summary: conv.summary
           }))}
           projects={projects.map(proj => ({
             id: proj.id,
             name: proj.name,
+            systemPrompt: proj.system_prompt || "",
             conversations: conversations
               .filter(conv => conv.project_id === proj.id)
               .map(conv => conv.id)
@@ -1437,7 +2825,11 @@ export default function Home() {
             title: currentConversation.title,
             timestamp: new Date(currentConversation.updated_at),
             model: currentConversation.model,
-            messages: currentConversation.messages
+            messages: getVisibleMessages(currentConversation),
+            systemPrompt: currentConversation.system_prompt || "",
+            contextSummary: currentConversation.context_summary as ContextSummary | null,
+            summary: currentConversation.summary,
+            projectId: currentConversation.project_id
           } : {
             id: "empty",
             title: "No Conversation",
@@ -1448,6 +2840,8 @@ export default function Home() {
           currentModel={currentModel}
           userSettings={userSettings}
           isTyping={isTyping}
+          isGenerating={isGenerating}
+          onStopGeneration={handleStopGeneration}
           onSendMessage={handleSendMessage}
           onSelectConversation={handleSelectConversation}
           onSelectModel={(modelId: string) => {
@@ -1500,10 +2894,10 @@ export default function Home() {
             const oldSettings = userSettings;
             const oldModels = getAvailableModelsForSettings(oldSettings);
             
-            // Save the settings
-            setUserSettings(settings)
-            if (typeof window !== 'undefined') {
-              localStorage.setItem('apeiron-chat-user-settings', JSON.stringify(settings))
+            // Save the settings; in vault mode new keys go to the server once typing stops
+            applySettings(settings, keyVaultEnabled)
+            if (keyVaultEnabled) {
+              scheduleVaultSync()
             }
             
             // Check if a new API key was added
@@ -1516,9 +2910,30 @@ export default function Home() {
             }
           }}
           onRenameConversation={handleRenameConversation}
+          onUpdateConversationSystemPrompt={handleUpdateConversationSystemPrompt}
+          onUpdateProjectSystemPrompt={handleUpdateProjectSystemPrompt}
           onDeleteConversation={handleDeleteConversation}
           onRetryMessage={handleRetryMessage}
+          onEditMessage={handleEditMessage}
+          onSwitchBranch={handleSwitchBranch}
+          onCompareModels={handleCompareModels}
+          onSelectVariant={handleSelectVariant}
+          responseSchema={responseSchema}
+          onResponseSchemaChange={setResponseSchema}
           onExpandedProjectsChange={handleExpandedProjectsChange}
+          promptTemplates={promptTemplates}
+          onCreatePromptTemplates={handleCreatePromptTemplates}
+          onUpdatePromptTemplate={handleUpdatePromptTemplate}
+          onDeletePromptTemplate={handleDeletePromptTemplate}
+          memories={memories}
+          onCreateMemory={(content) => handleCreateMemories([{ content, source: "user", conversationId: null }])}
+          onUpdateMemory={handleUpdateMemory}
+          onDeleteMemory={handleDeleteMemory}
+          knowledgeDocuments={knowledgeDocuments}
+          embeddingModelId={getEmbeddingModelId()}
+          onAddKnowledgeDocuments={handleAddKnowledgeDocuments}
+          onDeleteKnowledgeDocument={handleDeleteKnowledgeDocument}
+          onApplyTemplateSystemPrompt={handleApplyTemplateSystemPrompt}
         />
       </div>
 
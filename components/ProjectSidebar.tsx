@@ -3,6 +3,7 @@
 import { useState, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { 
@@ -13,7 +14,9 @@ import {
   Trash2, 
   MessageSquare,
   Clock,
-  FolderOpen
+  FolderOpen,
+  ScrollText,
+  Library
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Project, Conversation } from '@/lib/database.types'
@@ -26,11 +29,12 @@ interface ProjectSidebarProps {
   onCreateProject: (name: string, description?: string) => void
   onSelectProject: (projectId: string | null) => void
   onSelectConversation: (conversationId: string) => void
-  onUpdateProject: (id: string, updates: { name?: string; description?: string; color?: string }) => void
+  onUpdateProject: (id: string, updates: { name?: string; description?: string; color?: string; system_prompt?: string | null }) => void
   onDeleteProject: (id: string) => void
   onMoveConversation: (conversationId: string, projectId: string | null) => void
   onCreateConversation: () => void
   onDeleteConversation: (conversationId: string) => void
+  onOpenKnowledgeBase?: (projectId: string) => void
 }
 
 const PROJECT_COLORS = [
@@ -51,12 +55,15 @@ export function ProjectSidebar({
   onDeleteProject,
   onMoveConversation,
   onCreateConversation,
-  onDeleteConversation
+  onDeleteConversation,
+  onOpenKnowledgeBase
 }: ProjectSidebarProps) {
   const [isCreatingProject, setIsCreatingProject] = useState(false)
   const [newProjectName, setNewProjectName] = useState('')
   const [editingProject, setEditingProject] = useState<string | null>(null)
   const [editProjectName, setEditProjectName] = useState('')
+  const [editingPromptProject, setEditingPromptProject] = useState<string | null>(null)
+  const [editSystemPrompt, setEditSystemPrompt] = useState('')
   const [draggedConversation, setDraggedConversation] = useState<string | null>(null)
   const [dragOverProject, setDragOverProject] = useState<string | null>(null)
 
@@ -78,6 +85,12 @@ export function ProjectSidebar({
     }
   }
 
+  const handleUpdateSystemPrompt = (projectId: string) => {
+    onUpdateProject(projectId, { system_prompt: editSystemPrompt.trim() || null })
+    setEditingPromptProject(null)
+    setEditSystemPrompt('')
+  }
+
   const handleDragStart = (e: React.DragEvent, conversationId: string) => {
     setDraggedConversation(conversationId)
     e.dataTransfer.effectAllowed = 'move'
@@ -326,6 +339,33 @@ export function ProjectSidebar({
                           <Edit className="w-4 h-4 mr-2" />
                           Rename
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-full justify-start"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setEditingPromptProject(project.id)
+                            setEditSystemPrompt(project.system_prompt || '')
+                          }}
+                        >
+                          <ScrollText className="w-4 h-4 mr-2" />
+                          System prompt
+                        </Button>
+                        {onOpenKnowledgeBase && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full justify-start"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              onOpenKnowledgeBase(project.id)
+                            }}
+                          >
+                            <Library className="w-4 h-4 mr-2" />
+                            Knowledge base
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -348,6 +388,45 @@ export function ProjectSidebar({
                     {project.description}
                   </p>
                 )}
+
+                {editingPromptProject === project.id ? (
+                  <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                    <Textarea
+                      value={editSystemPrompt}
+                      onChange={(e) => setEditSystemPrompt(e.target.value)}
+                      onKeyDown={(e) => {
+                        e.stopPropagation()
+                        if (e.key === 'Escape') {
+                          setEditingPromptProject(null)
+                          setEditSystemPrompt('')
+                        }
+                      }}
+                      placeholder="Instructions for every conversation in this project"
+                      className="text-sm min-h-[80px]"
+                      autoFocus
+                    />
+                    <div className="flex gap-2">
+                      <Button onClick={() => handleUpdateSystemPrompt(project.id)} size="sm">
+                        Save
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          setEditingPromptProject(null)
+                          setEditSystemPrompt('')
+                        }}
+                        size="sm"
+                        variant="ghost"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : project.system_prompt && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 line-clamp-2 flex items-start gap-1">
+                    <ScrollText className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {project.system_prompt}
+                  </p>
+                )}
               </div>
 
               {selectedProjectId === project.id && (
@@ -0,0 +1,178 @@
+"use client"
+
+import React, { useState } from "react"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { MEMORY_MAX_LENGTH, type Memory } from "@/lib/memories"
+
+interface MemorySettingsProps {
+  memories: Memory[]
+  conversations: Array<{ id: string; title: string }>
+  enabled: boolean // Memory is sent with requests and the model may save new ones
+  onToggleEnabled: (enabled: boolean) => void
+  onCreate: (content: string) => void
+  onUpdate: (id: string, updates: Partial<Pick<Memory, "content" | "enabled">>) => void
+  onDelete: (id: string) => void
+  onOpenConversation: (id: string) => void
+}
+
+const fieldClassName = "w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-[#2b2b2b] border border-gray-200 dark:border-gray-600/30 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+const secondaryButtonClassName = "px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+const primaryButtonClassName = "px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+
+const MemorySettings: React.FC<MemorySettingsProps> = ({
+  memories,
+  conversations,
+  enabled,
+  onToggleEnabled,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onOpenConversation
+}) => {
+  const [draft, setDraft] = useState("")
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null)
+
+  const handleAdd = () => {
+    if (!draft.trim()) return
+    onCreate(draft.trim())
+    setDraft("")
+  }
+
+  const handleSaveEdit = () => {
+    if (!editing) return
+    if (editing.content.trim()) {
+      onUpdate(editing.id, { content: editing.content.trim() })
+    }
+    setEditing(null)
+  }
+
+  const handleDelete = (memory: Memory) => {
+    if (window.confirm(`Delete the memory "${memory.content}"?`)) {
+      onDelete(memory.id)
+    }
+  }
+
+  // Where a memory came from, linking to the conversation the model saved it in
+  const renderSource = (memory: Memory) => {
+    if (memory.source === "user") return <span>Added by you</span>
+    const conversation = conversations.find(conv => conv.id === memory.conversationId)
+    if (!conversation) return <span>Remembered in a deleted conversation</span>
+    return (
+      <span>
+        Remembered in{" "}
+        <button onClick={() => onOpenConversation(conversation.id)} className="underline hover:text-purple-500">
+          {conversation.title}
+        </button>
+      </span>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Use memory</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              New conversations start with the memories that best match them, and models that can use tools may save facts and preferences you mention. Turned off, nothing is sent or saved.
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onToggleEnabled(e.target.checked)}
+            className="w-4 h-4 accent-purple-600 flex-shrink-0"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") handleAdd() }}
+          maxLength={MEMORY_MAX_LENGTH}
+          placeholder="Add a memory, e.g. I work in Python and prefer short answers"
+          className={fieldClassName}
+        />
+        <button onClick={handleAdd} disabled={!draft.trim()} className={primaryButtonClassName} aria-label="Add memory">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {memories.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No memories yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {memories.map(memory => (
+            <div
+              key={memory.id}
+              className="group flex items-start gap-3 px-2 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/40"
+            >
+              <input
+                type="checkbox"
+                checked={memory.enabled}
+                onChange={(e) => onUpdate(memory.id, { enabled: e.target.checked })}
+                className="mt-1 w-4 h-4 accent-purple-600 flex-shrink-0"
+                title={memory.enabled ? "Sent to the model; uncheck to keep it without using it" : "Not sent to the model"}
+                aria-label={memory.enabled ? "Disable memory" : "Enable memory"}
+              />
+              <div className="flex-1 min-w-0">
+                {editing?.id === memory.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      autoFocus
+                      value={editing.content}
+                      onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault()
+                          handleSaveEdit()
+                        }
+                        if (e.key === "Escape") setEditing(null)
+                      }}
+                      maxLength={MEMORY_MAX_LENGTH}
+                      rows={2}
+                      className={`${fieldClassName} resize-y`}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditing(null)} className={secondaryButtonClassName}>Cancel</button>
+                      <button onClick={handleSaveEdit} disabled={!editing.content.trim()} className={primaryButtonClassName}>Save</button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className={`text-sm break-words ${memory.enabled ? "text-gray-800 dark:text-gray-200" : "text-gray-400 dark:text-gray-500 line-through"}`}>
+                    {memory.content}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  {renderSource(memory)} · {new Date(memory.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              {editing?.id !== memory.id && (
+                <>
+                  <button
+                    onClick={() => setEditing({ id: memory.id, content: memory.content })}
+                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                    aria-label="Edit memory"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(memory)}
+                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-500"
+                    aria-label="Delete memory"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MemorySettings
@@ -4,7 +4,7 @@ import React from 'react'
 import { motion } from 'framer-motion'
 
 interface ModelLogoProps {
-  provider: "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway"
+  provider: "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway" | "custom"
   modelId: string
   isLoading?: boolean
   size?: "sm" | "md" | "lg"
@@ -104,6 +104,15 @@ const ModelLogo: React.FC<ModelLogoProps> = ({ provider, modelId, isLoading = fa
             <span>R</span>
           </div>
         )
+
+      case "custom":
+        return (
+          <div className={`${sizeClasses[size]} rounded-lg bg-gradient-to-br from-slate-600 to-gray-800 flex items-center justify-center`}>
+            <svg viewBox="0 0 24 24" className="w-3/4 h-3/4 fill-white">
+              <path d="M4 4h16v6H4V4zm2 2v2h2V6H6zm-2 8h16v6H4v-6zm2 2v2h2v-2H6z"/>
+            </svg>
+          </div>
+        )
         
       default:
         return (
@@ -0,0 +1,144 @@
+"use client"
+
+import React, { useRef } from "react"
+import { AlertCircle, FileText, FileUp, Loader2, Trash2, X } from "lucide-react"
+import { formatFileSize } from "@/lib/file-utils"
+import type { KnowledgeDocument } from "@/lib/knowledge-base"
+
+interface ProjectKnowledgeBaseProps {
+  projectName: string
+  documents: KnowledgeDocument[] // This project's documents, including ones still processing
+  embeddingModelName: string | null // Embeds new uploads; null when no provider is configured for it
+  onAdd: (files: File[]) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+const ACCEPTED_FILES = ".pdf,.txt,.md,.markdown,.csv,.tsv,.json,.html,.xml,.yaml,.yml,.log"
+
+const secondaryButtonClassName = "px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+const primaryButtonClassName = "px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+
+const ProjectKnowledgeBase: React.FC<ProjectKnowledgeBaseProps> = ({
+  projectName,
+  documents,
+  embeddingModelName,
+  onAdd,
+  onDelete,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    if (files.length > 0) onAdd(files)
+    e.target.value = ""
+  }
+
+  const handleDelete = (document: KnowledgeDocument) => {
+    if (document.status !== "ready" || window.confirm(`Remove "${document.name}" from the knowledge base?`)) {
+      onDelete(document.id)
+    }
+  }
+
+  const renderStatus = (document: KnowledgeDocument) => {
+    if (document.status === "processing") {
+      return (
+        <span className="flex items-center gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" /> Reading and embedding…
+        </span>
+      )
+    }
+    if (document.status === "error") {
+      return (
+        <span className="flex items-center gap-1 text-red-500">
+          <AlertCircle className="w-3 h-3 flex-shrink-0" /> {document.error || "Failed to process"}
+        </span>
+      )
+    }
+    return (
+      <span>
+        {formatFileSize(document.size)} · {document.chunkCount} {document.chunkCount === 1 ? "passage" : "passages"} · {new Date(document.createdAt).toLocaleDateString()}
+      </span>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-white/90 dark:bg-gray-800/90 backdrop-blur-xl rounded-xl shadow-2xl overflow-hidden max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-5 border-b border-gray-200/20 dark:border-gray-700/20">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 dark:text-gray-200">Knowledge Base · {projectName}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Every question asked in this project is answered with the most relevant passages of these documents, cited as [KB1], [KB2] and so on.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {documents.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No documents yet. Add PDFs or text files to get started.</p>
+          ) : (
+            <div className="space-y-1">
+              {documents.map(document => (
+                <div
+                  key={document.id}
+                  className="group flex items-start gap-3 px-2 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/40"
+                >
+                  <FileText className="w-4 h-4 mt-0.5 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800 dark:text-gray-200 truncate" title={document.name}>{document.name}</p>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{renderStatus(document)}</div>
+                  </div>
+                  {document.status !== "processing" && (
+                    <button
+                      onClick={() => handleDelete(document)}
+                      className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-500"
+                      aria-label="Remove document"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 p-5 border-t border-gray-200/20 dark:border-gray-700/20">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {embeddingModelName
+              ? `New documents are embedded with ${embeddingModelName}.`
+              : "Add an OpenAI, Gemini or Mistral API key, or pick an embedding model in Settings → Models."}
+          </p>
+          <div className="flex gap-2 flex-shrink-0">
+            <button onClick={onClose} className={secondaryButtonClassName}>Done</button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!embeddingModelName}
+              className={`${primaryButtonClassName} flex items-center gap-1.5`}
+            >
+              <FileUp className="w-4 h-4" /> Add documents
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_FILES}
+            onChange={handleFiles}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProjectKnowledgeBase
@@ -0,0 +1,382 @@
+"use client"
+
+import React, { useRef, useState } from "react"
+import { Download, FileUp, Pencil, Plus, Search, Trash2, X } from "lucide-react"
+import {
+  exportPromptTemplates,
+  fillTemplate,
+  getTemplateVariables,
+  getTemplatesForProject,
+  parsePromptTemplateFile,
+  type PromptTemplate,
+  type PromptTemplateDraft
+} from "@/lib/prompt-templates"
+
+interface PromptTemplateLibraryProps {
+  templates: PromptTemplate[]
+  projects: Array<{ id: string; name: string }>
+  projectId: string | null // Project of the open conversation; its templates are listed with the personal ones
+  models: Array<{ id: string; name: string }>
+  initialQuery?: string
+  initialTemplateId?: string // Opens straight on this template's variable form
+  onInsert: (template: PromptTemplate, values: Record<string, string>) => void
+  onCreate: (drafts: PromptTemplateDraft[]) => void
+  onUpdate: (id: string, updates: Partial<PromptTemplateDraft>) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+type ToggleDefault = "keep" | "on" | "off"
+
+type EditorState = {
+  id: string | null // null while creating
+  name: string
+  description: string
+  content: string
+  systemPrompt: string
+  defaultModel: string
+  webSearch: ToggleDefault
+  codeGeneration: ToggleDefault
+  projectId: string | null
+}
+
+const toToggleDefault = (value: boolean | undefined): ToggleDefault => value === undefined ? "keep" : value ? "on" : "off"
+const fromToggleDefault = (value: ToggleDefault): boolean | undefined => value === "keep" ? undefined : value === "on"
+
+const fieldClassName = "w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-[#2b2b2b] border border-gray-200 dark:border-gray-600/30 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+const labelClassName = "block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1"
+const secondaryButtonClassName = "px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+const primaryButtonClassName = "px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+
+const PromptTemplateLibrary: React.FC<PromptTemplateLibraryProps> = ({
+  templates,
+  projects,
+  projectId,
+  models,
+  initialQuery = "",
+  initialTemplateId,
+  onInsert,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onClose
+}) => {
+  const [query, setQuery] = useState(initialQuery)
+  const [editor, setEditor] = useState<EditorState | null>(null)
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(
+    () => templates.find(template => template.id === initialTemplateId) || null
+  )
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({})
+  const [notice, setNotice] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const visibleTemplates = getTemplatesForProject(templates, projectId)
+  const normalizedQuery = query.trim().toLowerCase()
+  const matchingTemplates = normalizedQuery
+    ? visibleTemplates.filter(template =>
+        template.name.toLowerCase().includes(normalizedQuery) ||
+        (template.description || "").toLowerCase().includes(normalizedQuery)
+      )
+    : visibleTemplates
+
+  const getScopeName = (template: PromptTemplate) =>
+    template.projectId ? projects.find(project => project.id === template.projectId)?.name || "Project" : "Personal"
+
+  const handleUse = (template: PromptTemplate) => {
+    if (getTemplateVariables(template).length === 0) {
+      onInsert(template, {})
+      return
+    }
+    setVariableValues({})
+    setFillingTemplate(template)
+  }
+
+  const handleNew = () => {
+    setEditor({
+      id: null,
+      name: "",
+      description: "",
+      content: "",
+      systemPrompt: "",
+      defaultModel: "",
+      webSearch: "keep",
+      codeGeneration: "keep",
+      projectId: null
+    })
+  }
+
+  const handleEdit = (template: PromptTemplate) => {
+    setEditor({
+      id: template.id,
+      name: template.name,
+      description: template.description || "",
+      content: template.content,
+      systemPrompt: template.systemPrompt || "",
+      defaultModel: template.defaultModel || "",
+      webSearch: toToggleDefault(template.webSearchEnabled),
+      codeGeneration: toToggleDefault(template.codeGenerationEnabled),
+      projectId: template.projectId
+    })
+  }
+
+  const handleSave = () => {
+    if (!editor || !editor.name.trim() || !editor.content.trim()) return
+    const draft: PromptTemplateDraft = {
+      name: editor.name.trim(),
+      description: editor.description.trim() || undefined,
+      content: editor.content,
+      systemPrompt: editor.systemPrompt.trim() || undefined,
+      defaultModel: editor.defaultModel || undefined,
+      webSearchEnabled: fromToggleDefault(editor.webSearch),
+      codeGenerationEnabled: fromToggleDefault(editor.codeGeneration),
+      projectId: editor.projectId
+    }
+    if (editor.id) {
+      onUpdate(editor.id, draft)
+    } else {
+      onCreate([draft])
+    }
+    setEditor(null)
+  }
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (window.confirm(`Delete the template "${template.name}"?`)) {
+      onDelete(template.id)
+    }
+  }
+
+  // Exports what the list shows: personal templates and those of the current project
+  const handleExport = () => {
+    const blob = new Blob([exportPromptTemplates(visibleTemplates)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "prompt-templates.json"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // Imported templates are personal; they can be moved to a project from the editor
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // Let the same file be picked again
+    if (!file) return
+
+    try {
+      const drafts = parsePromptTemplateFile(await file.text(), null)
+      onCreate(drafts)
+      setNotice(`Imported ${drafts.length} template${drafts.length === 1 ? "" : "s"}`)
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : "Import failed")
+    }
+  }
+
+  const renderToggleSelect = (label: string, value: ToggleDefault, onChange: (value: ToggleDefault) => void) => (
+    <div>
+      <label className={labelClassName}>{label}</label>
+      <select value={value} onChange={(e) => onChange(e.target.value as ToggleDefault)} className={fieldClassName}>
+        <option value="keep">Leave as is</option>
+        <option value="on">Turn on</option>
+        <option value="off">Turn off</option>
+      </select>
+    </div>
+  )
+
+  // Variable form for the template being inserted
+  if (fillingTemplate) {
+    const variables = getTemplateVariables(fillingTemplate)
+    const preview = fillTemplate(fillingTemplate.content, variableValues)
+    return (
+      <div className="w-full max-w-3xl p-3 space-y-3 rounded-xl border border-gray-200/20 dark:border-gray-700/20 bg-white/20 dark:bg-gray-800/40">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{fillingTemplate.name}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300" aria-label="Close templates">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {variables.map((name, index) => (
+            <div key={name}>
+              <label className={labelClassName}>{name}</label>
+              <input
+                autoFocus={index === 0}
+                value={variableValues[name] || ""}
+                onChange={(e) => setVariableValues(previous => ({ ...previous, [name]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") onInsert(fillingTemplate, variableValues)
+                }}
+                className={fieldClassName}
+              />
+            </div>
+          ))}
+        </div>
+        <pre className="max-h-32 overflow-y-auto whitespace-pre-wrap rounded-lg p-2 text-xs text-gray-600 dark:text-gray-400 bg-gray-100/60 dark:bg-gray-900/40">{preview}</pre>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setFillingTemplate(null)} className={secondaryButtonClassName}>Back</button>
+          <button onClick={() => onInsert(fillingTemplate, variableValues)} className={primaryButtonClassName}>Insert</button>
+        </div>
+      </div>
+    )
+  }
+
+  if (editor) {
+    const variables = getTemplateVariables(editor)
+    return (
+      <div className="w-full max-w-3xl p-3 space-y-3 rounded-xl border border-gray-200/20 dark:border-gray-700/20 bg-white/20 dark:bg-gray-800/40">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{editor.id ? "Edit template" : "New template"}</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div>
+            <label className={labelClassName}>Name</label>
+            <input value={editor.name} onChange={(e) => setEditor({ ...editor, name: e.target.value })} className={fieldClassName} />
+          </div>
+          <div>
+            <label className={labelClassName}>Available in</label>
+            <select
+              value={editor.projectId || ""}
+              onChange={(e) => setEditor({ ...editor, projectId: e.target.value || null })}
+              className={fieldClassName}
+            >
+              <option value="">All conversations (personal)</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>Project: {project.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Description</label>
+          <input value={editor.description} onChange={(e) => setEditor({ ...editor, description: e.target.value })} className={fieldClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>Prompt — use {"{{variable}}"} for the parts that change</label>
+          <textarea
+            value={editor.content}
+            onChange={(e) => setEditor({ ...editor, content: e.target.value })}
+            rows={5}
+            placeholder={"Review this {{language}} code for bugs and style issues:\n\n{{code}}"}
+            className={`${fieldClassName} resize-y`}
+          />
+          {variables.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Variables: {variables.join(", ")}</p>
+          )}
+        </div>
+        <div>
+          <label className={labelClassName}>System prompt (optional, set on the conversation)</label>
+          <textarea
+            value={editor.systemPrompt}
+            onChange={(e) => setEditor({ ...editor, systemPrompt: e.target.value })}
+            rows={2}
+            className={`${fieldClassName} resize-y`}
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <div>
+            <label className={labelClassName}>Model</label>
+            <select value={editor.defaultModel} onChange={(e) => setEditor({ ...editor, defaultModel: e.target.value })} className={fieldClassName}>
+              <option value="">Keep the selected model</option>
+              {editor.defaultModel && !models.some(model => model.id === editor.defaultModel) && (
+                <option value={editor.defaultModel}>{editor.defaultModel} (not available)</option>
+              )}
+              {models.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+          </div>
+          {renderToggleSelect("Web search", editor.webSearch, (webSearch) => setEditor({ ...editor, webSearch }))}
+          {renderToggleSelect("Code generation", editor.codeGeneration, (codeGeneration) => setEditor({ ...editor, codeGeneration }))}
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setEditor(null)} className={secondaryButtonClassName}>Cancel</button>
+          <button onClick={handleSave} disabled={!editor.name.trim() || !editor.content.trim()} className={primaryButtonClassName}>
+            Save template
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full max-w-3xl p-3 space-y-2 rounded-xl border border-gray-200/20 dark:border-gray-700/20 bg-white/20 dark:bg-gray-800/40">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && matchingTemplates.length > 0) handleUse(matchingTemplates[0])
+              if (e.key === "Escape") onClose()
+            }}
+            placeholder="Search templates..."
+            className={`${fieldClassName} pl-8`}
+          />
+        </div>
+        <button onClick={handleNew} className={secondaryButtonClassName} title="New template" aria-label="New template">
+          <Plus className="w-4 h-4" />
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={secondaryButtonClassName} title="Import templates from JSON" aria-label="Import templates">
+          <FileUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={visibleTemplates.length === 0}
+          className={`${secondaryButtonClassName} disabled:opacity-50`}
+          title="Export templates as JSON"
+          aria-label="Export templates"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className={secondaryButtonClassName} aria-label="Close templates">
+          <X className="w-4 h-4" />
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {notice && <p className="text-xs text-gray-500 dark:text-gray-400">{notice}</p>}
+
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {matchingTemplates.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500 dark:text-gray-400">
+            {visibleTemplates.length === 0 ? "No templates yet. Save a prompt you use often with +." : "No template matches your search."}
+          </p>
+        ) : (
+          matchingTemplates.map(template => (
+            <div
+              key={template.id}
+              className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/40"
+            >
+              <button onClick={() => handleUse(template)} className="flex-1 min-w-0 text-left">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-800 dark:text-gray-200 truncate">{template.name}</span>
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-200/60 dark:bg-gray-700/60 text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {getScopeName(template)}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{template.description || template.content}</p>
+              </button>
+              <button
+                onClick={() => handleEdit(template)}
+                className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                aria-label={`Edit ${template.name}`}
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(template)}
+                className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-500"
+                aria-label={`Delete ${template.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PromptTemplateLibrary
@@ -2,7 +2,10 @@
 
 import React, { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
-import { Download, Play, Pause, Volume2, VolumeX, Maximize2, Minimize2, AlertCircle, CheckCircle, Copy, ExternalLink } from 'lucide-react'
+import { Download, Play, Pause, Volume2, VolumeX, Maximize2, Minimize2, AlertCircle, CheckCircle, Copy, ExternalLink, Square } from 'lucide-react'
+import { ApiRequestError, parseApiResponse, readApiError, VIDEO_API_KEY_HEADER, videoOperationResponseSchema, type ApiErrorCode, type VideoOperationStatus } from '@/lib/api'
+import { isStoredApiKey } from '@/lib/key-vault'
+import { getAuthHeaders } from '@/lib/supabase'
 
 interface VideoPreviewProps {
   videoUrl?: string
@@ -15,17 +18,6 @@ interface VideoPreviewProps {
   onError?: (error: string) => void
 }
 
-interface OperationStatus {
-  operationName: string
-  status: "processing" | "completed" | "failed" | "expired"
-  progress: number
-  videoUrl?: string
-  error?: string
-  duration?: string
-  createdAt?: string
-  completedAt?: string
-}
-
 const VideoPreview: React.FC<VideoPreviewProps> = ({
   videoUrl: initialVideoUrl,
   videoTitle = "Generated Video",
@@ -43,44 +35,55 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
   
   // Add ref to track polling timeout for cleanup
   const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Set once the user cancels, so a poll already in flight does not schedule another
+  const cancelledRef = useRef(false)
   
   // Real-time operation tracking
-  const [operationStatus, setOperationStatus] = useState<OperationStatus | null>(null)
+  const [operationStatus, setOperationStatus] = useState<VideoOperationStatus | null>(null)
   const [currentVideoUrl, setCurrentVideoUrl] = useState<string | undefined>(initialVideoUrl)
   const [authenticatedVideoUrl, setAuthenticatedVideoUrl] = useState<string | undefined>(initialVideoUrl)
   const [isPolling, setIsPolling] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Kind of failure behind `error`, from the API error envelope or the operation status
+  const [errorCode, setErrorCode] = useState<ApiErrorCode | null>(null)
+  const [isCancelled, setIsCancelled] = useState(false)
   const [isLoadingVideo, setIsLoadingVideo] = useState(false)
 
-  // Helper function to create authenticated URL with API key
-  const createAuthenticatedUrl = (videoUrl: string): string => {
-    if (!apiKey) {
-      console.log("No API key available - returning original URL");
-      return videoUrl;
+  // The key lives in the server vault: send the session instead of the key
+  const usesStoredKey = isStoredApiKey(apiKey)
+  const blobUrlRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (blobUrlRef.current) URL.revokeObjectURL(blobUrlRef.current)
     }
+  }, [])
 
-    // Add API key directly to the video URL
-    const authUrl = videoUrl.includes('key=') 
-      ? videoUrl 
-      : videoUrl.includes('?') 
-        ? `${videoUrl}&key=${apiKey}`
-        : `${videoUrl}?key=${apiKey}`;
-    
-    return authUrl;
+  // Keys never go in a URL: a local key travels in a header, a stored one is resolved from the session
+  const getVideoKeyHeaders = async (): Promise<Record<string, string>> => {
+    if (usesStoredKey) return getAuthHeaders()
+    return apiKey ? { [VIDEO_API_KEY_HEADER]: apiKey } : {}
+  }
+
+  const createVeoRequest = async (operation: string): Promise<{ url: string; headers: Record<string, string> }> => {
+    const query = new URLSearchParams({ operationName: operation })
+    return { url: `/api/veo2?${query}`, headers: await getVideoKeyHeaders() }
   }
 
-  // Create authenticated video URL for playback
+  // Create authenticated video URL for playback: the video is fetched through the proxy and played from a blob
   const createAuthenticatedVideoUrl = async (videoUrl: string) => {
     console.log("Setting up authenticated video URL for playback...");
     console.log("Input video URL:", videoUrl);
     
     try {
-      const authUrl = createAuthenticatedUrl(videoUrl);
-      console.log("Created authenticated video URL:", authUrl.replace(apiKey || '', 'API_KEY_HIDDEN'));
-      setAuthenticatedVideoUrl(authUrl);
+      const response = await fetch(`/api/video-proxy?url=${encodeURIComponent(videoUrl)}`, { headers: await getVideoKeyHeaders() });
+      if (!response.ok) {
+        throw ApiRequestError.from(await readApiError(response));
+      }
+      if (blobUrlRef.current) URL.revokeObjectURL(blobUrlRef.current);
+      blobUrlRef.current = URL.createObjectURL(await response.blob());
+      setAuthenticatedVideoUrl(blobUrlRef.current);
       setIsLoadingVideo(false);
-      
-      console.log("Authenticated video URL set successfully for direct playback");
     } catch (err) {
       console.error("Failed to create authenticated video URL:", err);
       // Fallback to original URL
@@ -104,67 +107,64 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
     setIsPolling(true);
     console.log("=== Starting VEO 2 Status Poll ===");
     console.log("Operation Name:", operationName);
-    console.log("API Key:", apiKey ? `${apiKey.substring(0, 10)}...` : "not provided");
     console.log("Current Video URL:", currentVideoUrl);
     console.log("Current Error:", error);
 
     try {
-      // Pass both apiKey and geminiApiKey (they are the same in this case)
-      const url = `/api/veo2?operationName=${encodeURIComponent(operationName)}&apiKey=${encodeURIComponent(apiKey)}&geminiApiKey=${encodeURIComponent(apiKey)}`
+      const { url, headers } = await createVeoRequest(operationName)
       console.log("Making status request to:", url);
       
-      const response = await fetch(url)
-      const result = await response.json()
-
+      const response = await fetch(url, { headers })
       console.log("Status poll response status:", response.status);
-      console.log("Status poll result:", JSON.stringify(result, null, 2));
 
       if (!response.ok) {
-        console.error("Status poll failed:", response.status, result);
-        throw new Error(result.error || `Failed to check status: ${response.status}`)
+        const apiError = await readApiError(response)
+        console.error("Status poll failed:", response.status, apiError);
+        throw ApiRequestError.from(apiError)
       }
 
-      if (result.success && result.data) {
-        const status = result.data as OperationStatus
-        console.log("Setting operation status:", status);
-        setOperationStatus(status)
-
-        if (status.status === "completed" && status.videoUrl) {
-          console.log("Video generation completed! URL:", status.videoUrl);
-          console.log("Setting currentVideoUrl to:", status.videoUrl);
-          setCurrentVideoUrl(status.videoUrl)
-          setIsPolling(false)
-          // Create authenticated video URL for playback
-          createAuthenticatedVideoUrl(status.videoUrl)
-          console.log("Video state updated - should transition to video player")
-        } else if (status.status === "expired") {
-          console.log("Video operation has expired:", status.error);
-          setError(status.error || "Video operation has expired")
-          setIsPolling(false)
-          // Don't call onError for expired operations to avoid blocking new generations
-          console.log("Operation expired - stopping polling gracefully")
-        } else if (status.status === "failed") {
-          console.log("Video generation failed:", status.error);
-          setError(status.error || "Video generation failed")
-          setIsPolling(false)
-          onError?.(status.error || "Video generation failed")
-        } else if (status.status === "processing") {
-          console.log("Video still processing, progress:", status.progress, "%. Continuing to poll...");
-          // Continue polling
-          setIsPolling(false); // Reset polling state so next poll can start
-          pollingTimeoutRef.current = setTimeout(() => {
-            console.log("Scheduling next poll in 5 seconds...");
-            pollOperationStatus();
-          }, 5000) // Poll every 5 seconds
-        }
-      } else {
-        console.error("Invalid response format:", result);
-        setIsPolling(false);
-        throw new Error("Invalid response format from status endpoint");
+      const result = parseApiResponse(videoOperationResponseSchema, await response.json())
+      console.log("Status poll result:", JSON.stringify(result, null, 2));
+
+      const status = result.data
+      console.log("Setting operation status:", status);
+      setOperationStatus(status)
+
+      if (status.status === "completed" && status.videoUrl) {
+        console.log("Video generation completed! URL:", status.videoUrl);
+        console.log("Setting currentVideoUrl to:", status.videoUrl);
+        setCurrentVideoUrl(status.videoUrl)
+        setIsPolling(false)
+        // Create authenticated video URL for playback
+        createAuthenticatedVideoUrl(status.videoUrl)
+        console.log("Video state updated - should transition to video player")
+      } else if (status.status === "expired") {
+        console.log("Video operation has expired:", status.error);
+        setError(status.error || "Video operation has expired")
+        setErrorCode(status.errorCode || "not_found")
+        setIsPolling(false)
+        // Don't call onError for expired operations to avoid blocking new generations
+        console.log("Operation expired - stopping polling gracefully")
+      } else if (status.status === "failed") {
+        console.log("Video generation failed:", status.error);
+        setError(status.error || "Video generation failed")
+        setErrorCode(status.errorCode || "internal")
+        setIsPolling(false)
+        onError?.(status.error || "Video generation failed")
+      } else if (status.status === "processing") {
+        console.log("Video still processing, progress:", status.progress, "%. Continuing to poll...");
+        // Continue polling
+        setIsPolling(false); // Reset polling state so next poll can start
+        if (cancelledRef.current) return
+        pollingTimeoutRef.current = setTimeout(() => {
+          console.log("Scheduling next poll in 5 seconds...");
+          pollOperationStatus();
+        }, 5000) // Poll every 5 seconds
       }
     } catch (err) {
       console.error("Error polling operation status:", err)
       setError(err instanceof Error ? err.message : "Failed to check video status")
+      setErrorCode(err instanceof ApiRequestError ? err.code : "internal")
       setIsPolling(false)
       onError?.(err instanceof Error ? err.message : "Failed to check video status")
     }
@@ -183,6 +183,8 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
       
       // Reset related state when video URL changes
       setError(null);
+      setErrorCode(null);
+      setIsCancelled(false);
       setIsLoadingVideo(false);
       
       if (initialVideoUrl) {
@@ -203,6 +205,9 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
       setOperationStatus(null);
       setIsPolling(false);
       setError(null);
+      setErrorCode(null);
+      setIsCancelled(false);
+      cancelledRef.current = false;
       console.log("VideoPreview: Reset operation state for new operation");
     }
   }, [operationName]);
@@ -245,6 +250,30 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
     };
   }, [operationName])
 
+  // Stop polling and ask the server to cancel the VEO 2 operation where Google allows it
+  const handleCancelGeneration = async () => {
+    if (!operationName) return
+
+    cancelledRef.current = true
+    if (pollingTimeoutRef.current) {
+      clearTimeout(pollingTimeoutRef.current)
+      pollingTimeoutRef.current = null
+    }
+    setIsPolling(false)
+    setIsCancelled(true)
+    setErrorCode(null)
+    setError("Video generation was cancelled")
+
+    try {
+      const { url, headers } = await createVeoRequest(operationName)
+      const response = await fetch(url, { method: 'DELETE', headers })
+      const result = await response.json()
+      console.log("Cancel result:", result)
+    } catch (err) {
+      console.error("Failed to cancel video generation:", err)
+    }
+  }
+
   const handlePlayPause = () => {
     if (videoRef) {
       if (isPlaying) {
@@ -278,17 +307,15 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
 
   // Show error state
   if (error) {
-    const isContentFiltered = error.includes("blocked by Google's safety filters") || 
-                              error.includes("safety filters") ||
-                              error.includes("content policy");
-    const isExpired = error.includes("expired") || error.includes("no longer accessible");
+    const isContentFiltered = errorCode === "content_filtered";
+    const isExpired = errorCode === "not_found"; // The operation expired or is no longer accessible
     
     return (
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         className={`rounded-lg p-6 border ${
-          isExpired
+          isExpired || isCancelled
             ? 'bg-gray-50 dark:bg-gray-900/20 border-gray-200 dark:border-gray-700'
             : isContentFiltered 
             ? 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800'
@@ -297,16 +324,16 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
       >
         <div className="flex items-center space-x-3 mb-4">
           <AlertCircle className={`w-8 h-8 ${
-            isExpired ? 'text-gray-500' : isContentFiltered ? 'text-orange-500' : 'text-red-500'
+            isExpired || isCancelled ? 'text-gray-500' : isContentFiltered ? 'text-orange-500' : 'text-red-500'
           }`} />
           <span className={`text-lg font-medium ${
-            isExpired
+            isExpired || isCancelled
               ? 'text-gray-700 dark:text-gray-300'
               : isContentFiltered 
               ? 'text-orange-800 dark:text-orange-200'
               : 'text-red-800 dark:text-red-200'
           }`}>
-            {isExpired ? '⏰ Video Expired' : isContentFiltered ? '🛡️ Content Filtered' : 'Video Generation Failed'}
+            {isExpired ? '⏰ Video Expired' : isCancelled ? 'Video Cancelled' : isContentFiltered ? '🛡️ Content Filtered' : 'Video Generation Failed'}
           </span>
         </div>
         
@@ -441,7 +468,7 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
 
         {/* Manual status check button for debugging */}
         {isRealOperation && (
-          <div className="mt-4 text-center">
+          <div className="mt-4 flex justify-center gap-2">
             <button
               onClick={() => {
                 console.log("Manual status check triggered");
@@ -451,6 +478,13 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
             >
               Check Status Now
             </button>
+            <button
+              onClick={handleCancelGeneration}
+              className="px-4 py-2 flex items-center gap-1.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 text-sm rounded-lg transition-colors"
+            >
+              <Square className="w-3.5 h-3.5" />
+              Cancel
+            </button>
           </div>
         )}
       </motion.div>
@@ -555,6 +589,7 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
             onError={(e) => {
               console.error("Video loading error:", e);
               console.log("Failed video URL:", authenticatedVideoUrl || currentVideoUrl);
+              setErrorCode("not_found");
               setError("Failed to load video. The video URL may have expired or requires access permissions. Try using the Copy URL button to access it directly.");
             }}
           >
@@ -0,0 +1,351 @@
+// Request and response contracts for the routes under app/api
+//
+// Routes parse their input with these schemas before doing any work, and clients build their
+// requests from the inferred types. Responses are objects that may carry extra fields, so a route
+// can add data without breaking older clients.
+
+import { z } from "zod"
+import { VAULT_PROVIDERS } from "../key-vault.ts"
+import { MAX_INJECTED_MEMORIES, MEMORY_MAX_LENGTH } from "../memories.ts"
+import { EMBEDDING_BATCH_SIZE } from "../embeddings.ts"
+import { MAX_KNOWLEDGE_SOURCES } from "../knowledge-base.ts"
+import { CHAT_MODES, type ChatMode } from "../slash-commands.ts"
+import { API_ERROR_CODES, ApiRequestError } from "./errors.ts"
+
+// Query strings and older clients send flags as "true"/"false"
+const flagSchema = z.union([z.boolean(), z.string()]).optional()
+
+const optionalKeySchema = z.string().optional()
+
+// /api/chat
+
+export const chatAttachmentSchema = z.object({
+  id: z.string().optional(),
+  type: z.string().optional(),
+  url: z.string().optional(),
+  name: z.string().optional(),
+  size: z.number().optional(),
+  extractedText: z.string().optional(),
+  textExtracted: z.boolean().optional(),
+  uploadedAt: z.string().optional()
+}).passthrough()
+
+export const chatRequestMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string().catch(""), // Non-text content is sent as an empty string
+  attachments: z.array(chatAttachmentSchema).optional()
+})
+
+export const contextSummarySchema = z.object({
+  content: z.string(),
+  messageCount: z.number().int().nonnegative()
+})
+
+export const fallbackCandidateSchema = z.object({
+  model: z.string().min(1),
+  provider: z.string().min(1),
+  apiKey: z.string().default("") // Empty for keyless custom endpoints and keys kept in the vault
+})
+
+// Retrieved from the project's knowledge base; numbered [KB1]..[KBn] in the order sent
+export const knowledgeSourceSchema = z.object({
+  documentId: z.string(),
+  documentName: z.string(),
+  chunkIndex: z.number().int().nonnegative(),
+  content: z.string().max(20_000),
+  similarity: z.number().optional()
+})
+
+// Signed-in users with stored keys leave the key fields out; they are looked up in the key vault
+export const chatRequestSchema = z.object({
+  messages: z.array(chatRequestMessageSchema).min(1, "Messages array is required and must not be empty").max(1000),
+  model: z.string().min(1, "Valid model is required"),
+  provider: z.string().min(1, "Valid provider is required"),
+  apiKey: optionalKeySchema,
+  geminiApiKey: optionalKeySchema,
+  openaiApiKey: optionalKeySchema,
+  runwayApiKey: optionalKeySchema,
+  veo2ApiKey: optionalKeySchema,
+  customModelName: z.string().optional(),
+  customBaseUrl: z.string().optional(), // OpenAI-compatible server used by the "custom" provider
+  webSearchEnabled: flagSchema,
+  enhancedWebSearch: flagSchema,
+  codeGenerationEnabled: flagSchema,
+  temperature: z.number().min(0).max(2).optional(),
+  systemPrompt: z.string().optional(),
+  contextSummary: contextSummarySchema.nullable().optional(),
+  fallbacks: z.array(fallbackCandidateSchema).max(10).optional(),
+  responseSchema: z.record(z.any()).nullable().optional(), // Ask for JSON matching this schema instead of free text
+  reasoningEfforts: z.record(z.enum(["off", "low", "medium", "high"])).optional(), // Thinking effort picked per model ID
+  mode: z.enum(CHAT_MODES as [ChatMode, ...ChatMode[]]).optional(), // Set by a composer slash command
+  memories: z.array(z.string().max(MEMORY_MAX_LENGTH)).max(MAX_INJECTED_MEMORIES).optional(), // Added to the system prompt
+  memoryEnabled: flagSchema, // Offer the remember tool
+  knowledgeSources: z.array(knowledgeSourceSchema).max(MAX_KNOWLEDGE_SOURCES).optional(), // Project document excerpts to cite as [KBn]
+  userLocation: z.string().optional(),
+  retryCount: z.number().int().nonnegative().optional()
+})
+
+export type ChatRequest = z.input<typeof chatRequestSchema>
+
+// Non-streamed reply; streamed replies carry the same fields in their final "done" event
+export const chatReplySchema = z.object({
+  response: z.string(),
+  content: z.string().optional(),
+  model: z.string(),
+  provider: z.string(),
+  parts: z.array(z.any()).optional(),
+  searchResults: z.array(z.any()).nullable().optional(),
+  contextSummary: contextSummarySchema.nullable().optional(),
+  fallback: z.any().optional(),
+  usage: z.any().optional(),
+  imageGeneration: z.boolean().optional(),
+  imageUrl: z.string().optional(),
+  isError: z.boolean().optional()
+}).passthrough()
+
+export type ChatReply = z.infer<typeof chatReplySchema>
+
+// /api/conversation-summary
+
+export const conversationSummaryRequestSchema = z.object({
+  messages: z.array(chatRequestMessageSchema.pick({ role: true, content: true })).min(1, "Messages array is required and must not be empty").max(1000),
+  model: z.string().min(1, "Valid model is required"),
+  provider: z.string().min(1, "Valid provider is required"),
+  apiKey: optionalKeySchema,
+  customBaseUrl: z.string().optional(),
+  title: z.boolean().default(false),
+  summary: z.boolean().default(false)
+}).refine(body => body.title || body.summary, "Ask for a title, a summary or both")
+
+export type ConversationSummaryRequest = z.input<typeof conversationSummaryRequestSchema>
+
+// null when the part was not asked for or the model gave none
+export const conversationSummaryResponseSchema = z.object({
+  title: z.string().nullable(),
+  summary: z.string().nullable()
+})
+
+// /api/custom-models
+
+export const customModelsRequestSchema = z.object({
+  baseUrl: z.string().min(1, "A valid http(s) base URL is required"),
+  apiKey: optionalKeySchema
+})
+
+export const customModelsResponseSchema = z.object({
+  baseUrl: z.string(),
+  models: z.array(z.string())
+})
+
+// /api/embeddings
+
+export const embeddingsRequestSchema = z.object({
+  texts: z.array(z.string().min(1).max(20_000)).min(1, "Texts are required").max(EMBEDDING_BATCH_SIZE),
+  model: z.string().min(1, "An embedding model is required"), // "<provider>:<model>", see lib/embeddings.ts
+  apiKey: optionalKeySchema,
+  customBaseUrl: z.string().optional()
+})
+
+export type EmbeddingsRequest = z.input<typeof embeddingsRequestSchema>
+
+export const embeddingsResponseSchema = z.object({
+  model: z.string(),
+  embeddings: z.array(z.array(z.number()))
+})
+
+// /api/generate-image
+
+export const generateImageRequestSchema = z.object({
+  prompt: z.string().trim().min(1, "Prompt is required").max(4000),
+  model: z.string().optional()
+})
+
+export const generateImageResponseSchema = z.object({
+  imageUrl: z.string(),
+  provider: z.string()
+})
+
+// /api/html-code
+
+export const htmlCodeEntrySchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().max(2000).optional(),
+  htmlContent: z.string().min(1, "HTML content is required").max(1024 * 1024, "HTML content too large (max 1MB)"),
+  userId: z.string().optional(),
+  isPublic: z.boolean().default(false),
+  tags: z.array(z.string().max(50)).max(20).default([]),
+  templateType: z.enum(["basic", "header", "navigation", "alert", "complete"]).optional()
+})
+
+export const htmlCodeUpdateSchema = htmlCodeEntrySchema.partial()
+
+export const htmlCodeListQuerySchema = z.object({
+  id: z.string().optional(),
+  userId: z.string().optional(),
+  public: z.enum(["true", "false"]).optional(),
+  type: z.string().optional(),
+  tags: z.string().optional(), // Comma separated
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+})
+
+export const htmlCodeIdQuerySchema = z.object({
+  id: z.string().min(1, "ID parameter is required")
+})
+
+export const htmlCodeActionQuerySchema = htmlCodeIdQuerySchema.extend({
+  action: z.enum(["download"])
+})
+
+export const htmlCodeResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.any(),
+  message: z.string().optional()
+}).passthrough()
+
+// /api/keys
+
+export const storeApiKeyRequestSchema = z.object({
+  provider: z.enum(VAULT_PROVIDERS),
+  apiKey: z.string().trim().min(1, "API key is required")
+})
+
+export const apiKeyProviderQuerySchema = z.object({
+  provider: z.enum(VAULT_PROVIDERS)
+})
+
+export const storedKeyInfoSchema = z.object({
+  provider: z.enum(VAULT_PROVIDERS),
+  hint: z.string().nullable(),
+  updatedAt: z.string()
+})
+
+export const storedKeysResponseSchema = z.object({
+  keys: z.array(storedKeyInfoSchema)
+})
+
+// /api/upload (multipart form)
+
+export const uploadRequestSchema = z.object({
+  file: z.custom<File>(value => typeof File !== "undefined" && value instanceof File, "No file provided")
+})
+
+export const uploadResponseSchema = z.object({
+  file: z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    size: z.number(),
+    url: z.string().optional(),
+    extractedText: z.string().optional(),
+    textExtracted: z.boolean().optional(),
+    uploadedAt: z.string()
+  }).passthrough()
+})
+
+// /api/veo2 and /api/video-proxy
+
+// Anonymous callers send their local Google key in this header; signed-in users send their session instead
+export const VIDEO_API_KEY_HEADER = "x-veo2-api-key"
+
+// The only host the proxy will hand a Google key to
+const GOOGLE_VIDEO_ORIGIN = "https://generativelanguage.googleapis.com/"
+
+export const videoRequestSchema = z.object({
+  prompt: z.string().trim().min(1, "Prompt is required and cannot be empty").max(2000),
+  apiKey: optionalKeySchema,
+  geminiApiKey: optionalKeySchema, // Used when there is no dedicated VEO 2 key
+  duration: z.number().int().min(5, "Duration must be between 5 and 8 seconds").max(8, "Duration must be between 5 and 8 seconds").default(8),
+  aspectRatio: z.enum(["16:9", "9:16"]).default("16:9"),
+  personGeneration: z.enum(["dont_allow", "allow_adult"]).default("dont_allow"),
+  negativePrompt: z.string().max(1000).optional(),
+  seed: z.number().int().optional()
+})
+
+export const videoOperationQuerySchema = z.object({
+  operationName: z.string().min(1, "Operation name is required")
+})
+
+export const videoOperationStatusSchema = z.object({
+  operationName: z.string(),
+  status: z.enum(["processing", "completed", "failed", "expired", "cancelled"]),
+  progress: z.number(),
+  videoUrl: z.string().nullable().optional(),
+  error: z.string().nullable().optional(),
+  errorCode: z.enum(API_ERROR_CODES).nullable().optional(), // Why a failed or expired operation ended
+  duration: z.string().optional(),
+  createdAt: z.string().optional(),
+  completedAt: z.string().optional()
+}).passthrough()
+
+export type VideoOperationStatus = z.infer<typeof videoOperationStatusSchema>
+
+export const videoOperationResponseSchema = z.object({
+  success: z.literal(true),
+  data: videoOperationStatusSchema
+})
+
+export const videoProxyQuerySchema = z.object({
+  url: z.string().url("Video URL is required").refine(url => url.startsWith(GOOGLE_VIDEO_ORIGIN), "Only Google video URLs can be proxied")
+})
+
+// /api/web-search, /api/web-browse and /api/web-search-extract
+
+export const webSearchRequestSchema = z.object({
+  query: z.string().trim().min(1, "Search query is required").max(500),
+  maxResults: z.number().int().min(1).max(10).default(5),
+  userLocation: z.string().max(200).nullish().transform(location => location || undefined), // The chat route sends null when unknown
+  extractContent: z.boolean().default(false)
+})
+
+export const webSearchResponseSchema = z.object({
+  query: z.string(),
+  results: z.array(z.any()),
+  contentExtracted: z.boolean(),
+  timestamp: z.string()
+})
+
+export const webBrowseRequestSchema = z.object({
+  urls: z.array(z.string().url()).min(1, "URLs array is required").max(10),
+  query: z.string().max(500).optional()
+})
+
+export const webBrowseResponseSchema = z.object({
+  success: z.boolean(),
+  query: z.string().optional(),
+  results: z.array(z.any()),
+  message: z.string().optional(),
+  timestamp: z.string().optional()
+})
+
+export const webExtractRequestSchema = z.object({
+  url: z.string().url("URL is required")
+})
+
+export const webExtractResponseSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  content: z.string(),
+  contentLength: z.number(),
+  timestamp: z.string()
+})
+
+// Shared helpers
+
+// "messages.0.role: Invalid enum value; maxResults: Number must be less than or equal to 10"
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message)
+    .join("; ")
+}
+
+// Client side: check a success body against its contract before using it
+export function parseApiResponse<T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    console.error("Unexpected API response:", formatValidationError(parsed.error))
+    throw new ApiRequestError("internal", "The server sent an unexpected response")
+  }
+  return parsed.data
+}
@@ -0,0 +1,133 @@
+// Error envelope shared by every route under app/api and the clients that call them
+//
+// Failed requests answer with { code, message, retryable, provider }. Clients branch on `code`
+// and show `message` as is, instead of matching on the wording of provider errors.
+
+import { z } from "zod"
+import { ProviderError } from "../providers/types.ts"
+
+export const API_ERROR_CODES = [
+  "invalid_request", // The request does not match the route's contract
+  "auth", // Missing, invalid or unauthorized API key or session
+  "quota", // Out of credits or over a billing limit
+  "rate_limited", // Too many requests; waiting helps
+  "timeout",
+  "content_filtered", // Blocked by a provider's safety filters
+  "unsupported_model", // Unknown model, or one the provider or key cannot use
+  "not_found",
+  "unavailable", // Provider or upstream service down or misconfigured
+  "internal"
+] as const
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number]
+
+export const apiErrorSchema = z.object({
+  code: z.enum(API_ERROR_CODES),
+  message: z.string(),
+  retryable: z.boolean(),
+  provider: z.string().nullable() // Provider behind the failure, when one is involved
+})
+
+export type ApiError = z.infer<typeof apiErrorSchema>
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  auth: 401,
+  quota: 402,
+  rate_limited: 429,
+  timeout: 504,
+  content_filtered: 422,
+  unsupported_model: 400,
+  not_found: 404,
+  unavailable: 503,
+  internal: 500
+}
+
+const RETRYABLE_CODES: ApiErrorCode[] = ["rate_limited", "timeout", "unavailable", "internal"]
+
+// Thrown by routes and clients alike; carries the envelope fields through ordinary error handling
+export class ApiRequestError extends Error {
+  code: ApiErrorCode
+  retryable: boolean
+  provider: string | null
+
+  constructor(code: ApiErrorCode, message: string, options: { provider?: string | null; retryable?: boolean } = {}) {
+    super(message)
+    this.name = "ApiRequestError"
+    this.code = code
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(code)
+    this.provider = options.provider ?? null
+  }
+
+  static from(error: ApiError): ApiRequestError {
+    return new ApiRequestError(error.code, error.message, error)
+  }
+
+  toJSON(): ApiError {
+    return { code: this.code, message: this.message, retryable: this.retryable, provider: this.provider }
+  }
+}
+
+export function createApiError(code: ApiErrorCode, message: string, provider: string | null = null): ApiError {
+  return new ApiRequestError(code, message, { provider }).toJSON()
+}
+
+export function getErrorCodeForStatus(status: number, message: string = ""): ApiErrorCode {
+  if (status === 401 || status === 403) return "auth"
+  if (status === 402) return "quota"
+  if (status === 429) return /quota|billing|credit|insufficient/i.test(message) ? "quota" : "rate_limited"
+  if (status === 408 || status === 504 || status === 524) return "timeout"
+  if (status === 404) return /model/i.test(message) ? "unsupported_model" : "not_found"
+  if (/safety|content policy|content filter|blocked|moderation/i.test(message)) return "content_filtered"
+  if (status === 400 && /model/i.test(message) && /not (found|supported|available)|does not exist|invalid/i.test(message)) return "unsupported_model"
+  if (status >= 500) return "unavailable"
+  return status >= 400 && status < 500 ? "invalid_request" : "internal"
+}
+
+// Envelope for anything a route or client caught
+export function toApiError(error: unknown, provider: string | null = null): ApiError {
+  if (error instanceof ApiRequestError) {
+    return { ...error.toJSON(), provider: error.provider ?? provider }
+  }
+  if (error instanceof ProviderError) {
+    return createApiError(getErrorCodeForStatus(error.status, error.message), error.message, error.provider)
+  }
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return createApiError("timeout", error.message || "The request timed out", provider)
+  }
+  return createApiError("internal", error instanceof Error ? error.message : "An unknown error occurred", provider)
+}
+
+// The envelope of a failed response; bodies from outside the contract are mapped by status
+export async function readApiError(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => "")
+  let body: any = null
+  try {
+    body = JSON.parse(text)
+  } catch {
+    // Not JSON, e.g. a proxy error page
+  }
+
+  const parsed = apiErrorSchema.safeParse(body)
+  if (parsed.success) return parsed.data
+
+  const message = (typeof body?.message === "string" && body.message)
+    || (typeof body?.error === "string" && body.error)
+    || text.substring(0, 200)
+    || `Request failed with status ${response.status}`
+  return createApiError(getErrorCodeForStatus(response.status, message), message)
+}
+
+// What the user can do about each kind of failure
+export const API_ERROR_HINTS: Record<ApiErrorCode, string> = {
+  invalid_request: "The request was rejected as invalid.",
+  auth: "Check the API key for this provider in Settings → Models.",
+  quota: "The provider account is out of credits. Check its billing, or pick another model.",
+  rate_limited: "The provider is rate limiting requests. Wait a moment and retry.",
+  timeout: "The provider took too long to answer. Retry, or try a shorter request.",
+  content_filtered: "The provider's safety filters blocked this request. Try rephrasing it.",
+  unsupported_model: "This model is not available with the current provider or key. Pick another model.",
+  not_found: "The requested item no longer exists.",
+  unavailable: "The provider is temporarily unavailable. Retry in a few minutes.",
+  internal: "Something went wrong on the server. Retrying may help."
+}
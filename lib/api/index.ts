@@ -0,0 +1,5 @@
+// Contracts and the error envelope for the app's API routes, safe to import on the client.
+// Route-only helpers live in ./server.ts.
+
+export * from "./contracts.ts"
+export * from "./errors.ts"
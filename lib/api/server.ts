@@ -0,0 +1,80 @@
+// Route-side helpers for the API contracts: input parsing and error responses
+//
+// Parsers return the parsed input or a ready error response, so a handler reads
+//   const body = await parseJsonBody(request, schema)
+//   if (body instanceof NextResponse) return body
+
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { checkRateLimit, type RateLimitedRoute } from "../rate-limit.ts"
+import { formatValidationError } from "./contracts.ts"
+import { API_ERROR_STATUS, createApiError, toApiError, type ApiError, type ApiErrorCode } from "./errors.ts"
+
+export function apiErrorResponse(error: ApiError, status: number = API_ERROR_STATUS[error.code]): NextResponse {
+  return NextResponse.json(error, { status })
+}
+
+export function errorResponse(
+  code: ApiErrorCode,
+  message: string,
+  options: { provider?: string | null; status?: number } = {}
+): NextResponse {
+  return apiErrorResponse(createApiError(code, message, options.provider ?? null), options.status)
+}
+
+// Envelope response for a caught error; unexpected failures keep their message but answer 500
+export function toErrorResponse(error: unknown, provider: string | null = null): NextResponse {
+  return apiErrorResponse(toApiError(error, provider))
+}
+
+function invalidRequest(error: z.ZodError): NextResponse {
+  return errorResponse("invalid_request", formatValidationError(error))
+}
+
+export async function parseJsonBody<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<z.output<T> | NextResponse> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse("invalid_request", "The request body must be valid JSON")
+  }
+
+  const parsed = schema.safeParse(body)
+  return parsed.success ? parsed.data : invalidRequest(parsed.error)
+}
+
+export function parseSearchParams<T extends z.ZodTypeAny>(request: Request, schema: T): z.output<T> | NextResponse {
+  const params = Object.fromEntries(new URL(request.url).searchParams)
+  const parsed = schema.safeParse(params)
+  return parsed.success ? parsed.data : invalidRequest(parsed.error)
+}
+
+export async function parseFormData<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<z.output<T> | NextResponse> {
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return errorResponse("invalid_request", "The request body must be multipart form data")
+  }
+
+  const parsed = schema.safeParse(Object.fromEntries(formData))
+  return parsed.success ? parsed.data : invalidRequest(parsed.error)
+}
+
+// 429 with Retry-After once the caller has used up the route's budget, otherwise null
+//   const limited = await enforceRateLimit(request, "upload")
+//   if (limited) return limited
+export async function enforceRateLimit(request: Request, route: RateLimitedRoute): Promise<NextResponse | null> {
+  const result = await checkRateLimit(request, route)
+  if (!result || result.allowed) return null
+
+  const retryAfter = Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000))
+  console.warn(`Rate limit reached for /api/${route}, retry in ${retryAfter}s`)
+
+  const response = errorResponse("rate_limited", `Too many requests. Try again in ${retryAfter} seconds.`)
+  response.headers.set("Retry-After", String(retryAfter))
+  response.headers.set("X-RateLimit-Limit", String(result.limit))
+  response.headers.set("X-RateLimit-Remaining", "0")
+  response.headers.set("X-RateLimit-Reset", String(Math.ceil(result.resetAt / 1000)))
+  return response
+}
@@ -0,0 +1,168 @@
+// Streaming helpers shared by /api/chat and the chat client
+//
+// The route relays provider output to the browser as server-sent events.
+// Every event is a single `data:` line carrying one JSON-encoded ChatStreamEvent.
+
+import { ApiRequestError, toApiError, type ApiError } from './api/errors.ts'
+import type { ContextSummary } from './context-window.ts'
+import type { FallbackInfo } from './fallback-chains.ts'
+import type { ToolCall, ToolResult } from './providers/types.ts'
+import type { MessageUsage } from './usage.ts'
+
+export const CHAT_STREAM_CONTENT_TYPE = 'text/event-stream'
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'reasoning'; text: string } // Thinking shown before or between answer text
+  | { type: 'tool-call'; toolCall: ToolCall }
+  | { type: 'tool-result'; toolResult: ToolResult }
+  | {
+      type: 'done'
+      model: string
+      provider: string
+      searchResults?: any[] | null
+      contextSummary?: ContextSummary | null // Summary of older turns that the client should store
+      fallback?: FallbackInfo // Set when a fallback model answered instead of the requested one
+      usage?: MessageUsage | null // Tokens and cost of every provider call behind the reply
+    }
+  | { type: 'error'; error: ApiError } // Same envelope as a failed JSON response
+
+type ChatStreamEmitter = (event: ChatStreamEvent) => void
+
+const encoder = new TextEncoder()
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+}
+
+// Wrap a producer in an SSE response. Errors thrown by the producer are sent
+// as a final `error` event because the HTTP status has already been committed.
+// Once the client cancels the stream, further events are dropped.
+export function createChatStreamResponse(
+  produce: (emit: ChatStreamEmitter) => Promise<void>,
+  onClose?: () => void
+): Response {
+  let cancelled = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: ChatStreamEmitter = (event) => {
+        if (!cancelled) controller.enqueue(encodeChatStreamEvent(event))
+      }
+
+      try {
+        await produce(emit)
+      } catch (error) {
+        if (cancelled) {
+          console.log('Chat stream stopped by the client')
+        } else {
+          console.error('Chat stream error:', error)
+          emit({
+            type: 'error',
+            error: toApiError(error instanceof Error ? error : new Error('The response stream was interrupted'))
+          })
+        }
+      } finally {
+        onClose?.()
+        if (!cancelled) controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': `${CHAT_STREAM_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
+}
+
+// Read an SSE body and yield the payload of every `data:` field.
+// Works for both upstream provider streams and our own chat stream.
+// With idleTimeoutMs, a stream that sends nothing for that long is cancelled and fails with a timeout.
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  options: { idleTimeoutMs?: number } = {}
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await readWithIdleTimeout(reader, options.idleTimeoutMs)
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line; keep any trailing partial event buffered
+      const events = buffer.split(/\r?\n\r?\n/)
+      buffer = events.pop() || ''
+
+      for (const event of events) {
+        const data = parseEventData(event)
+        if (data !== null) yield data
+      }
+    }
+
+    buffer += decoder.decode()
+    const data = parseEventData(buffer)
+    if (data !== null) yield data
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// The timer restarts with every read, so only a silent stream times out, not a long one
+async function readWithIdleTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  idleTimeoutMs: number | undefined
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  if (!idleTimeoutMs) return reader.read()
+
+  let idleTimer: ReturnType<typeof setTimeout> | undefined
+  const idle = new Promise<never>((_, reject) => {
+    idleTimer = setTimeout(() => {
+      reject(new ApiRequestError('timeout', `The model stopped responding for ${Math.round(idleTimeoutMs / 1000)} seconds in the middle of its reply`))
+      reader.cancel().catch(() => {}) // Closes the upstream connection; the race has already failed
+    }, idleTimeoutMs)
+  })
+
+  try {
+    return await Promise.race([reader.read(), idle])
+  } finally {
+    clearTimeout(idleTimer)
+  }
+}
+
+function parseEventData(event: string): string | null {
+  const dataLines = event
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''))
+
+  return dataLines.length > 0 ? dataLines.join('\n') : null
+}
+
+export function isChatStreamResponse(response: Response): boolean {
+  return (response.headers.get('Content-Type') || '').includes(CHAT_STREAM_CONTENT_TYPE)
+}
+
+// Client side: decode our chat stream into typed events
+export async function* readChatStream(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  for await (const data of readServerSentEvents(response.body)) {
+    try {
+      yield JSON.parse(data) as ChatStreamEvent
+    } catch (parseError) {
+      console.error('Failed to parse chat stream event:', data.substring(0, 100))
+    }
+  }
+}
@@ -0,0 +1,211 @@
+// Context-window budgeting shared by /api/chat and the chat UI
+//
+// Token counts are estimates (about 4 characters per token) so they work for every
+// provider without shipping tokenizers; budgets keep headroom to absorb the error.
+
+import { getDocumentAttachments, isNativePdf } from "./providers/shared.ts"
+import type { ChatAttachment, ChatMessage } from "./providers/types.ts"
+
+const CHARS_PER_TOKEN = 4
+const MESSAGE_OVERHEAD_TOKENS = 4 // Role markers and separators
+const IMAGE_TOKENS = 1000 // Rough cost of one image across providers
+const UNREAD_PDF_TOKENS = 3000 // Rough cost of a PDF read natively when no text could be extracted from it
+const DOCUMENT_SHARE = 0.5 // Most of the budget the documents of one message may fill
+const SAFETY_MARGIN = 0.9 // Only plan for 90% of the window
+const OUTPUT_SHARE = 0.25 // Most of the window a reply may be reserved
+const MIN_HISTORY_TOKENS = 1000 // Left for history and documents even when the window is tiny
+const RECENT_ATTACHMENT_TURNS = 2 // User turns that keep their images
+export const SUMMARY_MAX_TOKENS = 800
+
+// Rolling summary of the oldest messages of a conversation.
+// messageCount is how many leading messages it replaces.
+export type ContextSummary = {
+  content: string
+  messageCount: number
+}
+
+export type ContextUsage = {
+  usedTokens: number
+  contextWindow: number
+}
+
+type MessageLike = {
+  role: string
+  content: string
+  attachments?: ChatAttachment[]
+}
+
+export function estimateTokens(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0
+}
+
+// Text PDFs cost about the same read natively or as text
+function estimateDocumentTokens(document: ChatAttachment): number {
+  if (document.textExtracted === false || !document.extractedText) {
+    return isNativePdf(document) ? UNREAD_PDF_TOKENS : MESSAGE_OVERHEAD_TOKENS
+  }
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(document.extractedText)
+}
+
+export function estimateMessageTokens(message: MessageLike): number {
+  const images = Array.isArray(message.attachments)
+    ? message.attachments.filter(att => typeof att.type === "string" && att.type.startsWith("image/") && !!att.url).length
+    : 0
+  const documentTokens = getDocumentAttachments(message).reduce((total, document) => total + estimateDocumentTokens(document), 0)
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + images * IMAGE_TOKENS + documentTokens
+}
+
+// Returns the summary only if it still lines up with the conversation (history can be cut by edits and retries)
+export function getValidSummary(summary: ContextSummary | null | undefined, messageCount: number): ContextSummary | null {
+  if (!summary || typeof summary.content !== "string" || !summary.content.trim()) return null
+  if (!Number.isInteger(summary.messageCount) || summary.messageCount <= 0 || summary.messageCount >= messageCount) return null
+  return summary
+}
+
+// Replace images in all but the most recent user turns with a short note; older documents are kept as text
+export function stripOldAttachments<T extends MessageLike>(messages: T[]): T[] {
+  let userTurns = 0
+  const keepFrom = messages.reduceRight((index, message, i) => {
+    if (message.role === "user" && userTurns < RECENT_ATTACHMENT_TURNS) {
+      userTurns++
+      return i
+    }
+    return index
+  }, messages.length)
+
+  return messages.map((message, i) => {
+    if (i >= keepFrom || !Array.isArray(message.attachments) || message.attachments.length === 0) {
+      return message
+    }
+    const documents = getDocumentAttachments(message)
+    const omitted = message.attachments.filter(att => !documents.includes(att))
+    const names = omitted.map(att => att.name || "file").join(", ")
+    return {
+      ...message,
+      content: omitted.length > 0 ? `${message.content}\n\n[Earlier attachments omitted: ${names}]`.trim() : message.content,
+      attachments: documents.length > 0 ? documents.map(document => ({ ...document, url: undefined })) : undefined
+    }
+  })
+}
+
+// Shorten the text of a message's documents to fit maxTokens between them. Clipped PDFs lose their
+// file, so models that read PDFs natively get the shortened text instead of the whole document;
+// PDFs without text keep theirs, as it is the only way to read them.
+export function clipDocuments<T extends MessageLike>(message: T, maxTokens: number): T {
+  const documents = getDocumentAttachments(message)
+  const isUnread = (document: ChatAttachment) => document.textExtracted === false || !document.extractedText
+  const unreadTokens = documents.filter(isUnread).reduce((sum, document) => sum + estimateDocumentTokens(document), 0)
+  const textTokens = documents.filter(document => !isUnread(document)).reduce((sum, document) => sum + estimateDocumentTokens(document), 0)
+  if (unreadTokens + textTokens <= maxTokens) return message
+
+  const ratio = Math.max(0, maxTokens - unreadTokens) / textTokens
+  return {
+    ...message,
+    attachments: message.attachments?.map(att => {
+      if (!documents.includes(att) || isUnread(att)) return att
+      const text = att.extractedText as string
+      return {
+        ...att,
+        url: undefined,
+        extractedText: `${text.substring(0, Math.floor(text.length * ratio))}\n\n[Truncated: the rest of this document did not fit in the context window]`
+      }
+    })
+  }
+}
+
+export function withContextSummary(systemPrompt: string | undefined, summary: ContextSummary | null): string | undefined {
+  if (!summary) return systemPrompt
+  const summaryBlock = `Summary of the earlier part of this conversation:\n${summary.content}`
+  return systemPrompt ? `${systemPrompt}\n\n${summaryBlock}` : summaryBlock
+}
+
+// Tokens the next request would use: system prompt, summary and the messages it does not cover
+export function estimateContextUsage(params: {
+  messages: MessageLike[]
+  systemPrompt?: string
+  summary?: ContextSummary | null
+  contextWindow: number
+}): ContextUsage {
+  const summary = getValidSummary(params.summary, params.messages.length + 1)
+  const uncovered = stripOldAttachments(params.messages.slice(summary?.messageCount || 0))
+  const usedTokens = estimateTokens(withContextSummary(params.systemPrompt, summary))
+    + uncovered.reduce((total, message) => total + estimateMessageTokens(message), 0)
+  return { usedTokens, contextWindow: params.contextWindow }
+}
+
+export type ContextPlan = {
+  messages: ChatMessage[] // Messages to send, oldest first
+  toSummarize: ChatMessage[] // Older messages that no longer fit and are not yet summarized
+  summary: ContextSummary | null // Existing summary that still applies
+  usage: ContextUsage
+}
+
+// Output tokens to ask for: what the request wants, but no more than a share of a small window
+export function getOutputReservation(contextWindow: number, requestedTokens: number): number {
+  return Math.max(1, Math.min(requestedTokens, Math.floor(contextWindow * OUTPUT_SHARE)))
+}
+
+// Keep the most recent turns that fit the window; anything older is handed back for summarizing
+export function planContext(params: {
+  messages: ChatMessage[]
+  systemPrompt?: string
+  summary?: ContextSummary | null
+  contextWindow: number
+  reservedOutputTokens: number
+}): ContextPlan {
+  const summary = getValidSummary(params.summary, params.messages.length)
+  const fixedTokens = estimateTokens(withContextSummary(params.systemPrompt, summary))
+  const budget = Math.max(
+    MIN_HISTORY_TOKENS + SUMMARY_MAX_TOKENS,
+    Math.floor(params.contextWindow * SAFETY_MARGIN) - getOutputReservation(params.contextWindow, params.reservedOutputTokens) - fixedTokens
+  )
+
+  // Documents in any one message take at most part of the budget, so the latest question always fits
+  const documentBudget = Math.max(MIN_HISTORY_TOKENS / 2, Math.floor((budget - SUMMARY_MAX_TOKENS) * DOCUMENT_SHARE))
+  const uncovered = stripOldAttachments(params.messages.slice(summary?.messageCount || 0))
+    .map(message => clipDocuments(message, documentBudget))
+
+  let used = 0
+  let cut = uncovered.length
+  for (let i = uncovered.length - 1; i >= 0; i--) {
+    const tokens = estimateMessageTokens(uncovered[i])
+    // The latest message is always sent, even if it alone overflows
+    if (i < uncovered.length - 1 && used + tokens > budget - SUMMARY_MAX_TOKENS) break
+    used += tokens
+    cut = i
+  }
+
+  // Providers expect the history to open with a user turn
+  while (cut < uncovered.length - 1 && uncovered[cut].role !== "user") {
+    used -= estimateMessageTokens(uncovered[cut])
+    cut++
+  }
+
+  return {
+    messages: uncovered.slice(cut),
+    toSummarize: uncovered.slice(0, cut),
+    summary,
+    usage: { usedTokens: fixedTokens + used, contextWindow: params.contextWindow }
+  }
+}
+
+// Prompt asking the model to fold older turns into the running summary.
+// Long messages are clipped and the transcript is capped so the request itself fits in maxTokens.
+export function buildSummaryRequest(previous: ContextSummary | null, messages: ChatMessage[], maxTokens: number): string {
+  let remaining = maxTokens - estimateTokens(previous?.content) - 200
+  const lines: string[] = []
+  for (let i = messages.length - 1; i >= 0 && remaining > 0; i--) {
+    const content = messages[i].content.length > 2000 ? `${messages[i].content.substring(0, 2000)}...` : messages[i].content
+    const line = `${messages[i].role === "assistant" ? "Assistant" : "User"}: ${content}`
+    remaining -= estimateTokens(line)
+    if (remaining > 0) lines.unshift(line)
+  }
+  const transcript = lines.join("\n\n")
+
+  return `Summarize the conversation below so it can replace the original messages as context for the rest of the chat.
+Keep facts, decisions, names, numbers, code identifiers and open questions. Leave out pleasantries.
+Write at most ${Math.round(SUMMARY_MAX_TOKENS * 0.75)} words in plain prose or short bullets.
+${previous ? `\nSummary of everything before these messages:\n${previous.content}\n` : ""}
+Conversation:
+${transcript}`
+}
@@ -0,0 +1,83 @@
+// Conversation titles and summaries written by a model
+//
+// A conversation starts out titled with its first message. After the first reply, the model picked
+// in Settings gives it a short title, and every SUMMARY_REFRESH_TURNS replies it rewrites a
+// one-paragraph summary that the sidebar shows on hover and matches in search. Both run in the
+// background through /api/conversation-summary.
+
+export const SUMMARY_REFRESH_TURNS = 5
+
+export const DESCRIPTION_MAX_TOKENS = 400
+
+const TITLE_MAX_LENGTH = 80
+const TRANSCRIPT_MAX_CHARS = 12_000
+const MESSAGE_MAX_CHARS = 1_500
+
+type TranscriptMessage = {
+  role: string
+  content: string
+}
+
+// Title a conversation has until a model names it
+export function getFallbackTitle(message: string): string {
+  return message.slice(0, 50) + (message.length > 50 ? "..." : "")
+}
+
+// After the first reply, then every SUMMARY_REFRESH_TURNS replies
+export function isSummaryDue(assistantTurns: number): boolean {
+  return assistantTurns === 1 || (assistantTurns > 0 && assistantTurns % SUMMARY_REFRESH_TURNS === 0)
+}
+
+// Case-insensitive match on the title and summary, for the sidebar search
+export function matchesConversationSearch(conversation: { title: string; summary?: string | null }, query: string): boolean {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+  return conversation.title.toLowerCase().includes(needle) || !!conversation.summary?.toLowerCase().includes(needle)
+}
+
+// Prompt for a title, a summary or both, answered on "Title:" and "Summary:" lines.
+// The first message is always kept; later ones are taken from the end until the transcript is full.
+export function buildDescriptionPrompt(messages: TranscriptMessage[], wants: { title: boolean; summary: boolean }): string {
+  const lines = messages.map(message => {
+    const content = message.content.length > MESSAGE_MAX_CHARS ? `${message.content.substring(0, MESSAGE_MAX_CHARS)}...` : message.content
+    return `${message.role === "assistant" ? "Assistant" : "User"}: ${content}`
+  })
+
+  const kept: string[] = []
+  let remaining = TRANSCRIPT_MAX_CHARS - (lines[0]?.length || 0)
+  for (let i = lines.length - 1; i > 0 && remaining - lines[i].length > 0; i--) {
+    kept.unshift(lines[i])
+    remaining -= lines[i].length
+  }
+  if (lines.length > 0) kept.unshift(lines[0])
+  const transcript = kept.join("\n\n")
+
+  const asks = [
+    wants.title ? "Title: a title of at most 6 words naming the topic, without quotes or a final period" : "",
+    wants.summary ? "Summary: one paragraph of 2 to 4 sentences on what the conversation covers and what was concluded" : ""
+  ].filter(Boolean)
+
+  return `Describe the conversation below. Answer in the language of the conversation, with exactly these lines and nothing else:
+${asks.join("\n")}
+
+Conversation:
+${transcript}`
+}
+
+export function parseDescription(text: string): { title?: string; summary?: string } {
+  const title = text.match(/^\s*\**title\**\s*:\s*(.+)$/im)?.[1]
+    .replace(/\*+/g, "")
+    .trim()
+    .replace(/^["'“”]+|["'“”]+$/g, "")
+    .replace(/\.$/, "")
+    .trim()
+  const summary = text.match(/^\s*\**summary\**\s*:\s*([\s\S]+)$/im)?.[1]
+    .split(/^\s*\**title\**\s*:/im)[0]
+    .replace(/\*+/g, "")
+    .trim()
+
+  return {
+    title: title ? title.slice(0, TITLE_MAX_LENGTH) : undefined,
+    summary: summary || undefined
+  }
+}
@@ -0,0 +1,131 @@
+// Server-side guard for the custom endpoint
+//
+// The server calls whatever base URL the user sends, so on a hosted deploy that would let anyone reach
+// the host's private network and cloud metadata service. Hosts on private, loopback and link-local
+// addresses are refused unless the deploy opts in with ALLOW_PRIVATE_CUSTOM_ENDPOINTS=true, which is
+// meant for self-hosting, where the local model server sits next to the app. Development allows them.
+
+import { lookup as lookupCallback, type LookupAddress } from "node:dns"
+import { lookup } from "node:dns/promises"
+import { request as httpRequest } from "node:http"
+import { request as httpsRequest } from "node:https"
+import { isIP, type LookupFunction } from "node:net"
+import { Readable } from "node:stream"
+
+const PRIVATE_NETWORK_REFUSAL = "This server cannot call endpoints on local or private networks. Local models work when you run the app yourself; see Local Models in the README."
+
+export function allowsPrivateCustomEndpoints(): boolean {
+  return process.env.ALLOW_PRIVATE_CUSTOM_ENDPOINTS === "true" || process.env.NODE_ENV === "development"
+}
+
+// CIDR ranges as [first octets, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8], // "This" network
+  [[10], 8],
+  [[100, 64], 10], // Carrier-grade NAT
+  [[127], 8], // Loopback
+  [[169, 254], 16], // Link-local, including cloud metadata at 169.254.169.254
+  [[172, 16], 12],
+  [[192, 168], 16],
+  [[198, 18], 15], // Benchmarking
+  [[224], 3] // Multicast and reserved
+]
+
+function isPrivateIpv4(address: string): boolean {
+  const octets = address.split(".").map(Number)
+  const value = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0
+  return PRIVATE_IPV4_RANGES.some(([start, prefix]) => {
+    const base = ((start[0] << 24) | ((start[1] || 0) << 16)) >>> 0
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0
+    return ((value & mask) >>> 0) === ((base & mask) >>> 0)
+  })
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, "").toLowerCase()
+  if (isIP(host) === 4) return isPrivateIpv4(host)
+  if (isIP(host) !== 6) return false
+
+  // IPv4-mapped addresses, which URL parsing turns into hex ("::ffff:7f00:1")
+  const mappedIpv4 = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1]
+  if (mappedIpv4) return isPrivateIpv4(mappedIpv4)
+  const mappedHex = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+    return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+  return host === "::" || host === "::1"
+    || /^f[cd]/.test(host) // Unique local, fc00::/7
+    || /^fe[89ab]/.test(host) // Link-local, fe80::/10
+    || /^ff/.test(host) // Multicast
+}
+
+// Why the server may not call the endpoint, or null when it may. Names are resolved so that a public
+// name pointing at a private address is caught too.
+export async function checkCustomEndpoint(endpointUrl: string): Promise<string | null> {
+  if (allowsPrivateCustomEndpoints()) return null
+
+  const hostname = new URL(endpointUrl).hostname
+  let addresses: string[]
+  if (isIP(hostname.replace(/^\[|\]$/g, ""))) {
+    addresses = [hostname]
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(entry => entry.address)
+    } catch {
+      return null // Unresolvable: the request itself will fail and report it
+    }
+  }
+
+  return addresses.some(isPrivateAddress) ? PRIVATE_NETWORK_REFUSAL : null
+}
+
+// Resolves like the default lookup but fails when any address is private, so the check happens again
+// when the connection is made and a name that changes after checkCustomEndpoint (DNS rebinding) is caught
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0)
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(PRIVATE_NETWORK_REFUSAL), "", 0)
+    }
+    if (options.all) return (callback as (error: null, all: LookupAddress[]) => void)(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// fetch for requests to the custom endpoint. Redirects are never followed, since they could lead past
+// the address check. Where private networks are refused, the request goes through node:http with the
+// checked lookup instead of fetch, which has no hook at connect time; bodies are strings here.
+export async function fetchCustomEndpoint(url: string, init: RequestInit = {}): Promise<Response> {
+  if (allowsPrivateCustomEndpoints()) return fetch(url, { ...init, redirect: "error" })
+
+  const target = new URL(url)
+  const literalHost = target.hostname.replace(/^\[|\]$/g, "")
+  if (isIP(literalHost) && isPrivateAddress(literalHost)) throw new Error(PRIVATE_NETWORK_REFUSAL)
+
+  const send = target.protocol === "https:" ? httpsRequest : httpRequest
+  return new Promise<Response>((resolve, reject) => {
+    const request = send(target, {
+      method: init.method || "GET",
+      headers: Object.fromEntries(new Headers(init.headers)),
+      lookup: checkedLookup,
+      signal: init.signal ?? undefined
+    }, response => {
+      const status = response.statusCode || 502
+      if (status >= 300 && status < 400) {
+        response.resume()
+        return reject(new TypeError("The custom endpoint answered with a redirect, which is not followed"))
+      }
+
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : value)
+      }
+      const body = status === 204 || init.method === "HEAD" ? null : Readable.toWeb(response) as ReadableStream<Uint8Array>
+      resolve(new Response(body, { status, statusText: response.statusMessage, headers }))
+    })
+    request.on("error", reject)
+    if (typeof init.body === "string") request.write(init.body)
+    request.end()
+  })
+}
@@ -1,9 +1,13 @@
 import { supabase } from './supabase'
 import { 
-  User, Project, Conversation, Message,
-  InsertProject, InsertConversation, InsertMessage,
-  UpdateProject, UpdateConversation, UpdateMessage
+  Database, User, Project, Conversation, Message, PromptTemplateRow, MemoryRow, KnowledgeDocumentRow,
+  InsertProject, InsertConversation, InsertMessage, InsertPromptTemplate, InsertMemory,
+  InsertKnowledgeDocument, InsertKnowledgeChunk,
+  UpdateProject, UpdateConversation, UpdateMessage, UpdatePromptTemplate, UpdateMemory
 } from './database.types'
+import { toUsageColumns } from './usage'
+import { toPromptTemplateColumns } from './prompt-templates'
+import { toVectorLiteral, type KnowledgeSource } from './knowledge-base'
 
 // Projects
 export async function getProjects(userId: string): Promise<Project[]> {
@@ -214,6 +218,221 @@ export async function deleteMessage(id: string): Promise<void> {
   if (error) throw error
 }
 
+// Prompt templates
+export async function getPromptTemplates(userId: string): Promise<PromptTemplateRow[]> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplateRow> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert(template)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function updatePromptTemplate(id: string, updates: UpdatePromptTemplate): Promise<PromptTemplateRow> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deletePromptTemplate(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('prompt_templates')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+// Templates saved before signing in become personal templates of the account
+export async function migrateLocalPromptTemplates(userId: string): Promise<void> {
+  const localTemplates = JSON.parse(localStorage.getItem('apeiron-chat-prompt-templates') || '[]')
+  if (!Array.isArray(localTemplates) || localTemplates.length === 0) return
+
+  console.log('Migrating', localTemplates.length, 'prompt templates to Supabase...')
+  for (const localTemplate of localTemplates) {
+    try {
+      await createPromptTemplate({
+        user_id: userId,
+        ...toPromptTemplateColumns({ ...localTemplate, projectId: null }),
+        name: localTemplate.name || 'Untitled Template',
+        content: localTemplate.content || ''
+      })
+    } catch (error) {
+      console.error('Error migrating prompt template:', localTemplate.id, error)
+    }
+  }
+  localStorage.removeItem('apeiron-chat-prompt-templates')
+}
+
+// Memories
+export async function getMemories(userId: string): Promise<MemoryRow[]> {
+  const { data, error } = await supabase
+    .from('memories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createMemory(memory: InsertMemory): Promise<MemoryRow> {
+  const { data, error } = await supabase
+    .from('memories')
+    .insert(memory)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateMemory(id: string, updates: UpdateMemory): Promise<MemoryRow> {
+  const { data, error } = await supabase
+    .from('memories')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteMemory(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('memories')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+// Memories saved before signing in move to the account. Local conversations get new IDs when they
+// are migrated, so the link to the conversation a memory came from is dropped
+export async function migrateLocalMemories(userId: string): Promise<void> {
+  const localMemories = JSON.parse(localStorage.getItem('apeiron-chat-memories') || '[]')
+  if (!Array.isArray(localMemories) || localMemories.length === 0) return
+
+  console.log('Migrating', localMemories.length, 'memories to Supabase...')
+  for (const localMemory of localMemories) {
+    if (!localMemory.content) continue
+    try {
+      await createMemory({
+        user_id: userId,
+        content: localMemory.content,
+        source: localMemory.source === 'model' ? 'model' : 'user',
+        enabled: localMemory.enabled !== false
+      })
+    } catch (error) {
+      console.error('Error migrating memory:', localMemory.id, error)
+    }
+  }
+  localStorage.removeItem('apeiron-chat-memories')
+}
+
+// Knowledge base documents and their embedded chunks
+export async function getKnowledgeDocuments(userId: string): Promise<KnowledgeDocumentRow[]> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// The document only stays when all of its chunks were saved
+export async function createKnowledgeDocument(
+  document: InsertKnowledgeDocument,
+  chunks: Array<{ content: string; embedding: number[] }>
+): Promise<KnowledgeDocumentRow> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .insert({ ...document, chunk_count: chunks.length })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  try {
+    for (let start = 0; start < chunks.length; start += 100) {
+      const rows: InsertKnowledgeChunk[] = chunks.slice(start, start + 100).map((chunk, index) => ({
+        document_id: data.id,
+        project_id: data.project_id,
+        user_id: data.user_id,
+        chunk_index: start + index,
+        content: chunk.content,
+        embedding: toVectorLiteral(chunk.embedding),
+        embedding_model: data.embedding_model
+      }))
+      const { error: chunkError } = await supabase
+        .from('knowledge_chunks')
+        .insert(rows)
+
+      if (chunkError) throw chunkError
+    }
+  } catch (chunkError) {
+    await deleteKnowledgeDocument(data.id).catch(() => {})
+    throw chunkError
+  }
+  return data
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('knowledge_documents')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+export async function matchKnowledgeChunks(
+  projectId: string,
+  embedding: number[],
+  embeddingModel: string,
+  matchCount: number
+): Promise<KnowledgeSource[]> {
+  const { data, error } = await supabase
+    .rpc('match_knowledge_chunks', {
+      p_project_id: projectId,
+      p_embedding: toVectorLiteral(embedding),
+      p_embedding_model: embeddingModel,
+      p_match_count: matchCount
+    })
+
+  if (error) throw error
+  const rows = (data || []) as Database['public']['Functions']['match_knowledge_chunks']['Returns']
+  return rows.map(row => ({
+    documentId: row.document_id,
+    documentName: row.document_name,
+    chunkIndex: row.chunk_index,
+    content: row.content,
+    similarity: row.similarity
+  }))
+}
+
 // Utility functions for migration and sync
 export async function migrateLocalDataToSupabase(userId: string) {
   try {
@@ -240,22 +459,42 @@ export async function migrateLocalDataToSupabase(userId: string) {
           user_id: userId,
           project_id: defaultProject.id,
           title: localConv.title || 'Untitled Conversation',
-          model: localConv.model || 'gpt-4'
+          model: localConv.model || 'gpt-4',
+          system_prompt: localConv.system_prompt || null,
+          context_summary: localConv.context_summary || null,
+          summary: localConv.summary || null
         })
 
-        // Create messages
+        // Create messages, linking each to the new ID of its parent
         if (localConv.messages && Array.isArray(localConv.messages)) {
+          const messageIds = new Map<string, string>()
+          let previousId: string | null = null
           for (const localMessage of localConv.messages) {
-            await createMessage({
+            const localParentId = localMessage.parentId !== undefined ? localMessage.parentId : previousId
+            const message = await createMessage({
               conversation_id: conversation.id,
+              parent_id: localParentId ? messageIds.get(localParentId) || null : null,
               role: localMessage.role,
               content: localMessage.content,
               model: localMessage.model || null,
               provider: localMessage.provider || null,
               attachments: localMessage.attachments || null,
               search_results: localMessage.searchResults || null,
+              knowledge_sources: localMessage.knowledgeSources || null,
+              parts: localMessage.parts || null,
+              variants: localMessage.variants || null,
+              active_variant_id: localMessage.activeVariantId || null,
+              fallback: localMessage.fallback || null,
+              interrupted: localMessage.interrupted || false,
+              ...toUsageColumns(localMessage.usage),
               timestamp: localMessage.timestamp || new Date().toISOString()
             })
+            messageIds.set(localMessage.id, message.id)
+            previousId = localMessage.id
+          }
+
+          if (localConv.active_leaf_id && messageIds.has(localConv.active_leaf_id)) {
+            await updateConversation(conversation.id, { active_leaf_id: messageIds.get(localConv.active_leaf_id) })
           }
         }
       } catch (error) {
@@ -42,6 +42,7 @@ export interface Database {
           name: string
           description: string | null
           color: string | null
+          system_prompt: string | null
           created_at: string
           updated_at: string
         }
@@ -51,6 +52,7 @@ export interface Database {
           name: string
           description?: string | null
           color?: string | null
+          system_prompt?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -60,6 +62,7 @@ export interface Database {
           name?: string
           description?: string | null
           color?: string | null
+          system_prompt?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -71,6 +74,10 @@ export interface Database {
           project_id: string | null
           title: string
           model: string
+          system_prompt: string | null
+          context_summary: Json | null
+          summary: string | null
+          active_leaf_id: string | null
           created_at: string
           updated_at: string
         }
@@ -80,6 +87,10 @@ export interface Database {
           project_id?: string | null
           title: string
           model: string
+          system_prompt?: string | null
+          context_summary?: Json | null
+          summary?: string | null
+          active_leaf_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -89,6 +100,10 @@ export interface Database {
           project_id?: string | null
           title?: string
           model?: string
+          system_prompt?: string | null
+          context_summary?: Json | null
+          summary?: string | null
+          active_leaf_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -97,46 +112,299 @@ export interface Database {
         Row: {
           id: string
           conversation_id: string
+          parent_id: string | null
           role: 'user' | 'assistant' | 'system'
           content: string
           model: string | null
           provider: string | null
           attachments: Json | null
           search_results: Json | null
+          knowledge_sources: Json | null
+          parts: Json | null
+          variants: Json | null
+          active_variant_id: string | null
+          fallback: Json | null
+          interrupted: boolean | null
+          input_tokens: number | null
+          output_tokens: number | null
+          cost_usd: number | null
           timestamp: string
           created_at: string
         }
         Insert: {
           id?: string
           conversation_id: string
+          parent_id?: string | null
           role: 'user' | 'assistant' | 'system'
           content: string
           model?: string | null
           provider?: string | null
           attachments?: Json | null
           search_results?: Json | null
+          knowledge_sources?: Json | null
+          parts?: Json | null
+          variants?: Json | null
+          active_variant_id?: string | null
+          fallback?: Json | null
+          interrupted?: boolean | null
+          input_tokens?: number | null
+          output_tokens?: number | null
+          cost_usd?: number | null
           timestamp?: string
           created_at?: string
         }
         Update: {
           id?: string
           conversation_id?: string
+          parent_id?: string | null
           role?: 'user' | 'assistant' | 'system'
           content?: string
           model?: string | null
           provider?: string | null
           attachments?: Json | null
           search_results?: Json | null
+          knowledge_sources?: Json | null
+          parts?: Json | null
+          variants?: Json | null
+          active_variant_id?: string | null
+          fallback?: Json | null
+          interrupted?: boolean | null
+          input_tokens?: number | null
+          output_tokens?: number | null
+          cost_usd?: number | null
           timestamp?: string
           created_at?: string
         }
       }
+      user_api_keys: {
+        Row: {
+          id: string
+          user_id: string
+          provider: string
+          encrypted_key: string
+          key_hint: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          provider: string
+          encrypted_key: string
+          key_hint?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          provider?: string
+          encrypted_key?: string
+          key_hint?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      prompt_templates: {
+        Row: {
+          id: string
+          user_id: string
+          project_id: string | null
+          name: string
+          description: string | null
+          content: string
+          system_prompt: string | null
+          default_model: string | null
+          web_search_enabled: boolean | null
+          code_generation_enabled: boolean | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          project_id?: string | null
+          name: string
+          description?: string | null
+          content: string
+          system_prompt?: string | null
+          default_model?: string | null
+          web_search_enabled?: boolean | null
+          code_generation_enabled?: boolean | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          project_id?: string | null
+          name?: string
+          description?: string | null
+          content?: string
+          system_prompt?: string | null
+          default_model?: string | null
+          web_search_enabled?: boolean | null
+          code_generation_enabled?: boolean | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      memories: {
+        Row: {
+          id: string
+          user_id: string
+          conversation_id: string | null
+          content: string
+          source: string
+          enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          conversation_id?: string | null
+          content: string
+          source?: string
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          conversation_id?: string | null
+          content?: string
+          source?: string
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      knowledge_documents: {
+        Row: {
+          id: string
+          user_id: string
+          project_id: string
+          name: string
+          type: string
+          size: number
+          chunk_count: number
+          embedding_model: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          project_id: string
+          name: string
+          type: string
+          size?: number
+          chunk_count?: number
+          embedding_model: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          project_id?: string
+          name?: string
+          type?: string
+          size?: number
+          chunk_count?: number
+          embedding_model?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      knowledge_chunks: {
+        Row: {
+          id: string
+          document_id: string
+          project_id: string
+          user_id: string
+          chunk_index: number
+          content: string
+          embedding: string // pgvector text form, "[0.1,0.2,...]"
+          embedding_model: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          project_id: string
+          user_id: string
+          chunk_index: number
+          content: string
+          embedding: string
+          embedding_model: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          project_id?: string
+          user_id?: string
+          chunk_index?: number
+          content?: string
+          embedding?: string
+          embedding_model?: string
+          created_at?: string
+        }
+      }
+      rate_limits: {
+        Row: {
+          key: string
+          request_count: number
+          window_started_at: string
+        }
+        Insert: {
+          key: string
+          request_count?: number
+          window_started_at?: string
+        }
+        Update: {
+          key?: string
+          request_count?: number
+          window_started_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      match_knowledge_chunks: {
+        Args: {
+          p_project_id: string
+          p_embedding: string
+          p_embedding_model: string
+          p_match_count?: number
+        }
+        Returns: {
+          document_id: string
+          document_name: string
+          chunk_index: number
+          content: string
+          similarity: number
+        }[]
+      }
+      hit_rate_limit: {
+        Args: {
+          p_key: string
+          p_window_seconds: number
+        }
+        Returns: {
+          request_count: number
+          window_started_at: string
+        }[]
+      }
+      prune_rate_limits: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -152,13 +420,23 @@ export type User = Database['public']['Tables']['users']['Row']
 export type Project = Database['public']['Tables']['projects']['Row']
 export type Conversation = Database['public']['Tables']['conversations']['Row']
 export type Message = Database['public']['Tables']['messages']['Row']
+export type UserApiKey = Database['public']['Tables']['user_api_keys']['Row']
+export type PromptTemplateRow = Database['public']['Tables']['prompt_templates']['Row']
+export type MemoryRow = Database['public']['Tables']['memories']['Row']
+export type KnowledgeDocumentRow = Database['public']['Tables']['knowledge_documents']['Row']
 
 export type InsertUser = Database['public']['Tables']['users']['Insert']
 export type InsertProject = Database['public']['Tables']['projects']['Insert']
 export type InsertConversation = Database['public']['Tables']['conversations']['Insert']
 export type InsertMessage = Database['public']['Tables']['messages']['Insert']
+export type InsertPromptTemplate = Database['public']['Tables']['prompt_templates']['Insert']
+export type InsertMemory = Database['public']['Tables']['memories']['Insert']
+export type InsertKnowledgeDocument = Database['public']['Tables']['knowledge_documents']['Insert']
+export type InsertKnowledgeChunk = Database['public']['Tables']['knowledge_chunks']['Insert']
 
 export type UpdateUser = Database['public']['Tables']['users']['Update']
 export type UpdateProject = Database['public']['Tables']['projects']['Update']
 export type UpdateConversation = Database['public']['Tables']['conversations']['Update']
-export type UpdateMessage = Database['public']['Tables']['messages']['Update'] 
\ No newline at end of file
+export type UpdateMessage = Database['public']['Tables']['messages']['Update']
+export type UpdatePromptTemplate = Database['public']['Tables']['prompt_templates']['Update']
+export type UpdateMemory = Database['public']['Tables']['memories']['Update'] 
\ No newline at end of file
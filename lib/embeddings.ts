@@ -0,0 +1,100 @@
+// Text embeddings for project knowledge bases
+//
+// An embedding model is named "<provider>:<model>". OpenAI, Gemini and Mistral models run on the
+// provider key; "custom:<model>" runs on the OpenAI-compatible endpoint from Settings, which is how
+// local embedding models (Ollama, LM Studio, llama.cpp) are used. Vectors from different models
+// cannot be compared, so every chunk records the model that embedded it.
+
+export type EmbeddingProvider = "openai" | "gemini" | "mistral" | "custom"
+
+export type EmbeddingModel = {
+  id: string
+  provider: EmbeddingProvider
+  model: string
+  name: string
+}
+
+export const EMBEDDING_MODELS: EmbeddingModel[] = [
+  { id: "openai:text-embedding-3-small", provider: "openai", model: "text-embedding-3-small", name: "OpenAI text-embedding-3-small" },
+  { id: "openai:text-embedding-3-large", provider: "openai", model: "text-embedding-3-large", name: "OpenAI text-embedding-3-large" },
+  { id: "gemini:text-embedding-004", provider: "gemini", model: "text-embedding-004", name: "Gemini text-embedding-004" },
+  { id: "mistral:mistral-embed", provider: "mistral", model: "mistral-embed", name: "Mistral mistral-embed" }
+]
+
+// Texts embedded per request; longer documents are sent in batches
+export const EMBEDDING_BATCH_SIZE = 64
+
+export function parseEmbeddingModel(id: string): EmbeddingModel | null {
+  const known = EMBEDDING_MODELS.find(model => model.id === id)
+  if (known) return known
+
+  const match = id.match(/^custom:(.+)$/)
+  return match && match[1].trim()
+    ? { id, provider: "custom", model: match[1].trim(), name: `${match[1].trim()} (custom endpoint)` }
+    : null
+}
+
+export function buildEmbeddingRequest(params: {
+  model: EmbeddingModel
+  texts: string[]
+  apiKey?: string
+  baseUrl?: string // Custom endpoint, already normalized to end in /v1
+}): { url: string; init: RequestInit } {
+  const { model, texts, apiKey } = params
+
+  if (model.provider === "gemini") {
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model.model}:batchEmbedContents`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey || "" },
+        body: JSON.stringify({
+          requests: texts.map(text => ({ model: `models/${model.model}`, content: { parts: [{ text }] } }))
+        })
+      }
+    }
+  }
+
+  const baseUrl = model.provider === "openai" ? "https://api.openai.com/v1"
+    : model.provider === "mistral" ? "https://api.mistral.ai/v1"
+    : params.baseUrl || ""
+  return {
+    url: `${baseUrl}/embeddings`,
+    init: {
+      method: "POST",
+      ...(model.provider === "custom" ? { redirect: "error" as const } : {}), // Could lead past the base URL check
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: model.model, input: texts })
+    }
+  }
+}
+
+// One vector per input text, in input order
+export function parseEmbeddingResponse(provider: EmbeddingProvider, data: any): number[][] {
+  const vectors: unknown[] = provider === "gemini"
+    ? (Array.isArray(data?.embeddings) ? data.embeddings.map((embedding: any) => embedding?.values) : [])
+    : (Array.isArray(data?.data) ? [...data.data].sort((a: any, b: any) => (a?.index ?? 0) - (b?.index ?? 0)).map((item: any) => item?.embedding) : [])
+
+  return vectors.map(vector => {
+    if (!Array.isArray(vector) || vector.length === 0 || vector.some(value => typeof value !== "number")) {
+      throw new Error("The embedding response did not contain vectors")
+    }
+    return vector as number[]
+  })
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
@@ -0,0 +1,93 @@
+// Fallback chains: models to try, in order, when the selected one fails with a retryable error
+//
+// Chains are written one per line as `primary → fallback → fallback`. An entry prefixed with
+// `openrouter/` is routed through OpenRouter, e.g. `openrouter/anthropic/claude-3.7-sonnet`, and
+// `custom:` entries go to the user's own endpoint, e.g. `custom:llama3.1:8b`.
+
+import { getModelDefinition, isCustomModelId, type ModelProvider } from "./models.ts"
+import { ProviderError } from "./providers/types.ts"
+
+// Keyed by the primary model ID
+export type FallbackChains = Record<string, string[]>
+
+export type FallbackTarget = {
+  model: string
+  provider: ModelProvider
+}
+
+export type FailoverReason = "rate_limited" | "quota" | "server_error" | "timeout"
+
+// One model that was tried and skipped before the answering model
+export type FallbackAttempt = FallbackTarget & {
+  reason: FailoverReason
+  message: string
+}
+
+export type FallbackInfo = {
+  requestedModel: string
+  attempts: FallbackAttempt[]
+}
+
+const OPENROUTER_PREFIX = "openrouter/"
+const CHAIN_SEPARATOR = /\s*(?:→|->|=>|,)\s*/
+
+// Phrased to follow a model name, e.g. "Claude 4 Sonnet was rate limited"
+const REASON_LABELS: Record<FailoverReason, string> = {
+  rate_limited: "was rate limited",
+  quota: "ran out of credits",
+  server_error: "was unavailable",
+  timeout: "timed out"
+}
+
+export function parseFallbackChains(text: string): FallbackChains {
+  const chains: FallbackChains = {}
+  text.split("\n").forEach(line => {
+    const [primary, ...fallbacks] = line.split(CHAIN_SEPARATOR).map(entry => entry.trim()).filter(Boolean)
+    if (primary && fallbacks.length > 0) {
+      chains[primary] = fallbacks
+    }
+  })
+  return chains
+}
+
+export function formatFallbackChains(chains: FallbackChains | undefined): string {
+  return Object.entries(chains || {})
+    .map(([primary, fallbacks]) => [primary, ...fallbacks].join(" → "))
+    .join("\n")
+}
+
+// Work out which provider serves a chain entry; null for IDs we cannot route
+export function resolveFallbackEntry(entry: string): FallbackTarget | null {
+  if (entry.startsWith(OPENROUTER_PREFIX)) {
+    const model = entry.slice(OPENROUTER_PREFIX.length)
+    return model ? { model, provider: "openrouter" } : null
+  }
+
+  if (isCustomModelId(entry)) {
+    return { model: entry, provider: "custom" }
+  }
+
+  const definition = getModelDefinition(entry)
+  if (definition && definition.kind === "chat") {
+    return { model: definition.id, provider: definition.provider }
+  }
+
+  // Unlisted vendor/model IDs can only be reached through OpenRouter
+  return entry.includes("/") ? { model: entry, provider: "openrouter" } : null
+}
+
+// Classify a failed provider call; null means the error is not worth retrying elsewhere
+export function getFailoverReason(error: unknown): FailoverReason | null {
+  if (error instanceof Error && error.name === "TimeoutError") return "timeout"
+  if (!(error instanceof ProviderError)) return null
+
+  if (error.status === 429) return "rate_limited"
+  if (error.status === 402) return "quota"
+  if (error.status === 408 || error.status === 504 || error.status === 524) return "timeout"
+  if (error.status >= 500) return "server_error"
+  return null
+}
+
+export function describeFailoverReason(reason: FailoverReason): string {
+  return REASON_LABELS[reason]
+}
@@ -35,6 +35,12 @@ export function isPDFFile(mimeType: string): boolean {
   return mimeType === 'application/pdf'
 }
 
+// PDFs keep the file itself (a data URL) only for the turn they were attached on; earlier turns and
+// saved conversations carry the extracted text, which keeps request bodies and localStorage small
+export function withoutPdfData<T extends { type: string; url?: string }>(attachments: T[] | undefined): T[] | undefined {
+  return attachments?.map(att => isPDFFile(att.type) && att.url?.startsWith('data:') ? { ...att, url: undefined } : att)
+}
+
 export function isTextFile(mimeType: string): boolean {
   return mimeType.startsWith('text/') || 
          mimeType.includes('document') || 
@@ -0,0 +1,146 @@
+// Structured output helpers shared by /api/chat and the chat UI
+//
+// Validation covers the JSON Schema keywords response schemas use in practice: type, properties,
+// required, additionalProperties, items, enum, const, anyOf and the basic size and range limits.
+// Unknown keywords are ignored rather than rejected.
+
+import type { StructuredOutput } from "./providers/types.ts"
+
+export type JsonSchema = Record<string, any>
+
+const MAX_ERRORS = 10
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number" && Number.isInteger(value)) return "integer"
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === "number" && actual === "integer")
+}
+
+// Returns a list of human-readable problems; empty when the value matches
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+  if (!schema || typeof schema !== "object") return []
+  const errors: string[] = []
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some((option: JsonSchema) => validateJsonSchema(value, option, path).length === 0)
+    if (!matches) errors.push(`${path} does not match any of the allowed shapes`)
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} should be ${types.join(" or ")}, got ${typeOf(value)}`]
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} should be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`)
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) errors.push(`${path} should have at least ${schema.minLength} characters`)
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) errors.push(`${path} should have at most ${schema.maxLength} characters`)
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) errors.push(`${path} should be at least ${schema.minimum}`)
+    if (typeof schema.maximum === "number" && value > schema.maximum) errors.push(`${path} should be at most ${schema.maximum}`)
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) errors.push(`${path} should have at least ${schema.minItems} items`)
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) errors.push(`${path} should have at most ${schema.maxItems} items`)
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)))
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>
+    const properties: Record<string, JsonSchema> = schema.properties || {}
+
+    if (Array.isArray(schema.required)) {
+      schema.required.forEach((key: string) => {
+        if (!(key in object)) errors.push(`${path}.${key} is required`)
+      })
+    }
+
+    Object.entries(object).forEach(([key, propertyValue]) => {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`)
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`))
+      }
+    })
+  }
+
+  return errors.slice(0, MAX_ERRORS)
+}
+
+// Parse model output as JSON, tolerating a surrounding ```json fence
+export function parseJsonOutput(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i)
+  const candidate = fenced ? fenced[1] : text.trim()
+
+  try {
+    return { ok: true, value: JSON.parse(candidate) }
+  } catch (error) {
+    return { ok: false, error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` }
+  }
+}
+
+export function checkStructuredOutput(text: string, schema: JsonSchema): StructuredOutput {
+  const parsed = parseJsonOutput(text)
+  if (!parsed.ok) return { data: null, valid: false, errors: [parsed.error] }
+
+  const errors = validateJsonSchema(parsed.value, schema)
+  return errors.length > 0 ? { data: parsed.value, valid: false, errors } : { data: parsed.value, valid: true }
+}
+
+// System prompt addition for structured requests; providers with a strict schema mode get it too, as a hint
+export function buildJsonInstructions(schema: JsonSchema): string {
+  return `Respond only with a JSON object that matches this JSON schema. Do not add explanations or code fences.\n${JSON.stringify(schema, null, 2)}`
+}
+
+// OpenAI limits schema names to letters, digits, _ and -
+export function toSchemaName(title: unknown): string {
+  const name = typeof title === "string" ? title.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 64) : ""
+  return name || "response"
+}
+
+// Whether OpenAI's strict mode accepts the schema: every object closes additionalProperties and requires
+// all of its properties. Other schemas are sent without strict and rely on validation and the re-ask.
+export function isStrictCompatible(schema: JsonSchema): boolean {
+  if (!schema || typeof schema !== "object") return true
+  if (schema.type === "object" || schema.properties) {
+    const keys = Object.keys(schema.properties || {})
+    const required: unknown[] = Array.isArray(schema.required) ? schema.required : []
+    if (schema.additionalProperties !== false || !keys.every(key => required.includes(key))) return false
+  }
+
+  const children: JsonSchema[] = [
+    ...Object.values(schema.properties || {}) as JsonSchema[],
+    ...Object.values(schema.$defs || schema.definitions || {}) as JsonSchema[],
+    ...(Array.isArray(schema.anyOf) ? schema.anyOf : []),
+    ...(schema.items && typeof schema.items === "object" ? [schema.items] : [])
+  ]
+  return children.every(isStrictCompatible)
+}
+
+// Check a user-supplied schema before it is sent to a provider; null when it is usable
+export function getResponseSchemaError(schema: unknown): string | null {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) return "Response schema must be a JSON object"
+  if ((schema as JsonSchema).type !== "object") return "Response schema must describe an object (\"type\": \"object\")"
+  return null
+}
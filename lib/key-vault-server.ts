@@ -0,0 +1,119 @@
+// Server side of the API key vault: encryption at rest and key lookup for API routes
+//
+// Keys are encrypted with AES-256-GCM under a key derived from API_KEY_ENCRYPTION_SECRET, which only
+// the server knows. Rows are read and written with the caller's own Supabase session, so the
+// user_api_keys row policies decide whose keys a request can reach.
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import type { Database } from "./database.types.ts"
+import { isStoredApiKey, isVaultProvider, type VaultProvider } from "./key-vault.ts"
+
+const CIPHER_VERSION = "v1"
+const IV_BYTES = 12
+
+export type VaultKeys = Partial<Record<VaultProvider, string>>
+
+export type RequestUser = {
+  userId: string
+  client: SupabaseClient<Database>
+}
+
+let cipherKey: Promise<CryptoKey> | null = null
+
+export function isKeyVaultConfigured(): boolean {
+  return !!(process.env.API_KEY_ENCRYPTION_SECRET && process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
+}
+
+function getCipherKey(): Promise<CryptoKey> {
+  if (!cipherKey) {
+    const secret = new TextEncoder().encode(process.env.API_KEY_ENCRYPTION_SECRET || "")
+    cipherKey = crypto.subtle.digest("SHA-256", secret)
+      .then(digest => crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]))
+  }
+  return cipherKey
+}
+
+// "v1:<iv>:<ciphertext>", both base64; the version leaves room to rotate the scheme
+export async function encryptApiKey(apiKey: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await getCipherKey(), new TextEncoder().encode(apiKey))
+  return [CIPHER_VERSION, Buffer.from(iv).toString("base64"), Buffer.from(encrypted).toString("base64")].join(":")
+}
+
+export async function decryptApiKey(payload: string): Promise<string> {
+  const [version, iv, data] = payload.split(":")
+  if (version !== CIPHER_VERSION || !iv || !data) {
+    throw new Error("Unsupported encrypted key format")
+  }
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: Buffer.from(iv, "base64") },
+    await getCipherKey(),
+    Buffer.from(data, "base64")
+  )
+  return new TextDecoder().decode(decrypted)
+}
+
+// Verified users by request, so the rate limiter and the key vault check the token only once
+const requestUsers = new WeakMap<Request, Promise<RequestUser | null>>()
+
+// The signed-in user behind a request (Authorization: Bearer <Supabase access token>), with a client acting as them
+export function getRequestUser(request: Request): Promise<RequestUser | null> {
+  let user = requestUsers.get(request)
+  if (!user) {
+    user = verifyRequestUser(request)
+    requestUsers.set(request, user)
+  }
+  return user
+}
+
+async function verifyRequestUser(request: Request): Promise<RequestUser | null> {
+  const token = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token || !process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) return null
+
+  const client = createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) {
+    console.warn("Key vault: could not verify the access token:", error?.message)
+    return null
+  }
+  return { userId: data.user.id, client }
+}
+
+// Decrypted keys of the request's user by provider; empty for anonymous requests or when the vault is not set up
+export async function loadVaultKeys(request: Request): Promise<VaultKeys> {
+  if (!isKeyVaultConfigured()) return {}
+
+  const user = await getRequestUser(request)
+  if (!user) return {}
+
+  const { data, error } = await user.client
+    .from("user_api_keys")
+    .select("provider, encrypted_key")
+    .eq("user_id", user.userId)
+
+  if (error) {
+    console.error("Key vault: failed to load keys:", error.message)
+    return {}
+  }
+
+  const keys: VaultKeys = {}
+  for (const row of data || []) {
+    if (!isVaultProvider(row.provider)) continue
+    try {
+      keys[row.provider] = await decryptApiKey(row.encrypted_key)
+    } catch (decryptError) {
+      // A changed API_KEY_ENCRYPTION_SECRET makes old rows unreadable; the user has to save the key again
+      console.error(`Key vault: could not decrypt the ${row.provider} key:`, decryptError)
+    }
+  }
+  return keys
+}
+
+// The key sent with the request if it is a real one, otherwise the user's stored key
+export function pickApiKey(sent: unknown, stored: string | undefined): string {
+  return typeof sent === "string" && sent && !isStoredApiKey(sent) ? sent : stored || ""
+}
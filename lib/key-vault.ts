@@ -0,0 +1,61 @@
+// API key vault shared by the settings UI and the API routes
+//
+// Signed-in users can keep provider keys on the server, encrypted at rest in user_api_keys.
+// Their settings then hold STORED_API_KEY in place of each key, and the routes look the real key
+// up by provider for the user behind the request. Signed-out users keep their keys in localStorage.
+
+export const VAULT_PROVIDERS = [
+  "openai",
+  "claude",
+  "gemini",
+  "deepseek",
+  "grok",
+  "openrouter",
+  "veo2",
+  "mistral",
+  "runway",
+  "custom"
+] as const
+
+export type VaultProvider = typeof VAULT_PROVIDERS[number]
+
+// Settings field holding each provider's key
+export const API_KEY_SETTINGS_FIELDS = {
+  openai: "openaiApiKey",
+  claude: "claudeApiKey",
+  gemini: "geminiApiKey",
+  deepseek: "deepseekApiKey",
+  grok: "grokApiKey",
+  openrouter: "openrouterApiKey",
+  veo2: "veo2ApiKey",
+  mistral: "mistralApiKey",
+  runway: "runwayApiKey",
+  custom: "customEndpointApiKey"
+} as const satisfies Record<VaultProvider, string>
+
+// Placeholder kept in the settings for a key that lives in the vault
+export const STORED_API_KEY = "vault:stored"
+
+// What GET /api/keys reports about a stored key; the key itself never leaves the server
+export type StoredKeyInfo = {
+  provider: VaultProvider
+  hint: string | null // Last characters of the key, to tell keys apart
+  updatedAt: string
+}
+
+export function isVaultProvider(value: unknown): value is VaultProvider {
+  return typeof value === "string" && (VAULT_PROVIDERS as readonly string[]).includes(value)
+}
+
+export function isStoredApiKey(value: unknown): boolean {
+  return value === STORED_API_KEY
+}
+
+// The key to put in a request body: real keys as is, nothing for stored keys (the route resolves them)
+export function toRequestApiKey(value: string | null | undefined): string | undefined {
+  return value && !isStoredApiKey(value) ? value : undefined
+}
+
+export function getKeyHint(key: string): string {
+  return key.length > 8 ? `…${key.slice(-4)}` : "…"
+}
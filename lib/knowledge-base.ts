@@ -0,0 +1,131 @@
+// Project knowledge bases
+//
+// Documents uploaded to a project are turned into text (PDFs through /api/upload), split into
+// overlapping chunks and embedded. Signed-in users keep the chunks in a pgvector table
+// (migration-add-knowledge-base.sql); without an account they stay in the browser's IndexedDB
+// (knowledge-index.ts). Every question asked in one of the project's conversations retrieves the
+// closest chunks, which /api/chat gives the model as numbered excerpts to cite as [n].
+
+export type KnowledgeDocumentStatus = "processing" | "ready" | "error"
+
+export type KnowledgeDocument = {
+  id: string
+  projectId: string
+  name: string
+  type: string
+  size: number
+  chunkCount: number
+  embeddingModel: string // "<provider>:<model>" that embedded the chunks; questions are embedded with it too
+  status: KnowledgeDocumentStatus // Only ready documents are stored; the others exist while uploading
+  error?: string
+  createdAt: string
+}
+
+// One retrieved chunk, shown under the answer like web search sources
+export type KnowledgeSource = {
+  documentId: string
+  documentName: string
+  chunkIndex: number
+  content: string
+  similarity?: number
+}
+
+export const KNOWLEDGE_TOP_K = 5
+
+// Sources one request may carry, across embedding models
+export const MAX_KNOWLEDGE_SOURCES = 8
+
+const CHUNK_SIZE = 1200
+const CHUNK_OVERLAP = 200
+export const MAX_DOCUMENT_CHUNKS = 500
+
+// Read in the browser; PDFs go through /api/upload instead
+export function isPlainTextDocument(file: { name: string; type: string }): boolean {
+  return file.type.startsWith("text/") ||
+    file.type === "application/json" ||
+    /\.(txt|md|markdown|csv|tsv|json|html?|xml|ya?ml|log)$/i.test(file.name)
+}
+
+export function isPdfDocument(file: { name: string; type: string }): boolean {
+  return file.type === "application/pdf" || /\.pdf$/i.test(file.name)
+}
+
+// Sentence-aligned chunks of about CHUNK_SIZE characters; each starts with the last sentences of the
+// one before, so a passage cut at a boundary is still found whole in one of them
+export function chunkText(text: string): string[] {
+  const sentences = text
+    .replace(/\r\n?/g, "\n")
+    .split(/(?<=[.!?])\s+|\n{2,}/)
+    .map(sentence => sentence.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+
+  const chunks: string[] = []
+  let current: string[] = []
+  let length = 0
+
+  for (const sentence of sentences) {
+    const pieces = sentence.length > CHUNK_SIZE ? sentence.match(new RegExp(`.{1,${CHUNK_SIZE}}`, "g")) || [] : [sentence]
+    for (const piece of pieces) {
+      if (current.length > 0 && length + piece.length > CHUNK_SIZE) {
+        chunks.push(current.join(" "))
+
+        const overlap: string[] = []
+        let overlapLength = 0
+        for (let i = current.length - 1; i >= 0 && overlapLength + current[i].length <= CHUNK_OVERLAP; i--) {
+          overlap.unshift(current[i])
+          overlapLength += current[i].length + 1
+        }
+        current = overlap
+        length = overlapLength
+      }
+      current.push(piece)
+      length += piece.length + 1
+    }
+  }
+  if (current.length > 0) chunks.push(current.join(" "))
+  return chunks
+}
+
+// Best matches first, at most MAX_KNOWLEDGE_SOURCES, when several embedding models were searched
+export function mergeKnowledgeSources(results: KnowledgeSource[][]): KnowledgeSource[] {
+  return results
+    .flat()
+    .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
+    .slice(0, MAX_KNOWLEDGE_SOURCES)
+}
+
+// Excerpts are cited as [KB1], [KB2]…, apart from the [1], [2]… of web search results in the same reply
+export function withKnowledgeSources(systemPrompt: string | undefined, sources: KnowledgeSource[] | undefined): string | undefined {
+  if (!sources || sources.length === 0) return systemPrompt
+  const excerpts = sources.map((source, index) => `[KB${index + 1}] From "${source.documentName}":\n${source.content}`).join("\n\n")
+  const knowledgeBlock = `Excerpts from this project's documents, retrieved for the latest question. When you use one, cite it right after the statement as [KBn], using its label below; keep plain [n] for web search results. Ignore the excerpts that do not help.\n\n${excerpts}`
+  return systemPrompt ? `${systemPrompt}\n\n${knowledgeBlock}` : knowledgeBlock
+}
+
+// pgvector input format
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`
+}
+
+export function fromKnowledgeDocumentRow(row: {
+  id: string
+  project_id: string
+  name: string
+  type: string
+  size: number
+  chunk_count: number
+  embedding_model: string
+  created_at: string
+}): KnowledgeDocument {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    type: row.type,
+    size: row.size,
+    chunkCount: row.chunk_count,
+    embeddingModel: row.embedding_model,
+    status: "ready",
+    createdAt: row.created_at
+  }
+}
@@ -0,0 +1,140 @@
+// Local knowledge base index for use without an account
+//
+// Documents and their embedded chunks are kept in IndexedDB, which holds far more than localStorage,
+// and searched in the browser by cosine similarity. Browser only.
+
+import { cosineSimilarity } from "./embeddings.ts"
+import type { KnowledgeDocument, KnowledgeSource } from "./knowledge-base.ts"
+
+const DB_NAME = "apeiron-chat-knowledge"
+const DB_VERSION = 1
+
+type LocalChunk = {
+  id: string // `${documentId}:${chunkIndex}`
+  documentId: string
+  projectId: string
+  chunkIndex: number
+  content: string
+  embedding: number[]
+  embeddingModel: string
+}
+
+function openIndex(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore("documents", { keyPath: "id" })
+      const chunks = db.createObjectStore("chunks", { keyPath: "id" })
+      chunks.createIndex("projectId", "projectId")
+      chunks.createIndex("documentId", "documentId")
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function whenDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+async function withIndex<T>(run: (db: IDBDatabase) => Promise<T>): Promise<T> {
+  const db = await openIndex()
+  try {
+    return await run(db)
+  } finally {
+    db.close()
+  }
+}
+
+export function listLocalKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+  return withIndex(db => toPromise(db.transaction("documents").objectStore("documents").getAll() as IDBRequest<KnowledgeDocument[]>))
+}
+
+export function saveLocalKnowledgeDocument(
+  document: KnowledgeDocument,
+  chunks: Array<{ content: string; embedding: number[] }>
+): Promise<void> {
+  return withIndex(db => {
+    const transaction = db.transaction(["documents", "chunks"], "readwrite")
+    transaction.objectStore("documents").put({ ...document, status: "ready", error: undefined })
+    const chunkStore = transaction.objectStore("chunks")
+    chunks.forEach((chunk, chunkIndex) => {
+      const localChunk: LocalChunk = {
+        id: `${document.id}:${chunkIndex}`,
+        documentId: document.id,
+        projectId: document.projectId,
+        chunkIndex,
+        content: chunk.content,
+        embedding: chunk.embedding,
+        embeddingModel: document.embeddingModel
+      }
+      chunkStore.put(localChunk)
+    })
+    return whenDone(transaction)
+  })
+}
+
+async function deleteWhere(db: IDBDatabase, index: "projectId" | "documentId", value: string): Promise<void> {
+  const transaction = db.transaction(["documents", "chunks"], "readwrite")
+  const chunkStore = transaction.objectStore("chunks")
+  const chunkKeys = await toPromise(chunkStore.index(index).getAllKeys(value))
+  chunkKeys.forEach(key => chunkStore.delete(key))
+
+  const documentStore = transaction.objectStore("documents")
+  if (index === "documentId") {
+    documentStore.delete(value)
+  } else {
+    const documents = await toPromise(documentStore.getAll() as IDBRequest<KnowledgeDocument[]>)
+    documents.filter(document => document.projectId === value).forEach(document => documentStore.delete(document.id))
+  }
+  return whenDone(transaction)
+}
+
+export function deleteLocalKnowledgeDocument(id: string): Promise<void> {
+  return withIndex(db => deleteWhere(db, "documentId", id))
+}
+
+export function deleteLocalProjectKnowledge(projectId: string): Promise<void> {
+  return withIndex(db => deleteWhere(db, "projectId", projectId))
+}
+
+// The project's chunks closest to the question, among those embedded by the same model
+export async function searchLocalKnowledge(
+  projectId: string,
+  embedding: number[],
+  embeddingModel: string,
+  matchCount: number
+): Promise<KnowledgeSource[]> {
+  const [chunks, documents] = await withIndex(db => {
+    const transaction = db.transaction(["chunks", "documents"])
+    return Promise.all([
+      toPromise(transaction.objectStore("chunks").index("projectId").getAll(projectId) as IDBRequest<LocalChunk[]>),
+      toPromise(transaction.objectStore("documents").getAll() as IDBRequest<KnowledgeDocument[]>)
+    ])
+  })
+
+  const names = new Map(documents.map(document => [document.id, document.name]))
+  return chunks
+    .filter(chunk => chunk.embeddingModel === embeddingModel && names.has(chunk.documentId))
+    .map(chunk => ({
+      documentId: chunk.documentId,
+      documentName: names.get(chunk.documentId) || "",
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      similarity: cosineSimilarity(chunk.embedding, embedding)
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, matchCount)
+}
@@ -0,0 +1,117 @@
+// Long-term memory about the user
+//
+// Memories are short facts and preferences kept across conversations. The user adds them in Settings,
+// or the model saves them with its remember tool while memory is turned on; those keep the
+// conversation they came from. New requests carry the enabled memories that best match the
+// conversation, and /api/chat adds them to the system prompt.
+
+import type { MessagePart } from "./providers/types.ts"
+
+export type MemorySource = "user" | "model"
+
+export type Memory = {
+  id: string
+  content: string
+  source: MemorySource
+  enabled: boolean // Disabled memories stay listed in Settings but are never sent
+  conversationId: string | null // Conversation the model saved it in
+  createdAt: string
+  updatedAt: string
+}
+
+export type MemoryDraft = Pick<Memory, "content" | "source" | "conversationId">
+
+export const MEMORY_MAX_LENGTH = 500
+
+// Memories sent with one request; past this many, the best matches are picked
+export const MAX_INJECTED_MEMORIES = 15
+
+export const REMEMBER_TOOL_NAME = "remember"
+
+// Words too common to tell memories apart
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "with", "this", "that", "from", "have", "has",
+  "was", "were", "will", "would", "can", "could", "what", "when", "how", "why", "who", "which", "about",
+  "into", "than", "then", "them", "they", "their", "there", "here", "some", "any", "all", "also", "just",
+  "user", "users", "prefers", "likes", "wants"
+])
+
+function getWords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu) || []
+  return new Set(words.filter(word => word.length > 2 && !STOP_WORDS.has(word)))
+}
+
+// Enabled memories for a request about `query`. While there are few, all of them go; otherwise the
+// ones sharing the most words with the query, newest first among equals.
+export function selectRelevantMemories(memories: Memory[], query: string): string[] {
+  const enabled = memories.filter(memory => memory.enabled && memory.content.trim())
+  if (enabled.length <= MAX_INJECTED_MEMORIES) {
+    return enabled.map(memory => memory.content.trim())
+  }
+
+  const queryWords = getWords(query)
+  return enabled
+    .map(memory => ({
+      memory,
+      score: Array.from(getWords(memory.content)).filter(word => queryWords.has(word)).length
+    }))
+    .sort((a, b) => b.score - a.score || new Date(b.memory.updatedAt).getTime() - new Date(a.memory.updatedAt).getTime())
+    .slice(0, MAX_INJECTED_MEMORIES)
+    .map(({ memory }) => memory.content.trim())
+}
+
+export function withMemories(systemPrompt: string | undefined, memories: string[] | undefined): string | undefined {
+  if (!memories || memories.length === 0) return systemPrompt
+  const memoryBlock = `What you remember about the user from earlier conversations. Use it when it helps; do not bring it up otherwise:\n${memories.map(memory => `- ${memory}`).join("\n")}`
+  return systemPrompt ? `${systemPrompt}\n\n${memoryBlock}` : memoryBlock
+}
+
+// Facts the model saved with the remember tool during one reply
+export function getRememberedFacts(parts: MessagePart[] | undefined): string[] {
+  return (parts || []).flatMap(part => {
+    if (part.type !== "tool-result" || part.name !== REMEMBER_TOOL_NAME || part.isError) return []
+    const fact = (part.data as { memory?: unknown } | undefined)?.memory
+    return typeof fact === "string" && fact.trim() ? [fact.trim()] : []
+  })
+}
+
+// Same text, ignoring case and spacing; the model tends to save a fact again when it comes up again
+export function isSameMemory(a: string, b: string): boolean {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").replace(/[.!]+$/, "").trim()
+  return normalize(a) === normalize(b)
+}
+
+// Database columns, the same way prompt-templates.ts maps them
+export function toMemoryColumns(draft: Partial<MemoryDraft & Pick<Memory, "enabled">>) {
+  const columns: {
+    content?: string
+    source?: MemorySource
+    enabled?: boolean
+    conversation_id?: string | null
+  } = {}
+  if ("content" in draft) columns.content = draft.content
+  if ("source" in draft) columns.source = draft.source
+  if ("enabled" in draft) columns.enabled = draft.enabled
+  if ("conversationId" in draft) columns.conversation_id = draft.conversationId ?? null
+  return columns
+}
+
+export function fromMemoryRow(row: {
+  id: string
+  content: string
+  source: string
+  enabled: boolean
+  conversation_id: string | null
+  created_at: string
+  updated_at: string
+}): Memory {
+  return {
+    id: row.id,
+    content: row.content,
+    source: row.source === "model" ? "model" : "user",
+    enabled: row.enabled,
+    conversationId: row.conversation_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
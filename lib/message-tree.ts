@@ -0,0 +1,74 @@
+// Conversation branches
+//
+// Messages are kept as a flat list where each one points at the message it follows. Editing an
+// earlier message adds a sibling under the same parent, so a conversation is a tree. The branch
+// on screen, and the one sent to the model, is the path from the first message to the active leaf.
+
+export type TreeMessage = {
+  id: string
+  parentId?: string | null // null for the first message; unset on messages saved before branching
+}
+
+// Position among siblings for the "< 2/3 >" switcher
+export type BranchPosition = {
+  index: number
+  count: number
+}
+
+// Messages saved before branching existed follow the message before them
+export function withParentIds<T extends TreeMessage>(messages: T[]): T[] {
+  return messages.map((message, index) =>
+    message.parentId !== undefined ? message : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  )
+}
+
+export function getSiblings<T extends TreeMessage>(messages: T[], messageId: string): T[] {
+  const message = messages.find(msg => msg.id === messageId)
+  if (!message) return []
+  const parentId = message.parentId ?? null
+  return messages.filter(msg => (msg.parentId ?? null) === parentId)
+}
+
+// From the first message to `activeLeafId`; an unknown or missing leaf means the newest message
+export function getActivePath<T extends TreeMessage>(messages: T[], activeLeafId?: string | null): T[] {
+  const byId = new Map(messages.map(message => [message.id, message]))
+  let current: T | undefined = (activeLeafId && byId.get(activeLeafId)) || messages[messages.length - 1]
+
+  const path: T[] = []
+  const seen = new Set<string>()
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+// Newest message at or below `messageId`, so switching to a branch reopens where it was left
+export function getLatestLeaf<T extends TreeMessage>(messages: T[], messageId: string): string {
+  const parents = new Map(messages.map(message => [message.id, message.parentId ?? null]))
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const seen = new Set<string>()
+    let current: string | null = messages[index].id
+    while (current && !seen.has(current)) {
+      if (current === messageId) return messages[index].id
+      seen.add(current)
+      current = parents.get(current) ?? null
+    }
+  }
+  return messageId
+}
+
+export function getBranchPosition<T extends TreeMessage>(messages: T[], messageId: string): BranchPosition {
+  const siblings = getSiblings(messages, messageId)
+  return { index: Math.max(0, siblings.findIndex(msg => msg.id === messageId)), count: Math.max(1, siblings.length) }
+}
+
+// Number of leading messages two paths have in common
+export function getSharedPathLength(a: TreeMessage[], b: TreeMessage[]): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[length].id === b[length].id) {
+    length++
+  }
+  return length
+}
@@ -0,0 +1,72 @@
+// Alternative answers for a single assistant turn
+//
+// Compare mode stores one variant per model, and every regeneration of a reply adds one more
+// version. The selected variant is mirrored onto the message itself, so rendering and later
+// context only ever read the message fields.
+
+import type { KnowledgeSource } from "./knowledge-base.ts"
+import type { MessagePart } from "./providers/types.ts"
+import type { MessageUsage } from "./usage.ts"
+
+export type MessageVariant = {
+  id: string
+  content: string
+  model: string
+  provider: string
+  createdAt: string
+  latencyMs?: number
+  outputTokens?: number // Reported by the provider, or estimated from the answer text
+  usage?: MessageUsage
+  parts?: MessagePart[]
+  searchResults?: any[]
+  knowledgeSources?: KnowledgeSource[]
+  isError?: boolean
+  interrupted?: boolean // Stopped by the user; content is what arrived before that
+  temperature?: number // Set on regenerations, which may use a temperature other than the settings
+  isStreaming?: boolean // Only while the answer is still arriving; never persisted
+}
+
+// Message fields that follow the selected variant
+export function getVariantMessageFields(variant: MessageVariant) {
+  return {
+    content: variant.content,
+    model: variant.model,
+    provider: variant.provider,
+    parts: variant.parts,
+    searchResults: variant.searchResults,
+    knowledgeSources: variant.knowledgeSources,
+    interrupted: variant.interrupted
+  }
+}
+
+// First answer that arrived without an error, used until the user picks one
+export function getDefaultVariant(variants: MessageVariant[]): MessageVariant | undefined {
+  return variants.find(variant => !variant.isError && variant.content) || variants[0]
+}
+
+// A reply from before it had versions, as the first one
+export function toMessageVariant(message: {
+  id: string
+  content: string
+  model?: string
+  provider?: string
+  timestamp: Date
+  parts?: MessagePart[]
+  searchResults?: any[]
+  knowledgeSources?: KnowledgeSource[]
+  usage?: MessageUsage
+  interrupted?: boolean
+}): MessageVariant {
+  return {
+    id: `${message.id}-0`,
+    content: message.content,
+    model: message.model || "",
+    provider: message.provider || "",
+    createdAt: new Date(message.timestamp).toISOString(),
+    usage: message.usage,
+    parts: message.parts,
+    searchResults: message.searchResults,
+    knowledgeSources: message.knowledgeSources,
+    interrupted: message.interrupted
+  }
+}
@@ -0,0 +1,183 @@
+// Model catalog shared by the UI, the chat route and the edge functions
+//
+// Every model the UI can offer is listed here with the model name its provider API
+// expects and its limits. Plain TypeScript with no imports, so Deno can load it too.
+
+export type ModelProvider = "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway" | "custom"
+
+export type ModelKind = "chat" | "image" | "video"
+
+export type ModelDefinition = {
+  id: string // UI model ID, stored on conversations and messages
+  name: string
+  icon: string
+  description: string
+  provider: ModelProvider
+  group?: ModelProvider // Settings section and API key that unlock the model, when not its provider
+  apiModel: string // Model name sent to the provider API
+  kind: ModelKind
+  contextWindow: number // Input + output tokens
+  maxOutputTokens: number
+  vision: boolean
+  tools: boolean // Supports native tool calling
+  reasoningModel?: boolean // OpenAI o-series: takes max_completion_tokens and only the default temperature
+  pdf?: boolean // Reads PDF attachments as files (Claude document blocks, Gemini inline data); others get their text
+  // Reasoning models return their thinking: the effort they use until the user picks another
+  // ("off" | "low" | "medium" | "high"), or "fixed" when the provider offers no control
+  reasoning?: "off" | "low" | "medium" | "high" | "fixed"
+  thinkingRequired?: boolean // Thinking cannot be turned off, so "off" is not offered and runs at "low"
+  timeoutMs?: number // Overrides the provider's default request timeout
+}
+
+export const PROVIDER_NAMES: Record<ModelProvider, string> = {
+  openai: "OpenAI",
+  claude: "Anthropic (Claude)",
+  gemini: "Google (Gemini + VEO2)",
+  deepseek: "DeepSeek",
+  grok: "Grok",
+  mistral: "Mistral AI",
+  runway: "RunwayML",
+  openrouter: "OpenRouter",
+  veo2: "Google VEO2",
+  custom: "Custom Endpoint"
+}
+
+export const MODEL_CATALOG: ModelDefinition[] = [
+  // OpenAI
+  { id: "o3", name: "o3", icon: "O3", description: "Latest breakthrough reasoning model", provider: "openai", apiModel: "o3", kind: "chat", reasoningModel: true, contextWindow: 200000, maxOutputTokens: 100000, vision: true, tools: true, reasoning: "medium" },
+  { id: "gpt-4.5", name: "GPT-4.5", icon: "45", description: "Enhanced flagship model with improved capabilities", provider: "openai", apiModel: "gpt-4.5-preview", kind: "chat", contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true },
+  { id: "gpt-4.1", name: "GPT-4.1", icon: "41", description: "Latest flagship model with enhanced capabilities", provider: "openai", apiModel: "gpt-4.1", kind: "chat", contextWindow: 1047576, maxOutputTokens: 32768, vision: true, tools: true },
+  { id: "gpt-4o", name: "GPT-4o", icon: "4O", description: "Multimodal model with vision and audio", provider: "openai", apiModel: "gpt-4o", kind: "chat", contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true },
+  { id: "gpt-4", name: "GPT-4", icon: "G4", description: "Previous generation model", provider: "openai", apiModel: "gpt-4", kind: "chat", contextWindow: 8192, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "gpt-3.5-turbo", name: "GPT-3.5 Turbo", icon: "35", description: "Fast and cost-effective", provider: "openai", apiModel: "gpt-3.5-turbo", kind: "chat", contextWindow: 16385, maxOutputTokens: 4096, vision: false, tools: true },
+
+  // Anthropic
+  { id: "claude-4-sonnet", name: "Claude 4 Sonnet", icon: "C4", description: "Latest generation with advanced reasoning", provider: "claude", apiModel: "claude-sonnet-4-20250514", kind: "chat", contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, pdf: true, reasoning: "off" },
+  { id: "claude-3-opus", name: "Claude 3 Opus", icon: "CO", description: "Most powerful model for complex tasks", provider: "claude", apiModel: "claude-3-opus-20240229", kind: "chat", contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true },
+  { id: "claude-3.5-sonnet", name: "Claude 3.5 Sonnet", icon: "C3", description: "High performance model", provider: "claude", apiModel: "claude-3-5-sonnet-20241022", kind: "chat", contextWindow: 200000, maxOutputTokens: 8192, vision: true, tools: true, pdf: true },
+
+  // Google
+  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", icon: "2F", description: "Fast multimodal processing", provider: "gemini", apiModel: "gemini-2.5-flash", kind: "chat", contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, pdf: true, reasoning: "medium" },
+  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", icon: "2P", description: "Advanced reasoning capabilities", provider: "gemini", apiModel: "gemini-2.5-pro", kind: "chat", contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, pdf: true, timeoutMs: 45000, reasoning: "medium", thinkingRequired: true },
+  { id: "veo2", name: "VEO 2", icon: "V2", description: "Video generation model", provider: "veo2", group: "gemini", apiModel: "veo-2.0-generate-001", kind: "video", contextWindow: 0, maxOutputTokens: 0, vision: false, tools: false },
+
+  // DeepSeek ("deepseek-chat" is the API name of DeepSeek V3, "deepseek-reasoner" of R1)
+  { id: "deepseek-v3", name: "DeepSeek V3", icon: "D3", description: "Latest reasoning and coding model", provider: "deepseek", apiModel: "deepseek-chat", kind: "chat", contextWindow: 64000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "deepseek-r1", name: "DeepSeek R1", icon: "R1", description: "Reasoning model that shows its thinking", provider: "deepseek", apiModel: "deepseek-reasoner", kind: "chat", contextWindow: 64000, maxOutputTokens: 32768, vision: false, tools: false, reasoning: "fixed" },
+
+  // xAI
+  { id: "grok-3", name: "Grok 3", icon: "G3", description: "Advanced reasoning with real-time data", provider: "grok", apiModel: "grok-3", kind: "chat", contextWindow: 131072, maxOutputTokens: 16384, vision: false, tools: true },
+
+  // Mistral
+  { id: "mistral-large", name: "Mistral Large", icon: "ML", description: "Most capable model for complex reasoning", provider: "mistral", apiModel: "mistral-large-latest", kind: "chat", contextWindow: 128000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "mistral-medium", name: "Mistral Medium", icon: "MM", description: "Balanced performance and cost", provider: "mistral", apiModel: "mistral-medium-latest", kind: "chat", contextWindow: 128000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "mistral-small", name: "Mistral Small", icon: "MS", description: "Fast and efficient for simple tasks", provider: "mistral", apiModel: "mistral-small-latest", kind: "chat", contextWindow: 32000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "codestral", name: "Codestral", icon: "CS", description: "Specialized coding and development model", provider: "mistral", apiModel: "codestral-latest", kind: "chat", contextWindow: 256000, maxOutputTokens: 8192, vision: false, tools: true },
+
+  // RunwayML
+  { id: "gen3a-turbo", name: "Gen3 Alpha Turbo", icon: "GT", description: "Fast image and video generation", provider: "runway", apiModel: "gen3a_turbo", kind: "image", contextWindow: 0, maxOutputTokens: 0, vision: false, tools: false },
+  { id: "gen3a", name: "Gen3 Alpha", icon: "G3", description: "High-quality image and video generation", provider: "runway", apiModel: "gen3a", kind: "image", contextWindow: 0, maxOutputTokens: 0, vision: false, tools: false },
+  { id: "gen2", name: "Gen2", icon: "G2", description: "Previous generation model", provider: "runway", apiModel: "gen2", kind: "image", contextWindow: 0, maxOutputTokens: 0, vision: false, tools: false },
+
+  // OpenRouter
+  { id: "openai/gpt-4o-mini", name: "GPT-4o Mini", icon: "4M", description: "Compact version of GPT-4o", provider: "openrouter", apiModel: "openai/gpt-4o-mini", kind: "chat", contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true },
+  { id: "openai/gpt-4.1-2025-04-14", name: "GPT-4.1", icon: "41", description: "Latest OpenAI flagship model", provider: "openrouter", apiModel: "openai/gpt-4.1", kind: "chat", contextWindow: 1047576, maxOutputTokens: 32768, vision: true, tools: true },
+  { id: "openai/gpt-4-turbo", name: "GPT-4 Turbo", icon: "4T", description: "Powerful OpenAI model", provider: "openrouter", apiModel: "openai/gpt-4-turbo", kind: "chat", contextWindow: 128000, maxOutputTokens: 4096, vision: true, tools: true },
+  { id: "openai/gpt-4", name: "GPT-4", icon: "G4", description: "OpenAI's reliable model", provider: "openrouter", apiModel: "openai/gpt-4", kind: "chat", contextWindow: 8191, maxOutputTokens: 4096, vision: false, tools: true },
+  { id: "openai/gpt-3.5-turbo", name: "GPT-3.5 Turbo", icon: "35", description: "Fast and efficient OpenAI model", provider: "openrouter", apiModel: "openai/gpt-3.5-turbo", kind: "chat", contextWindow: 16385, maxOutputTokens: 4096, vision: false, tools: true },
+  { id: "anthropic/claude-4-sonnet-20250522", name: "Claude 4 Sonnet", icon: "C4", description: "Latest Claude model", provider: "openrouter", apiModel: "anthropic/claude-sonnet-4", kind: "chat", contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, reasoning: "off" },
+  { id: "anthropic/claude-3.7-sonnet", name: "Claude 3.7 Sonnet", icon: "37", description: "Advanced Claude model", provider: "openrouter", apiModel: "anthropic/claude-3.7-sonnet", kind: "chat", contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, reasoning: "off" },
+  { id: "anthropic/claude-3-opus", name: "Claude 3 Opus", icon: "CO", description: "Powerful Claude model", provider: "openrouter", apiModel: "anthropic/claude-3-opus", kind: "chat", contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true },
+  { id: "anthropic/claude-3-sonnet", name: "Claude 3 Sonnet", icon: "CS", description: "Balanced Claude model", provider: "openrouter", apiModel: "anthropic/claude-3-sonnet", kind: "chat", contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true },
+  { id: "anthropic/claude-2.1", name: "Claude 2.1", icon: "C2", description: "Previous generation Claude", provider: "openrouter", apiModel: "anthropic/claude-2.1", kind: "chat", contextWindow: 200000, maxOutputTokens: 4096, vision: false, tools: false },
+  { id: "meta-llama/llama-3.3-70b-instruct", name: "Llama 3.3 70B", icon: "L3", description: "Meta's latest open model", provider: "openrouter", apiModel: "meta-llama/llama-3.3-70b-instruct", kind: "chat", contextWindow: 131072, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "meta-llama/llama-3-70b-chat", name: "Llama 3 70B", icon: "L3", description: "Meta's powerful open model", provider: "openrouter", apiModel: "meta-llama/llama-3-70b-instruct", kind: "chat", contextWindow: 8192, maxOutputTokens: 4096, vision: false, tools: false },
+  { id: "meta-llama/llama-2-70b-chat", name: "Llama 2 70B", icon: "L2", description: "Previous generation Llama", provider: "openrouter", apiModel: "meta-llama/llama-2-70b-chat", kind: "chat", contextWindow: 4096, maxOutputTokens: 2048, vision: false, tools: false },
+  { id: "mistral/mistral-large", name: "Mistral Large", icon: "ML", description: "Mistral's most capable model", provider: "openrouter", apiModel: "mistralai/mistral-large", kind: "chat", contextWindow: 128000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "mistral/mistral-medium", name: "Mistral Medium", icon: "MM", description: "Balanced Mistral model", provider: "openrouter", apiModel: "mistralai/mistral-medium", kind: "chat", contextWindow: 32000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "mistral/mistral-small", name: "Mistral Small", icon: "MS", description: "Efficient Mistral model", provider: "openrouter", apiModel: "mistralai/mistral-small", kind: "chat", contextWindow: 32000, maxOutputTokens: 8192, vision: false, tools: true },
+  { id: "google/gemini-2.5-flash-preview-05-20", name: "Gemini 2.5 Flash Preview", icon: "25", description: "Latest Gemini model", provider: "openrouter", apiModel: "google/gemini-2.5-flash", kind: "chat", contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, reasoning: "medium" },
+  { id: "google/gemini-2.0-flash-001", name: "Gemini 2.0 Flash", icon: "20", description: "Fast Gemini model", provider: "openrouter", apiModel: "google/gemini-2.0-flash-001", kind: "chat", contextWindow: 1048576, maxOutputTokens: 8192, vision: true, tools: true },
+  { id: "google/gemini-pro", name: "Gemini Pro", icon: "GP", description: "Google's advanced model", provider: "openrouter", apiModel: "google/gemini-pro-1.5", kind: "chat", contextWindow: 2000000, maxOutputTokens: 8192, vision: true, tools: true },
+  { id: "deepseek/deepseek-r1:free", name: "DeepSeek R1", icon: "DS", description: "DeepSeek's advanced model", provider: "openrouter", apiModel: "deepseek/deepseek-r1:free", kind: "chat", contextWindow: 163840, maxOutputTokens: 8192, vision: false, tools: false, reasoning: "fixed" },
+  { id: "x-ai/grok-3-beta", name: "Grok 3 Beta", icon: "G3", description: "xAI's advanced reasoning model", provider: "openrouter", apiModel: "x-ai/grok-3-beta", kind: "chat", contextWindow: 131072, maxOutputTokens: 16384, vision: false, tools: true }
+]
+
+// Retired UI IDs that may still be stored on older conversations
+// "Claude 3.5 Opus" never existed; those requests were always served by Claude 3 Opus
+const MODEL_ID_ALIASES: Record<string, string> = {
+  "claude-3.5-opus": "claude-3-opus"
+}
+
+// Limits assumed for OpenRouter models the user adds by ID
+const CUSTOM_OPENROUTER_LIMITS = { contextWindow: 32000, maxOutputTokens: 4096 }
+
+// Models on the user's own OpenAI-compatible endpoint are stored as "custom:<name the server reports>",
+// so they never collide with catalog or OpenRouter IDs. Local servers often default to small contexts.
+export const CUSTOM_MODEL_PREFIX = "custom:"
+const CUSTOM_ENDPOINT_LIMITS = { contextWindow: 8192, maxOutputTokens: 4096 }
+
+export function isCustomModelId(modelId: string): boolean {
+  return modelId.startsWith(CUSTOM_MODEL_PREFIX) && modelId.length > CUSTOM_MODEL_PREFIX.length
+}
+
+export function toCustomModelId(name: string): string {
+  return `${CUSTOM_MODEL_PREFIX}${name}`
+}
+
+export function getCustomModelName(modelId: string): string {
+  return modelId.slice(CUSTOM_MODEL_PREFIX.length)
+}
+
+export function getModelDefinition(modelId: string): ModelDefinition | null {
+  const id = MODEL_ID_ALIASES[modelId] || modelId
+  return MODEL_CATALOG.find(model => model.id === id) || null
+}
+
+// Resolve a model requested for a provider, or null when the provider does not offer it.
+// OpenRouter also accepts any "vendor/model" ID the user typed in, and passes it through unchanged;
+// the custom endpoint accepts any "custom:" ID and sends the name after the prefix.
+export function resolveModel(modelId: string, provider: string): ModelDefinition | null {
+  const definition = getModelDefinition(modelId)
+  if (definition) {
+    return definition.provider === provider ? definition : null
+  }
+
+  if (provider === "openrouter" && /^[\w.-]+\/[\w.:-]+$/.test(modelId)) {
+    return {
+      id: modelId,
+      name: modelId,
+      icon: "CM",
+      description: "Custom OpenRouter model",
+      provider: "openrouter",
+      apiModel: modelId,
+      kind: "chat",
+      vision: false,
+      tools: false,
+      ...CUSTOM_OPENROUTER_LIMITS
+    }
+  }
+
+  if (provider === "custom" && isCustomModelId(modelId)) {
+    const name = getCustomModelName(modelId)
+    return {
+      id: modelId,
+      name,
+      icon: "LM",
+      description: "Model on your custom endpoint",
+      provider: "custom",
+      apiModel: name,
+      kind: "chat",
+      vision: false,
+      tools: false,
+      ...CUSTOM_ENDPOINT_LIMITS
+    }
+  }
+
+  return null
+}
+
+// Models listed under a settings section, in catalog order
+export function getModelsForGroup(group: ModelProvider): ModelDefinition[] {
+  return MODEL_CATALOG.filter(model => (model.group || model.provider) === group)
+}
@@ -0,0 +1,156 @@
+// Reusable prompts with {{variable}} placeholders
+//
+// A template fills the composer rather than sending anything itself. It can also pick a model, set the
+// web search and code generation toggles, and give the conversation a system prompt. Templates are
+// personal, or belong to a project and show up only in that project's conversations.
+
+import { z } from "zod"
+
+export type PromptTemplate = {
+  id: string
+  name: string
+  description?: string
+  content: string
+  systemPrompt?: string
+  defaultModel?: string // Model ID to switch to; ignored when the model is not available
+  webSearchEnabled?: boolean // Unset leaves the composer toggle as it is
+  codeGenerationEnabled?: boolean
+  projectId: string | null // null for personal templates
+  createdAt: string
+  updatedAt: string
+}
+
+// What the template editor and imports provide; IDs and timestamps are assigned on save
+export type PromptTemplateDraft = Omit<PromptTemplate, "id" | "createdAt" | "updatedAt">
+
+export const TEMPLATE_EXPORT_VERSION = 1
+
+// {{ name }}, {{topic_2}}, {{target-language}}
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g
+
+// Variable names in order of first appearance, from the prompt and then the system prompt
+export function getTemplateVariables(template: Pick<PromptTemplate, "content" | "systemPrompt">): string[] {
+  const names = new Set<string>()
+  for (const text of [template.content, template.systemPrompt || ""]) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1])
+    }
+  }
+  return Array.from(names)
+}
+
+// Placeholders without a value are left in place so they stay visible in the composer
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined && values[name] !== "" ? values[name] : placeholder
+  )
+}
+
+// Personal templates plus the ones of the given project, most recently changed first
+export function getTemplatesForProject(templates: PromptTemplate[], projectId: string | null | undefined): PromptTemplate[] {
+  return templates
+    .filter(template => template.projectId === null || template.projectId === projectId)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+}
+
+// Database columns, the same way usage.ts maps token counts
+export function toPromptTemplateColumns(draft: Partial<PromptTemplateDraft>) {
+  const columns: {
+    name?: string
+    description?: string | null
+    content?: string
+    system_prompt?: string | null
+    default_model?: string | null
+    web_search_enabled?: boolean | null
+    code_generation_enabled?: boolean | null
+    project_id?: string | null
+  } = {}
+  if ("name" in draft) columns.name = draft.name
+  if ("description" in draft) columns.description = draft.description || null
+  if ("content" in draft) columns.content = draft.content
+  if ("systemPrompt" in draft) columns.system_prompt = draft.systemPrompt || null
+  if ("defaultModel" in draft) columns.default_model = draft.defaultModel || null
+  if ("webSearchEnabled" in draft) columns.web_search_enabled = draft.webSearchEnabled ?? null
+  if ("codeGenerationEnabled" in draft) columns.code_generation_enabled = draft.codeGenerationEnabled ?? null
+  if ("projectId" in draft) columns.project_id = draft.projectId ?? null
+  return columns
+}
+
+export function fromPromptTemplateRow(row: {
+  id: string
+  name: string
+  description: string | null
+  content: string
+  system_prompt: string | null
+  default_model: string | null
+  web_search_enabled: boolean | null
+  code_generation_enabled: boolean | null
+  project_id: string | null
+  created_at: string
+  updated_at: string
+}): PromptTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    content: row.content,
+    systemPrompt: row.system_prompt || undefined,
+    defaultModel: row.default_model || undefined,
+    webSearchEnabled: row.web_search_enabled ?? undefined,
+    codeGenerationEnabled: row.code_generation_enabled ?? undefined,
+    projectId: row.project_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+// Import and export
+
+const templateFileEntrySchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(200),
+  description: z.string().max(2000).optional(),
+  content: z.string().min(1, "Template content is required").max(100_000),
+  systemPrompt: z.string().max(100_000).optional(),
+  defaultModel: z.string().max(200).optional(),
+  webSearchEnabled: z.boolean().optional(),
+  codeGenerationEnabled: z.boolean().optional()
+})
+
+const templateFileSchema = z.object({
+  version: z.literal(TEMPLATE_EXPORT_VERSION),
+  templates: z.array(templateFileEntrySchema).max(500)
+})
+
+// Project IDs are left out: they mean nothing in another account or browser
+export function exportPromptTemplates(templates: PromptTemplate[]): string {
+  return JSON.stringify({
+    version: TEMPLATE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(template => ({
+      name: template.name,
+      description: template.description,
+      content: template.content,
+      systemPrompt: template.systemPrompt,
+      defaultModel: template.defaultModel,
+      webSearchEnabled: template.webSearchEnabled,
+      codeGenerationEnabled: template.codeGenerationEnabled
+    }))
+  }, null, 2)
+}
+
+// Drafts from an exported file, placed in `projectId`; a bare array of templates is accepted too
+export function parsePromptTemplateFile(json: string, projectId: string | null): PromptTemplateDraft[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  const parsed = templateFileSchema.safeParse(Array.isArray(data) ? { version: TEMPLATE_EXPORT_VERSION, templates: data } : data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Not a prompt template file: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`)
+  }
+  return parsed.data.templates.map(template => ({ ...template, projectId }))
+}
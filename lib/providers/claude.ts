@@ -0,0 +1,242 @@
+import { getDocumentAttachments, getImageAttachments, isNativePdf, parseDataUrl, parseToolArguments, withDocumentText } from "./shared.ts"
+import {
+  ProviderError,
+  type ChatMessage,
+  type ProviderAdapter,
+  type ProviderRequestParams,
+  type ReasoningEffort,
+  type ReasoningTrace,
+  type ToolCall,
+  type ToolResult
+} from "./types.ts"
+
+// Claude has no JSON mode; structured output is a forced call to this tool, whose input is the answer
+const STRUCTURED_OUTPUT_TOOL = "respond_with_json"
+
+// Extended thinking budgets, on top of the tokens reserved for the answer
+const THINKING_BUDGETS: Record<Exclude<ReasoningEffort, "off">, number> = { low: 2048, medium: 8192, high: 16384 }
+
+export const claudeAdapter: ProviderAdapter = {
+  id: "claude",
+  label: "Claude",
+  capabilities: { vision: true, streaming: true },
+  defaults: { timeoutMs: 15000, visionTimeoutMs: 45000, maxTokens: 3000 },
+
+  formatMessages(messages: ChatMessage[]) {
+    return messages.map(msg => {
+      const images = getImageAttachments(msg)
+      // PDFs that still carry the file go as document blocks, other documents as their text
+      const documents = getDocumentAttachments(msg)
+      const pdfs = documents.filter(isNativePdf)
+      const text = withDocumentText(msg.content, documents.filter(doc => !isNativePdf(doc)))
+      if (images.length === 0 && pdfs.length === 0) {
+        return { role: msg.role, content: text }
+      }
+
+      const contentParts: any[] = []
+      pdfs.forEach(pdf => {
+        const file = parseDataUrl(pdf.url as string, "application/pdf")
+        if (!file) return
+        contentParts.push({
+          type: "document",
+          source: { type: "base64", media_type: "application/pdf", data: file.data },
+          ...(pdf.name ? { title: pdf.name } : {})
+        })
+      })
+      if (text) {
+        contentParts.push({ type: "text", text })
+      }
+
+      images.forEach(img => {
+        const url = img.url as string
+        let image = parseDataUrl(url, img.type || "image/jpeg")
+
+        // Raw base64 data without a data URL header
+        if (!image && /^[A-Za-z0-9+/=]+$/.test(url)) {
+          image = { mimeType: img.type || "image/jpeg", data: url }
+        }
+
+        // Claude only supports base64 image data, not external URLs
+        if (!image) {
+          throw new Error("Failed to process image for Claude. Please ensure the image is in a supported format.")
+        }
+
+        contentParts.push({
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: image.mimeType,
+            data: image.data
+          }
+        })
+      })
+
+      return { role: msg.role, content: contentParts }
+    })
+  },
+
+  buildRequest(params: ProviderRequestParams) {
+    // Extended thinking is opt-in, requires the default temperature and cannot be combined with a forced tool
+    const thinkingBudget = params.reasoningEffort && params.reasoningEffort !== "off" && !params.responseSchema
+      ? THINKING_BUDGETS[params.reasoningEffort]
+      : 0
+
+    return {
+      url: "https://api.anthropic.com/v1/messages",
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": params.apiKey,
+          "anthropic-version": "2023-06-01"
+        },
+        body: JSON.stringify({
+          model: params.model,
+          max_tokens: params.maxTokens + thinkingBudget,
+          ...(thinkingBudget
+            ? { thinking: { type: "enabled", budget_tokens: thinkingBudget } }
+            : { temperature: params.temperature }),
+          // Claude takes system instructions as a top-level field, not as a message
+          ...(params.systemPrompt ? { system: params.systemPrompt } : {}),
+          messages: params.messages,
+          stream: params.stream,
+          ...(params.responseSchema
+            ? {
+                tools: [{
+                  name: STRUCTURED_OUTPUT_TOOL,
+                  description: `Return the answer as ${params.responseSchema.name} JSON`,
+                  input_schema: params.responseSchema.schema
+                }],
+                tool_choice: { type: "tool", name: STRUCTURED_OUTPUT_TOOL }
+              }
+            : params.tools && params.tools.length > 0
+            ? {
+                tools: params.tools.map(tool => ({
+                  name: tool.name,
+                  description: tool.description,
+                  input_schema: tool.parameters
+                }))
+              }
+            : {})
+        })
+      }
+    }
+  },
+
+  parseResponse(data: any) {
+    if (!Array.isArray(data?.content)) return ""
+    return data.content
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("")
+  },
+
+  parseStreamChunk(chunk: any) {
+    if (chunk?.type === "error") {
+      throw new ProviderError("claude", 500, chunk.error?.message || "Claude reported an error while streaming")
+    }
+    if (chunk?.type === "content_block_delta" && chunk.delta?.type === "text_delta") {
+      return chunk.delta.text || null
+    }
+    return null
+  },
+
+  parseReasoning(data: any) {
+    const blocks = Array.isArray(data?.content) ? data.content.filter((block: any) => block.type === "thinking") : []
+    if (blocks.length === 0) return null
+    return {
+      text: blocks.map((block: any) => block.thinking || "").join("\n\n"),
+      signature: blocks[blocks.length - 1].signature
+    }
+  },
+
+  // Thinking streams as thinking_delta text and ends with a signature_delta
+  parseStreamReasoning(chunk: any) {
+    if (chunk?.type !== "content_block_delta") return null
+    if (chunk.delta?.type === "thinking_delta") {
+      return chunk.delta.thinking ? { text: chunk.delta.thinking } : null
+    }
+    if (chunk.delta?.type === "signature_delta") {
+      return chunk.delta.signature ? { signature: chunk.delta.signature } : null
+    }
+    return null
+  },
+
+  parseStructuredOutput(data: any) {
+    const block = Array.isArray(data?.content)
+      ? data.content.find((item: any) => item.type === "tool_use" && item.name === STRUCTURED_OUTPUT_TOOL)
+      : null
+    return block ? JSON.stringify(block.input) : claudeAdapter.parseResponse(data)
+  },
+
+  // Streams report input tokens in message_start and the running output count in message_delta
+  parseUsage(data: any) {
+    const usage = data?.type === "message_start" ? data.message?.usage : data?.usage
+    if (!usage) return null
+    return {
+      ...(typeof usage.input_tokens === "number"
+        ? { inputTokens: usage.input_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0) }
+        : {}),
+      ...(typeof usage.output_tokens === "number" ? { outputTokens: usage.output_tokens } : {})
+    }
+  },
+
+  parseToolCalls(data: any) {
+    if (!Array.isArray(data?.content)) return []
+    return data.content
+      .filter((block: any) => block.type === "tool_use")
+      .map((block: any): ToolCall => ({ id: block.id, name: block.name, args: parseToolArguments(block.input) }))
+  },
+
+  // tool_use blocks open with content_block_start and stream their input as partial JSON
+  createToolCallAccumulator() {
+    const pending = new Map<number, { id: string; name: string; input: string }>()
+
+    return {
+      add(chunk: any) {
+        if (chunk?.type === "content_block_start" && chunk.content_block?.type === "tool_use") {
+          pending.set(chunk.index, { id: chunk.content_block.id, name: chunk.content_block.name, input: "" })
+        } else if (chunk?.type === "content_block_delta" && chunk.delta?.type === "input_json_delta") {
+          const entry = pending.get(chunk.index)
+          if (entry) entry.input += chunk.delta.partial_json || ""
+        }
+      },
+      finish() {
+        return Array.from(pending.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([, entry]): ToolCall => ({ id: entry.id, name: entry.name, args: parseToolArguments(entry.input) }))
+      }
+    }
+  },
+
+  // Claude expects tool results in a user turn right after the assistant's tool_use blocks.
+  // With extended thinking on, the turn has to start with the signed thinking block.
+  formatToolTurn(text: string, calls: ToolCall[], results: ToolResult[], reasoning?: ReasoningTrace | null) {
+    return [
+      {
+        role: "assistant",
+        content: [
+          ...(reasoning?.signature ? [{ type: "thinking", thinking: reasoning.text, signature: reasoning.signature }] : []),
+          ...(text ? [{ type: "text", text }] : []),
+          ...calls.map(call => ({ type: "tool_use", id: call.id, name: call.name, input: call.args }))
+        ]
+      },
+      {
+        role: "user",
+        content: results.map(result => ({
+          type: "tool_result",
+          tool_use_id: result.id,
+          content: result.content,
+          is_error: result.isError || false
+        }))
+      }
+    ]
+  },
+
+  mapError(status: number) {
+    if (status === 504) {
+      return new ProviderError("claude", status, "Claude request timed out. Serverless time limit reached. Try a shorter request.")
+    }
+    return new ProviderError("claude", status, `Claude is currently unavailable (${status}). Please try again in a moment.`)
+  }
+}
@@ -0,0 +1,51 @@
+import { createOpenAICompatibleAdapter } from "./openai-compatible.ts"
+
+// Self-hosted OpenAI-compatible servers: Ollama, llama.cpp server, vLLM, LM Studio, LiteLLM.
+// Their base URL arrives with each request (params.baseUrl) and the API key is optional.
+export const customAdapter = createOpenAICompatibleAdapter({
+  id: "custom",
+  label: "Custom endpoint",
+  baseUrl: "",
+  capabilities: { vision: false, streaming: true },
+  // Local models on modest hardware can take a while to start answering
+  defaults: { timeoutMs: 30000, visionTimeoutMs: 30000, maxTokens: 2500 },
+  // JSON mode is more widely implemented than strict schemas
+  structuredOutput: "json_object",
+  // A redirect could lead past the server's check on the base URL (lib/custom-endpoint-server.ts)
+  rejectRedirects: true,
+  mapError: (status, body) => {
+    if (status === 401 || status === 403) {
+      return "The custom endpoint rejected the API key. Please check it in Settings → Models."
+    } else if (status === 404) {
+      return "The custom endpoint does not serve this model. Refresh the model list in Settings → Models."
+    }
+    const detail = body.slice(0, 200).trim()
+    return `The custom endpoint returned an error (${status})${detail ? `: ${detail}` : ""}`
+  }
+})
+
+// Accept "http://localhost:11434", ".../v1" or ".../v1/" and return the /v1 base the API lives under;
+// null for anything that is not an http(s) URL
+export function normalizeCustomBaseUrl(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null
+
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null
+
+  const path = url.pathname.replace(/\/+$/, "")
+  return `${url.origin}${path.endsWith("/v1") ? path : `${path}/v1`}`
+}
+
+// Model names from a GET /v1/models response; Ollama's native /api/tags shape is accepted too
+export function parseModelList(data: any): string[] {
+  const entries = Array.isArray(data?.data) ? data.data : Array.isArray(data?.models) ? data.models : []
+  const names = entries
+    .map((entry: any) => typeof entry === "string" ? entry : entry?.id || entry?.name)
+    .filter((name: unknown): name is string => typeof name === "string" && name.length > 0)
+  return Array.from(new Set<string>(names)).sort((a, b) => a.localeCompare(b))
+}
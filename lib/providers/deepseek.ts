@@ -0,0 +1,23 @@
+import { createOpenAICompatibleAdapter } from "./openai-compatible.ts"
+
+export const deepseekAdapter = createOpenAICompatibleAdapter({
+  id: "deepseek",
+  label: "DeepSeek",
+  baseUrl: "https://api.deepseek.com/v1",
+  capabilities: { vision: false, streaming: true },
+  defaults: { timeoutMs: 25000, visionTimeoutMs: 25000, maxTokens: 1500 },
+  streamUsage: true,
+  structuredOutput: "json_object",
+  // Lower temperature for more consistent responses
+  adjustTemperature: (temperature) => Math.min(temperature, 0.3),
+  mapError: (status) => {
+    if (status === 504 || status === 524) {
+      return "DeepSeek is experiencing heavy load and timing out. Please try again in a few moments, or try a shorter request."
+    } else if (status === 429) {
+      return "DeepSeek rate limit exceeded. Please wait a moment before trying again."
+    } else if (status === 503) {
+      return "DeepSeek service is temporarily unavailable. Please try again in a few minutes."
+    }
+    return `DeepSeek is currently unavailable (${status}). Please try again in a moment.`
+  }
+})
@@ -0,0 +1,237 @@
+import { getDocumentAttachments, getImageAttachments, isNativePdf, parseDataUrl, parseToolArguments, withDocumentText } from "./shared.ts"
+import {
+  ProviderError,
+  type ChatMessage,
+  type ProviderAdapter,
+  type ProviderRequestParams,
+  type ReasoningEffort,
+  type ToolCall,
+  type ToolResult
+} from "./types.ts"
+
+// Gemini does not assign IDs to function calls, so derive stable ones from their position
+function extractFunctionCalls(data: any, offset: number = 0): ToolCall[] {
+  const parts = data?.candidates?.[0]?.content?.parts
+  if (!Array.isArray(parts)) return []
+  return parts
+    .filter((part: any) => part.functionCall)
+    .map((part: any, index: number): ToolCall => ({
+      id: `${part.functionCall.name}-${offset + index}`,
+      name: part.functionCall.name,
+      args: parseToolArguments(part.functionCall.args)
+    }))
+}
+
+// Gemini 2.5 thinking budgets; -1 lets the model size its own. 2.5 Pro cannot stop thinking,
+// so "off" only stops the thought summaries from being returned.
+const THINKING_BUDGETS: Record<Exclude<ReasoningEffort, "off">, number> = { low: 1024, medium: -1, high: 24576 }
+
+// Text of the answer or of the thought summaries, which arrive as parts flagged `thought`
+function joinParts(data: any, thoughts: boolean): string {
+  const parts = data?.candidates?.[0]?.content?.parts
+  if (!Array.isArray(parts)) return ""
+  return parts
+    .filter((part: any) => Boolean(part.thought) === thoughts)
+    .map((part: any) => part.text || "")
+    .join("")
+}
+
+// Gemini's responseSchema is an OpenAPI subset and rejects JSON Schema keywords it does not know
+const GEMINI_SCHEMA_KEYS = ["type", "format", "description", "nullable", "enum", "properties", "required", "items", "minItems", "maxItems", "minimum", "maximum", "anyOf", "propertyOrdering"]
+
+function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema)
+  if (!schema || typeof schema !== "object") return schema
+
+  const result: Record<string, unknown> = {}
+  GEMINI_SCHEMA_KEYS.forEach(key => {
+    if (schema[key] === undefined) return
+    if (key === "properties") {
+      result.properties = Object.fromEntries(Object.entries(schema.properties).map(([name, value]) => [name, toGeminiSchema(value)]))
+    } else if (key === "type" && Array.isArray(schema.type)) {
+      // ["string", "null"] becomes a nullable string
+      result.type = schema.type.find((type: string) => type !== "null")
+      if (schema.type.includes("null")) result.nullable = true
+    } else if (key === "items" || key === "anyOf") {
+      result[key] = toGeminiSchema(schema[key])
+    } else {
+      result[key] = schema[key]
+    }
+  })
+  return result
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: "gemini",
+  label: "Gemini",
+  capabilities: { vision: true, streaming: true },
+  defaults: { timeoutMs: 15000, visionTimeoutMs: 45000, maxTokens: 3000 },
+
+  formatMessages(messages: ChatMessage[]) {
+    return messages.map(msg => {
+      const parts: any[] = []
+      // PDFs that still carry the file go inline, other documents as their text
+      const documents = getDocumentAttachments(msg)
+      documents.filter(isNativePdf).forEach(pdf => {
+        const file = parseDataUrl(pdf.url as string, "application/pdf")
+        if (file) parts.push({ inline_data: { mime_type: "application/pdf", data: file.data } })
+      })
+      const text = withDocumentText(msg.content, documents.filter(doc => !isNativePdf(doc)))
+      if (text) {
+        parts.push({ text })
+      }
+
+      getImageAttachments(msg).forEach(img => {
+        const url = img.url as string
+        const image = parseDataUrl(url, img.type || "image/jpeg")
+        parts.push({
+          inline_data: {
+            mime_type: image ? image.mimeType : img.type || "image/jpeg",
+            data: image ? image.data : url
+          }
+        })
+      })
+
+      // Gemini rejects empty parts arrays
+      if (parts.length === 0) {
+        parts.push({ text: "Content unavailable" })
+      }
+
+      // Gemini only knows user and model roles
+      return {
+        role: msg.role === "assistant" ? "model" : "user",
+        parts
+      }
+    })
+  },
+
+  buildRequest(params: ProviderRequestParams) {
+    const method = params.stream ? "streamGenerateContent?alt=sse" : "generateContent"
+
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${params.model}:${method}`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": params.apiKey
+        },
+        body: JSON.stringify({
+          contents: params.messages,
+          ...(params.systemPrompt ? { systemInstruction: { parts: [{ text: params.systemPrompt }] } } : {}),
+          ...(params.tools && params.tools.length > 0
+            ? {
+                tools: [{
+                  functionDeclarations: params.tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                  }))
+                }]
+              }
+            : {}),
+          generationConfig: {
+            temperature: params.temperature,
+            maxOutputTokens: params.maxTokens,
+            topP: 0.95,
+            topK: 40,
+            ...(params.responseSchema
+              ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(params.responseSchema.schema) }
+              : {}),
+            ...(params.reasoningEffort
+              ? {
+                  // Hiding the thoughts alone would leave Flash thinking (and billing for it) at its default
+                  thinkingConfig: params.reasoningEffort === "off"
+                    ? { includeThoughts: false, thinkingBudget: 0 }
+                    : { includeThoughts: true, thinkingBudget: THINKING_BUDGETS[params.reasoningEffort] }
+                }
+              : {})
+          }
+        })
+      }
+    }
+  },
+
+  parseResponse(data: any) {
+    return joinParts(data, false)
+  },
+
+  parseStreamChunk(chunk: any) {
+    if (chunk?.error) {
+      throw new ProviderError("gemini", chunk.error.code || 500, chunk.error.message || "Gemini reported an error while streaming")
+    }
+    return geminiAdapter.parseResponse(chunk) || null
+  },
+
+  parseReasoning(data: any) {
+    const text = joinParts(data, true)
+    return text ? { text } : null
+  },
+
+  parseStreamReasoning(chunk: any) {
+    return geminiAdapter.parseReasoning(chunk)
+  },
+
+  parseStructuredOutput(data: any) {
+    return geminiAdapter.parseResponse(data)
+  },
+
+  // Streamed chunks carry running totals; thinking tokens are billed as output
+  parseUsage(data: any) {
+    const usage = data?.usageMetadata
+    if (!usage) return null
+    return {
+      ...(typeof usage.promptTokenCount === "number" ? { inputTokens: usage.promptTokenCount } : {}),
+      ...(typeof usage.candidatesTokenCount === "number" || typeof usage.thoughtsTokenCount === "number"
+        ? { outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0) }
+        : {})
+    }
+  },
+
+  parseToolCalls(data: any) {
+    return extractFunctionCalls(data)
+  },
+
+  // Each streamed chunk carries complete function calls
+  createToolCallAccumulator() {
+    const calls: ToolCall[] = []
+
+    return {
+      add(chunk: any) {
+        calls.push(...extractFunctionCalls(chunk, calls.length))
+      },
+      finish() {
+        return calls
+      }
+    }
+  },
+
+  formatToolTurn(text: string, calls: ToolCall[], results: ToolResult[]) {
+    return [
+      {
+        role: "model",
+        parts: [
+          ...(text ? [{ text }] : []),
+          ...calls.map(call => ({ functionCall: { name: call.name, args: call.args } }))
+        ]
+      },
+      {
+        role: "user",
+        parts: results.map(result => ({
+          functionResponse: { name: result.name, response: { content: result.content } }
+        }))
+      }
+    ]
+  },
+
+  mapError(status: number, body: string) {
+    if (status === 504 || status === 524) {
+      return new ProviderError("gemini", status, "Gemini is taking longer than expected to generate your response. This often happens with complex requests. Try breaking your request into smaller parts or try again in a moment.")
+    } else if (status === 429) {
+      return new ProviderError("gemini", status, "Gemini rate limit exceeded. Please wait a moment before trying again.")
+    } else if (status === 503) {
+      return new ProviderError("gemini", status, "Gemini service is temporarily unavailable. Please try again in a few minutes.")
+    }
+    return new ProviderError("gemini", status, `Gemini API error (${status}): ${body}`)
+  }
+}
@@ -0,0 +1,16 @@
+import { createOpenAICompatibleAdapter } from "./openai-compatible.ts"
+
+export const grokAdapter = createOpenAICompatibleAdapter({
+  id: "grok",
+  label: "Grok",
+  baseUrl: "https://api.x.ai/v1",
+  capabilities: { vision: false, streaming: true },
+  defaults: { timeoutMs: 15000, visionTimeoutMs: 15000, maxTokens: 2500 },
+  streamUsage: true,
+  mapError: (status) => {
+    if (status === 504) {
+      return "Grok request timed out. Serverless time limit reached. Try a shorter request."
+    }
+    return `Grok is currently unavailable (${status}). Please try again in a moment.`
+  }
+})
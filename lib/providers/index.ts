@@ -0,0 +1,41 @@
+// Provider adapter registry
+// Adding a chat provider means adding one module and registering it here.
+
+import { claudeAdapter } from "./claude.ts"
+import { customAdapter } from "./custom.ts"
+import { deepseekAdapter } from "./deepseek.ts"
+import { geminiAdapter } from "./gemini.ts"
+import { grokAdapter } from "./grok.ts"
+import { mistralAdapter } from "./mistral.ts"
+import { openaiAdapter } from "./openai.ts"
+import { openrouterAdapter } from "./openrouter.ts"
+import type { ProviderAdapter, ProviderId } from "./types.ts"
+
+export { normalizeCustomBaseUrl, parseModelList } from "./custom.ts"
+export { withoutNativePdfs } from "./shared.ts"
+export * from "./retry.ts"
+export * from "./types.ts"
+
+const adapters: Record<ProviderId, ProviderAdapter> = {
+  openai: openaiAdapter,
+  claude: claudeAdapter,
+  gemini: geminiAdapter,
+  deepseek: deepseekAdapter,
+  grok: grokAdapter,
+  mistral: mistralAdapter,
+  openrouter: openrouterAdapter,
+  custom: customAdapter
+}
+
+export function isChatProvider(id: string): id is ProviderId {
+  return Object.prototype.hasOwnProperty.call(adapters, id)
+}
+
+export function getProviderAdapter(id: string): ProviderAdapter | null {
+  const normalized = id.toLowerCase()
+  return isChatProvider(normalized) ? adapters[normalized] : null
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Object.values(adapters)
+}
@@ -0,0 +1,15 @@
+import { createOpenAICompatibleAdapter } from "./openai-compatible.ts"
+
+export const mistralAdapter = createOpenAICompatibleAdapter({
+  id: "mistral",
+  label: "Mistral",
+  baseUrl: "https://api.mistral.ai/v1",
+  capabilities: { vision: false, streaming: true },
+  defaults: { timeoutMs: 15000, visionTimeoutMs: 15000, maxTokens: 2500 },
+  mapError: (status, body) => {
+    if (status === 504) {
+      return "Mistral request timed out. Serverless time limit reached. Try a shorter request."
+    }
+    return `Mistral API error (${status}): ${body}`
+  }
+})
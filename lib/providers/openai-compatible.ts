@@ -0,0 +1,230 @@
+import { isStrictCompatible } from "../json-schema.ts"
+import { describeImageAttachments, getDocumentAttachments, getImageAttachments, parseToolArguments, withDocumentText } from "./shared.ts"
+import {
+  ProviderError,
+  type ChatMessage,
+  type ToolCall,
+  type ToolResult,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+  type ProviderDefaults,
+  type ProviderId,
+  type ProviderRequestParams
+} from "./types.ts"
+
+type OpenAICompatibleConfig = {
+  id: ProviderId
+  label: string
+  baseUrl: string // e.g. https://api.openai.com/v1; empty when every request brings its own
+  capabilities: ProviderCapabilities
+  defaults: ProviderDefaults
+  extraHeaders?: (params: ProviderRequestParams) => Record<string, string>
+  streamUsage?: boolean // Accepts stream_options.include_usage to report usage in the last chunk
+  // How responseSchema is requested: as a JSON schema, or plain JSON mode with the schema left to the prompt
+  structuredOutput?: "json_schema" | "json_object"
+  strictSchema?: boolean // Accepts strict: true on json_schema, used when the schema meets its rules
+  // How reasoningEffort is sent: OpenAI's reasoning_effort field, or OpenRouter's reasoning object
+  reasoning?: "reasoning_effort" | "openrouter"
+  adjustTemperature?: (temperature: number) => number
+  rejectRedirects?: boolean // Fail on a redirect instead of following it; the base URL comes from the user
+  mapError: (status: number, body: string) => string
+}
+
+// OpenAI, DeepSeek, Grok, Mistral, OpenRouter and custom endpoints share the chat completions
+// wire format; they only differ in base URL, headers and error wording
+export function createOpenAICompatibleAdapter(config: OpenAICompatibleConfig): ProviderAdapter {
+  return {
+    id: config.id,
+    label: config.label,
+    capabilities: config.capabilities,
+    defaults: config.defaults,
+
+    formatMessages(messages: ChatMessage[]) {
+      return messages.map(msg => {
+        const images = getImageAttachments(msg)
+        // PDFs and other documents are sent as their text
+        const content = withDocumentText(msg.content, getDocumentAttachments(msg))
+        if (images.length === 0) {
+          return { role: msg.role, content }
+        }
+
+        if (!config.capabilities.vision) {
+          return { role: msg.role, content: describeImageAttachments(content, images.length) }
+        }
+
+        const contentParts: any[] = []
+        if (content) {
+          contentParts.push({ type: "text", text: content })
+        }
+        images.forEach(img => {
+          contentParts.push({ type: "image_url", image_url: { url: img.url } })
+        })
+
+        return { role: msg.role, content: contentParts }
+      })
+    },
+
+    buildRequest(params: ProviderRequestParams) {
+      const temperature = config.adjustTemperature
+        ? config.adjustTemperature(params.temperature)
+        : params.temperature
+      const baseUrl = params.baseUrl || config.baseUrl
+      if (!baseUrl) {
+        throw new ProviderError(config.id, 400, `${config.label} needs a base URL. Please set one in Settings → Models.`)
+      }
+
+      return {
+        url: `${baseUrl}/chat/completions`,
+        init: {
+          method: "POST",
+          ...(config.rejectRedirects ? { redirect: "error" as const } : {}),
+          headers: {
+            "Content-Type": "application/json",
+            ...(params.apiKey ? { "Authorization": `Bearer ${params.apiKey}` } : {}),
+            ...(config.extraHeaders ? config.extraHeaders(params) : {})
+          },
+          body: JSON.stringify({
+            model: params.model,
+            messages: params.systemPrompt
+              ? [{ role: "system", content: params.systemPrompt }, ...params.messages]
+              : params.messages,
+            // o-series models reject max_tokens and any temperature but the default
+            ...(params.reasoningModel
+              ? { max_completion_tokens: params.maxTokens }
+              : { temperature, max_tokens: params.maxTokens }),
+            stream: params.stream,
+            ...(params.stream && config.streamUsage ? { stream_options: { include_usage: true } } : {}),
+            ...(params.responseSchema
+              ? {
+                  response_format: config.structuredOutput === "json_object"
+                    ? { type: "json_object" }
+                    : {
+                        type: "json_schema",
+                        json_schema: {
+                          name: params.responseSchema.name,
+                          schema: params.responseSchema.schema,
+                          ...(config.strictSchema && isStrictCompatible(params.responseSchema.schema) ? { strict: true } : {})
+                        }
+                      }
+                }
+              : {}),
+            ...(params.reasoningEffort && params.reasoningEffort !== "off" && config.reasoning === "reasoning_effort"
+              ? { reasoning_effort: params.reasoningEffort }
+              : {}),
+            ...(params.reasoningEffort && config.reasoning === "openrouter"
+              ? { reasoning: params.reasoningEffort === "off" ? { exclude: true } : { effort: params.reasoningEffort } }
+              : {}),
+            ...(params.tools && params.tools.length > 0
+              ? {
+                  tools: params.tools.map(tool => ({
+                    type: "function",
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+                  }))
+                }
+              : {})
+          })
+        }
+      }
+    },
+
+    parseResponse(data: any) {
+      return data?.choices?.[0]?.message?.content || ""
+    },
+
+    parseStreamChunk(chunk: any) {
+      if (chunk?.error) {
+        throw new ProviderError(config.id, 500, chunk.error.message || `${config.label} reported an error while streaming`)
+      }
+      return chunk?.choices?.[0]?.delta?.content || null
+    },
+
+    // DeepSeek and most self-hosted servers use reasoning_content, OpenRouter uses reasoning
+    parseReasoning(data: any) {
+      const message = data?.choices?.[0]?.message
+      const text = message?.reasoning_content || message?.reasoning
+      return typeof text === "string" && text ? { text } : null
+    },
+
+    parseStreamReasoning(chunk: any) {
+      const delta = chunk?.choices?.[0]?.delta
+      const text = delta?.reasoning_content || delta?.reasoning
+      return typeof text === "string" && text ? { text } : null
+    },
+
+    parseStructuredOutput(data: any) {
+      return data?.choices?.[0]?.message?.content || ""
+    },
+
+    parseUsage(data: any) {
+      const usage = data?.usage
+      if (!usage) return null
+      return {
+        ...(typeof usage.prompt_tokens === "number" ? { inputTokens: usage.prompt_tokens } : {}),
+        ...(typeof usage.completion_tokens === "number" ? { outputTokens: usage.completion_tokens } : {})
+      }
+    },
+
+    parseToolCalls(data: any) {
+      const toolCalls = data?.choices?.[0]?.message?.tool_calls
+      if (!Array.isArray(toolCalls)) return []
+      return toolCalls.map((call: any): ToolCall => ({
+        id: call.id,
+        name: call.function?.name || "",
+        args: parseToolArguments(call.function?.arguments)
+      }))
+    },
+
+    // Streamed tool calls arrive as fragments keyed by index; arguments are a JSON string built up piece by piece
+    createToolCallAccumulator() {
+      const pending = new Map<number, { id: string; name: string; arguments: string }>()
+
+      return {
+        add(chunk: any) {
+          const deltas = chunk?.choices?.[0]?.delta?.tool_calls
+          if (!Array.isArray(deltas)) return
+
+          deltas.forEach((delta: any) => {
+            const index = typeof delta.index === "number" ? delta.index : pending.size
+            const entry = pending.get(index) || { id: "", name: "", arguments: "" }
+            if (delta.id) entry.id = delta.id
+            if (delta.function?.name) entry.name += delta.function.name
+            if (delta.function?.arguments) entry.arguments += delta.function.arguments
+            pending.set(index, entry)
+          })
+        },
+        finish() {
+          return Array.from(pending.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([index, entry]): ToolCall => ({
+              id: entry.id || `call_${index}`,
+              name: entry.name,
+              args: parseToolArguments(entry.arguments)
+            }))
+        }
+      }
+    },
+
+    formatToolTurn(text: string, calls: ToolCall[], results: ToolResult[]) {
+      return [
+        {
+          role: "assistant",
+          content: text || null,
+          tool_calls: calls.map(call => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.args) }
+          }))
+        },
+        ...results.map(result => ({
+          role: "tool",
+          tool_call_id: result.id,
+          content: result.content
+        }))
+      ]
+    },
+
+    mapError(status: number, body: string) {
+      return new ProviderError(config.id, status, config.mapError(status, body))
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { createOpenAICompatibleAdapter } from "./openai-compatible.ts"
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: "openai",
+  label: "OpenAI",
+  baseUrl: "https://api.openai.com/v1",
+  capabilities: { vision: true, streaming: true },
+  defaults: { timeoutMs: 15000, visionTimeoutMs: 45000, maxTokens: 2500 },
+  streamUsage: true,
+  strictSchema: true,
+  reasoning: "reasoning_effort",
+  mapError: (status) => {
+    if (status === 504) {
+      return "OpenAI request timed out. Serverless time limit reached. Try a shorter request."
+    }
+    return `OpenAI is currently unavailable (${status}). Please try again in a moment.`
+  }
+})
@@ -0,0 +1,27 @@
+import { createOpenAICompatibleAdapter } from "./openai-compatible.ts"
+
+export const openrouterAdapter = createOpenAICompatibleAdapter({
+  id: "openrouter",
+  label: "OpenRouter",
+  baseUrl: "https://openrouter.ai/api/v1",
+  capabilities: { vision: true, streaming: true },
+  defaults: { timeoutMs: 15000, visionTimeoutMs: 45000, maxTokens: 2500 },
+  streamUsage: true,
+  reasoning: "openrouter",
+  extraHeaders: (params) => ({
+    "HTTP-Referer": params.referer || "",
+    "X-Title": "Apeiron Chat"
+  }),
+  mapError: (status) => {
+    if (status === 504) {
+      return "OpenRouter request timed out. Serverless time limit reached. Try a shorter request."
+    } else if (status === 401) {
+      return "OpenRouter API key is invalid or expired. Please check your API key."
+    } else if (status === 404) {
+      return "The selected OpenRouter model is not available. Please choose a different model."
+    } else if (status === 402) {
+      return "OpenRouter credits exhausted. Please check your account balance."
+    }
+    return `OpenRouter is currently unavailable (${status}). Please try again in a moment.`
+  }
+})
@@ -0,0 +1,121 @@
+// Retry policy for provider calls
+//
+// Rate limits and transient overloads are retried with jittered exponential backoff. A delay the
+// provider asks for (Retry-After or a rate-limit reset header) wins over the computed one, and no
+// retry is attempted if it could not finish before the caller's deadline.
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 529] // 529 is Anthropic's "overloaded"
+const MAX_RETRIES = 3
+const BASE_DELAY_MS = 500
+const MAX_BACKOFF_MS = 8000
+const MIN_ATTEMPT_MS = 5000 // Leave at least this long for the retried request itself
+
+export type RetryOptions = {
+  deadline: number // Epoch ms by which every attempt must have finished
+  maxRetries?: number
+  signal?: AbortSignal // Cuts a wait between attempts short when the caller gives up
+  onRetry?: (info: { attempt: number; status: number; delayMs: number }) => void
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status)
+}
+
+// Durations like "1s", "6m0s" or "20ms" (OpenAI's x-ratelimit-reset-*)
+function parseDuration(value: string): number | null {
+  const parts = Array.from(value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g))
+  if (parts.length === 0 || parts.map(part => part[0]).join("") !== value) return null
+
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 }
+  return parts.reduce((total, [, amount, unit]) => total + parseFloat(amount) * unitMs[unit], 0)
+}
+
+// Milliseconds until a reset given as a duration, seconds, an epoch timestamp or a date
+function parseResetDelay(value: string, now: number): number | null {
+  const trimmed = value.trim()
+  const duration = parseDuration(trimmed)
+  if (duration !== null) return duration
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = parseFloat(trimmed)
+    if (number > 1e12) return number - now // Epoch milliseconds (OpenRouter)
+    if (number > 1e9) return number * 1000 - now // Epoch seconds
+    return number * 1000 // Seconds from now
+  }
+
+  const date = Date.parse(trimmed) // HTTP date or ISO timestamp (Anthropic)
+  return Number.isNaN(date) ? null : date - now
+}
+
+// How long the provider asked us to wait, if it said
+export function getRetryAfterMs(headers: Headers, now: number = Date.now()): number | null {
+  const retryAfterMs = headers.get("retry-after-ms")
+  if (retryAfterMs && !Number.isNaN(parseFloat(retryAfterMs))) {
+    return Math.max(0, parseFloat(retryAfterMs))
+  }
+
+  const retryAfter = headers.get("retry-after")
+  if (retryAfter) {
+    const delay = parseResetDelay(retryAfter, now)
+    if (delay !== null) return Math.max(0, delay)
+  }
+
+  // x-ratelimit-reset-* (OpenAI, OpenRouter) and anthropic-ratelimit-*-reset;
+  // only limits that are used up matter, and the longest of them decides
+  let longest: number | null = null
+  headers.forEach((value, name) => {
+    if (!/ratelimit/.test(name) || !/reset/.test(name)) return
+    const remaining = headers.get(name.replace("reset", "remaining"))
+    if (remaining !== null && remaining.trim() !== "0") return
+
+    const delay = parseResetDelay(value, now)
+    if (delay !== null && (longest === null || delay > longest)) longest = delay
+  })
+  return longest === null ? null : Math.max(0, longest)
+}
+
+// Full jitter between half and all of the exponential step
+export function getBackoffMs(attempt: number): number {
+  const step = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(step / 2 + Math.random() * (step / 2))
+}
+
+// Run send until it returns a non-retryable response, retries run out or the deadline is near.
+// send receives the time left before the deadline so it can cap its own timeout.
+export async function fetchWithRetry(
+  send: (remainingMs: number) => Promise<Response>,
+  options: RetryOptions
+): Promise<Response> {
+  const maxRetries = options.maxRetries ?? MAX_RETRIES
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await send(options.deadline - Date.now())
+    if (response.ok || !isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response
+    }
+
+    const delayMs = getRetryAfterMs(response.headers) ?? getBackoffMs(attempt)
+    if (Date.now() + delayMs + MIN_ATTEMPT_MS > options.deadline) {
+      return response // Not enough time left; let the caller handle the failure
+    }
+
+    options.onRetry?.({ attempt: attempt + 1, status: response.status, delayMs })
+    await response.body?.cancel().catch(() => {})
+    await sleep(delayMs, options.signal)
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,74 @@
+import type { ChatAttachment, ChatMessage } from "./types.ts"
+
+export function getImageAttachments(message: ChatMessage): ChatAttachment[] {
+  if (!Array.isArray(message.attachments)) return []
+  return message.attachments.filter(att => typeof att.type === "string" && att.type.startsWith("image/") && !!att.url)
+}
+
+// PDFs and other files read as text; image attachments also carry a short description, which is not sent
+export function getDocumentAttachments(message: { attachments?: ChatAttachment[] }): ChatAttachment[] {
+  if (!Array.isArray(message.attachments)) return []
+  return message.attachments.filter(att =>
+    !(typeof att.type === "string" && att.type.startsWith("image/")) && (!!att.extractedText || !!att.url)
+  )
+}
+
+// PDFs that still carry the file itself, for models that read PDFs natively
+export function isNativePdf(attachment: ChatAttachment): boolean {
+  return attachment.type === "application/pdf" && typeof attachment.url === "string" && attachment.url.startsWith("data:")
+}
+
+// The documents' text as labelled blocks ahead of the message
+export function withDocumentText(content: string, documents: ChatAttachment[]): string {
+  if (documents.length === 0) return content
+  const blocks = documents.map(doc => {
+    const name = (doc.name || "document").replace(/"/g, "'")
+    const text = doc.textExtracted === false || !doc.extractedText
+      ? "(No text could be extracted from this file.)"
+      : doc.extractedText
+    return `<document name="${name}">\n${text}\n</document>`
+  })
+  return [...blocks, content].filter(Boolean).join("\n\n")
+}
+
+// Drop the files of native PDFs so they are sent as text, for models that cannot read them
+export function withoutNativePdfs(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(msg => Array.isArray(msg.attachments) && msg.attachments.some(isNativePdf)
+    ? { ...msg, attachments: msg.attachments.map(att => isNativePdf(att) ? { ...att, url: undefined } : att) }
+    : msg
+  )
+}
+
+// Split a data URL into its mime type and base64 payload
+export function parseDataUrl(url: string, fallbackMimeType: string = "image/jpeg"): { mimeType: string; data: string } | null {
+  if (!url.startsWith("data:")) return null
+
+  const [header, data] = url.split(",")
+  if (!header || !data) return null
+
+  const mimeMatch = header.match(/data:(.*?);/)
+  return {
+    mimeType: mimeMatch && mimeMatch[1] ? mimeMatch[1] : fallbackMimeType,
+    data
+  }
+}
+
+// For providers without vision support, tell the model images were attached
+export function describeImageAttachments(content: string, imageCount: number): string {
+  if (imageCount === 0) return content
+  const label = imageCount === 1 ? "[Image attached]" : `[${imageCount} images attached]`
+  return `${label} ${content}`
+}
+
+// Tool arguments arrive as a JSON string; a malformed payload becomes an empty object
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === "object") return raw as Record<string, unknown>
+  if (typeof raw !== "string" || raw.trim() === "") return {}
+
+  try {
+    const parsed = JSON.parse(raw)
+    return parsed && typeof parsed === "object" ? parsed : {}
+  } catch {
+    return {}
+  }
+}
@@ -0,0 +1,171 @@
+// Shared types for the provider adapter layer
+//
+// Everything under lib/providers is plain TypeScript with relative `.ts` imports and
+// no Next.js or Node dependencies, so the Netlify edge functions (Deno) can load it too.
+
+export type ProviderId = "openai" | "claude" | "gemini" | "deepseek" | "grok" | "mistral" | "openrouter" | "custom"
+
+export type ChatAttachment = {
+  id?: string
+  type?: string
+  url?: string
+  name?: string
+  size?: number
+  extractedText?: string
+  textExtracted?: boolean // False when extractedText only explains why a PDF could not be read
+  uploadedAt?: string
+}
+
+// A tool invocation requested by the model
+export type ToolCall = {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+// Tool output; `content` goes back to the model, `data` is kept for the UI
+export type ToolResult = {
+  id: string // ID of the tool call this answers
+  name: string
+  content: string
+  data?: unknown
+  isError?: boolean
+}
+
+// JSON reply to a request with a response schema
+export type StructuredOutput = {
+  data: unknown // Parsed JSON, or null when the reply was not JSON at all
+  valid: boolean
+  errors?: string[] // Schema mismatches left after the re-ask
+}
+
+// Reasoning a model showed before answering. Claude signs its thinking and needs the signature
+// when the thinking is sent back within a tool-calling turn.
+export type ReasoningTrace = {
+  text: string
+  signature?: string
+}
+
+// How hard a reasoning model should think; "off" turns optional thinking off where the model allows it
+export type ReasoningEffort = "off" | "low" | "medium" | "high"
+
+// Structured pieces of an assistant message, in the order they happened.
+// Reasoning is kept for display only and never sent back to a provider as history.
+export type MessagePart =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string }
+  | ({ type: "tool-call" } & ToolCall)
+  | ({ type: "tool-result" } & ToolResult)
+  | ({ type: "json" } & StructuredOutput)
+
+// Tokens billed for one provider call
+export type TokenUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+// Provider-neutral message as sent by the client
+export type ChatMessage = {
+  role: "user" | "assistant" | "system"
+  content: string
+  attachments?: ChatAttachment[]
+  parts?: MessagePart[]
+}
+
+// Tool declaration in JSON schema form, converted by each adapter to its native format
+export type ToolSpec = {
+  name: string
+  description: string
+  parameters: {
+    type: "object"
+    properties: Record<string, unknown>
+    required?: string[]
+  }
+}
+
+// JSON schema the reply must follow; the root is always an object
+export type ResponseSchema = {
+  name: string // Letters, digits, _ and - only (OpenAI requirement)
+  schema: Record<string, unknown>
+}
+
+// Collects tool calls that arrive spread over several stream chunks
+export interface ToolCallAccumulator {
+  add(chunk: any): void
+  finish(): ToolCall[]
+}
+
+export type ProviderCapabilities = {
+  vision: boolean // Accepts image attachments natively
+  streaming: boolean // Supports server-sent event streaming
+}
+
+export type ProviderDefaults = {
+  timeoutMs: number
+  visionTimeoutMs: number
+  maxTokens: number
+}
+
+export type ProviderRequestParams = {
+  apiKey: string // May be empty for self-hosted endpoints that need no key
+  baseUrl?: string // Replaces the adapter's base URL; required by the custom endpoint adapter
+  model: string // API model name, resolved from the model catalog (lib/models.ts)
+  messages: unknown[] // Output of formatMessages
+  systemPrompt?: string // Project and conversation instructions, sent the way each provider expects
+  tools?: ToolSpec[] // Offered to the model; omitted when the model cannot call tools
+  responseSchema?: ResponseSchema // Ask for JSON output matching the schema (non-streamed, without tools)
+  reasoningEffort?: ReasoningEffort // Only set for reasoning models; omitted means the provider's default
+  reasoningModel?: boolean // OpenAI o-series model, from the catalog; changes the token and temperature fields
+  temperature: number
+  maxTokens: number
+  stream: boolean
+  referer?: string
+}
+
+export type ProviderRequest = {
+  url: string
+  init: RequestInit
+}
+
+export interface ProviderAdapter {
+  id: ProviderId
+  label: string
+  capabilities: ProviderCapabilities
+  defaults: ProviderDefaults
+  // Convert provider-neutral messages (including image attachments) to the native format
+  formatMessages(messages: ChatMessage[]): unknown[]
+  buildRequest(params: ProviderRequestParams): ProviderRequest
+  // Extract the completion text from a non-streamed response body
+  parseResponse(data: any): string
+  // Extract the text delta from one parsed SSE chunk, or null when it carries no text
+  parseStreamChunk(chunk: any): string | null
+  // Reasoning in a non-streamed response body, or null when the model showed none
+  parseReasoning(data: any): ReasoningTrace | null
+  // Reasoning text delta and/or signature in one parsed SSE chunk, or null when it carries none
+  parseStreamReasoning(chunk: any): Partial<ReasoningTrace> | null
+  // Token counts in a response body or stream chunk, or null when it carries none.
+  // Streams may report them over several chunks; later values replace earlier ones.
+  parseUsage(data: any): Partial<TokenUsage> | null
+  // Extract the JSON text of a non-streamed response to a request with responseSchema
+  parseStructuredOutput(data: any): string
+  // Extract tool calls from a non-streamed response body
+  parseToolCalls(data: any): ToolCall[]
+  createToolCallAccumulator(): ToolCallAccumulator
+  // Native messages that record one tool-calling turn: the assistant's calls, then their results.
+  // Providers that require it get the turn's reasoning back as well.
+  formatToolTurn(text: string, calls: ToolCall[], results: ToolResult[], reasoning?: ReasoningTrace | null): unknown[]
+  // Turn a failed HTTP response into a user-facing error
+  mapError(status: number, body: string): ProviderError
+}
+
+export class ProviderError extends Error {
+  provider: ProviderId
+  status: number
+
+  constructor(provider: ProviderId, status: number, message: string) {
+    super(message)
+    this.name = "ProviderError"
+    this.provider = provider
+    this.status = status
+  }
+}
@@ -0,0 +1,226 @@
+// Per-route request budgets for the API routes
+//
+// Each request counts against a fixed window keyed by route and caller: the Supabase user ID when the
+// request carries a valid session, otherwise the client IP. Counters live in a RateLimitStore, in
+// process memory for development or in Postgres (migration-add-rate-limits.sql) when several server
+// instances have to share them.
+
+import { createClient } from "@supabase/supabase-js"
+import type { Database } from "./database.types.ts"
+import { getRequestUser } from "./key-vault-server.ts"
+
+export type RateLimitedRoute =
+  | "chat"
+  | "conversation-summary"
+  | "custom-models"
+  | "embeddings"
+  | "generate-image"
+  | "html-code"
+  | "keys"
+  | "upload"
+  | "veo2"
+  | "web-browse"
+  | "web-search"
+  | "web-search-extract"
+
+export type RateLimitBudget = {
+  user: number // Requests per window for a signed-in user
+  anonymous: number // Requests per window for one IP without a session
+  windowMs: number
+}
+
+// Routes that fetch arbitrary URLs or run OCR get the tightest budgets
+export const RATE_LIMITS: Record<RateLimitedRoute, RateLimitBudget> = {
+  "chat": { user: 60, anonymous: 20, windowMs: 60_000 },
+  "conversation-summary": { user: 20, anonymous: 10, windowMs: 60_000 },
+  "custom-models": { user: 20, anonymous: 10, windowMs: 60_000 },
+  "embeddings": { user: 60, anonymous: 20, windowMs: 60_000 }, // Uploading a long document takes one request per batch
+  "generate-image": { user: 10, anonymous: 3, windowMs: 60_000 },
+  "html-code": { user: 60, anonymous: 30, windowMs: 60_000 },
+  "keys": { user: 30, anonymous: 10, windowMs: 60_000 },
+  "upload": { user: 10, anonymous: 3, windowMs: 60_000 },
+  "veo2": { user: 5, anonymous: 2, windowMs: 10 * 60_000 },
+  "web-browse": { user: 20, anonymous: 5, windowMs: 60_000 },
+  "web-search": { user: 30, anonymous: 10, windowMs: 60_000 },
+  "web-search-extract": { user: 20, anonymous: 5, windowMs: 60_000 }
+}
+
+const RATE_LIMIT_MAX_WINDOW_MS = Math.max(...Object.values(RATE_LIMITS).map(budget => budget.windowMs))
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number // Epoch milliseconds when the current window ends
+}
+
+export interface RateLimitStore {
+  name: string
+  // Count one request against `key` and report whether it fits in `limit` for the window
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>
+}
+
+function toResult(count: number, limit: number, windowStart: number, windowMs: number): RateLimitResult {
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetAt: windowStart + windowMs
+  }
+}
+
+// Counters for a single server process; they reset on restart and are not shared between instances
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; windowStart: number }>()
+  let lastSweep = Date.now()
+
+  return {
+    name: "memory",
+
+    async hit(key, limit, windowMs) {
+      const now = Date.now()
+
+      // Drop expired windows now and then so the map does not grow with every IP ever seen
+      if (now - lastSweep > 60_000) {
+        for (const [entryKey, entry] of windows) {
+          if (now - entry.windowStart > RATE_LIMIT_MAX_WINDOW_MS) windows.delete(entryKey)
+        }
+        lastSweep = now
+      }
+
+      let entry = windows.get(key)
+      if (!entry || now - entry.windowStart >= windowMs) {
+        entry = { count: 0, windowStart: now }
+        windows.set(key, entry)
+      }
+      entry.count += 1
+      return toResult(entry.count, limit, entry.windowStart, windowMs)
+    }
+  }
+}
+
+// Counters in the rate_limits table, updated atomically by the hit_rate_limit function.
+// The table is closed to the anon and authenticated roles, so this needs the service role key.
+export function createSupabaseRateLimitStore(supabaseUrl: string, serviceRoleKey: string): RateLimitStore {
+  const client = createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+
+  return {
+    name: "supabase",
+
+    async hit(key, limit, windowMs) {
+      const { data, error } = await client
+        .rpc("hit_rate_limit", { p_key: key, p_window_seconds: Math.ceil(windowMs / 1000) })
+        .single<Database["public"]["Functions"]["hit_rate_limit"]["Returns"][number]>()
+
+      if (error || !data) {
+        throw new Error(`Rate limit lookup failed: ${error?.message || "no result"}`)
+      }
+      return toResult(data.request_count, limit, new Date(data.window_started_at).getTime(), windowMs)
+    }
+  }
+}
+
+let store: RateLimitStore | null | undefined
+
+// RATE_LIMIT_BACKEND picks the store: "memory", "supabase" or "off".
+// Without it, Postgres is used when SUPABASE_SERVICE_ROLE_KEY is set and memory otherwise.
+export function getRateLimitStore(): RateLimitStore | null {
+  if (store !== undefined) return store
+
+  const backend = process.env.RATE_LIMIT_BACKEND?.toLowerCase()
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (backend === "off") {
+    store = null
+  } else if (backend !== "memory" && supabaseUrl && serviceRoleKey) {
+    store = createSupabaseRateLimitStore(supabaseUrl, serviceRoleKey)
+  } else {
+    if (backend === "supabase") {
+      console.warn("Rate limiting: RATE_LIMIT_BACKEND is supabase but SUPABASE_SERVICE_ROLE_KEY is missing; using memory")
+    }
+    store = createMemoryRateLimitStore()
+  }
+  return store
+}
+
+// On calls between this app's routes the platform IP headers hold the server's own address, so the
+// calling route passes the original client IP in this header, signed so that clients cannot forge it
+const CALLER_IP_HEADER = "x-apeiron-caller-ip"
+const CALLER_IP_MAX_AGE_MS = 10 * 60_000 // Tool calls happen late in a long chat turn
+
+let callerSigningKey: Promise<CryptoKey | null> | null = null
+
+// INTERNAL_REQUEST_SECRET, or the key vault secret; without either, internal calls count against the server IP
+function getCallerSigningKey(): Promise<CryptoKey | null> {
+  if (!callerSigningKey) {
+    const secret = process.env.INTERNAL_REQUEST_SECRET || process.env.API_KEY_ENCRYPTION_SECRET
+    callerSigningKey = secret
+      ? crypto.subtle.importKey("raw", new TextEncoder().encode(`caller-ip:${secret}`), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"])
+      : Promise.resolve(null)
+  }
+  return callerSigningKey
+}
+
+// "<ip>|<issued at>|<signature>", the signature being base64url HMAC-SHA256 over the first two fields
+async function signCallerIp(ip: string): Promise<string | null> {
+  const key = await getCallerSigningKey()
+  if (!key) return null
+  const payload = `${ip}|${Date.now()}`
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload))
+  return `${payload}|${Buffer.from(signature).toString("base64url")}`
+}
+
+async function verifyCallerIp(value: string): Promise<string | null> {
+  const [ip, issuedAt, signature] = value.split("|")
+  const key = await getCallerSigningKey()
+  if (!key || !ip || !signature || !(Math.abs(Date.now() - Number(issuedAt)) <= CALLER_IP_MAX_AGE_MS)) return null
+
+  const valid = await crypto.subtle.verify("HMAC", key, Buffer.from(signature, "base64url"), new TextEncoder().encode(`${ip}|${issuedAt}`))
+  return valid ? ip : null
+}
+
+// The signed caller IP on internal calls, otherwise the address the proxy saw, where the platform
+// headers win because clients cannot set them. Clients can send their own x-forwarded-for, so only its
+// last hop, the one the proxy appended, is trusted.
+export async function getClientIp(request: Request): Promise<string> {
+  const signedCallerIp = request.headers.get(CALLER_IP_HEADER)
+  const callerIp = signedCallerIp ? await verifyCallerIp(signedCallerIp) : null
+  if (callerIp) return callerIp
+
+  const forwardedFor = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim()
+  return request.headers.get("x-nf-client-connection-ip")
+    || request.headers.get("x-real-ip")
+    || forwardedFor
+    || "unknown"
+}
+
+// Headers that let a route calling another of this app's routes count the request against the original caller
+export async function getCallerHeaders(request: Request): Promise<Record<string, string>> {
+  const clientIp = await getClientIp(request)
+  const headers: Record<string, string> = { "x-forwarded-for": clientIp }
+  const signedCallerIp = await signCallerIp(clientIp)
+  if (signedCallerIp) headers[CALLER_IP_HEADER] = signedCallerIp
+  const authorization = request.headers.get("authorization")
+  if (authorization) headers.authorization = authorization
+  return headers
+}
+
+export async function checkRateLimit(request: Request, route: RateLimitedRoute): Promise<RateLimitResult | null> {
+  const rateLimitStore = getRateLimitStore()
+  if (!rateLimitStore) return null
+
+  const budget = RATE_LIMITS[route]
+  const user = request.headers.has("authorization") ? await getRequestUser(request) : null
+  const key = user ? `${route}:user:${user.userId}` : `${route}:ip:${await getClientIp(request)}`
+
+  try {
+    return await rateLimitStore.hit(key, user ? budget.user : budget.anonymous, budget.windowMs)
+  } catch (error) {
+    // A broken store should not take the API down with it
+    console.error(`Rate limiting (${rateLimitStore.name}) failed, letting the request through:`, error)
+    return null
+  }
+}
@@ -0,0 +1,55 @@
+// Composer slash commands shared by the chat UI and /api/chat
+//
+// A message that starts with a known command is sent with an explicit mode, so the route does not
+// have to guess the intent from the wording. Text that starts with an unknown "/word" is sent as is.
+
+// How /api/chat should handle a message; without a mode the route falls back to heuristic detection
+export type ChatMode = "chat" | "image" | "video" | "search" | "deep" | "code"
+
+export const CHAT_MODES: ChatMode[] = ["chat", "image", "video", "search", "deep", "code"]
+
+export type SlashCommand = {
+  name: string
+  argument: string // Placeholder shown in the autocomplete list
+  description: string
+  mode?: ChatMode // Commands without a mode act on the composer instead of sending a message
+  requiresArgument: boolean
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: "image", argument: "<prompt>", description: "Generate an image", mode: "image", requiresArgument: true },
+  { name: "video", argument: "<prompt>", description: "Generate a video with VEO 2", mode: "video", requiresArgument: true },
+  { name: "search", argument: "<query>", description: "Answer with web search", mode: "search", requiresArgument: true },
+  { name: "deep", argument: "<query>", description: "Web search that reads the result pages", mode: "deep", requiresArgument: true },
+  { name: "code", argument: "<request>", description: "Generate code or a web page", mode: "code", requiresArgument: true },
+  { name: "model", argument: "<id>", description: "Switch the model for this conversation", requiresArgument: true },
+  { name: "system", argument: "[prompt]", description: "Set the conversation system prompt, or open it", requiresArgument: false },
+  { name: "template", argument: "[name]", description: "Insert a prompt template", requiresArgument: false }
+]
+
+export type ParsedSlashCommand = {
+  command: SlashCommand
+  argument: string
+}
+
+export function isChatMode(value: unknown): value is ChatMode {
+  return typeof value === "string" && CHAT_MODES.includes(value as ChatMode)
+}
+
+// "/image a red fox" -> the image command with "a red fox"; null for plain text and unknown commands
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = input.match(/^\/([a-z]+)(?:\s+([\s\S]*))?$/i)
+  if (!match) return null
+
+  const command = SLASH_COMMANDS.find(candidate => candidate.name === match[1].toLowerCase())
+  return command ? { command, argument: (match[2] || "").trim() } : null
+}
+
+// Commands matching what has been typed so far; empty once the command name is complete
+export function getSlashCommandSuggestions(input: string): SlashCommand[] {
+  const match = input.match(/^\/([a-z]*)$/i)
+  if (!match) return []
+
+  const prefix = match[1].toLowerCase()
+  return SLASH_COMMANDS.filter(command => command.name.startsWith(prefix))
+}
@@ -64,4 +64,10 @@ export const auth = supabase.auth
 export const db = supabase.from
 
 // Storage helpers  
-export const storage = supabase.storage 
\ No newline at end of file
+export const storage = supabase.storage 
+
+// Bearer header for API routes that act as the signed-in user (the API key vault); empty when signed out
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {}
+}
@@ -0,0 +1,35 @@
+import { getStringArg, postJson } from "./shared.ts"
+import type { ToolDefinition } from "./types.ts"
+
+export const generateImageTool: ToolDefinition = {
+  name: "generate_image",
+  description: "Generate an image from a text description. The image is shown to the user automatically, so do not repeat its URL; describe what was created instead.",
+  parameters: {
+    type: "object",
+    properties: {
+      prompt: { type: "string", description: "Detailed description of the image to create" }
+    },
+    required: ["prompt"]
+  },
+
+  isAvailable: (context) => !!(context.apiKeys.openai || context.apiKeys.runway),
+
+  async execute(args, context) {
+    const prompt = getStringArg(args, "prompt")
+
+    // /api/generate-image picks the provider from the keys it receives
+    const headers: Record<string, string> = { ...context.callerHeaders }
+    if (context.apiKeys.openai) headers["openai-api-key"] = context.apiKeys.openai
+    if (context.apiKeys.runway) headers["runway-api-key"] = context.apiKeys.runway
+
+    const data = await postJson(`${context.origin}/api/generate-image`, { prompt }, 60000, headers, context.signal)
+    if (!data?.imageUrl) {
+      return { content: "Image generation returned no image.", data: { prompt } }
+    }
+
+    return {
+      content: `Image generated with ${data.provider} and shown to the user.`,
+      data: { prompt, imageUrl: data.imageUrl, provider: data.provider }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { getStringArg, postJson } from "./shared.ts"
+import type { ToolDefinition } from "./types.ts"
+
+export const generateVideoTool: ToolDefinition = {
+  name: "generate_video",
+  description: "Start generating a short (8 second) video with Google VEO 2. Generation continues in the background and the user sees its progress, so just tell them it has started.",
+  parameters: {
+    type: "object",
+    properties: {
+      prompt: { type: "string", description: "Detailed description of the video to create" },
+      aspect_ratio: { type: "string", enum: ["16:9", "9:16"], description: "Video aspect ratio (default 16:9)" }
+    },
+    required: ["prompt"]
+  },
+
+  isAvailable: (context) => !!(context.apiKeys.veo2 || context.apiKeys.gemini),
+
+  async execute(args, context) {
+    const prompt = getStringArg(args, "prompt")
+    const aspectRatio = args.aspect_ratio === "9:16" ? "9:16" : "16:9"
+
+    const data = await postJson(`${context.origin}/api/veo2`, {
+      prompt,
+      apiKey: context.apiKeys.veo2,
+      geminiApiKey: context.apiKeys.gemini,
+      duration: 8,
+      aspectRatio
+    }, 30000, context.callerHeaders, context.signal)
+
+    const operationName = data?.data?.operationName
+    return {
+      content: operationName
+        ? `Video generation started (operation ${operationName}). It usually takes 2-6 minutes.`
+        : data?.data?.message || "Video generation started.",
+      data: { prompt, aspectRatio, operationName, status: data?.data?.status || "processing" }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// Tool registry
+// Adding a tool means adding one module and registering it here.
+
+import type { ToolCall, ToolResult, ToolSpec } from "../providers/types.ts"
+import { generateImageTool } from "./generate-image.ts"
+import { generateVideoTool } from "./generate-video.ts"
+import { rememberTool } from "./remember.ts"
+import type { ToolContext, ToolDefinition } from "./types.ts"
+import { webBrowseTool } from "./web-browse.ts"
+import { webSearchTool } from "./web-search.ts"
+
+export * from "./types.ts"
+
+const tools: ToolDefinition[] = [
+  webSearchTool,
+  webBrowseTool,
+  generateImageTool,
+  generateVideoTool,
+  rememberTool
+]
+
+export function getTool(name: string): ToolDefinition | null {
+  return tools.find(tool => tool.name === name) || null
+}
+
+export function getAvailableTools(context: ToolContext): ToolDefinition[] {
+  return tools.filter(tool => tool.isAvailable(context))
+}
+
+export function toToolSpecs(available: ToolDefinition[]): ToolSpec[] {
+  return available.map(({ name, description, parameters }) => ({ name, description, parameters }))
+}
+
+// Run one tool call. Failures are returned as error results so the model can recover.
+export async function executeToolCall(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+  const tool = getTool(call.name)
+  if (!tool || !tool.isAvailable(context)) {
+    return { id: call.id, name: call.name, content: `Unknown or unavailable tool: ${call.name}`, isError: true }
+  }
+
+  try {
+    const output = await tool.execute(call.args, context)
+    return { id: call.id, name: call.name, content: output.content, data: output.data }
+  } catch (error) {
+    console.error(`Tool ${call.name} failed:`, error)
+    const message = error instanceof Error ? error.message : "Tool execution failed"
+    return { id: call.id, name: call.name, content: `Error: ${message}`, isError: true }
+  }
+}
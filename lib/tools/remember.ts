@@ -0,0 +1,27 @@
+import { MEMORY_MAX_LENGTH, REMEMBER_TOOL_NAME } from "../memories.ts"
+import { getStringArg } from "./shared.ts"
+import { ToolError, type ToolDefinition } from "./types.ts"
+
+// Nothing is stored here: the app saves the fact from the tool result, with the conversation it came from
+export const rememberTool: ToolDefinition = {
+  name: REMEMBER_TOOL_NAME,
+  description: "Save a lasting fact about the user or a preference they stated (their name, work, tools they use, how they like answers) so later conversations can use it. Only save what will still matter in other conversations, never details of the current task, and do not save the same fact twice.",
+  parameters: {
+    type: "object",
+    properties: {
+      fact: { type: "string", description: "The fact as one short sentence about the user, e.g. \"Writes backend code in Go\"" }
+    },
+    required: ["fact"]
+  },
+
+  isAvailable: (context) => context.memoryEnabled,
+
+  async execute(args) {
+    const fact = getStringArg(args, "fact")
+    if (fact.length > MEMORY_MAX_LENGTH) {
+      throw new ToolError(`The fact is too long; keep it under ${MEMORY_MAX_LENGTH} characters`)
+    }
+
+    return { content: `Saved to memory: ${fact}. The user can review it in Settings.`, data: { memory: fact } }
+  }
+}
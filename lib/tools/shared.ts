@@ -0,0 +1,46 @@
+import { readApiError } from "../api/errors.ts"
+import { ToolError } from "./types.ts"
+
+// POST JSON to one of the app's API routes and return the parsed body
+export async function postJson(
+  url: string,
+  body: unknown,
+  timeoutMs: number,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<any> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([AbortSignal.timeout(timeoutMs), signal]) : AbortSignal.timeout(timeoutMs)
+    })
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ToolError("Stopped by the user")
+    }
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new ToolError(`Request timed out after ${timeoutMs / 1000} seconds`)
+    }
+    throw error
+  }
+
+  if (!response.ok) {
+    throw new ToolError((await readApiError(response)).message)
+  }
+  return response.json().catch(() => null)
+}
+
+export function getStringArg(args: Record<string, unknown>, name: string): string {
+  const value = args[name]
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ToolError(`Missing required argument "${name}"`)
+  }
+  return value.trim()
+}
+
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text
+}
@@ -0,0 +1,40 @@
+// Shared types for the server-side tool registry
+//
+// A tool is a JSON schema the model sees plus a handler the chat route runs when the model calls it.
+
+import type { ToolSpec } from "../providers/types.ts"
+
+export type ToolContext = {
+  origin: string // Base URL used to reach this app's own API routes
+  apiKeys: {
+    openai?: string
+    gemini?: string
+    veo2?: string
+    runway?: string
+  }
+  webSearchEnabled: boolean
+  enhancedWebSearch: boolean
+  userLocation?: string | null
+  memoryEnabled: boolean // The user turned memory on, so the model may save facts
+  signal?: AbortSignal // Aborted when the user stops the reply
+  callerHeaders: Record<string, string> // Identify the user to the routes the tools call, for their rate limits
+}
+
+export type ToolOutput = {
+  content: string // Sent back to the model
+  data?: unknown // Structured result kept on the message for the UI
+}
+
+export interface ToolDefinition extends ToolSpec {
+  // Whether the tool can be offered for this request (e.g. the needed API key is present)
+  isAvailable(context: ToolContext): boolean
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<ToolOutput>
+}
+
+// Error raised by a tool handler; its message is reported to the model as the tool result
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ToolError"
+  }
+}
@@ -0,0 +1,42 @@
+import { postJson, truncate } from "./shared.ts"
+import { ToolError, type ToolDefinition } from "./types.ts"
+
+export const webBrowseTool: ToolDefinition = {
+  name: "web_browse",
+  description: "Fetch and read the main text of up to 3 web pages. Use it to read a page the user linked or to dig into a search result.",
+  parameters: {
+    type: "object",
+    properties: {
+      urls: { type: "array", items: { type: "string" }, description: "Page URLs to read (at most 3)" },
+      query: { type: "string", description: "What you are looking for on the pages" }
+    },
+    required: ["urls"]
+  },
+
+  isAvailable: (context) => context.webSearchEnabled,
+
+  async execute(args, context) {
+    const urls = Array.isArray(args.urls)
+      ? args.urls.filter((url): url is string => typeof url === "string" && url.trim() !== "").slice(0, 3)
+      : []
+    if (urls.length === 0) {
+      throw new ToolError('Missing required argument "urls"')
+    }
+
+    const data = await postJson(`${context.origin}/api/web-browse`, {
+      urls,
+      query: typeof args.query === "string" ? args.query : undefined
+    }, 25000, context.callerHeaders, context.signal)
+
+    const pages: any[] = Array.isArray(data?.results) ? data.results : []
+    if (pages.length === 0) {
+      return { content: data?.message || "No content could be extracted from the provided URLs.", data: { urls, pages } }
+    }
+
+    const content = pages.map(page => `Title: ${page.title || page.domain || page.url}
+URL: ${page.url}
+Content: ${truncate(page.content || "", 3000)}`).join("\n\n")
+
+    return { content, data: { urls, pages: pages.map(page => ({ url: page.url, title: page.title, domain: page.domain })) } }
+  }
+}
@@ -0,0 +1,47 @@
+import { getStringArg, postJson, truncate } from "./shared.ts"
+import type { ToolDefinition } from "./types.ts"
+
+export const webSearchTool: ToolDefinition = {
+  name: "web_search",
+  description: "Search the web for current information. Use it for recent events, facts that may have changed, or anything you are unsure about. Returns numbered results with titles, URLs and snippets; cite them as [1], [2], etc.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "The search query" },
+      max_results: { type: "integer", description: "Number of results to return (1-10, default 5)" }
+    },
+    required: ["query"]
+  },
+
+  isAvailable: (context) => context.webSearchEnabled,
+
+  async execute(args, context) {
+    const query = getStringArg(args, "query")
+    const maxResults = typeof args.max_results === "number" ? Math.min(Math.max(Math.round(args.max_results), 1), 10) : 5
+
+    const data = await postJson(`${context.origin}/api/web-search`, {
+      query,
+      maxResults,
+      userLocation: context.userLocation || null,
+      extractContent: context.enhancedWebSearch
+    }, context.enhancedWebSearch ? 25000 : 15000, context.callerHeaders, context.signal)
+
+    const results: any[] = Array.isArray(data?.results) ? data.results : []
+    if (results.length === 0) {
+      return { content: `No web results found for "${query}".`, data: { query, results } }
+    }
+
+    // Use extracted page content when enhanced search fetched it, otherwise the snippet
+    const content = results.map((result, index) => {
+      const body = result.extractedContent
+        ? `Content: ${truncate(result.extractedContent, 1000)}`
+        : `Snippet: ${result.snippet}`
+      return `[${index + 1}] Title: ${result.extractedTitle || result.title}
+URL: ${result.url}
+Source: ${result.source || "Unknown"}
+${body}`
+    }).join("\n\n")
+
+    return { content, data: { query, results } }
+  }
+}
@@ -0,0 +1,203 @@
+// Token usage and cost accounting
+//
+// /api/chat reports the tokens each reply used; the client stores them on the message row
+// and totals them per conversation, project and month for the usage view.
+
+import type { TokenUsage } from "./providers/types.ts"
+
+// Usage of one assistant message, summed over every provider call that produced it
+export type MessageUsage = TokenUsage & {
+  costUsd: number | null // null when no price is known for the model
+}
+
+type ModelPrice = {
+  input: number // USD per million input tokens
+  output: number // USD per million output tokens
+}
+
+// List prices by catalog model ID (lib/models.ts); custom OpenRouter models have no price
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "o3": { input: 2, output: 8 },
+  "gpt-4.5": { input: 75, output: 150 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "claude-4-sonnet": { input: 3, output: 15 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3.5-sonnet": { input: 3, output: 15 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "deepseek-v3": { input: 0.27, output: 1.1 },
+  "deepseek-r1": { input: 0.55, output: 2.19 },
+  "grok-3": { input: 3, output: 15 },
+  "mistral-large": { input: 2, output: 6 },
+  "mistral-medium": { input: 0.4, output: 2 },
+  "mistral-small": { input: 0.1, output: 0.3 },
+  "codestral": { input: 0.3, output: 0.9 },
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai/gpt-4.1-2025-04-14": { input: 2, output: 8 },
+  "openai/gpt-4-turbo": { input: 10, output: 30 },
+  "openai/gpt-4": { input: 30, output: 60 },
+  "openai/gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "anthropic/claude-4-sonnet-20250522": { input: 3, output: 15 },
+  "anthropic/claude-3.7-sonnet": { input: 3, output: 15 },
+  "anthropic/claude-3-opus": { input: 15, output: 75 },
+  "anthropic/claude-3-sonnet": { input: 3, output: 15 },
+  "anthropic/claude-2.1": { input: 8, output: 24 },
+  "meta-llama/llama-3.3-70b-instruct": { input: 0.12, output: 0.3 },
+  "meta-llama/llama-3-70b-chat": { input: 0.3, output: 0.4 },
+  "meta-llama/llama-2-70b-chat": { input: 0.9, output: 0.9 },
+  "mistral/mistral-large": { input: 2, output: 6 },
+  "mistral/mistral-medium": { input: 0.4, output: 2 },
+  "mistral/mistral-small": { input: 0.1, output: 0.3 },
+  "google/gemini-2.5-flash-preview-05-20": { input: 0.3, output: 2.5 },
+  "google/gemini-2.0-flash-001": { input: 0.1, output: 0.4 },
+  "google/gemini-pro": { input: 1.25, output: 5 },
+  "deepseek/deepseek-r1:free": { input: 0, output: 0 },
+  "x-ai/grok-3-beta": { input: 3, output: 15 }
+}
+
+export function getModelPrice(modelId: string): ModelPrice | null {
+  return MODEL_PRICES[modelId] || null
+}
+
+// Price the tokens of one call; missing counts are treated as zero
+export function priceUsage(modelId: string, usage: Partial<TokenUsage>): MessageUsage {
+  const inputTokens = usage.inputTokens || 0
+  const outputTokens = usage.outputTokens || 0
+  const price = getModelPrice(modelId)
+  return {
+    inputTokens,
+    outputTokens,
+    costUsd: price ? (inputTokens * price.input + outputTokens * price.output) / 1000000 : null
+  }
+}
+
+// Sum two usages; the cost stays null only if neither side has one
+export function addUsage(total: MessageUsage | null, usage: MessageUsage | null): MessageUsage | null {
+  if (!total) return usage
+  if (!usage) return total
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    costUsd: total.costUsd === null && usage.costUsd === null ? null : (total.costUsd || 0) + (usage.costUsd || 0)
+  }
+}
+
+// Conversions to and from the messages table columns
+export function toUsageColumns(usage: MessageUsage | null | undefined) {
+  return {
+    input_tokens: usage ? usage.inputTokens : null,
+    output_tokens: usage ? usage.outputTokens : null,
+    cost_usd: usage ? usage.costUsd : null
+  }
+}
+
+export function fromUsageColumns(row: {
+  input_tokens: number | null
+  output_tokens: number | null
+  cost_usd: number | string | null // numeric columns can come back as strings
+}): MessageUsage | undefined {
+  if (row.input_tokens === null && row.output_tokens === null) return undefined
+  return {
+    inputTokens: row.input_tokens || 0,
+    outputTokens: row.output_tokens || 0,
+    costUsd: row.cost_usd === null ? null : Number(row.cost_usd)
+  }
+}
+
+export type UsageTotals = {
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+  messageCount: number // Replies with usage recorded
+  unpricedCount: number // Replies from models without a known price
+}
+
+export type UsageReport = {
+  total: UsageTotals
+  byMonth: Array<{ month: string; totals: UsageTotals }> // Newest first; month is YYYY-MM
+  byProject: Array<{ id: string; name: string; totals: UsageTotals }>
+  byConversation: Array<{ id: string; title: string; totals: UsageTotals }> // Most expensive first
+}
+
+type UsageConversation = {
+  id: string
+  title: string
+  messages: Array<{ timestamp: Date | string; usage?: MessageUsage | null }>
+}
+
+type UsageProject = {
+  id: string
+  name: string
+  conversations: string[]
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, messageCount: 0, unpricedCount: 0 }
+}
+
+function addToTotals(totals: UsageTotals, usage: MessageUsage) {
+  totals.inputTokens += usage.inputTokens
+  totals.outputTokens += usage.outputTokens
+  totals.costUsd += usage.costUsd || 0
+  totals.messageCount++
+  if (usage.costUsd === null) totals.unpricedCount++
+}
+
+function mergeTotals(into: UsageTotals, totals: UsageTotals) {
+  into.inputTokens += totals.inputTokens
+  into.outputTokens += totals.outputTokens
+  into.costUsd += totals.costUsd
+  into.messageCount += totals.messageCount
+  into.unpricedCount += totals.unpricedCount
+}
+
+export function buildUsageReport(conversations: UsageConversation[], projects: UsageProject[]): UsageReport {
+  const total = emptyTotals()
+  const months = new Map<string, UsageTotals>()
+  const conversationTotals = new Map<string, UsageTotals>()
+
+  conversations.forEach(conversation => {
+    const totals = emptyTotals()
+    conversation.messages.forEach(message => {
+      if (!message.usage) return
+      const month = new Date(message.timestamp).toISOString().slice(0, 7)
+      if (!months.has(month)) months.set(month, emptyTotals())
+      addToTotals(months.get(month)!, message.usage)
+      addToTotals(totals, message.usage)
+    })
+    conversationTotals.set(conversation.id, totals)
+    mergeTotals(total, totals)
+  })
+
+  const byProject = projects.map(project => {
+    const totals = emptyTotals()
+    project.conversations.forEach(id => {
+      const conversation = conversationTotals.get(id)
+      if (conversation) mergeTotals(totals, conversation)
+    })
+    return { id: project.id, name: project.name, totals }
+  }).filter(project => project.totals.messageCount > 0)
+
+  const byConversation = conversations
+    .map(conversation => ({ id: conversation.id, title: conversation.title, totals: conversationTotals.get(conversation.id)! }))
+    .filter(conversation => conversation.totals.messageCount > 0)
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.outputTokens - a.totals.outputTokens)
+
+  return {
+    total,
+    byMonth: Array.from(months.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([month, totals]) => ({ month, totals })),
+    byProject,
+    byConversation
+  }
+}
+
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) return "$0.00"
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`
+  return `$${costUsd.toFixed(2)}`
+}
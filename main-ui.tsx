@@ -7,7 +7,27 @@ import ModelLogo from "@/components/model-logos"
 import HTMLPreview from "@/components/html-preview"
 import VideoPreview from "@/components/video-preview"
 import ImagePreview from "@/components/image-preview"
+import PromptTemplateLibrary from "@/components/prompt-template-library"
+import MemorySettings from "@/components/memory-settings"
+import ProjectKnowledgeBase from "@/components/project-knowledge-base"
 import { detectHTMLInContent } from "@/lib/html-templates"
+import { PROVIDER_NAMES, getCustomModelName, getModelDefinition, getModelsForGroup, isCustomModelId, resolveModel, type ModelProvider } from "@/lib/models"
+import { estimateContextUsage, type ContextSummary } from "@/lib/context-window"
+import { getVariantMessageFields, type MessageVariant } from "@/lib/message-variants"
+import type { BranchPosition } from "@/lib/message-tree"
+import { SUMMARY_REFRESH_TURNS, matchesConversationSearch } from "@/lib/conversation-summary"
+import { describeFailoverReason, formatFallbackChains, parseFallbackChains, type FallbackChains, type FallbackInfo } from "@/lib/fallback-chains"
+import { getResponseSchemaError, type JsonSchema } from "@/lib/json-schema"
+import { buildUsageReport, formatCost, type MessageUsage, type UsageTotals } from "@/lib/usage"
+import { getSlashCommandSuggestions, parseSlashCommand, type ChatMode, type ParsedSlashCommand } from "@/lib/slash-commands"
+import { isStoredApiKey, toRequestApiKey } from "@/lib/key-vault"
+import { fillTemplate, getTemplateVariables, getTemplatesForProject, type PromptTemplate, type PromptTemplateDraft } from "@/lib/prompt-templates"
+import type { Memory } from "@/lib/memories"
+import { EMBEDDING_MODELS, parseEmbeddingModel } from "@/lib/embeddings"
+import type { KnowledgeDocument, KnowledgeSource } from "@/lib/knowledge-base"
+import { API_ERROR_HINTS, customModelsResponseSchema, parseApiResponse, readApiError, uploadResponseSchema, type ApiErrorCode } from "@/lib/api"
+import { getAuthHeaders } from "@/lib/supabase"
+import type { MessagePart, ReasoningEffort, ToolCall, ToolResult } from "@/lib/providers"
 import {
   Menu,
   X,
@@ -16,6 +36,7 @@ import {
   Sun,
   Moon,
   ChevronDown,
+  ChevronLeft,
   ChevronRight,
   Settings,
   LogOut,
@@ -38,8 +59,24 @@ import {
   Trash2,
   Save,
   ExternalLink,
+  ScrollText,
+  Wrench,
+  Video,
+  Columns3,
+  Shuffle,
+  Braces,
+  Copy,
+  Server,
+  RefreshCw,
+  Brain,
+  Square,
+  CircleSlash,
+  BookOpen,
+  Pencil,
+  Bookmark,
+  Library,
 } from "lucide-react"
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 
 // Types
 type Message = {
@@ -51,12 +88,21 @@ type Message = {
   model?: string
   provider?: string
   isError?: boolean
+  errorCode?: ApiErrorCode
   searchResults?: Array<{
     title: string
     url: string
     snippet: string
     timestamp: string
   }>
+  knowledgeSources?: KnowledgeSource[]
+  parts?: MessagePart[]
+  variants?: MessageVariant[]
+  activeVariantId?: string | null
+  fallback?: FallbackInfo
+  usage?: MessageUsage
+  interrupted?: boolean
+  branch?: BranchPosition // Place among the versions of this turn; the switcher shows with two or more
   retryData?: {
     originalMessage: string
     attachments?: ProcessedFile[]
@@ -81,11 +127,16 @@ type Conversation = {
   timestamp: Date
   model: string
   messages: Message[]
+  systemPrompt?: string
+  projectId?: string | null
+  contextSummary?: ContextSummary | null // Stands in for the oldest messages once the context window fills up
+  summary?: string | null // One paragraph shown on hover in the sidebar
 }
 
 type Project = {
   id: string
   name: string
+  systemPrompt?: string // Applies to every conversation in the project
   conversations: string[] // IDs of conversations
 }
 
@@ -94,7 +145,7 @@ type Model = {
   name: string
   icon: string
   apiKey?: string
-  provider: "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway"
+  provider: "openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "veo2" | "mistral" | "runway" | "custom"
   isCustom?: boolean
   customModelName?: string
   enabled?: boolean
@@ -117,6 +168,14 @@ type UserSettings = {
   runwayApiKey: string
   enabledSubModels: { [provider: string]: string[] } // Track which sub-models are enabled per provider
   selectedTheme?: string // Currently selected theme
+  fallbackChains?: FallbackChains // Models to try, in order, when the selected model fails
+  customEndpointUrl?: string // OpenAI-compatible server for local and self-hosted models
+  customEndpointApiKey?: string
+  customModels?: string[] // Model names on that server shown in the model picker
+  reasoningEfforts?: Record<string, ReasoningEffort> // Thinking effort picked per model ID
+  titleModel?: string // Cheap model that titles and summarizes conversations
+  memoryEnabled?: boolean // Send memories with requests and let the model save new ones
+  embeddingModel?: string // Embeds new knowledge base documents; unset picks one from the API keys
 }
 
 type Theme = {
@@ -134,7 +193,9 @@ type MainUIProps = {
   currentModel?: string
   userSettings?: UserSettings
   isTyping?: boolean
-  onSendMessage?: (message: string, attachments?: ProcessedFile[], webSearchEnabled?: boolean, codeGenerationEnabled?: boolean, userLocation?: string | null, enhancedWebSearch?: boolean) => void
+  isGenerating?: boolean // A reply is on its way; the send button turns into Stop
+  onStopGeneration?: () => void
+  onSendMessage?: (message: string, attachments?: ProcessedFile[], webSearchEnabled?: boolean, codeGenerationEnabled?: boolean, userLocation?: string | null, enhancedWebSearch?: boolean, overrideModel?: string, mode?: ChatMode) => void
   onSelectConversation?: (id: string) => void
   onSelectModel?: (id: string) => void
   onCreateConversation?: () => void
@@ -152,67 +213,64 @@ type MainUIProps = {
   selectedProjectId?: string | null
   onSaveSettings?: (settings: any) => void
   onRenameConversation?: (id: string, newTitle: string) => void
+  onUpdateConversationSystemPrompt?: (id: string, systemPrompt: string) => void
+  onUpdateProjectSystemPrompt?: (id: string, systemPrompt: string) => void
   onDeleteConversation?: (id: string) => void
-  onRetryMessage?: (messageId: string, selectedModelId?: string) => void
+  onRetryMessage?: (messageId: string, selectedModelId?: string, temperature?: number) => void // Answers get a new version, failed turns are asked again
+  onCompareModels?: (message: string, modelIds: string[], attachments?: ProcessedFile[], webSearchEnabled?: boolean, userLocation?: string | null, enhancedWebSearch?: boolean) => void
+  onSelectVariant?: (messageId: string, variantId: string) => void
+  onEditMessage?: (messageId: string, content: string) => void // Sends the edited question as a new branch
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void
+  responseSchema?: JsonSchema | null // Replies must be JSON matching this schema while it is set
+  onResponseSchemaChange?: (schema: JsonSchema | null) => void
   onExpandedProjectsChange?: (expandedProjects: Record<string, boolean>) => void
+  promptTemplates?: PromptTemplate[]
+  onCreatePromptTemplates?: (drafts: PromptTemplateDraft[]) => void
+  onUpdatePromptTemplate?: (id: string, updates: Partial<PromptTemplateDraft>) => void
+  onDeletePromptTemplate?: (id: string) => void
+  onApplyTemplateSystemPrompt?: (systemPrompt: string) => void // Sets it on the open conversation, or the next new one
+  memories?: Memory[]
+  onCreateMemory?: (content: string) => void
+  onUpdateMemory?: (id: string, updates: Partial<Pick<Memory, "content" | "enabled">>) => void
+  onDeleteMemory?: (id: string) => void
+  knowledgeDocuments?: KnowledgeDocument[]
+  embeddingModelId?: string | null // Model new knowledge base documents will be embedded with, if any
+  onAddKnowledgeDocuments?: (projectId: string, files: File[]) => void
+  onDeleteKnowledgeDocument?: (id: string) => void
 }
 
-// Define icon map for models
-const iconMap: { [key: string]: { [key: string]: string } } = {
-  openai: {
-    "o3": "O3",
-    "gpt-4.5": "45",
-    "gpt-4.1": "41",
-    "gpt-4o": "4O",
-    "gpt-4": "G4",
-    "gpt-3.5-turbo": "35"
-  },
-  claude: {
-    "claude-4-sonnet": "C4",
-    "claude-3.5-opus": "CO",
-    "claude-3.5-sonnet": "35"
-  },
-  gemini: {
-    "gemini-2.5-flash": "2F",
-    "gemini-2.5-pro": "2P",
-    "veo2": "V2"
-  },
-  deepseek: {
-    "deepseek-v3": "D3"
-  },
-  grok: {
-    "grok-3": "G3"
-  },
-  mistral: {
-    "mistral-large": "ML",
-    "mistral-medium": "MM",
-    "mistral-small": "MS",
-    "codestral": "CS"
-  },
-  openrouter: {
-    "openai/gpt-4o-mini": "4M",
-    "openai/gpt-4.1-2025-04-14": "41",
-    "openai/gpt-4-turbo": "4T",
-    "openai/gpt-4": "G4",
-    "openai/gpt-3.5-turbo": "35",
-    "anthropic/claude-4-sonnet-20250522": "C4",
-    "anthropic/claude-3.7-sonnet": "37",
-    "anthropic/claude-3-opus": "CO",
-    "anthropic/claude-3-sonnet": "CS",
-    "anthropic/claude-2.1": "C2",
-    "meta-llama/llama-3.3-70b-instruct": "L3",
-    "meta-llama/llama-3-70b-chat": "L3",
-    "meta-llama/llama-2-70b-chat": "L2",
-    "mistral/mistral-large": "ML",
-    "mistral/mistral-medium": "MM",
-    "mistral/mistral-small": "MS",
-    "google/gemini-2.5-flash-preview-05-20": "25",
-    "google/gemini-2.0-flash-001": "20",
-    "google/gemini-pro": "GP",
-    "deepseek/deepseek-r1:free": "DS",
-    "x-ai/grok-3-beta": "G3",
-    "custom": "CM"
-  }
+type LibraryModel = { id: string; name: string; description: string }
+
+// Offered when regenerating an answer with the same model
+const REGENERATE_TEMPERATURES = [0, 0.4, 0.7, 1, 1.4]
+
+const REASONING_EFFORT_OPTIONS: Array<{ value: ReasoningEffort; label: string }> = [
+  { value: "off", label: "Off" },
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" }
+]
+
+// Settings sections, in display order; each lists its models from the shared catalog
+// Key inputs show this instead of the STORED_API_KEY marker; typing a new key replaces the stored one
+const STORED_KEY_PLACEHOLDER = "Stored encrypted on the server - type to replace"
+
+const LIBRARY_GROUPS: ModelProvider[] = ["openai", "claude", "gemini", "deepseek", "grok", "mistral", "runway", "openrouter"]
+
+const modelLibrary: Record<string, { name: string; models: LibraryModel[] }> = Object.fromEntries(
+  LIBRARY_GROUPS.map(group => {
+    const models: LibraryModel[] = getModelsForGroup(group)
+    if (group === "openrouter") {
+      // Custom Model Placeholder
+      models.push({ id: "custom", name: "Custom Model", description: "Add your own model" })
+    }
+    return [group, { name: PROVIDER_NAMES[group], models }]
+  })
+)
+
+// Helper function to get model icons
+const getModelIcon = (modelId: string): string => {
+  return getModelDefinition(modelId)?.icon || 'AI'
 }
 
 export default function MainUI({
@@ -244,6 +302,8 @@ export default function MainUI({
     enabledSubModels: {}
   },
   isTyping = false,
+  isGenerating = false,
+  onStopGeneration = () => {},
   onSendMessage = () => {},
   onSelectConversation = () => {},
   onSelectModel = () => {},
@@ -262,114 +322,31 @@ export default function MainUI({
   selectedProjectId = null,
   onSaveSettings = () => {},
   onRenameConversation = () => {},
+  onUpdateConversationSystemPrompt = () => {},
+  onUpdateProjectSystemPrompt = () => {},
   onDeleteConversation = () => {},
   onRetryMessage = () => {},
+  onCompareModels = () => {},
+  onSelectVariant = () => {},
+  onEditMessage = () => {},
+  onSwitchBranch = () => {},
+  responseSchema = null,
+  onResponseSchemaChange = () => {},
   onExpandedProjectsChange = () => {},
+  promptTemplates = [],
+  onCreatePromptTemplates = () => {},
+  onUpdatePromptTemplate = () => {},
+  onDeletePromptTemplate = () => {},
+  onApplyTemplateSystemPrompt = () => {},
+  memories = [],
+  onCreateMemory = () => {},
+  onUpdateMemory = () => {},
+  onDeleteMemory = () => {},
+  knowledgeDocuments = [],
+  embeddingModelId = null,
+  onAddKnowledgeDocuments = () => {},
+  onDeleteKnowledgeDocument = () => {},
 }: MainUIProps) {
-  // Comprehensive model library with latest versions
-  const modelLibrary = {
-    openai: {
-      name: "OpenAI",
-      models: [
-        { id: "o3", name: "o3", description: "Latest breakthrough reasoning model" },
-        { id: "gpt-4.5", name: "GPT-4.5", description: "Enhanced flagship model with improved capabilities" },
-        { id: "gpt-4.1", name: "GPT-4.1", description: "Latest flagship model with enhanced capabilities" },
-        { id: "gpt-4o", name: "GPT-4o", description: "Multimodal model with vision and audio" },
-        { id: "gpt-4", name: "GPT-4", description: "Previous generation model" },
-        { id: "gpt-3.5-turbo", name: "GPT-3.5 Turbo", description: "Fast and cost-effective" }
-      ]
-    },
-    claude: {
-      name: "Anthropic (Claude)",
-      models: [
-        { id: "claude-4-sonnet", name: "Claude 4 Sonnet", description: "Latest generation with advanced reasoning" },
-        { id: "claude-3.5-opus", name: "Claude 3.5 Opus", description: "Most powerful model for complex tasks" },
-        { id: "claude-3.5-sonnet", name: "Claude 3.5 Sonnet", description: "High performance model" }
-      ]
-    },
-    gemini: {
-      name: "Google (Gemini + VEO2)",
-      models: [
-        { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", description: "Fast multimodal processing" },
-        { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", description: "Advanced reasoning capabilities" },
-        { id: "veo2", name: "VEO 2", description: "Video generation model" }
-      ]
-    },
-    deepseek: {
-      name: "DeepSeek",
-      models: [
-        { id: "deepseek-v3", name: "DeepSeek V3", description: "Latest reasoning and coding model" }
-      ]
-    },
-    grok: {
-      name: "Grok",
-      models: [
-        { id: "grok-3", name: "Grok 3", description: "Advanced reasoning with real-time data" }
-      ]
-    },
-    mistral: {
-      name: "Mistral AI",
-      models: [
-        { id: "mistral-large", name: "Mistral Large", description: "Most capable model for complex reasoning" },
-        { id: "mistral-medium", name: "Mistral Medium", description: "Balanced performance and cost" },
-        { id: "mistral-small", name: "Mistral Small", description: "Fast and efficient for simple tasks" },
-        { id: "codestral", name: "Codestral", description: "Specialized coding and development model" }
-      ]
-    },
-    runway: {
-      name: "RunwayML",
-      models: [
-        { id: "gen3a-turbo", name: "Gen3 Alpha Turbo", description: "Fast image and video generation" },
-        { id: "gen3a", name: "Gen3 Alpha", description: "High-quality image and video generation" },
-        { id: "gen2", name: "Gen2", description: "Previous generation model" }
-      ]
-    },
-    openrouter: {
-      name: "OpenRouter",
-      models: [
-        // OpenAI Models via OpenRouter
-        { id: "openai/gpt-4o-mini", name: "GPT-4o Mini", description: "Compact version of GPT-4o" },
-        { id: "openai/gpt-4.1-2025-04-14", name: "GPT-4.1", description: "Latest OpenAI flagship model" },
-        { id: "openai/gpt-4-turbo", name: "GPT-4 Turbo", description: "Powerful OpenAI model" },
-        { id: "openai/gpt-4", name: "GPT-4", description: "OpenAI's reliable model" },
-        { id: "openai/gpt-3.5-turbo", name: "GPT-3.5 Turbo", description: "Fast and efficient OpenAI model" },
-        // Anthropic Models via OpenRouter
-        { id: "anthropic/claude-4-sonnet-20250522", name: "Claude 4 Sonnet", description: "Latest Claude model" },
-        { id: "anthropic/claude-3.7-sonnet", name: "Claude 3.7 Sonnet", description: "Advanced Claude model" },
-        { id: "anthropic/claude-3-opus", name: "Claude 3 Opus", description: "Powerful Claude model" },
-        { id: "anthropic/claude-3-sonnet", name: "Claude 3 Sonnet", description: "Balanced Claude model" },
-        { id: "anthropic/claude-2.1", name: "Claude 2.1", description: "Previous generation Claude" },
-        // Meta Models via OpenRouter
-        { id: "meta-llama/llama-3.3-70b-instruct", name: "Llama 3.3 70B", description: "Meta's latest open model" },
-        { id: "meta-llama/llama-3-70b-chat", name: "Llama 3 70B", description: "Meta's powerful open model" },
-        { id: "meta-llama/llama-2-70b-chat", name: "Llama 2 70B", description: "Previous generation Llama" },
-        // Mistral Models via OpenRouter
-        { id: "mistral/mistral-large", name: "Mistral Large", description: "Mistral's most capable model" },
-        { id: "mistral/mistral-medium", name: "Mistral Medium", description: "Balanced Mistral model" },
-        { id: "mistral/mistral-small", name: "Mistral Small", description: "Efficient Mistral model" },
-        // Google Models via OpenRouter
-        { id: "google/gemini-2.5-flash-preview-05-20", name: "Gemini 2.5 Flash Preview", description: "Latest Gemini model" },
-        { id: "google/gemini-2.0-flash-001", name: "Gemini 2.0 Flash", description: "Fast Gemini model" },
-        { id: "google/gemini-pro", name: "Gemini Pro", description: "Google's advanced model" },
-        // DeepSeek Models via OpenRouter
-        { id: "deepseek/deepseek-r1:free", name: "DeepSeek R1", description: "DeepSeek's advanced model" },
-        // xAI Models via OpenRouter
-        { id: "x-ai/grok-3-beta", name: "Grok 3 Beta", description: "xAI's advanced reasoning model" },
-        // Custom Model Placeholder
-        { id: "custom", name: "Custom Model", description: "Add your own model" }
-      ]
-    }
-  }
-
-  // Helper function to get model icons
-  const getModelIcon = (provider: string, modelId: string): string => {
-    if (provider === 'openrouter') {
-      return iconMap.openrouter[modelId] || 'AI'
-    }
-    
-    return iconMap[provider]?.[modelId] || 'AI'
-  }
-
   // Theme library - easily expandable for future themes
   // Each theme supports both light and dark modes via the header toggle
   const themeLibrary: Theme[] = [
@@ -462,10 +439,12 @@ export default function MainUI({
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [isMobile, setIsMobile] = useState(false)
   const [inputValue, setInputValue] = useState("")
+  const [slashSuggestionIndex, setSlashSuggestionIndex] = useState(0)
+  const [composerNotice, setComposerNotice] = useState<string | null>(null) // Why a slash command could not run
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [profileDropdownOpen, setProfileDropdownOpen] = useState(false)
 
-  const [settingsTab, setSettingsTab] = useState<"general" | "models" | "themes">("general")
+  const [settingsTab, setSettingsTab] = useState<"general" | "models" | "memory" | "themes" | "usage">("general")
   const [newModelProvider, setNewModelProvider] = useState<"openai" | "claude" | "gemini" | "deepseek" | "grok" | "openrouter" | "mistral" | "runway">("openai")
   const [newModelApiKey, setNewModelApiKey] = useState("")
   const [newModelCustomName, setNewModelCustomName] = useState("")
@@ -474,8 +453,18 @@ export default function MainUI({
   const [error, setError] = useState<string | null>(null)
   const [editingConversationId, setEditingConversationId] = useState<string | null>(null)
   const [editingTitle, setEditingTitle] = useState("")
+  const [conversationSearch, setConversationSearch] = useState("") // Matches titles and summaries
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null)
   const [editingProjectName, setEditingProjectName] = useState("")
+  const [systemPromptOpen, setSystemPromptOpen] = useState(false)
+  const [conversationPromptDraft, setConversationPromptDraft] = useState("")
+  const [projectPromptDraft, setProjectPromptDraft] = useState("")
+  const [fallbackChainsDraft, setFallbackChainsDraft] = useState("")
+  const [customEndpointUrlDraft, setCustomEndpointUrlDraft] = useState("")
+  const [discoveredCustomModels, setDiscoveredCustomModels] = useState<string[]>([])
+  const [isDiscoveringCustomModels, setIsDiscoveringCustomModels] = useState(false)
+  const [customEndpointError, setCustomEndpointError] = useState<string | null>(null)
+  const [newCustomEndpointModel, setNewCustomEndpointModel] = useState("")
   const [draggedConversationId, setDraggedConversationId] = useState<string | null>(null)
   const [dragOverProjectId, setDragOverProjectId] = useState<string | null>(null)
   const [editingProvider, setEditingProvider] = useState<string | null>(null) // Track which provider is being edited
@@ -490,6 +479,20 @@ export default function MainUI({
   const [webSearchEnabled, setWebSearchEnabled] = useState(false)
   const [enhancedWebSearch, setEnhancedWebSearch] = useState(false)
   const [codeGenerationEnabled, setCodeGenerationEnabled] = useState(false)
+  // Compare mode: send each prompt to all of these models (active with two or more)
+  const [compareModelIds, setCompareModelIds] = useState<string[]>([])
+  // Decided comparisons the user has reopened
+  const [expandedComparisons, setExpandedComparisons] = useState<Record<string, boolean>>({})
+  // Version of a regenerated reply picked with the arrows, by index; unset shows the one in use
+  const [shownVersions, setShownVersions] = useState<Record<string, number>>({})
+  // Earlier question being rewritten in place; saving sends it as a new branch
+  const [editingMessage, setEditingMessage] = useState<{ id: string; content: string } | null>(null)
+  const [jsonSchemaOpen, setJsonSchemaOpen] = useState(false)
+  const [jsonSchemaDraft, setJsonSchemaDraft] = useState("")
+  const [jsonSchemaError, setJsonSchemaError] = useState<string | null>(null)
+  // Prompt template library; reopened with a search or a template from "/template <name>"
+  const [templateLibrary, setTemplateLibrary] = useState<{ query: string; templateId?: string } | null>(null)
+  const [knowledgeBaseProjectId, setKnowledgeBaseProjectId] = useState<string | null>(null)
   const [userLocation, setUserLocation] = useState<string | null>(null)
   const [locationPermission, setLocationPermission] = useState<"granted" | "denied" | "prompt">("prompt")
 
@@ -523,7 +526,7 @@ export default function MainUI({
             id: libraryModel.id,
             name: libraryModel.name,
             provider: 'openrouter' as const,
-            icon: getModelIcon('openrouter', libraryModel.id)
+            icon: getModelIcon(libraryModel.id)
           }
         }
         return null
@@ -536,37 +539,18 @@ export default function MainUI({
     }
   }, [userSettings.openrouterEnabled, openrouterSelectedModels, openrouterCustomModels, models])
 
-  // Comprehensive model library for display purposes (includes all models, not just available ones)
-  const allModelsLibrary: Model[] = [
-    // OpenAI Models
-    { id: "o3", name: "o3", icon: "O3", provider: "openai" },
-    { id: "gpt-4.5", name: "GPT-4.5", icon: "45", provider: "openai" },
-    { id: "gpt-4.1", name: "GPT-4.1", icon: "41", provider: "openai" },
-    { id: "gpt-4", name: "GPT-4", icon: "G4", provider: "openai" },
-    { id: "gpt-3.5-turbo", name: "GPT-3.5 Turbo", icon: "35", provider: "openai" },
-    
-    // Claude Models
-    { id: "claude-4-sonnet", name: "Claude 4 Sonnet", icon: "C4", provider: "claude" },
-    { id: "claude-3.5-opus", name: "Claude 3.5 Opus", icon: "CO", provider: "claude" },
-    { id: "claude-3.5-sonnet", name: "Claude 3.5 Sonnet", icon: "C3", provider: "claude" },
-    
-    // Gemini Models
-    { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", icon: "G2", provider: "gemini" },
-    { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", icon: "GP", provider: "gemini" },
-    { id: "veo2", name: "VEO 2", icon: "V2", provider: "veo2" },
-    
-    // DeepSeek Models
-    { id: "deepseek-v3", name: "DeepSeek V3", icon: "D3", provider: "deepseek" },
-    
-    // Grok Models
-    { id: "grok-3", name: "Grok 3", icon: "G3", provider: "grok" },
-    
-    // Mistral Models
-    { id: "mistral-large", name: "Mistral Large", icon: "ML", provider: "mistral" },
-    { id: "mistral-medium", name: "Mistral Medium", icon: "MM", provider: "mistral" },
-    { id: "mistral-small", name: "Mistral Small", icon: "MS", provider: "mistral" },
-    { id: "codestral", name: "Codestral", icon: "CS", provider: "mistral" }
-  ]
+  // Compare mode only counts models that are still available
+  const activeCompareModelIds = compareModelIds.filter(id => availableModels.some(model => model.id === id))
+  const isCompareMode = activeCompareModelIds.length >= 2
+  const MAX_COMPARE_MODELS = 4
+
+  const toggleCompareModel = (modelId: string) => {
+    setCompareModelIds(prev =>
+      prev.includes(modelId)
+        ? prev.filter(id => id !== modelId)
+        : [...prev, modelId].slice(-MAX_COMPARE_MODELS)
+    )
+  }
 
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const chatInputRef = useRef<HTMLTextAreaElement>(null)
@@ -578,10 +562,11 @@ export default function MainUI({
   const [isAtBottom, setIsAtBottom] = useState(true)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
 
-  // Check if current model supports web search
+  // Check if current model supports web search (as a tool, or via the Gemini/Grok prompt injection)
   const isWebSearchCompatible = () => {
     const currentModelData = availableModels.find(m => m.id === currentModel)
-    return currentModelData && (currentModelData.provider === "gemini" || currentModelData.provider === "grok")
+    if (!currentModelData) return false
+    return !!getModelDefinition(currentModelData.id)?.tools || currentModelData.provider === "gemini" || currentModelData.provider === "grok"
   }
 
   // Check if current model supports code generation (hide for VEO2 since it's a video model, and DeepSeek due to timeout issues)
@@ -699,12 +684,12 @@ export default function MainUI({
         body: formData,
       })
 
-      const result = await response.json()
-
       if (!response.ok) {
-        throw new Error(result.error || 'Upload failed')
+        throw new Error((await readApiError(response)).message)
       }
 
+      const result = parseApiResponse(uploadResponseSchema, await response.json())
+
       // Create a preview URL for images
       if (isImage) {
         result.file.previewUrl = URL.createObjectURL(file)
@@ -875,32 +860,196 @@ export default function MainUI({
     }
   };
 
+  const clearComposer = () => {
+    setInputValue("");
+    setAttachments([]);
+    setComposerNotice(null);
+
+    // Scroll to bottom after sending
+    setTimeout(() => {
+      if (messagesEndRef.current) {
+        messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
+      }
+    }, 100);
+  }
+
+  // Commands with a mode send one message in that mode (never as a comparison); the others act on the composer
+  const runSlashCommand = ({ command, argument }: ParsedSlashCommand) => {
+    if (command.requiresArgument && !argument) {
+      setComposerNotice(`/${command.name} needs ${command.argument}`)
+      return
+    }
+
+    if (command.mode) {
+      const searches = command.mode === "search" || command.mode === "deep"
+      onSendMessage(
+        argument,
+        attachments.length > 0 ? attachments : undefined,
+        searches,
+        command.mode === "code",
+        searches ? userLocation : null,
+        command.mode === "deep",
+        undefined,
+        command.mode
+      )
+      clearComposer()
+      return
+    }
+
+    if (command.name === "model") {
+      const query = argument.toLowerCase()
+      const model = availableModels.find(candidate => candidate.id.toLowerCase() === query) ||
+        availableModels.find(candidate => candidate.name.toLowerCase() === query)
+      if (!model) {
+        setComposerNotice(`No available model matches "${argument}"`)
+        return
+      }
+      onSelectModel(model.id)
+      setInputValue("")
+      setComposerNotice(null)
+      return
+    }
+
+    if (command.name === "system") {
+      if (currentConversation.id === "empty") {
+        setComposerNotice("Start a conversation before setting its system prompt")
+        return
+      }
+      if (argument) {
+        onUpdateConversationSystemPrompt?.(currentConversation.id, argument)
+      } else {
+        handleOpenSystemPrompt()
+      }
+      setInputValue("")
+      setComposerNotice(null)
+      return
+    }
+
+    if (command.name === "template") {
+      const name = argument.toLowerCase()
+      const template = name ? templatesInScope.find(candidate => candidate.name.toLowerCase() === name) : undefined
+      setInputValue("")
+      setComposerNotice(null)
+      if (template && getTemplateVariables(template).length === 0) {
+        handleInsertTemplate(template, {})
+      } else {
+        setTemplateLibrary({ query: template ? "" : argument, templateId: template?.id })
+      }
+    }
+  }
+
+  // Fill the composer from a template and apply its defaults; nothing is sent until the user does
+  const handleInsertTemplate = (template: PromptTemplate, values: Record<string, string>) => {
+    setInputValue(fillTemplate(template.content, values))
+    setComposerNotice(null)
+    setTemplateLibrary(null)
+
+    if (template.defaultModel && template.defaultModel !== currentModel) {
+      if (availableModels.some(model => model.id === template.defaultModel)) {
+        handleModelSelect(template.defaultModel)
+      } else {
+        setComposerNotice(`The template's model ${template.defaultModel} is not available; keeping ${getModelDisplayName(currentModel)}`)
+      }
+    }
+    // Web search and code generation are exclusive, as with the toolbar toggles
+    if (template.webSearchEnabled !== undefined) {
+      setWebSearchEnabled(template.webSearchEnabled)
+      setEnhancedWebSearch(template.webSearchEnabled)
+      if (template.webSearchEnabled) setCodeGenerationEnabled(false)
+    }
+    if (template.codeGenerationEnabled !== undefined) {
+      setCodeGenerationEnabled(template.codeGenerationEnabled)
+      if (template.codeGenerationEnabled) {
+        setWebSearchEnabled(false)
+        setEnhancedWebSearch(false)
+      }
+    }
+    if (template.systemPrompt) {
+      onApplyTemplateSystemPrompt(fillTemplate(template.systemPrompt, values))
+    }
+    setTimeout(() => chatInputRef.current?.focus(), 0)
+  }
+
   // Handle sending a message
   const handleSendMessage = () => {
+    if (isGenerating) return // One reply at a time; Stop ends the current one
     if (inputValue.trim() || attachments.length > 0) {
-      // Pass userLocation with the message when web search is enabled
-      onSendMessage(
-        inputValue, 
-        attachments.length > 0 ? attachments : undefined, 
-        webSearchEnabled, 
-        codeGenerationEnabled,
-        webSearchEnabled ? userLocation : null,
-        enhancedWebSearch // Pass enhanced search flag
-      );
-      setInputValue("");
-      setAttachments([]);
-      
-      // Scroll to bottom after sending
-      setTimeout(() => {
-        if (messagesEndRef.current) {
-          messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
-        }
-      }, 100);
+      const slashCommand = parseSlashCommand(inputValue.trim())
+      if (slashCommand) {
+        runSlashCommand(slashCommand)
+        return
+      }
+
+      if (isCompareMode) {
+        onCompareModels(
+          inputValue,
+          activeCompareModelIds,
+          attachments.length > 0 ? attachments : undefined,
+          webSearchEnabled,
+          webSearchEnabled ? userLocation : null,
+          enhancedWebSearch
+        );
+      } else {
+        // Pass userLocation with the message when web search is enabled
+        onSendMessage(
+          inputValue, 
+          attachments.length > 0 ? attachments : undefined, 
+          webSearchEnabled, 
+          codeGenerationEnabled,
+          webSearchEnabled ? userLocation : null,
+          enhancedWebSearch // Pass enhanced search flag
+        );
+      }
+      clearComposer();
     }
   }
 
+  // Personal templates plus those of the open conversation's project (or the selected one before it exists)
+  const templateProjectId = currentConversation.id === "empty" ? selectedProjectId : currentConversation.projectId ?? null
+  const templatesInScope = getTemplatesForProject(promptTemplates, templateProjectId)
+
+  // Autocomplete for "/" commands, for model IDs after "/model " and for template names after "/template "
+  const modelArgumentMatch = inputValue.match(/^\/model\s+(\S*)$/i)
+  const templateArgumentMatch = inputValue.match(/^\/template\s+(.*)$/i)
+  const composerSuggestions: Array<{ value: string; label: string; description: string }> = templateArgumentMatch
+    ? templatesInScope
+        .filter(template => template.name.toLowerCase().includes(templateArgumentMatch[1].trim().toLowerCase()))
+        .slice(0, 8)
+        .map(template => ({ value: `/template ${template.name}`, label: template.name, description: template.description || "Prompt template" }))
+    : modelArgumentMatch
+    ? availableModels
+        .filter(model => {
+          const query = modelArgumentMatch[1].toLowerCase()
+          return model.id.toLowerCase().includes(query) || model.name.toLowerCase().includes(query)
+        })
+        .slice(0, 8)
+        .map(model => ({ value: `/model ${model.id}`, label: model.id, description: model.name }))
+    : getSlashCommandSuggestions(inputValue).map(command => ({
+        value: `/${command.name} `,
+        label: `/${command.name} ${command.argument}`,
+        description: command.description
+      }))
+  const activeSuggestionIndex = Math.min(slashSuggestionIndex, Math.max(composerSuggestions.length - 1, 0))
+
   // Handle key press in input
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (composerSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        const step = e.key === "ArrowDown" ? 1 : -1
+        setSlashSuggestionIndex((activeSuggestionIndex + step + composerSuggestions.length) % composerSuggestions.length)
+        return
+      }
+      // Tab and Enter complete the highlighted entry; Enter on an already complete entry sends it
+      const suggestion = composerSuggestions[activeSuggestionIndex]
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && suggestion.value.trim() !== inputValue.trim())) {
+        e.preventDefault()
+        setInputValue(suggestion.value)
+        setSlashSuggestionIndex(0)
+        return
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault()
       handleSendMessage()
@@ -1580,6 +1729,8 @@ export default function MainUI({
       .replace(/`(.*?)`/g, '<code class="bg-muted px-1 py-0.5 rounded text-sm font-mono">$1</code>')
       // Handle web search results - convert numbered citations with actual links
       .replace(/\[(\d+)\]/g, '<a href="#source-$1" class="text-xs align-super bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 px-1 py-0.5 rounded-sm no-underline hover:bg-blue-200 dark:hover:bg-blue-900/50 transition-colors cursor-pointer" onclick="scrollToSource($1)">$1</a>')
+      // Project knowledge citations ([KB1]) link to the excerpts under the reply
+      .replace(/\[KB(\d+)\]/g, '<a href="#knowledge-source-$1" class="text-xs align-super bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400 px-1 py-0.5 rounded-sm no-underline hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors cursor-pointer">KB$1</a>')
       // Handle legacy source format  
       .replace(/\[source:\s*(\d+)]/g, '<a href="#source-$1" class="text-xs align-super bg-muted text-muted-foreground px-1 py-0.5 rounded-sm no-underline">$1</a>')
       // Enhanced markdown links handling - make them more prominent for citations
@@ -1757,6 +1908,8 @@ export default function MainUI({
   // Handle input change with auto-resize
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputValue(e.target.value)
+    setSlashSuggestionIndex(0)
+    setComposerNotice(null)
   }
 
   const handleStartProjectRename = (projectId: string, currentName: string) => {
@@ -1785,6 +1938,184 @@ export default function MainUI({
     }
   }
 
+  // System prompt editor for the current conversation and its project
+  const currentProject = currentConversation.projectId
+    ? projects.find(p => p.id === currentConversation.projectId)
+    : undefined
+
+  // Estimated share of the selected model's context window the next request will use
+  const currentModelDefinition = getModelDefinition(currentModel) || resolveModel(currentModel, "openrouter") || resolveModel(currentModel, "custom")
+  const contextUsage = currentModelDefinition && currentConversation.messages.length > 0
+    ? estimateContextUsage({
+        messages: currentConversation.messages.filter(msg => !msg.isError),
+        systemPrompt: [currentProject?.systemPrompt, currentConversation.systemPrompt].filter(Boolean).join("\n\n"),
+        summary: currentConversation.contextSummary,
+        contextWindow: currentModelDefinition.contextWindow
+      })
+    : null
+  const contextUsagePercent = contextUsage ? Math.min(100, Math.round((contextUsage.usedTokens / contextUsage.contextWindow) * 100)) : 0
+
+  const formatTokenCount = (tokens: number): string => {
+    if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1).replace(/\.0$/, "")}M`
+    if (tokens >= 1000) return `${(tokens / 1000).toFixed(1).replace(/\.0$/, "")}k`
+    return `${tokens}`
+  }
+
+  const handleOpenSystemPrompt = () => {
+    setConversationPromptDraft(currentConversation.systemPrompt || "")
+    setProjectPromptDraft(currentProject?.systemPrompt || "")
+    setSystemPromptOpen(true)
+  }
+
+  const handleSaveSystemPrompt = () => {
+    if (conversationPromptDraft !== (currentConversation.systemPrompt || "")) {
+      onUpdateConversationSystemPrompt?.(currentConversation.id, conversationPromptDraft)
+    }
+    if (currentProject && projectPromptDraft !== (currentProject.systemPrompt || "")) {
+      onUpdateProjectSystemPrompt?.(currentProject.id, projectPromptDraft)
+    }
+    setSystemPromptOpen(false)
+  }
+
+  // Fallback chains and the custom endpoint URL are edited as text and saved when the field loses focus
+  useEffect(() => {
+    if (settingsOpen) {
+      setFallbackChainsDraft(formatFallbackChains(userSettings.fallbackChains))
+      setCustomEndpointUrlDraft(userSettings.customEndpointUrl || "")
+    }
+  }, [settingsOpen])
+
+  const handleSaveFallbackChains = () => {
+    const fallbackChains = parseFallbackChains(fallbackChainsDraft)
+    setFallbackChainsDraft(formatFallbackChains(fallbackChains))
+    if (formatFallbackChains(fallbackChains) !== formatFallbackChains(userSettings.fallbackChains)) {
+      onSaveSettings({ ...userSettings, fallbackChains })
+    }
+  }
+
+  const handleSaveCustomEndpointUrl = () => {
+    const customEndpointUrl = customEndpointUrlDraft.trim()
+    if (customEndpointUrl !== (userSettings.customEndpointUrl || "")) {
+      onSaveSettings({ ...userSettings, customEndpointUrl })
+    }
+  }
+
+  // List the endpoint's models (GET {base}/v1/models) through our server, so servers without CORS work too
+  const handleDiscoverCustomModels = async () => {
+    const customEndpointUrl = customEndpointUrlDraft.trim()
+    setIsDiscoveringCustomModels(true)
+    setCustomEndpointError(null)
+    try {
+      const apiKey = userSettings.customEndpointApiKey || ""
+      const response = await fetch("/api/custom-models", {
+        method: "POST",
+        // A key kept in the vault is looked up by the route for the signed-in user
+        headers: { "Content-Type": "application/json", ...(isStoredApiKey(apiKey) ? await getAuthHeaders() : {}) },
+        body: JSON.stringify({ baseUrl: customEndpointUrl, apiKey: toRequestApiKey(apiKey) || "" })
+      })
+      if (!response.ok) {
+        throw new Error((await readApiError(response)).message)
+      }
+
+      const { models } = parseApiResponse(customModelsResponseSchema, await response.json())
+      setDiscoveredCustomModels(models)
+      if (models.length === 0) {
+        setCustomEndpointError("The endpoint did not list any models. Add model names by hand below.")
+      }
+      // The first discovery offers every model; later ones keep the user's choice
+      onSaveSettings({
+        ...userSettings,
+        customEndpointUrl,
+        customModels: userSettings.customModels?.length ? userSettings.customModels : models
+      })
+    } catch (error) {
+      console.error("Custom endpoint model discovery failed:", error)
+      setCustomEndpointError(error instanceof Error ? error.message : "Model discovery failed")
+    } finally {
+      setIsDiscoveringCustomModels(false)
+    }
+  }
+
+  const handleToggleCustomModel = (name: string) => {
+    const enabled = userSettings.customModels || []
+    onSaveSettings({
+      ...userSettings,
+      customModels: enabled.includes(name) ? enabled.filter(model => model !== name) : [...enabled, name]
+    })
+  }
+
+  // For servers that do not list their models
+  const handleAddCustomEndpointModel = () => {
+    const name = newCustomEndpointModel.trim()
+    const enabled = userSettings.customModels || []
+    if (name && !enabled.includes(name)) {
+      onSaveSettings({ ...userSettings, customModels: [...enabled, name] })
+    }
+    setNewCustomEndpointModel("")
+  }
+
+  // Thinking effort is remembered per model; models start at their catalog default
+  const currentReasoning = getModelDefinition(currentModel)?.reasoning
+  const pickedReasoningEffort = userSettings.reasoningEfforts?.[currentModel] || currentReasoning || "off"
+  // Models that always think run "off" at "low", so that is what they show
+  const thinkingRequired = !!getModelDefinition(currentModel)?.thinkingRequired
+  const currentReasoningEffort = thinkingRequired && pickedReasoningEffort === "off" ? "low" : pickedReasoningEffort
+  const reasoningEffortOptions = thinkingRequired
+    ? REASONING_EFFORT_OPTIONS.filter(option => option.value !== "off")
+    : REASONING_EFFORT_OPTIONS
+
+  const handleReasoningEffortChange = (effort: string) => {
+    onSaveSettings({
+      ...userSettings,
+      reasoningEfforts: { ...userSettings.reasoningEfforts, [currentModel]: effort as ReasoningEffort }
+    })
+  }
+
+  // Usage view totals, built from the messages already loaded
+  const usageReport = useMemo(() => buildUsageReport(conversations, projects), [conversations, projects])
+  const currentMonth = new Date().toISOString().slice(0, 7)
+
+  const formatUsageMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })
+
+  const renderUsageTable = (title: string, rows: Array<{ key: string; label: string; totals: UsageTotals }>) => {
+    if (rows.length === 0) return null
+    return (
+      <div className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+        <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-3">{title}</h4>
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.key} className="flex items-center justify-between gap-3 text-sm">
+              <span className="truncate text-gray-700 dark:text-gray-300">{row.label}</span>
+              <span className="flex-shrink-0 flex items-center gap-3 text-gray-500 dark:text-gray-400">
+                <span title="Input / output tokens">
+                  {formatTokenCount(row.totals.inputTokens)} / {formatTokenCount(row.totals.outputTokens)}
+                </span>
+                <span className="w-16 text-right font-medium text-gray-900 dark:text-gray-100">{formatCost(row.totals.costUsd)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const getModelDisplayName = (modelId: string) =>
+    getModelDefinition(modelId)?.name || (isCustomModelId(modelId) ? getCustomModelName(modelId) : modelId)
+
+  // e.g. "Answered by GPT-4.1 · Claude 4 Sonnet was rate limited"
+  const describeFallback = (fallback: FallbackInfo, answeredModel?: string) => {
+    const skipped = fallback.attempts
+      .map(attempt => `${getModelDisplayName(attempt.model)} ${describeFailoverReason(attempt.reason)}`)
+      .join(", ")
+    return `Answered by ${getModelDisplayName(answeredModel || "another model")} · ${skipped}`
+  }
+
+  // Close the editor when switching conversations so drafts never leak between them
+  useEffect(() => {
+    setSystemPromptOpen(false)
+  }, [currentConversation.id])
+
   // Drag and drop handlers for conversations
   const handleConversationDragStart = (e: React.DragEvent, conversationId: string) => {
     setDraggedConversationId(conversationId)
@@ -1964,101 +2295,541 @@ export default function MainUI({
     }
   }
 
-  // Add new function to handle OpenRouter model selection
-  const handleOpenrouterModelToggle = (modelId: string) => {
-    console.log("[DEBUG UI] Toggling OpenRouter model:", modelId);
-    
-    setOpenrouterSelectedModels(prev => {
-      if (prev.includes(modelId)) {
-        // If we're removing the currently selected model, we need to select another one
-        if (currentModel === modelId || userSettings.openrouterModelName === modelId) {
-          console.log("[DEBUG UI] Removing currently selected model");
-          // Find another model to select
-          const remainingModels = prev.filter(id => id !== modelId);
-          if (remainingModels.length > 0) {
-            const newModel = remainingModels[0];
-            console.log("[DEBUG UI] Auto-selecting new model:", newModel);
-            setTimeout(() => {
-              onSelectModel(newModel);
-              onSaveSettings({
-                ...userSettings,
-                openrouterModelName: newModel
-              });
-            }, 100);
-          }
-        }
-        return prev.filter(id => id !== modelId);
-      } else {
-        // If this is the first model being added or no model is currently selected, select this one
-        const newModels = [...prev, modelId];
-        if (!currentModel || !userSettings.openrouterModelName || prev.length === 0) {
-          console.log("[DEBUG UI] Auto-selecting newly added model:", modelId);
-          setTimeout(() => {
-            onSelectModel(modelId);
-            onSaveSettings({
-              ...userSettings,
-              openrouterModelName: modelId
-            });
-          }, 100);
-        }
-        return newModels;
-      }
-    });
+  const downloadFromUrl = (url: string, filename: string) => {
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
   }
 
-  // Add new function to handle custom model addition
-  const handleAddCustomModel = () => {
-    if (newCustomModel.id && newCustomModel.name) {
-      setOpenrouterCustomModels(prev => [...prev, newCustomModel])
-      setOpenrouterSelectedModels(prev => [...prev, newCustomModel.id])
-      setNewCustomModel({ id: '', name: '' })
+  const handleOpenJsonSchema = () => {
+    setJsonSchemaDraft(responseSchema ? JSON.stringify(responseSchema, null, 2) : "")
+    setJsonSchemaError(null)
+    setJsonSchemaOpen(true)
+  }
+
+  const handleApplyJsonSchema = () => {
+    let schema: unknown
+    try {
+      schema = JSON.parse(jsonSchemaDraft)
+    } catch {
+      setJsonSchemaError("Schema is not valid JSON")
+      return
+    }
+    const schemaError = getResponseSchemaError(schema)
+    if (schemaError) {
+      setJsonSchemaError(schemaError)
+      return
     }
+    onResponseSchemaChange(schema as JsonSchema)
+    setJsonSchemaOpen(false)
   }
 
-  // Update useEffect to initialize selected models from settings
-  useEffect(() => {
-    console.log("[DEBUG UI] OpenRouter enabled:", userSettings.openrouterEnabled);
-    console.log("[DEBUG UI] OpenRouter API key exists:", !!userSettings.openrouterApiKey);
-    console.log("[DEBUG UI] Current model:", currentModel);
-    
-    if (userSettings.openrouterEnabled) {
-      // If there's a saved model name, include it in the selected models
-      const defaultModels = [
-        "google/gemini-2.0-flash-001",
-        "anthropic/claude-4-sonnet-20250522",
-        "google/gemini-2.5-flash-preview-05-20",
-        "anthropic/claude-3.7-sonnet",
-        "openai/gpt-4.1-2025-04-14",
-        "openai/gpt-4o-mini",
-        "deepseek/deepseek-r1:free",
-        "meta-llama/llama-3.3-70b-instruct"
-        // Removed x-ai/grok-3-beta as it doesn't support images
-      ]
-      
-      console.log("[DEBUG UI] Default OpenRouter models:", defaultModels);
-      
-      // Start with the default models, and add the current model if it's not already included
-      const initialModels = new Set(defaultModels)
-      if (userSettings.openrouterModelName && !initialModels.has(userSettings.openrouterModelName)) {
-        initialModels.add(userSettings.openrouterModelName)
-        console.log("[DEBUG UI] Added saved model to selection:", userSettings.openrouterModelName);
-      }
-      
-      console.log("[DEBUG UI] Setting OpenRouter selected models:", Array.from(initialModels));
-      setOpenrouterSelectedModels(Array.from(initialModels))
-      
-      // If no model is currently selected, select the first one
-      if (!currentModel || !initialModels.has(currentModel)) {
-        const firstModel = Array.from(initialModels)[0]
-        if (firstModel) {
-          console.log("[DEBUG UI] Auto-selecting first model:", firstModel);
-          onSelectModel(firstModel)
-        }
-      }
+  const handleClearJsonSchema = () => {
+    onResponseSchemaChange(null)
+    setJsonSchemaOpen(false)
+  }
+
+  // Collapsible JSON tree; the first two levels start open
+  const renderJsonNode = (value: unknown, label: string | null, depth: number, path: string): React.ReactNode => {
+    const labelNode = label !== null && (
+      <span className="text-purple-600 dark:text-purple-400">{label}<span className="text-gray-500">: </span></span>
+    )
+
+    if (value && typeof value === "object") {
+      const entries = Array.isArray(value)
+        ? value.map((item, index) => [String(index), item] as const)
+        : Object.entries(value as Record<string, unknown>)
+      const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"]
+      const summary = Array.isArray(value) ? `${entries.length} items` : `${entries.length} keys`
+
+      return (
+        <details key={path} open={depth < 2} className={depth > 0 ? "pl-4" : ""}>
+          <summary className="cursor-pointer select-none">
+            {labelNode}
+            <span className="text-gray-500">{open}</span>
+            <span className="text-xs text-gray-400 ml-1">{summary}</span>
+          </summary>
+          {entries.map(([key, item]) => renderJsonNode(item, Array.isArray(value) ? null : key, depth + 1, `${path}.${key}`))}
+          <span className="text-gray-500">{close}</span>
+        </details>
+      )
     }
-  }, [userSettings.openrouterEnabled, userSettings.openrouterModelName, userSettings.openrouterApiKey, currentModel, onSelectModel])
 
-  // Update model selection handler
+    const valueClass = typeof value === "string" ? "text-emerald-600 dark:text-emerald-400"
+      : typeof value === "number" ? "text-blue-600 dark:text-blue-400"
+      : "text-orange-600 dark:text-orange-400"
+
+    return (
+      <div key={path} className={depth > 0 ? "pl-4" : ""}>
+        {labelNode}
+        <span className={valueClass}>{JSON.stringify(value)}</span>
+      </div>
+    )
+  }
+
+  const renderStructuredOutput = (message: Message) => {
+    const output = message.parts?.find((part): part is Extract<MessagePart, { type: "json" }> => part.type === "json")
+    if (!output) return null
+
+    const json = JSON.stringify(output.data, null, 2)
+    const handleDownload = () => {
+      const url = URL.createObjectURL(new Blob([json], { type: "application/json" }))
+      downloadFromUrl(url, `response-${message.id}.json`)
+      URL.revokeObjectURL(url)
+    }
+
+    return (
+      <div className="w-full max-w-3xl mx-auto rounded-lg border border-gray-200/30 dark:border-gray-700/30 bg-white/10 dark:bg-gray-800/30">
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200/30 dark:border-gray-700/30">
+          <span className="flex items-center gap-2 text-sm">
+            <Braces className="w-4 h-4 text-gray-500" />
+            {output.valid ? (
+              <span className="text-emerald-600 dark:text-emerald-400">Matches schema</span>
+            ) : (
+              <span className="text-amber-600 dark:text-amber-400" title={output.errors?.join("\n")}>
+                Does not match schema ({output.errors?.length || 0} {output.errors?.length === 1 ? "problem" : "problems"})
+              </span>
+            )}
+          </span>
+          {output.data !== null && (
+            <span className="flex items-center gap-1">
+              <button
+                onClick={() => navigator.clipboard.writeText(json)}
+                className="p-1.5 rounded hover:bg-black/10 dark:hover:bg-white/10 text-gray-500"
+                title="Copy JSON"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDownload}
+                className="p-1.5 rounded hover:bg-black/10 dark:hover:bg-white/10 text-gray-500"
+                title="Download JSON"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </span>
+          )}
+        </div>
+        {!output.valid && output.errors && output.errors.length > 0 && (
+          <ul className="px-3 pt-2 text-xs text-amber-600 dark:text-amber-400 list-disc list-inside">
+            {output.errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+        <div className="px-3 py-2 font-mono text-sm overflow-x-auto text-gray-800 dark:text-gray-200">
+          {output.data !== null ? renderJsonNode(output.data, null, 0, "$") : renderMessageContent(message)}
+        </div>
+      </div>
+    )
+  }
+
+  const describeToolCall = (call: ToolCall): string => {
+    const args = call.args as Record<string, any>
+    switch (call.name) {
+      case "web_search":
+        return `Searched the web for "${args.query || ""}"`
+      case "web_browse":
+        return `Read ${Array.isArray(args.urls) ? args.urls.map((url: string) => getHostnameFromUrl(url)).join(", ") : "web pages"}`
+      case "generate_image":
+        return "Generated an image"
+      case "generate_video":
+        return "Started a video generation"
+      case "remember":
+        return `Remembered "${args.fact || ""}"`
+      default:
+        return `Used ${call.name}`
+    }
+  }
+
+  // "< 2/3 >" between the versions of a turn created by editing or retrying
+  const renderBranchSwitcher = (message: Message) => {
+    if (!message.branch || message.branch.count < 2) return null
+    const { index, count } = message.branch
+
+    return (
+      <span className="inline-flex items-center gap-0.5 text-xs text-gray-500 dark:text-gray-400">
+        <button
+          onClick={() => onSwitchBranch(message.id, -1)}
+          disabled={index === 0 || isGenerating}
+          className="p-0.5 rounded hover:bg-gray-200/50 dark:hover:bg-gray-700/50 disabled:opacity-40 disabled:hover:bg-transparent"
+          title="Previous version"
+        >
+          <ChevronLeft className="w-3.5 h-3.5" />
+        </button>
+        <span className="tabular-nums">{index + 1}/{count}</span>
+        <button
+          onClick={() => onSwitchBranch(message.id, 1)}
+          disabled={index === count - 1 || isGenerating}
+          className="p-0.5 rounded hover:bg-gray-200/50 dark:hover:bg-gray-700/50 disabled:opacity-40 disabled:hover:bg-transparent"
+          title="Next version"
+        >
+          <ChevronRight className="w-3.5 h-3.5" />
+        </button>
+      </span>
+    )
+  }
+
+  // The version of a reply to display, when it is not the one in use
+  const getShownVersion = (message: Message): MessageVariant | undefined => {
+    if (!message.activeVariantId || shownVersions[message.id] === undefined) return undefined
+    const version = message.variants?.[shownVersions[message.id]]
+    return version && version.id !== message.activeVariantId ? version : undefined
+  }
+
+  const withShownVersion = (message: Message): Message => {
+    const version = getShownVersion(message)
+    return version ? { ...message, ...getVariantMessageFields(version), isError: version.isError, fallback: undefined, usage: version.usage } : message
+  }
+
+  // Show the newest version of a reply once it is asked for again; it streams into that slot
+  const regenerateMessage = (message: Message, modelId?: string, temperature?: number) => {
+    if (message.role === "assistant" && !message.isError) {
+      setShownVersions(prev => ({ ...prev, [message.id]: message.variants?.length || 1 }))
+    }
+    onRetryMessage(message.id, modelId, temperature)
+  }
+
+  // "< 2/3 >" between the versions of a regenerated reply, with "Use this version" for the one on screen
+  const renderVersionSwitcher = (message: Message) => {
+    const variants = message.variants || []
+    const activeIndex = variants.findIndex(variant => variant.id === message.activeVariantId)
+    const index = shownVersions[message.id] ?? activeIndex
+    const version = variants[index]
+    if (!version) return null
+
+    return (
+      <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span className="inline-flex items-center gap-0.5">
+          <button
+            onClick={() => setShownVersions(prev => ({ ...prev, [message.id]: index - 1 }))}
+            disabled={index === 0}
+            className="p-0.5 rounded hover:bg-gray-200/50 dark:hover:bg-gray-700/50 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Previous version"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <span className="tabular-nums">{index + 1}/{variants.length}</span>
+          <button
+            onClick={() => setShownVersions(prev => ({ ...prev, [message.id]: index + 1 }))}
+            disabled={index === variants.length - 1}
+            className="p-0.5 rounded hover:bg-gray-200/50 dark:hover:bg-gray-700/50 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Next version"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+        </span>
+        <span>
+          {[
+            getModelDisplayName(version.model),
+            version.temperature !== undefined ? `temperature ${version.temperature}` : ""
+          ].filter(Boolean).join(" · ")}
+        </span>
+        {version.isStreaming ? (
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />
+        ) : index === activeIndex ? (
+          <span className="flex items-center gap-1 text-purple-700 dark:text-purple-300">
+            <Check className="w-3 h-3" />
+            In use
+          </span>
+        ) : !version.isError && (
+          <button
+            onClick={() => {
+              onSelectVariant(message.id, version.id)
+              setShownVersions(prev => ({ ...prev, [message.id]: index }))
+            }}
+            disabled={isGenerating}
+            className="px-2 py-1 rounded-md font-medium hover:bg-gray-200/40 dark:hover:bg-gray-700/40 text-gray-600 dark:text-gray-300 disabled:opacity-50 transition-colors"
+          >
+            Use this version
+          </button>
+        )}
+        <button
+          onClick={() => setExpandedComparisons(prev => ({ ...prev, [message.id]: true }))}
+          className="flex items-center gap-1.5 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          <Columns3 className="w-3.5 h-3.5" />
+          Compare all
+        </button>
+      </div>
+    )
+  }
+
+  const handleSubmitEdit = () => {
+    if (!editingMessage) return
+    const original = currentConversation.messages.find(msg => msg.id === editingMessage.id)
+    const content = editingMessage.content.trim()
+    setEditingMessage(null)
+    if (!content || content === original?.content) return
+    onEditMessage(editingMessage.id, content)
+  }
+
+  // Thinking of reasoning models; open while the answer has not started yet
+  const renderReasoning = (message: Message) => {
+    const reasoning = (message.parts || [])
+      .flatMap(part => part.type === "reasoning" ? [part.text] : [])
+      .join("\n\n")
+      .trim()
+    if (!reasoning) return null
+
+    return (
+      <details
+        open={!message.content}
+        className="mb-4 w-full max-w-3xl mx-auto rounded-lg border border-gray-200/30 dark:border-gray-700/30 bg-white/10 dark:bg-gray-800/30"
+      >
+        <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none text-sm text-gray-600 dark:text-gray-300">
+          <Brain className="w-4 h-4 flex-shrink-0" />
+          Thinking
+        </summary>
+        <div className="px-3 pb-3 max-h-80 overflow-y-auto whitespace-pre-wrap text-sm text-gray-500 dark:text-gray-400">
+          {reasoning}
+        </div>
+      </details>
+    )
+  }
+
+  // Render the tool calls of an assistant reply, with generated media inline
+  const renderToolParts = (message: Message) => {
+    const calls = (message.parts || []).filter((part): part is Extract<MessagePart, { type: "tool-call" }> => part.type === "tool-call")
+    if (calls.length === 0) return null
+
+    const results = new Map<string, ToolResult>()
+    message.parts?.forEach(part => {
+      if (part.type === "tool-result") results.set(part.id, part)
+    })
+
+    return (
+      <div className="mb-4 w-full max-w-3xl mx-auto space-y-2">
+        {calls.map((call) => {
+          const result = results.get(call.id)
+          const data = (result?.data || {}) as Record<string, any>
+          const ToolIcon = call.name === "web_search" || call.name === "web_browse" ? Globe
+            : call.name === "generate_image" ? FileImage
+            : call.name === "generate_video" ? Video
+            : call.name === "remember" ? Bookmark
+            : Wrench
+
+          return (
+            <div key={call.id} className="space-y-3">
+              <div
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm ${
+                  result?.isError
+                    ? "border-red-300/40 bg-red-50/40 dark:bg-red-900/10 text-red-600 dark:text-red-400"
+                    : "border-gray-200/30 dark:border-gray-700/30 bg-white/10 dark:bg-gray-800/30 text-gray-600 dark:text-gray-300"
+                }`}
+                title={result?.isError ? result.content : undefined}
+              >
+                {result ? <ToolIcon className="w-4 h-4 flex-shrink-0" /> : <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />}
+                <span className="truncate">{describeToolCall(call)}</span>
+                {result?.isError && <AlertCircle className="w-4 h-4 ml-auto flex-shrink-0" />}
+              </div>
+
+              {call.name === "generate_image" && !result?.isError && (result ? data.imageUrl : true) && (
+                <ImagePreview
+                  imageUrl={data.imageUrl}
+                  prompt={data.prompt || (call.args as Record<string, any>).prompt}
+                  isGenerating={!result}
+                  provider={data.provider}
+                  imageTitle="Generated Image"
+                  onDownload={downloadFromUrl}
+                  onError={(error) => console.error('Image Preview Error:', error)}
+                />
+              )}
+
+              {call.name === "generate_video" && !result?.isError && data.operationName && (
+                <VideoPreview
+                  key={`video-${message.id}-${data.operationName}`}
+                  prompt={data.prompt}
+                  isGenerating={true}
+                  operationName={data.operationName}
+                  apiKey={userSettings.veo2ApiKey || userSettings.geminiApiKey || undefined}
+                  videoTitle="VEO2 Generated Video"
+                  onDownload={downloadFromUrl}
+                  onError={(error) => console.error('VEO2 Video Error:', error)}
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const formatLatency = (ms: number): string => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+
+  // Compare-mode answers side by side; picking one makes it the reply the thread continues from
+  const renderVariantComparison = (message: Message) => {
+    return (
+      <div className="w-full flex flex-col md:flex-row gap-4 overflow-x-auto">
+        {(message.variants || []).map((variant, index) => {
+          const isSelected = message.activeVariantId === variant.id
+          const variantMessage: Message = {
+            ...message,
+            ...getVariantMessageFields(variant),
+            isError: variant.isError,
+            variants: undefined
+          }
+
+          return (
+            <div
+              key={variant.id}
+              className={`flex-1 min-w-[260px] flex flex-col rounded-xl border p-4 ${
+                isSelected
+                  ? "border-purple-500/60 bg-purple-500/5"
+                  : "border-gray-200/30 dark:border-gray-700/30 bg-white/5 dark:bg-gray-800/20"
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-3 pb-2 border-b border-gray-200/30 dark:border-gray-700/30">
+                <ModelLogo provider={variant.provider as ModelProvider} modelId={variant.model} size="sm" />
+                <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                  {getModelDisplayName(variant.model)}
+                </span>
+                {variant.isStreaming && <Loader2 className="w-3.5 h-3.5 ml-auto animate-spin text-gray-400" />}
+                {variant.interrupted && (
+                  <span className="ml-auto flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                    <CircleSlash className="w-3 h-3" />
+                    Interrupted
+                  </span>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                {renderReasoning(variantMessage)}
+                {renderToolParts(variantMessage)}
+                {variant.content
+                  ? renderMessageContent(variantMessage)
+                  : variant.isStreaming && <span className="text-sm text-gray-400">Waiting for response...</span>}
+              </div>
+
+              <div className="flex items-center justify-between gap-2 mt-3 pt-2 border-t border-gray-200/30 dark:border-gray-700/30 text-xs text-gray-500 dark:text-gray-400">
+                <span>
+                  {[
+                    variant.latencyMs !== undefined ? formatLatency(variant.latencyMs) : "",
+                    variant.outputTokens ? `${variant.usage ? "" : "~"}${variant.outputTokens.toLocaleString()} tokens` : "",
+                    variant.usage && variant.usage.costUsd !== null ? formatCost(variant.usage.costUsd) : ""
+                  ].filter(Boolean).join(" · ")}
+                </span>
+                {!variant.isStreaming && !variant.isError && (
+                  <button
+                    onClick={() => {
+                      onSelectVariant(message.id, variant.id)
+                      setShownVersions(prev => ({ ...prev, [message.id]: index }))
+                      setExpandedComparisons(prev => ({ ...prev, [message.id]: false }))
+                    }}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium transition-colors ${
+                      isSelected
+                        ? "bg-purple-500/15 text-purple-700 dark:text-purple-300"
+                        : "hover:bg-gray-200/40 dark:hover:bg-gray-700/40 text-gray-600 dark:text-gray-300"
+                    }`}
+                  >
+                    {isSelected && <Check className="w-3 h-3" />}
+                    {isSelected ? "Selected" : "Use this answer"}
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  // Add new function to handle OpenRouter model selection
+  const handleOpenrouterModelToggle = (modelId: string) => {
+    console.log("[DEBUG UI] Toggling OpenRouter model:", modelId);
+    
+    setOpenrouterSelectedModels(prev => {
+      if (prev.includes(modelId)) {
+        // If we're removing the currently selected model, we need to select another one
+        if (currentModel === modelId || userSettings.openrouterModelName === modelId) {
+          console.log("[DEBUG UI] Removing currently selected model");
+          // Find another model to select
+          const remainingModels = prev.filter(id => id !== modelId);
+          if (remainingModels.length > 0) {
+            const newModel = remainingModels[0];
+            console.log("[DEBUG UI] Auto-selecting new model:", newModel);
+            setTimeout(() => {
+              onSelectModel(newModel);
+              onSaveSettings({
+                ...userSettings,
+                openrouterModelName: newModel
+              });
+            }, 100);
+          }
+        }
+        return prev.filter(id => id !== modelId);
+      } else {
+        // If this is the first model being added or no model is currently selected, select this one
+        const newModels = [...prev, modelId];
+        if (!currentModel || !userSettings.openrouterModelName || prev.length === 0) {
+          console.log("[DEBUG UI] Auto-selecting newly added model:", modelId);
+          setTimeout(() => {
+            onSelectModel(modelId);
+            onSaveSettings({
+              ...userSettings,
+              openrouterModelName: modelId
+            });
+          }, 100);
+        }
+        return newModels;
+      }
+    });
+  }
+
+  // Add new function to handle custom model addition
+  const handleAddCustomModel = () => {
+    if (newCustomModel.id && newCustomModel.name) {
+      setOpenrouterCustomModels(prev => [...prev, newCustomModel])
+      setOpenrouterSelectedModels(prev => [...prev, newCustomModel.id])
+      setNewCustomModel({ id: '', name: '' })
+    }
+  }
+
+  // Update useEffect to initialize selected models from settings
+  useEffect(() => {
+    console.log("[DEBUG UI] OpenRouter enabled:", userSettings.openrouterEnabled);
+    console.log("[DEBUG UI] OpenRouter API key exists:", !!userSettings.openrouterApiKey);
+    console.log("[DEBUG UI] Current model:", currentModel);
+    
+    if (userSettings.openrouterEnabled) {
+      // If there's a saved model name, include it in the selected models
+      const defaultModels = [
+        "google/gemini-2.0-flash-001",
+        "anthropic/claude-4-sonnet-20250522",
+        "google/gemini-2.5-flash-preview-05-20",
+        "anthropic/claude-3.7-sonnet",
+        "openai/gpt-4.1-2025-04-14",
+        "openai/gpt-4o-mini",
+        "deepseek/deepseek-r1:free",
+        "meta-llama/llama-3.3-70b-instruct"
+        // Removed x-ai/grok-3-beta as it doesn't support images
+      ]
+      
+      console.log("[DEBUG UI] Default OpenRouter models:", defaultModels);
+      
+      // Start with the default models, and add the current model if it's not already included
+      const initialModels = new Set(defaultModels)
+      if (userSettings.openrouterModelName && !initialModels.has(userSettings.openrouterModelName)) {
+        initialModels.add(userSettings.openrouterModelName)
+        console.log("[DEBUG UI] Added saved model to selection:", userSettings.openrouterModelName);
+      }
+      
+      console.log("[DEBUG UI] Setting OpenRouter selected models:", Array.from(initialModels));
+      setOpenrouterSelectedModels(Array.from(initialModels))
+      
+      // If no model is currently selected, select the first one
+      if (!currentModel || !initialModels.has(currentModel)) {
+        const firstModel = Array.from(initialModels)[0]
+        if (firstModel) {
+          console.log("[DEBUG UI] Auto-selecting first model:", firstModel);
+          onSelectModel(firstModel)
+        }
+      }
+    }
+  }, [userSettings.openrouterEnabled, userSettings.openrouterModelName, userSettings.openrouterApiKey, currentModel, onSelectModel])
+
+  // Update model selection handler
   const handleModelSelect = (modelId: string) => {
     console.log("[DEBUG UI] Model selected:", modelId);
     console.log("[DEBUG UI] OpenRouter enabled:", userSettings.openrouterEnabled);
@@ -2233,7 +3004,20 @@ export default function MainUI({
                     </button>
                   </div>
 
-
+                  {conversations.length > 0 && (
+                    <div className="relative mt-1 px-2">
+                      <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+                      <input
+                        type="text"
+                        value={conversationSearch}
+                        onChange={(e) => setConversationSearch(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Escape") setConversationSearch("") }}
+                        placeholder="Search conversations"
+                        aria-label="Search conversations"
+                        className="w-full pl-7 pr-2 py-1.5 text-xs rounded-lg bg-white/40 dark:bg-gray-800/40 border border-gray-200/20 dark:border-gray-700/20 text-gray-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                      />
+                    </div>
+                  )}
 
                   <div className="mt-2 space-y-1">
                     {conversations.length === 0 ? (
@@ -2244,6 +3028,7 @@ export default function MainUI({
                     ) : (
                                             conversations
                         .filter(conv => !projects.some(proj => proj.conversations.includes(conv.id))) // Only show unorganized conversations
+                        .filter(conv => matchesConversationSearch(conv, conversationSearch))
                         .map((conversation) => (
                                               <div
                           key={conversation.id}
@@ -2278,7 +3063,7 @@ export default function MainUI({
                             ) : (
                               <div 
                                 className="font-medium text-gray-800 dark:text-[#f0f0f0] truncate cursor-pointer"
-                                title="Double-click to rename conversation"
+                                title={conversation.summary ? `${conversation.summary}\n\nDouble-click to rename conversation` : "Double-click to rename conversation"}
                                 onDoubleClick={(e) => {
                                   e.stopPropagation();
                                   handleStartRename(conversation.id, conversation.title);
@@ -2406,6 +3191,16 @@ export default function MainUI({
                             </div>
                             
                             <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  setKnowledgeBaseProjectId(project.id)
+                                }}
+                                className="p-1 text-gray-400 hover:text-purple-500 transition-colors"
+                                title="Knowledge base"
+                              >
+                                <Library className="w-3 h-3" />
+                              </button>
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation()
@@ -2425,7 +3220,7 @@ export default function MainUI({
                             <div className="ml-6 pb-2 space-y-1 border-l-2 border-gray-200/30 dark:border-gray-600/15 pl-2">
                               {project.conversations.map((convId) => {
                                 const conv = conversations.find((c) => c.id === convId)
-                                if (!conv) return null
+                                if (!conv || !matchesConversationSearch(conv, conversationSearch)) return null
 
                                 return (
                                   <div
@@ -2461,7 +3256,7 @@ export default function MainUI({
                                         ) : (
                                           <div 
                                             className="font-medium text-gray-800 dark:text-gray-200 truncate"
-                                            title="Double-click to rename conversation"
+                                            title={conv.summary ? `${conv.summary}\n\nDouble-click to rename conversation` : "Double-click to rename conversation"}
                                             onDoubleClick={(e) => {
                                               e.stopPropagation();
                                               handleStartRename(conv.id, conv.title);
@@ -2590,6 +3385,111 @@ export default function MainUI({
         {/* Main Chat Panel */}
         <main className="flex-1 flex flex-col overflow-hidden">
 
+          {/* Chat Header */}
+          {currentConversation.id !== "empty" && (
+            <div className={`flex items-center justify-between gap-2 h-[60px] border-b border-gray-300 dark:border-gray-600/20 bg-white dark:bg-[#2b2b2b] ${isMobile ? "px-16" : sidebarOpen ? "px-4" : "pl-16 pr-4"}`}>
+              <div className="min-w-0">
+                <h2 className="font-semibold text-gray-800 dark:text-[#f0f0f0] truncate">
+                  {currentConversation.title}
+                </h2>
+                {(currentConversation.systemPrompt || currentProject?.systemPrompt) && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {currentConversation.systemPrompt || currentProject?.systemPrompt}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                {contextUsage && (
+                  <div
+                    className="hidden sm:flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400"
+                    title={`About ${contextUsage.usedTokens.toLocaleString()} of ${contextUsage.contextWindow.toLocaleString()} tokens in use${
+                      currentConversation.contextSummary ? " (older messages are summarized)" : ""
+                    }. Older messages are summarized automatically when the window fills up.`}
+                  >
+                    <div className="w-16 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${
+                          contextUsagePercent >= 90 ? "bg-red-500" : contextUsagePercent >= 60 ? "bg-amber-500" : "bg-green-500"
+                        }`}
+                        style={{ width: `${Math.max(contextUsagePercent, 2)}%` }}
+                      />
+                    </div>
+                    <span>~{formatTokenCount(contextUsage.usedTokens)} / {formatTokenCount(contextUsage.contextWindow)}</span>
+                  </div>
+                )}
+                <button
+                  onClick={() => (systemPromptOpen ? setSystemPromptOpen(false) : handleOpenSystemPrompt())}
+                  className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-colors flex-shrink-0 ${
+                    systemPromptOpen || currentConversation.systemPrompt || currentProject?.systemPrompt
+                      ? "bg-purple-500/15 text-purple-700 dark:text-purple-300"
+                      : "text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40"
+                  }`}
+                  title="Edit system prompt"
+                >
+                  <ScrollText className="w-4 h-4" />
+                  <span className="hidden sm:inline">System prompt</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* System Prompt Editor */}
+          <AnimatePresence>
+            {systemPromptOpen && currentConversation.id !== "empty" && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2 }}
+                className="overflow-hidden border-b border-gray-300 dark:border-gray-600/20 bg-gray-50 dark:bg-[#262626]"
+              >
+                <div className="p-4 space-y-3 max-w-3xl mx-auto">
+                  {currentProject && (
+                    <div className="space-y-1">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Project instructions ({currentProject.name})
+                      </label>
+                      <textarea
+                        value={projectPromptDraft}
+                        onChange={(e) => setProjectPromptDraft(e.target.value)}
+                        placeholder="Applies to every conversation in this project"
+                        rows={3}
+                        className="w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-[#2b2b2b] border border-gray-200 dark:border-gray-600/30 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-y"
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Conversation instructions
+                    </label>
+                    <textarea
+                      value={conversationPromptDraft}
+                      onChange={(e) => setConversationPromptDraft(e.target.value)}
+                      placeholder="e.g. You are a concise assistant that answers in British English"
+                      rows={3}
+                      className="w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-[#2b2b2b] border border-gray-200 dark:border-gray-600/30 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-y"
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setSystemPromptOpen(false)}
+                      className="px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveSystemPrompt}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                      Save
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Error Alert */}
           <AnimatePresence>
             {error && (
@@ -2632,7 +3532,7 @@ export default function MainUI({
                 </div>
               </div>
             ) : (
-              currentConversation.messages.map((message) => (
+              currentConversation.messages.map(withShownVersion).map((message) => (
               <motion.div
                 key={message.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -2697,8 +3597,82 @@ export default function MainUI({
                     </div>
                   )}
                   
-                  {/* Message content */}
-                  {message.content ? renderMessageContent(message) : null}
+                  {editingMessage?.id === message.id ? (
+                    /* Editing an earlier question */
+                    <div className="space-y-2 min-w-[16rem]">
+                      <textarea
+                        value={editingMessage.content}
+                        onChange={(e) => setEditingMessage({ id: message.id, content: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault()
+                            handleSubmitEdit()
+                          } else if (e.key === "Escape") {
+                            setEditingMessage(null)
+                          }
+                        }}
+                        rows={Math.min(10, Math.max(2, editingMessage.content.split("\n").length))}
+                        autoFocus
+                        className="w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-[#2b2b2b] border border-gray-200 dark:border-gray-600/30 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-y"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setEditingMessage(null)}
+                          className="px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSubmitEdit}
+                          disabled={isGenerating}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                        >
+                          <Send className="w-4 h-4" />
+                          Send
+                        </button>
+                      </div>
+                    </div>
+                  ) : message.variants && message.variants.length > 1 && (!message.activeVariantId || expandedComparisons[message.id]) ? (
+                    /* Model comparison */
+                    renderVariantComparison(message)
+                  ) : (
+                    <>
+                      {/* Reasoning and tool activity */}
+                      {message.role === "assistant" && renderReasoning(message)}
+                      {message.role === "assistant" && renderToolParts(message)}
+
+                      {/* Message content */}
+                      {message.parts?.some(part => part.type === "json")
+                        ? renderStructuredOutput(message)
+                        : message.content ? renderMessageContent(message) : null}
+
+                      {/* Decided comparison or regenerated reply */}
+                      {message.variants && message.variants.length > 1 && renderVersionSwitcher(message)}
+
+                      {/* Fallback model answered */}
+                      {message.role === "assistant" && message.fallback && message.fallback.attempts.length > 0 && (
+                        <div
+                          className="mt-3 flex justify-center"
+                          title={message.fallback.attempts.map(attempt => `${attempt.model}: ${attempt.message}`).join("\n")}
+                        >
+                          <span className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+                            <Shuffle className="w-3.5 h-3.5" />
+                            {describeFallback(message.fallback, message.model)}
+                          </span>
+                        </div>
+                      )}
+
+                      {/* Stopped by the user */}
+                      {message.role === "assistant" && message.interrupted && (
+                        <div className="mt-3 flex justify-center">
+                          <span className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                            <CircleSlash className="w-3.5 h-3.5" />
+                            Interrupted
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  )}
 
                   {/* Web Search Results Sources */}
                   {message.searchResults && message.searchResults.length > 0 && (
@@ -2755,11 +3729,70 @@ export default function MainUI({
                     </div>
                   )}
 
+                  {/* Project Knowledge Base Sources */}
+                  {message.knowledgeSources && message.knowledgeSources.length > 0 && (
+                    <div className={`mt-4 pt-4 border-t border-gray-200/30 dark:border-gray-700/30 ${message.role === "assistant" ? "w-full max-w-4xl mx-auto" : ""}`}>
+                      <div className={`flex items-center gap-2 mb-2 ${message.role === "assistant" ? "justify-center" : ""}`}>
+                        <Library className="w-4 h-4 text-purple-500" />
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Project Knowledge</span>
+                      </div>
+                      <div className={`space-y-3 ${message.role === "assistant" ? "flex flex-col items-center" : ""}`}>
+                        {message.knowledgeSources.map((source, index) => (
+                          <div
+                            key={`knowledge-${source.documentId}-${source.chunkIndex}`}
+                            id={`knowledge-source-${index + 1}`}
+                            className={`
+                              p-3 rounded-lg border border-gray-200/30 dark:border-gray-700/30
+                              ${message.role === "assistant"
+                                ? "bg-white/10 dark:bg-gray-800/30 w-full max-w-3xl"
+                                : "bg-white/10 dark:bg-gray-800/30"}
+                            `}
+                          >
+                            <div className="flex items-start">
+                              <span className="inline-flex items-center justify-center h-5 px-1.5 text-xs font-medium bg-purple-100 dark:bg-purple-900/50 text-purple-600 dark:text-purple-400 rounded-full mr-2 flex-shrink-0">
+                                KB{index + 1}
+                              </span>
+                              <div className="flex-1 min-w-0">
+                                <div className="font-medium text-gray-800 dark:text-gray-200 truncate">{source.documentName}</div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center mt-1">
+                                  <FileText className="w-3 h-3 mr-1" />
+                                  <span>Passage {source.chunkIndex + 1}</span>
+                                </div>
+                              </div>
+                            </div>
+                            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 line-clamp-3">
+                              {source.content}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* What to do about the failure, by error code */}
+                  {message.isError && message.errorCode && (
+                    <div className="mt-2 text-xs text-red-600/80 dark:text-red-400/80">
+                      {API_ERROR_HINTS[message.errorCode]}
+                    </div>
+                  )}
+
                   {/* Retry button for error messages */}
                   {message.isError && message.retryData && (
-                    <div className="mt-3 pt-3">
+                    <div className="mt-3 pt-3 flex gap-2">
+                      {(message.errorCode === "auth" || message.errorCode === "quota") && (
+                        <button
+                          onClick={() => {
+                            setSettingsTab("models")
+                            setSettingsOpen(true)
+                          }}
+                          className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-500/10 hover:bg-gray-500/20 border border-gray-500/30 rounded-lg text-gray-700 dark:text-gray-300 transition-colors"
+                        >
+                          <Settings className="w-4 h-4" />
+                          Open Settings
+                        </button>
+                      )}
                       <button
-                        onClick={() => onRetryMessage(message.id, currentModel)}
+                        onClick={() => regenerateMessage(message, currentModel)}
                         className="flex items-center gap-2 px-3 py-2 text-sm bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded-lg text-red-600 dark:text-red-400 transition-colors"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -2772,11 +3805,23 @@ export default function MainUI({
                   
                   <div
                     className={`
-                    text-xs mt-2 
-                    ${message.role === "user" ? "text-gray-600 dark:text-gray-300" : "text-gray-500 dark:text-gray-400"}
+                    flex items-center gap-2 text-xs mt-2 
+                    ${message.role === "user" ? "justify-end text-gray-600 dark:text-gray-300" : "text-gray-500 dark:text-gray-400"}
                   `}
                   >
-                    {new Date(message.timestamp).toLocaleTimeString()}
+                    {renderBranchSwitcher(message)}
+                    <span>{new Date(message.timestamp).toLocaleTimeString()}</span>
+                    {/* Edit an earlier question; the answer goes on a new branch */}
+                    {message.role === "user" && editingMessage?.id !== message.id && (
+                      <button
+                        onClick={() => setEditingMessage({ id: message.id, content: message.content })}
+                        disabled={isGenerating}
+                        className="p-0.5 rounded hover:bg-gray-200/50 dark:hover:bg-gray-700/50 disabled:opacity-40"
+                        title="Edit message"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                    )}
                   </div>
 
                   {/* Model icon and name for assistant messages - moved to end */}
@@ -2814,12 +3859,12 @@ export default function MainUI({
                                 const model = availableModels.find(m => m.id === message.model);
                                 if (model) return model.name;
                                 
-                                // If not found in available models, try the comprehensive library
-                                const libraryModel = allModelsLibrary.find(m => m.id === message.model);
+                                // If not found in available models, try the model catalog
+                                const libraryModel = getModelDefinition(message.model);
                                 if (libraryModel) return libraryModel.name;
                                 
-                                // If still not found, return the model ID as is
-                                return message.model;
+                                // If still not found, show the model ID (custom endpoint models without their prefix)
+                                return getModelDisplayName(message.model);
                               }
                               
                               // Fallback to provider name if no model specified
@@ -2833,7 +3878,8 @@ export default function MainUI({
                                   openrouter: "OpenRouter",
                                   veo2: "VEO 2",
                                   mistral: "Mistral",
-                                  runway: "RunwayML"
+                                  runway: "RunwayML",
+                                  custom: "Custom Endpoint"
                                 };
                                 return providerNames[message.provider as Model['provider']] || message.provider;
                               }
@@ -2846,7 +3892,7 @@ export default function MainUI({
                             <DropdownMenuTrigger asChild>
                               <button
                                 className="p-1 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
-                                title="Retry original message with this model"
+                                title="Regenerate this answer"
                               >
                                 <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-500 dark:text-gray-400">
                                   <path d="M21 12a9 9 0 1 1-9-9c2.52 0 4.93 1 6.74 2.74L21 8" />
@@ -2857,7 +3903,7 @@ export default function MainUI({
                             
                             <DropdownMenuContent align="start" className="min-w-[200px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
                               <DropdownMenuLabel className="text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800">
-                                Retry original message with:
+                                Regenerate with:
                               </DropdownMenuLabel>
                               <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
                               
@@ -2888,7 +3934,7 @@ export default function MainUI({
                                     await new Promise(resolve => setTimeout(resolve, 50));
                                     
                                     // Then retry the message with the explicitly selected model
-                                    onRetryMessage(message.id, model.id);
+                                    regenerateMessage(message, model.id);
                                   }}
                                   className="flex items-center gap-2 bg-white hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700"
                                 >
@@ -2896,6 +3942,27 @@ export default function MainUI({
                                   <span className="text-gray-700 dark:text-gray-300">{model.name}</span>
                                 </DropdownMenuItem>
                               ))}
+
+                              {message.model && (
+                                <>
+                                  <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
+                                  <DropdownMenuLabel className="text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800">
+                                    Same model, temperature:
+                                  </DropdownMenuLabel>
+                                  {REGENERATE_TEMPERATURES.map((temperature) => (
+                                    <DropdownMenuItem
+                                      key={temperature}
+                                      onSelect={() => regenerateMessage(message, message.model, temperature)}
+                                      className="flex items-center justify-between gap-2 bg-white hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700"
+                                    >
+                                      <span className="text-gray-700 dark:text-gray-300">{temperature}</span>
+                                      {temperature === userSettings.temperature && (
+                                        <span className="text-xs text-gray-500 dark:text-gray-400">Settings</span>
+                                      )}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </div>
@@ -3032,9 +4099,99 @@ export default function MainUI({
               </div>
             )}
 
+            {/* Prompt Templates */}
+            {templateLibrary && (
+              <div className="flex justify-center w-full mb-3">
+                <PromptTemplateLibrary
+                  key={`${templateLibrary.query}:${templateLibrary.templateId || ""}`}
+                  templates={promptTemplates}
+                  projects={projects.map(project => ({ id: project.id, name: project.name }))}
+                  projectId={templateProjectId}
+                  models={availableModels.map(model => ({ id: model.id, name: model.name }))}
+                  initialQuery={templateLibrary.query}
+                  initialTemplateId={templateLibrary.templateId}
+                  onInsert={handleInsertTemplate}
+                  onCreate={onCreatePromptTemplates}
+                  onUpdate={onUpdatePromptTemplate}
+                  onDelete={onDeletePromptTemplate}
+                  onClose={() => setTemplateLibrary(null)}
+                />
+              </div>
+            )}
+
+            {/* JSON Output Schema */}
+            {jsonSchemaOpen && (
+              <div className="flex justify-center w-full mb-3">
+                <div className="w-full max-w-3xl p-3 space-y-2 rounded-xl border border-gray-200/20 dark:border-gray-700/20 bg-white/20 dark:bg-gray-800/40">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Response schema (JSON Schema)
+                  </label>
+                  <textarea
+                    value={jsonSchemaDraft}
+                    onChange={(e) => setJsonSchemaDraft(e.target.value)}
+                    placeholder={'{\n  "type": "object",\n  "properties": { "name": { "type": "string" } },\n  "required": ["name"]\n}'}
+                    rows={6}
+                    className="w-full px-3 py-2 rounded-lg font-mono text-sm bg-white dark:bg-[#2b2b2b] border border-gray-200 dark:border-gray-600/30 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-y"
+                  />
+                  {jsonSchemaError && <p className="text-xs text-red-500">{jsonSchemaError}</p>}
+                  <div className="flex justify-end gap-2">
+                    {responseSchema && (
+                      <button
+                        onClick={handleClearJsonSchema}
+                        className="px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+                      >
+                        Turn off JSON output
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setJsonSchemaOpen(false)}
+                      className="px-3 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200/40 dark:hover:bg-gray-700/40 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleApplyJsonSchema}
+                      className="px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+                    >
+                      Use schema
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Centralized Chat Input */}
             <div className="flex flex-col items-center w-full">
-              <div className="w-full max-w-3xl">
+              <div className="relative w-full max-w-3xl">
+                {/* Slash command autocomplete, or why a command could not run */}
+                {(composerSuggestions.length > 0 || composerNotice) && (
+                  <div className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-xl border border-gray-200/20 dark:border-gray-700/20 bg-white dark:bg-[#2b2b2b] shadow-lg overflow-hidden">
+                    {composerNotice ? (
+                      <p className="px-3 py-2 text-sm text-amber-600 dark:text-amber-400">{composerNotice}</p>
+                    ) : (
+                      composerSuggestions.map((suggestion, index) => (
+                        <button
+                          key={suggestion.value}
+                          onMouseDown={(e) => {
+                            e.preventDefault() // Keep focus in the textarea
+                            setInputValue(suggestion.value)
+                            setSlashSuggestionIndex(0)
+                            chatInputRef.current?.focus()
+                          }}
+                          className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm transition-colors ${
+                            index === activeSuggestionIndex
+                              ? "bg-purple-500/10 text-purple-700 dark:text-purple-300"
+                              : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700/40"
+                          }`}
+                        >
+                          <span className="font-mono truncate">{suggestion.label}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{suggestion.description}</span>
+                        </button>
+                      ))
+                    )}
+                  </div>
+                )}
+
                 {/* Main Chat Input Area */}
                 <div className="bg-white/20 dark:bg-gray-800/40 rounded-xl border border-gray-200/20 dark:border-gray-700/20 overflow-hidden focus-within:ring-2 focus-within:ring-purple-500/50">
                   <div className="relative">
@@ -3043,7 +4200,7 @@ export default function MainUI({
                       value={inputValue}
                       onChange={handleInputChange}
                       onKeyDown={handleKeyPress}
-                      placeholder="Ask anything..."
+                      placeholder="Ask anything, or type / for commands..."
                       className="w-full px-4 py-3 bg-transparent text-gray-800 dark:text-gray-200 resize-none focus:outline-none pr-[100px]"
                       rows={1}
                       style={{
@@ -3053,23 +4210,34 @@ export default function MainUI({
                       aria-label="Message input"
                     />
                     
-                    {/* Send Button (inside textarea) */}
-                    <button
-                      onClick={handleSendMessage}
-                      disabled={!inputValue.trim() && attachments.length === 0}
-                      className={`
-                        absolute right-2 bottom-2 h-[32px] w-[32px] rounded-lg flex-shrink-0 transition-all duration-200 
-                        flex items-center justify-center border border-gray-200/20 dark:border-gray-600/20
-                        ${
-                          inputValue.trim() || attachments.length > 0
-                            ? "bg-white/20 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-300"
-                            : "bg-gray-200/50 dark:bg-gray-700/50 text-gray-400 dark:text-gray-500 cursor-not-allowed"
-                        }
-                      `}
-                      aria-label="Send message"
-                    >
-                      <Send className="w-4 h-4" />
-                    </button>
+                    {/* Send Button (inside textarea); Stop while a reply is generating */}
+                    {isGenerating ? (
+                      <button
+                        onClick={onStopGeneration}
+                        className="absolute right-2 bottom-2 h-[32px] w-[32px] rounded-lg flex-shrink-0 transition-all duration-200 flex items-center justify-center border border-gray-200/20 dark:border-gray-600/20 bg-white/20 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-300"
+                        aria-label="Stop generating"
+                        title="Stop generating"
+                      >
+                        <Square className="w-3.5 h-3.5 fill-current" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleSendMessage}
+                        disabled={!inputValue.trim() && attachments.length === 0}
+                        className={`
+                          absolute right-2 bottom-2 h-[32px] w-[32px] rounded-lg flex-shrink-0 transition-all duration-200 
+                          flex items-center justify-center border border-gray-200/20 dark:border-gray-600/20
+                          ${
+                            inputValue.trim() || attachments.length > 0
+                              ? "bg-white/20 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-300"
+                              : "bg-gray-200/50 dark:bg-gray-700/50 text-gray-400 dark:text-gray-500 cursor-not-allowed"
+                          }
+                        `}
+                        aria-label="Send message"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                   
                   {/* Bottom toolbar inside chatbar */}
@@ -3156,6 +4324,127 @@ export default function MainUI({
                           <Code className="w-4 h-4" />
                         </button>
                       )}
+
+                      {/* JSON Output Button */}
+                      <button
+                        onClick={() => jsonSchemaOpen ? setJsonSchemaOpen(false) : handleOpenJsonSchema()}
+                        className={`h-[36px] w-[36px] rounded-md border border-gray-200/20 dark:border-gray-700/20 transition-all duration-200 flex items-center justify-center ${
+                          responseSchema
+                            ? "bg-gradient-to-r from-indigo-500 to-violet-500 text-white"
+                            : "bg-white/10 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-400"
+                        }`}
+                        title={responseSchema ? "JSON output is on" : "Ask for JSON matching a schema"}
+                        aria-label="JSON output"
+                      >
+                        <Braces className="w-4 h-4" />
+                      </button>
+
+                      {/* Prompt Templates Button */}
+                      <button
+                        onClick={() => setTemplateLibrary(templateLibrary ? null : { query: "" })}
+                        className={`h-[36px] w-[36px] rounded-md border border-gray-200/20 dark:border-gray-700/20 transition-all duration-200 flex items-center justify-center ${
+                          templateLibrary
+                            ? "bg-gradient-to-r from-sky-500 to-indigo-500 text-white"
+                            : "bg-white/10 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-400"
+                        }`}
+                        title="Prompt templates"
+                        aria-label="Prompt templates"
+                      >
+                        <BookOpen className="w-4 h-4" />
+                      </button>
+
+                      {/* Thinking Effort Button */}
+                      {currentReasoning && currentReasoning !== "fixed" && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button
+                              className={`h-[36px] w-[36px] rounded-md border border-gray-200/20 dark:border-gray-700/20 transition-all duration-200 flex items-center justify-center ${
+                                currentReasoningEffort !== "off"
+                                  ? "bg-gradient-to-r from-amber-500 to-orange-500 text-white"
+                                  : "bg-white/10 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-400"
+                              }`}
+                              title={currentReasoningEffort !== "off" ? `Thinking: ${currentReasoningEffort}` : "Thinking is off"}
+                              aria-label="Thinking effort"
+                            >
+                              <Brain className="w-4 h-4" />
+                            </button>
+                          </DropdownMenuTrigger>
+
+                          <DropdownMenuContent align="start" side="top" className="min-w-[180px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                            <DropdownMenuLabel className="text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800">
+                              Thinking effort for {getModelDisplayName(currentModel)}
+                            </DropdownMenuLabel>
+                            <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
+                            <DropdownMenuRadioGroup value={currentReasoningEffort} onValueChange={handleReasoningEffortChange}>
+                              {reasoningEffortOptions.map(option => (
+                                <DropdownMenuRadioItem
+                                  key={option.value}
+                                  value={option.value}
+                                  className="text-gray-700 dark:text-gray-300 bg-white hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700"
+                                >
+                                  {option.label}
+                                </DropdownMenuRadioItem>
+                              ))}
+                            </DropdownMenuRadioGroup>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+
+                      {/* Compare Models Button */}
+                      {availableModels.length > 1 && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button
+                              className={`h-[36px] w-[36px] rounded-md border border-gray-200/20 dark:border-gray-700/20 transition-all duration-200 flex items-center justify-center relative ${
+                                isCompareMode
+                                  ? "bg-gradient-to-r from-orange-500 to-pink-500 text-white"
+                                  : "bg-white/10 dark:bg-gray-800/40 hover:bg-white/30 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-400"
+                              }`}
+                              title={isCompareMode ? `Comparing ${activeCompareModelIds.length} models` : "Compare models side by side"}
+                              aria-label="Compare models"
+                            >
+                              <Columns3 className="w-4 h-4" />
+                              {isCompareMode && (
+                                <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-white text-[10px] font-bold text-pink-600 flex items-center justify-center">
+                                  {activeCompareModelIds.length}
+                                </span>
+                              )}
+                            </button>
+                          </DropdownMenuTrigger>
+
+                          <DropdownMenuContent align="start" side="top" className="min-w-[220px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                            <DropdownMenuLabel className="text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800">
+                              Compare up to {MAX_COMPARE_MODELS} models:
+                            </DropdownMenuLabel>
+                            <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
+
+                            {availableModels.map((model) => (
+                              <DropdownMenuCheckboxItem
+                                key={model.id}
+                                checked={compareModelIds.includes(model.id)}
+                                onCheckedChange={() => toggleCompareModel(model.id)}
+                                onSelect={(e) => e.preventDefault()} // Keep the menu open while picking several
+                                className="flex items-center gap-2 bg-white hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700"
+                              >
+                                <ModelLogo provider={model.provider} modelId={model.id} size="sm" />
+                                <span className="text-gray-700 dark:text-gray-300">{model.name}</span>
+                              </DropdownMenuCheckboxItem>
+                            ))}
+
+                            {compareModelIds.length > 0 && (
+                              <>
+                                <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
+                                <DropdownMenuItem
+                                  onSelect={() => setCompareModelIds([])}
+                                  className="text-gray-600 dark:text-gray-300 bg-white hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700"
+                                >
+                                  Turn off compare mode
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
                     
                     {/* Right side buttons */}
@@ -3208,6 +4497,18 @@ export default function MainUI({
         </main>
       </div>
 
+      {/* Project Knowledge Base */}
+      {knowledgeBaseProjectId && projects.some(project => project.id === knowledgeBaseProjectId) && (
+        <ProjectKnowledgeBase
+          projectName={projects.find(project => project.id === knowledgeBaseProjectId)?.name || ""}
+          documents={knowledgeDocuments.filter(document => document.projectId === knowledgeBaseProjectId)}
+          embeddingModelName={embeddingModelId ? parseEmbeddingModel(embeddingModelId)?.name || embeddingModelId : null}
+          onAdd={(files) => onAddKnowledgeDocuments(knowledgeBaseProjectId, files)}
+          onDelete={onDeleteKnowledgeDocument}
+          onClose={() => setKnowledgeBaseProjectId(null)}
+        />
+      )}
+
       {/* Settings Modal */}
       <AnimatePresence>
         {settingsOpen && (
@@ -3257,6 +4558,16 @@ export default function MainUI({
                   >
                     Models
                     </button>
+                  <button
+                    onClick={() => setSettingsTab("memory")}
+                    className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-all ${
+                      settingsTab === "memory"
+                        ? "bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 shadow-sm"
+                        : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                    }`}
+                  >
+                    Memory
+                  </button>
                   <button
                     onClick={() => setSettingsTab("themes")}
                     className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-all ${
@@ -3267,6 +4578,16 @@ export default function MainUI({
                   >
                     Themes
                     </button>
+                  <button
+                    onClick={() => setSettingsTab("usage")}
+                    className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-all ${
+                      settingsTab === "usage"
+                        ? "bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 shadow-sm"
+                        : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                    }`}
+                  >
+                    Usage
+                  </button>
                   </div>
                 </div>
 
@@ -3334,7 +4655,8 @@ export default function MainUI({
                             </label>
                             <input
                               type="password"
-                              value={userSettings.openrouterApiKey}
+                              value={toRequestApiKey(userSettings.openrouterApiKey) || ""}
+                              placeholder={isStoredApiKey(userSettings.openrouterApiKey) ? STORED_KEY_PLACEHOLDER : "sk-or-..."}
                               onChange={(e) => {
                                 console.log("[DEBUG UI] Setting OpenRouter API key:", e.target.value ? "Key provided" : "No key");
                                 const updatedSettings = { 
@@ -3357,7 +4679,6 @@ export default function MainUI({
                                 }
                               }}
                               className="w-full p-2 rounded-lg bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
-                              placeholder="sk-or-..."
                             />
                           </div>
                           <div className="space-y-2">
@@ -3532,6 +4853,7 @@ export default function MainUI({
                               type ConfiguredProvider = {
                                 provider: string
                                 name: string
+                                keyStored: boolean
                                 enabledModels: string[]
                                 allModels: Array<{ id: string; name: string; description: string }>
                               }
@@ -3547,6 +4869,7 @@ export default function MainUI({
                                   configuredProviders.push({
                                     provider,
                                     name: providerData.name,
+                                    keyStored: isStoredApiKey(hasApiKey),
                                     enabledModels,
                                     allModels: providerData.models
                                   })
@@ -3572,6 +4895,7 @@ export default function MainUI({
                                           <div className="font-medium text-gray-900 dark:text-gray-100">{config.name}</div>
                                           <div className="text-sm text-gray-500 dark:text-gray-400">
                                             {config.enabledModels.length} of {config.allModels.length} models enabled
+                                            {config.keyStored && " · key stored on the server"}
                                           </div>
                                         </div>
                                       </div>
@@ -3656,11 +4980,189 @@ export default function MainUI({
                             })()}
                           </div>
                         </div>
+                        {/* Custom Endpoint */}
+                        <div className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+                          <div className="flex items-center gap-2">
+                            <Server className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                            <h4 className="font-medium text-gray-900 dark:text-gray-100">Custom Endpoint</h4>
+                          </div>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-3">
+                            Chat with local or self-hosted models through any OpenAI-compatible server, such as Ollama, llama.cpp server, vLLM, LM Studio or LiteLLM. Requests are sent from this app&apos;s server, so the endpoint must be reachable from where the app runs.
+                          </p>
+
+                          <div className="space-y-3">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Base URL
+                              </label>
+                              <input
+                                type="text"
+                                value={customEndpointUrlDraft}
+                                onChange={(e) => setCustomEndpointUrlDraft(e.target.value)}
+                                onBlur={handleSaveCustomEndpointUrl}
+                                placeholder="http://localhost:11434/v1"
+                                className="w-full p-2 rounded-lg bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                              />
+                            </div>
+
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                API Key <span className="font-normal text-gray-500 dark:text-gray-400">(optional)</span>
+                              </label>
+                              <input
+                                type="password"
+                                value={toRequestApiKey(userSettings.customEndpointApiKey) || ""}
+                                onChange={(e) => onSaveSettings({ ...userSettings, customEndpointApiKey: e.target.value })}
+                                placeholder={isStoredApiKey(userSettings.customEndpointApiKey) ? STORED_KEY_PLACEHOLDER : "Leave empty if the server needs no key"}
+                                className="w-full p-2 rounded-lg bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                              />
+                            </div>
+
+                            <button
+                              onClick={handleDiscoverCustomModels}
+                              disabled={!customEndpointUrlDraft.trim() || isDiscoveringCustomModels}
+                              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {isDiscoveringCustomModels ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                              Discover Models
+                            </button>
+
+                            {customEndpointError && (
+                              <p className="text-sm text-red-600 dark:text-red-400">{customEndpointError}</p>
+                            )}
+
+                            {(() => {
+                              const listedModels = Array.from(new Set([...discoveredCustomModels, ...(userSettings.customModels || [])]))
+                              return listedModels.length > 0 && (
+                                <div className="max-h-60 overflow-y-auto space-y-1 pr-2">
+                                  {listedModels.map(name => (
+                                    <label
+                                      key={name}
+                                      className="flex items-center gap-3 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50 cursor-pointer"
+                                    >
+                                      <input
+                                        type="checkbox"
+                                        checked={(userSettings.customModels || []).includes(name)}
+                                        onChange={() => handleToggleCustomModel(name)}
+                                        className="w-4 h-4 text-purple-500 border-gray-300 dark:border-gray-600 rounded focus:ring-purple-500"
+                                      />
+                                      <span className="font-mono text-sm text-gray-900 dark:text-gray-100 truncate">{name}</span>
+                                    </label>
+                                  ))}
+                                </div>
+                              )
+                            })()}
+
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                value={newCustomEndpointModel}
+                                onChange={(e) => setNewCustomEndpointModel(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") handleAddCustomEndpointModel()
+                                }}
+                                placeholder="Model name (e.g., llama3.1:8b)"
+                                className="flex-1 p-2 rounded-lg bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                              />
+                              <button
+                                onClick={handleAddCustomEndpointModel}
+                                disabled={!newCustomEndpointModel.trim()}
+                                className="px-3 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                Add
+                              </button>
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              Checked models appear in the model picker.
+                            </p>
+                          </div>
+                        </div>
                       </>
                     )}
+
+                    {/* Fallback Chains */}
+                    <div className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100">Fallback Chains</h4>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                        When a model is rate limited, out of credits, down or times out, the next model in its chain answers instead. One chain per line, starting with the model it applies to. Prefix a model with openrouter/ to reach it through OpenRouter, or use custom:&lt;model name&gt; for your custom endpoint.
+                      </p>
+                      <textarea
+                        value={fallbackChainsDraft}
+                        onChange={(e) => setFallbackChainsDraft(e.target.value)}
+                        onBlur={handleSaveFallbackChains}
+                        placeholder={"claude-4-sonnet → openrouter/anthropic/claude-3.7-sonnet → gpt-4.1"}
+                        rows={3}
+                        className="w-full p-2 rounded-lg font-mono text-sm bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-y"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Models without an API key configured are skipped.
+                      </p>
+                    </div>
+
+                    {/* Titles and Summaries */}
+                    <div className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100">Titles and Summaries</h4>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                        After the first reply, this model names the conversation and writes a short summary, refreshed every {SUMMARY_REFRESH_TURNS} replies. Hover a conversation in the sidebar to read it; search matches it too. A small, cheap model is enough.
+                      </p>
+                      <select
+                        value={userSettings.titleModel || ""}
+                        onChange={(e) => onSaveSettings({ ...userSettings, titleModel: e.target.value })}
+                        className="w-full p-2 rounded-lg bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                      >
+                        <option value="">Off: title with the first message</option>
+                        {userSettings.titleModel && !availableModels.some(model => model.id === userSettings.titleModel) && (
+                          <option value={userSettings.titleModel}>{userSettings.titleModel} (unavailable)</option>
+                        )}
+                        {availableModels.map(model => (
+                          <option key={model.id} value={model.id}>{model.name}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {/* Knowledge Base Embeddings */}
+                    <div className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100">Knowledge Base Embeddings</h4>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                        Embeds documents added to a project&apos;s knowledge base, and the questions searched against them. Documents keep the model they were added with, so changing it only affects new ones. Local models run on the custom endpoint.
+                      </p>
+                      <select
+                        value={userSettings.embeddingModel || ""}
+                        onChange={(e) => onSaveSettings({ ...userSettings, embeddingModel: e.target.value })}
+                        className="w-full p-2 rounded-lg bg-white/50 dark:bg-gray-900/50 border border-gray-200/50 dark:border-gray-700/50 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                      >
+                        <option value="">Automatic: the first of OpenAI, Gemini and Mistral with a key</option>
+                        {EMBEDDING_MODELS.map(model => (
+                          <option key={model.id} value={model.id}>{model.name}</option>
+                        ))}
+                        {userSettings.customEndpointUrl && (userSettings.customModels || []).map(name => (
+                          <option key={`custom:${name}`} value={`custom:${name}`}>{name} (custom endpoint)</option>
+                        ))}
+                        {userSettings.embeddingModel && parseEmbeddingModel(userSettings.embeddingModel)?.provider === "custom" &&
+                          !(userSettings.customModels || []).some(name => `custom:${name}` === userSettings.embeddingModel) && (
+                          <option value={userSettings.embeddingModel}>{parseEmbeddingModel(userSettings.embeddingModel)?.name}</option>
+                        )}
+                      </select>
+                    </div>
                   </div>
                 )}
 
+                {settingsTab === "memory" && (
+                  <MemorySettings
+                    memories={memories}
+                    conversations={conversations.map(conv => ({ id: conv.id, title: conv.title }))}
+                    enabled={!!userSettings.memoryEnabled}
+                    onToggleEnabled={(memoryEnabled) => onSaveSettings({ ...userSettings, memoryEnabled })}
+                    onCreate={onCreateMemory}
+                    onUpdate={onUpdateMemory}
+                    onDelete={onDeleteMemory}
+                    onOpenConversation={(id) => {
+                      onSelectConversation(id)
+                      setSettingsOpen(false)
+                    }}
+                  />
+                )}
+
                 {settingsTab === "themes" && (
                   <div className="space-y-6">
                     <div>
@@ -3731,6 +5233,41 @@ export default function MainUI({
                     </div>
                   </div>
                 )}
+
+                {settingsTab === "usage" && (
+                  <div className="space-y-6">
+                    {/* Totals */}
+                    <div className="grid grid-cols-3 gap-3">
+                      {[
+                        { label: "This month", value: formatCost(usageReport.byMonth.find(entry => entry.month === currentMonth)?.totals.costUsd || 0) },
+                        { label: "All time", value: formatCost(usageReport.total.costUsd) },
+                        { label: "Tokens", value: formatTokenCount(usageReport.total.inputTokens + usageReport.total.outputTokens) }
+                      ].map(stat => (
+                        <div key={stat.label} className="p-4 border border-gray-200/50 dark:border-gray-700/50 rounded-lg">
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+                          <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">{stat.value}</div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {usageReport.total.messageCount === 0 ? (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        No usage recorded yet. Token counts and costs are tracked for every reply from now on.
+                      </p>
+                    ) : (
+                      <>
+                        {renderUsageTable("By month", usageReport.byMonth.map(entry => ({ key: entry.month, label: formatUsageMonth(entry.month), totals: entry.totals })))}
+                        {renderUsageTable("By project", usageReport.byProject.map(entry => ({ key: entry.id, label: entry.name, totals: entry.totals })))}
+                        {renderUsageTable("Top conversations", usageReport.byConversation.slice(0, 10).map(entry => ({ key: entry.id, label: entry.title, totals: entry.totals })))}
+                      </>
+                    )}
+
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Costs are estimates from list prices and may differ from your provider invoices.
+                      {usageReport.total.unpricedCount > 0 && ` ${usageReport.total.unpricedCount} replies came from models without a known price and are counted as $0.`}
+                    </p>
+                  </div>
+                )}
               </div>
 
               {/* Footer */}
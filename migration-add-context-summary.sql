@@ -0,0 +1,12 @@
+-- Migration: Add rolling context summary to conversations
+-- Run this script on your Supabase database to add the missing column
+
+-- Add context_summary column to conversations table
+-- Holds { content, messageCount }: a summary replacing the oldest messageCount messages once
+-- a conversation outgrows the model's context window
+ALTER TABLE public.conversations 
+ADD COLUMN IF NOT EXISTS context_summary JSONB;
+
+-- No policy updates needed as the column is nullable and covered by the existing row policies
+
+-- Migration completed successfully
@@ -0,0 +1,12 @@
+-- Migration: Add model-written summaries to conversations
+-- Run this script on your Supabase database to add the missing column
+
+-- Add summary column to conversations table
+-- One paragraph describing the conversation, rewritten every few replies by the model picked in
+-- Settings; shown when hovering the conversation in the sidebar and matched by the sidebar search
+ALTER TABLE public.conversations 
+ADD COLUMN IF NOT EXISTS summary TEXT;
+
+-- No policy updates needed as the column is nullable and covered by the existing row policies
+
+-- Migration completed successfully
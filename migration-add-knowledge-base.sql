@@ -0,0 +1,95 @@
+-- Migration: Add project knowledge bases
+-- Run this script on your Supabase database to add the missing tables, function and column
+
+-- pgvector stores the chunk embeddings
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Create knowledge_documents table
+-- One uploaded document of a project; it goes away with its project
+CREATE TABLE IF NOT EXISTS public.knowledge_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  size INTEGER NOT NULL DEFAULT 0,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  embedding_model TEXT NOT NULL, -- "<provider>:<model>" that embedded the chunks
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create knowledge_chunks table
+-- The embedding has no fixed dimension because each document may use another model; searches only
+-- compare chunks embedded by the model of the question
+CREATE TABLE IF NOT EXISTS public.knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES public.knowledge_documents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding vector NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_project_id ON public.knowledge_documents(project_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_document_id ON public.knowledge_chunks(document_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_project_model ON public.knowledge_chunks(project_id, embedding_model);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Knowledge base policies
+CREATE POLICY "Users can view own knowledge documents" ON public.knowledge_documents
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own knowledge documents" ON public.knowledge_documents
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own knowledge documents" ON public.knowledge_documents
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own knowledge documents" ON public.knowledge_documents
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own knowledge chunks" ON public.knowledge_chunks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own knowledge chunks" ON public.knowledge_chunks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own knowledge chunks" ON public.knowledge_chunks
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_knowledge_documents_updated_at 
+  BEFORE UPDATE ON public.knowledge_documents 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Closest chunks of a project to a question, by cosine distance. Runs with the caller's rights, so
+-- row level security limits it to the caller's own chunks
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  p_project_id UUID,
+  p_embedding vector,
+  p_embedding_model TEXT,
+  p_match_count INTEGER DEFAULT 5
+)
+RETURNS TABLE (document_id UUID, document_name TEXT, chunk_index INTEGER, content TEXT, similarity DOUBLE PRECISION) AS $$
+  SELECT c.document_id, d.name, c.chunk_index, c.content, 1 - (c.embedding <=> p_embedding)
+  FROM public.knowledge_chunks c
+  JOIN public.knowledge_documents d ON d.id = c.document_id
+  WHERE c.project_id = p_project_id
+    AND c.embedding_model = p_embedding_model
+    AND vector_dims(c.embedding) = vector_dims(p_embedding)
+  ORDER BY c.embedding <=> p_embedding
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Add knowledge_sources column to messages table
+-- The excerpts an answer was given, listed under it as numbered sources
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS knowledge_sources JSONB;
+
+-- Migration completed successfully
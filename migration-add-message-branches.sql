@@ -0,0 +1,31 @@
+-- Migration: Add conversation branching to messages
+-- Run this script on your Supabase database to add the missing columns
+
+-- Add parent_id column to messages table
+-- The message this one answers or follows; NULL for the first message. Editing an earlier message
+-- adds a sibling under the same parent, so a conversation becomes a tree of branches
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON public.messages(parent_id);
+
+-- Link existing messages into a single branch, each under the one before it
+UPDATE public.messages AS m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY timestamp, created_at) AS previous_id
+  FROM public.messages
+) AS ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+-- Add active_leaf_id column to conversations table
+-- Last message of the branch the user is on. Not a foreign key: when it is NULL or the message
+-- is gone, the app shows the branch of the newest message
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS active_leaf_id UUID;
+
+-- No policy updates needed as the columns are nullable and covered by the existing row policies
+
+-- Migration completed successfully
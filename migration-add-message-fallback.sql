@@ -0,0 +1,11 @@
+-- Migration: Add fallback details to messages
+-- Run this script on your Supabase database to add the missing column
+
+-- Add fallback column to messages table
+-- Records the requested model and the models skipped when a fallback model answered
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS fallback JSONB;
+
+-- No policy updates needed as the column is nullable and covered by the existing row policies
+
+-- Migration completed successfully
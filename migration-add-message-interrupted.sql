@@ -0,0 +1,11 @@
+-- Migration: Add interrupted flag to messages
+-- Run this script on your Supabase database to add the missing column
+
+-- Add interrupted column to messages table
+-- Marks replies the user stopped before they finished; the content holds the partial text
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS interrupted BOOLEAN DEFAULT FALSE;
+
+-- No policy updates needed as the column has a default and is covered by the existing row policies
+
+-- Migration completed successfully
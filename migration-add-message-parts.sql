@@ -0,0 +1,11 @@
+-- Migration: Add structured parts to messages
+-- Run this script on your Supabase database to add the missing column
+
+-- Add parts column to messages table
+-- Holds the ordered text, tool-call and tool-result parts of assistant replies that used tools
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS parts JSONB;
+
+-- No policy updates needed as the column is nullable and covered by the existing row policies
+
+-- Migration completed successfully
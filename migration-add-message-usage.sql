@@ -0,0 +1,20 @@
+-- Migration: Add token usage and cost to messages
+-- Run this script on your Supabase database to add the missing columns
+
+-- Add input_tokens column to messages table
+-- Prompt tokens billed for the reply, summed over every provider call behind it
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+
+-- Add output_tokens column to messages table
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+
+-- Add cost_usd column to messages table
+-- Computed from list prices when the reply arrives; NULL when the model has no known price
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6);
+
+-- No policy updates needed as the columns are nullable and covered by the existing row policies
+
+-- Migration completed successfully
@@ -0,0 +1,16 @@
+-- Migration: Add answer variants to messages
+-- Run this script on your Supabase database to add the missing columns
+
+-- Add variants column to messages table
+-- Holds the alternative answers of an assistant turn (one per model in compare mode)
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS variants JSONB;
+
+-- Add active_variant_id column to messages table
+-- The variant the user picked; NULL while a comparison is still undecided
+ALTER TABLE public.messages 
+ADD COLUMN IF NOT EXISTS active_variant_id TEXT;
+
+-- No policy updates needed as the columns are nullable and covered by the existing row policies
+
+-- Migration completed successfully
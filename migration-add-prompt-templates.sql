@@ -0,0 +1,44 @@
+-- Migration: Add prompt template library
+-- Run this script on your Supabase database to add the missing table
+
+-- Create prompt_templates table
+-- Personal templates have no project_id; project templates go away with their project
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  content TEXT NOT NULL,
+  system_prompt TEXT,
+  default_model TEXT,
+  web_search_enabled BOOLEAN, -- NULL leaves the composer toggle as it is
+  code_generation_enabled BOOLEAN,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_id ON public.prompt_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_project_id ON public.prompt_templates(project_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Prompt template policies
+CREATE POLICY "Users can view own prompt templates" ON public.prompt_templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own prompt templates" ON public.prompt_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own prompt templates" ON public.prompt_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own prompt templates" ON public.prompt_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_prompt_templates_updated_at 
+  BEFORE UPDATE ON public.prompt_templates 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration completed successfully
@@ -0,0 +1,46 @@
+-- Migration: Add shared rate limit counters
+-- Run this script on your Supabase database to let every server instance share the API rate limits
+
+-- Create rate_limits table
+-- One fixed-window counter per route and caller ("web-browse:ip:203.0.113.7", "chat:user:<uuid>")
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+  key TEXT PRIMARY KEY,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window_started_at ON public.rate_limits(window_started_at);
+
+-- Enable Row Level Security (RLS) without policies: only the service role reaches the table
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count one request and return the window it landed in; a window older than p_window_seconds starts over
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_key TEXT, p_window_seconds INTEGER)
+RETURNS TABLE (request_count INTEGER, window_started_at TIMESTAMPTZ) AS $$
+  INSERT INTO public.rate_limits AS r (key, request_count, window_started_at)
+  VALUES (p_key, 1, NOW())
+  ON CONFLICT (key) DO UPDATE SET
+    request_count = CASE
+      WHEN r.window_started_at <= NOW() - make_interval(secs => p_window_seconds) THEN 1
+      ELSE r.request_count + 1
+    END,
+    window_started_at = CASE
+      WHEN r.window_started_at <= NOW() - make_interval(secs => p_window_seconds) THEN NOW()
+      ELSE r.window_started_at
+    END
+  RETURNING r.request_count, r.window_started_at;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER) TO service_role;
+
+-- Counters of callers that went quiet are only overwritten on their next request; clear them out now and then
+CREATE OR REPLACE FUNCTION public.prune_rate_limits()
+RETURNS VOID AS $$
+  DELETE FROM public.rate_limits WHERE window_started_at < NOW() - INTERVAL '1 day';
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.prune_rate_limits() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.prune_rate_limits() TO service_role;
+
+-- Migration completed successfully
@@ -0,0 +1,15 @@
+-- Migration: Add system prompt columns to projects and conversations
+-- Run this script on your Supabase database to add the missing columns
+
+-- Add system_prompt column to projects table
+ALTER TABLE public.projects 
+ADD COLUMN IF NOT EXISTS system_prompt TEXT;
+
+-- Add system_prompt column to conversations table
+ALTER TABLE public.conversations 
+ADD COLUMN IF NOT EXISTS system_prompt TEXT;
+
+-- No policy updates needed as the columns are nullable and covered by the existing row policies
+
+-- Migration completed successfully
+-- A project's system prompt applies to all of its conversations; a conversation's prompt is added after it
@@ -0,0 +1,39 @@
+-- Migration: Add encrypted API key vault
+-- Run this script on your Supabase database to add the missing table
+
+-- Create user_api_keys table
+-- One provider key per user, encrypted by the app server (AES-GCM, API_KEY_ENCRYPTION_SECRET) before it is stored
+CREATE TABLE IF NOT EXISTS public.user_api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  encrypted_key TEXT NOT NULL,
+  key_hint TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_api_keys_user_id ON public.user_api_keys(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.user_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- API key policies
+CREATE POLICY "Users can view own api keys" ON public.user_api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own api keys" ON public.user_api_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own api keys" ON public.user_api_keys
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own api keys" ON public.user_api_keys
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_api_keys_updated_at 
+  BEFORE UPDATE ON public.user_api_keys 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration completed successfully
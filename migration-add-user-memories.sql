@@ -0,0 +1,41 @@
+-- Migration: Add long-term user memory
+-- Run this script on your Supabase database to add the missing table
+
+-- Create memories table
+-- Facts and preferences carried into new conversations. Ones the model saved with its remember tool
+-- keep the conversation they came from; deleting that conversation only clears the link
+CREATE TABLE IF NOT EXISTS public.memories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'model')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE, -- Disabled memories are kept but never sent to the model
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_id ON public.memories(user_id);
+CREATE INDEX IF NOT EXISTS idx_memories_conversation_id ON public.memories(conversation_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.memories ENABLE ROW LEVEL SECURITY;
+
+-- Memory policies
+CREATE POLICY "Users can view own memories" ON public.memories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own memories" ON public.memories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own memories" ON public.memories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memories" ON public.memories
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_memories_updated_at 
+  BEFORE UPDATE ON public.memories 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration completed successfully
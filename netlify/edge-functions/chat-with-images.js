@@ -1,6 +1,9 @@
 // Netlify Edge Function for AI Chat with Images
 // Runs on Deno runtime at the network edge with higher execution time limits
 
+import { resolveModel } from "../../lib/models.ts";
+import { getProviderAdapter } from "../../lib/providers/index.ts";
+
 export default async (request, context) => {
   // Add CORS headers for all responses
   const corsHeaders = {
@@ -66,6 +69,7 @@ export default async (request, context) => {
       apiKey, 
       model, 
       temperature = 0.7,
+      systemPrompt,
       hasImageAttachments = false
     } = requestBody;
 
@@ -111,6 +115,17 @@ export default async (request, context) => {
       });
     }
 
+    const modelDefinition = resolveModel(model || '', provider);
+    if (!modelDefinition) {
+      return new Response(JSON.stringify({ 
+        error: `Model ${model} cannot be used with provider ${provider}`,
+        received: model
+      }), {
+        status: 400,
+        headers: corsHeaders
+      });
+    }
+
     // Log request info for debugging
     console.log(`Edge Function: Chat with images request for provider: ${provider}`);
     console.log('Request details:', {
@@ -150,292 +165,41 @@ export default async (request, context) => {
       }
     };
 
-    let response;
-    let aiResponse = "";
-
-    // Provider-specific handling with better error messages
-    switch (provider.toLowerCase()) {
-      case "openai":
-        try {
-          response = await fetchWithTimeout("https://api.openai.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-              model: model || "gpt-4-vision-preview",
-              messages: messages,
-              temperature: chatParams.temperature,
-              max_tokens: hasImageAttachments ? 4096 : 2048,
-              stream: false
-            })
-          }, chatParams.timeout);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
-          }
-
-          const openaiData = await response.json();
-          aiResponse = openaiData.choices?.[0]?.message?.content || "No response generated";
-        } catch (error) {
-          console.error('OpenAI API error:', error);
-          throw new Error(`OpenAI API error: ${error.message}`);
-        }
-        break;
-
-      case "claude":
-        try {
-          let claudeModel = "claude-3-sonnet-20240229";
-          if (model?.includes("haiku")) {
-            claudeModel = "claude-3-haiku-20240229";
-          } else if (model?.includes("opus")) {
-            claudeModel = "claude-3-opus-20240229";
-          }
-
-          response = await fetchWithTimeout("https://api.anthropic.com/v1/messages", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "x-api-key": apiKey,
-              "anthropic-version": "2023-06-01"
-            },
-            body: JSON.stringify({
-              model: claudeModel,
-              max_tokens: hasImageAttachments ? 4096 : 2048,
-              temperature: chatParams.temperature,
-              messages: messages
-            })
-          }, chatParams.timeout);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Claude API error (${response.status}): ${errorText}`);
-          }
-
-          const claudeData = await response.json();
-          aiResponse = claudeData.content?.[0]?.text || "No response generated";
-        } catch (error) {
-          console.error('Claude API error:', error);
-          throw new Error(`Claude API error: ${error.message}`);
-        }
-        break;
-
-      case "gemini":
-        // Use the correct Gemini model based on the request
-        let geminiModel = "gemini-1.5-pro"; // Default fallback
-        if (model && model.includes("2.5-flash")) {
-          geminiModel = "gemini-2.5-flash-preview-05-20";
-        } else if (model && model.includes("2.0-flash")) {
-          geminiModel = "gemini-2.0-flash-001";
-        } else if (model && model.includes("1.5-flash")) {
-          geminiModel = "gemini-1.5-flash-001";
-        } else if (model && model.includes("1.0-pro")) {
-          geminiModel = "gemini-1.0-pro";
-        } else if (model && model.includes("1.0")) {
-          geminiModel = "gemini-1.0-pro";
-        }
-
-        try {
-          console.log("Original messages structure:", JSON.stringify(messages.map(m => ({
-            role: m.role,
-            content_type: typeof m.content,
-            has_array_content: Array.isArray(m.content),
-            content_preview: typeof m.content === 'string' ? m.content.substring(0, 30) : 'non-string content'
-          }))));
-          
-          // Format Gemini request body
-          const geminiContents = [];
-          
-          // Process messages for Gemini format
-          for (const msg of messages) {
-            console.log(`Processing message with role: ${msg.role}, content type: ${typeof msg.content}, is array: ${Array.isArray(msg.content)}`);
-            
-            if (msg.role === 'user') {
-              if (Array.isArray(msg.content)) {
-                // Handle multimodal content (text + images)
-                const parts = [];
-                
-                for (const contentPart of msg.content) {
-                  console.log(`Processing content part: ${JSON.stringify({
-                    type: contentPart.type,
-                    has_text: !!contentPart.text,
-                    has_image_url: !!contentPart.image_url
-                  })}`);
-                  
-                  if (contentPart.type === 'text') {
-                    parts.push({ text: contentPart.text });
-                    console.log(`Added text part: ${contentPart.text.substring(0, 30)}`);
-                  } else if (contentPart.type === 'image_url') {
-                    // Extract base64 data from image URL
-                    const imgUrl = contentPart.image_url?.url || contentPart.image_url;
-                    console.log(`Processing image URL: ${typeof imgUrl}, starts with data: ${typeof imgUrl === 'string' && imgUrl.startsWith('data:')}`);
-                    
-                    if (typeof imgUrl === 'string' && imgUrl.startsWith('data:')) {
-                      const parts = imgUrl.split(',');
-                      if (parts.length !== 2) {
-                        console.error(`Invalid data URL format: ${imgUrl.substring(0, 50)}...`);
-                        continue;
-                      }
-                      
-                      const base64Data = parts[1];
-                      if (!base64Data) {
-                        console.error('No base64 data found in URL');
-                        continue;
-                      }
-                      
-                      const mimeTypeMatch = parts[0].match(/data:([^;]+);/);
-                      const mimeType = mimeTypeMatch ? mimeTypeMatch[1] : 'image/jpeg';
-                      
-                      console.log(`Extracted image data: mimeType=${mimeType}, base64Length=${base64Data.length}`);
-                      
-                      parts.push({
-                        inline_data: {
-                          mime_type: mimeType,
-                          data: base64Data
-                        }
-                      });
-                      console.log('Added image part with inline_data');
-                    } else {
-                      console.error('Image URL is not in data: format', imgUrl?.substring(0, 30));
-                    }
-                  }
-                }
-                
-                if (parts.length === 0) {
-                  console.error('No valid parts created from array content');
-                  // Add a default text part to avoid empty parts
-                  parts.push({ text: "Image processing failed. Please try again." });
-                }
-                
-                geminiContents.push({
-                  role: 'user',
-                  parts: parts
-                });
-                console.log(`Added user message with ${parts.length} parts`);
-              } else if (typeof msg.content === 'string') {
-                // Simple text message
-                geminiContents.push({
-                  role: 'user',
-                  parts: [{ text: msg.content }]
-                });
-                console.log(`Added simple text user message: ${msg.content.substring(0, 30)}`);
-              } else {
-                console.error(`Unsupported content type for user message: ${typeof msg.content}`);
-                // Add a default message to avoid errors
-                geminiContents.push({
-                  role: 'user',
-                  parts: [{ text: "Content format not supported" }]
-                });
-              }
-            } else if (msg.role === 'assistant') {
-              geminiContents.push({
-                role: 'model',
-                parts: [{ text: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content) }]
-              });
-              console.log(`Added assistant message`);
-            } else if (msg.role === 'system') {
-              geminiContents.push({
-                role: 'user',
-                parts: [{ text: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content) }]
-              });
-              console.log(`Added system message as user`);
-            }
-          }
-
-          // Validate that we have at least one message with valid parts
-          if (geminiContents.length === 0) {
-            throw new Error('No valid messages to send to Gemini API');
-          }
-          
-          // Check if any message has empty parts
-          const emptyPartMessages = geminiContents.filter(msg => !msg.parts || msg.parts.length === 0);
-          if (emptyPartMessages.length > 0) {
-            console.error(`Found ${emptyPartMessages.length} messages with empty parts`);
-            // Fix messages with empty parts
-            for (const msg of geminiContents) {
-              if (!msg.parts || msg.parts.length === 0) {
-                msg.parts = [{ text: "Content unavailable" }];
-              }
-            }
-          }
-
-          const geminiBody = {
-            contents: geminiContents,
-            generationConfig: {
-              temperature: chatParams.temperature,
-              maxOutputTokens: hasImageAttachments ? 4096 : 2048,
-            }
-          };
-
-          console.log("Formatted Gemini request with contents:", JSON.stringify(geminiContents.map(c => ({
-            role: c.role,
-            parts_count: c.parts.length,
-            has_text: c.parts.some(p => p.text),
-            has_image: c.parts.some(p => p.inline_data),
-            parts_preview: c.parts.map(p => p.text ? { text_preview: p.text.substring(0, 20) } : (p.inline_data ? { mime: p.inline_data.mime_type, data_length: p.inline_data.data?.length || 0 } : 'unknown'))
-          }))));
-
-          response = await fetchWithTimeout(`https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "x-goog-api-key": apiKey
-            },
-            body: JSON.stringify(geminiBody)
-          }, chatParams.timeout);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Gemini API error (${response.status}): ${errorText}`);
-          }
+    const adapter = getProviderAdapter(provider);
+    if (!adapter) {
+      throw new Error(`Unsupported provider: ${provider}`);
+    }
 
-          const geminiData = await response.json();
-          aiResponse = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || "No response generated";
-        } catch (error) {
-          console.error('Gemini API error:', error);
-          throw new Error(`Gemini API error: ${error.message}`);
-        }
-        break;
+    let aiResponse = "";
+    let usage = null;
 
-      case "openrouter":
-        try {
-          // Extract the model ID from the OpenRouter model string
-          const openrouterModelId = model || "anthropic/claude-3-sonnet";
-          
-          response = await fetchWithTimeout("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${apiKey}`,
-              "HTTP-Referer": request.headers.get("referer") || "",
-              "X-Title": "Apeiron Chat"
-            },
-            body: JSON.stringify({
-              model: openrouterModelId,
-              messages: messages,
-              temperature: chatParams.temperature,
-              max_tokens: hasImageAttachments ? 4096 : 2048,
-              stream: false
-            })
-          }, chatParams.timeout);
+    try {
+      // The adapter converts image attachments to the provider's native vision format
+      const providerRequest = adapter.buildRequest({
+        apiKey,
+        model: modelDefinition.apiModel,
+        messages: adapter.formatMessages(messages),
+        systemPrompt: systemPrompt || undefined,
+        temperature: chatParams.temperature,
+        reasoningModel: modelDefinition.reasoningModel,
+        maxTokens: Math.min(hasImageAttachments ? 4096 : 2048, modelDefinition.maxOutputTokens),
+        stream: false,
+        referer: request.headers.get("referer") || ""
+      });
 
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`OpenRouter API error (${response.status}): ${errorText}`);
-          }
+      const response = await fetchWithTimeout(providerRequest.url, providerRequest.init, chatParams.timeout);
 
-          const openrouterData = await response.json();
-          aiResponse = openrouterData.choices?.[0]?.message?.content || "No response generated";
-        } catch (error) {
-          console.error('OpenRouter API error:', error);
-          throw new Error(`OpenRouter API error: ${error.message}`);
-        }
-        break;
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw adapter.mapError(response.status, errorText);
+      }
 
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+      const data = await response.json();
+      aiResponse = adapter.parseResponse(data) || "No response generated";
+      usage = adapter.parseUsage(data);
+    } catch (error) {
+      console.error(`${adapter.label} API error:`, error);
+      throw new Error(`${adapter.label} API error: ${error.message}`);
     }
 
     // Return successful response
@@ -445,7 +209,8 @@ export default async (request, context) => {
       model: model,
       provider: provider,
       edgeFunction: true,
-      imageProcessing: hasImageAttachments
+      imageProcessing: hasImageAttachments,
+      usage
     }), {
       status: 200,
       headers: corsHeaders
@@ -1,5 +1,6 @@
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS vector;
 
 -- Create users table (extends auth.users)
 CREATE TABLE public.users (
@@ -18,6 +19,7 @@ CREATE TABLE public.projects (
   name TEXT NOT NULL,
   description TEXT,
   color TEXT DEFAULT '#6366f1',
+  system_prompt TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -29,6 +31,10 @@ CREATE TABLE public.conversations (
   project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
   title TEXT NOT NULL,
   model TEXT NOT NULL,
+  system_prompt TEXT,
+  context_summary JSONB,
+  summary TEXT, -- Model-written paragraph for the sidebar hover and search
+  active_leaf_id UUID, -- Last message of the branch being shown; NULL means the newest message's branch
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -37,28 +43,136 @@ CREATE TABLE public.conversations (
 CREATE TABLE public.messages (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE, -- NULL for the first message; siblings are branches
   role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
   content TEXT NOT NULL,
   model TEXT,
   provider TEXT,
   attachments JSONB,
   search_results JSONB,
+  knowledge_sources JSONB, -- Project document excerpts the answer was given
+  parts JSONB,
+  variants JSONB,
+  active_variant_id TEXT,
+  fallback JSONB,
+  interrupted BOOLEAN DEFAULT FALSE,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  cost_usd NUMERIC(12, 6),
   timestamp TIMESTAMPTZ DEFAULT NOW(),
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Create user_api_keys table
+-- Provider keys encrypted by the app server before they are stored; the database never sees them in plain text
+CREATE TABLE public.user_api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  encrypted_key TEXT NOT NULL,
+  key_hint TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, provider)
+);
+
+-- Create prompt_templates table
+-- Personal templates have no project_id; project templates go away with their project
+CREATE TABLE public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  content TEXT NOT NULL,
+  system_prompt TEXT,
+  default_model TEXT,
+  web_search_enabled BOOLEAN, -- NULL leaves the composer toggle as it is
+  code_generation_enabled BOOLEAN,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create memories table
+-- Facts and preferences carried into new conversations. Ones the model saved with its remember tool
+-- keep the conversation they came from; deleting that conversation only clears the link
+CREATE TABLE public.memories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'model')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE, -- Disabled memories are kept but never sent to the model
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create knowledge_documents table
+-- One uploaded document of a project; it goes away with its project
+CREATE TABLE public.knowledge_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  size INTEGER NOT NULL DEFAULT 0,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  embedding_model TEXT NOT NULL, -- "<provider>:<model>" that embedded the chunks
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create knowledge_chunks table
+-- The embedding has no fixed dimension because each document may use another model; searches only
+-- compare chunks embedded by the model of the question
+CREATE TABLE public.knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES public.knowledge_documents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding vector NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create rate_limits table
+-- Fixed-window request counters shared by every server instance; only the service role reaches them
+CREATE TABLE public.rate_limits (
+  key TEXT PRIMARY KEY,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_projects_user_id ON public.projects(user_id);
 CREATE INDEX idx_conversations_user_id ON public.conversations(user_id);
 CREATE INDEX idx_conversations_project_id ON public.conversations(project_id);
 CREATE INDEX idx_messages_conversation_id ON public.messages(conversation_id);
 CREATE INDEX idx_messages_timestamp ON public.messages(timestamp DESC);
+CREATE INDEX idx_messages_parent_id ON public.messages(parent_id);
+CREATE INDEX idx_user_api_keys_user_id ON public.user_api_keys(user_id);
+CREATE INDEX idx_prompt_templates_user_id ON public.prompt_templates(user_id);
+CREATE INDEX idx_prompt_templates_project_id ON public.prompt_templates(project_id);
+CREATE INDEX idx_memories_user_id ON public.memories(user_id);
+CREATE INDEX idx_memories_conversation_id ON public.memories(conversation_id);
+CREATE INDEX idx_knowledge_documents_project_id ON public.knowledge_documents(project_id);
+CREATE INDEX idx_knowledge_chunks_document_id ON public.knowledge_chunks(document_id);
+CREATE INDEX idx_knowledge_chunks_project_model ON public.knowledge_chunks(project_id, embedding_model);
+CREATE INDEX idx_rate_limits_window_started_at ON public.rate_limits(window_started_at);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 
@@ -135,6 +249,67 @@ CREATE POLICY "Users can delete own messages" ON public.messages
     )
   );
 
+-- API key policies
+CREATE POLICY "Users can view own api keys" ON public.user_api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own api keys" ON public.user_api_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own api keys" ON public.user_api_keys
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own api keys" ON public.user_api_keys
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Prompt template policies
+CREATE POLICY "Users can view own prompt templates" ON public.prompt_templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own prompt templates" ON public.prompt_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own prompt templates" ON public.prompt_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own prompt templates" ON public.prompt_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Memory policies
+CREATE POLICY "Users can view own memories" ON public.memories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own memories" ON public.memories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own memories" ON public.memories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memories" ON public.memories
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Knowledge base policies
+CREATE POLICY "Users can view own knowledge documents" ON public.knowledge_documents
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own knowledge documents" ON public.knowledge_documents
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own knowledge documents" ON public.knowledge_documents
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own knowledge documents" ON public.knowledge_documents
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own knowledge chunks" ON public.knowledge_chunks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own knowledge chunks" ON public.knowledge_chunks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own knowledge chunks" ON public.knowledge_chunks
+  FOR DELETE USING (auth.uid() = user_id);
+
 -- Create functions for updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -157,6 +332,22 @@ CREATE TRIGGER update_conversations_updated_at
   BEFORE UPDATE ON public.conversations 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_user_api_keys_updated_at 
+  BEFORE UPDATE ON public.user_api_keys 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_prompt_templates_updated_at 
+  BEFORE UPDATE ON public.prompt_templates 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_memories_updated_at 
+  BEFORE UPDATE ON public.memories 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_knowledge_documents_updated_at 
+  BEFORE UPDATE ON public.knowledge_documents 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Function to handle user creation
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -175,4 +366,50 @@ $$ language 'plpgsql' SECURITY DEFINER;
 -- Trigger to automatically create user profile
 CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
-  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user(); 
\ No newline at end of file
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user(); 
+
+-- Closest chunks of a project to a question, by cosine distance. Runs with the caller's rights, so
+-- row level security limits it to the caller's own chunks
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  p_project_id UUID,
+  p_embedding vector,
+  p_embedding_model TEXT,
+  p_match_count INTEGER DEFAULT 5
+)
+RETURNS TABLE (document_id UUID, document_name TEXT, chunk_index INTEGER, content TEXT, similarity DOUBLE PRECISION) AS $$
+  SELECT c.document_id, d.name, c.chunk_index, c.content, 1 - (c.embedding <=> p_embedding)
+  FROM public.knowledge_chunks c
+  JOIN public.knowledge_documents d ON d.id = c.document_id
+  WHERE c.project_id = p_project_id
+    AND c.embedding_model = p_embedding_model
+    AND vector_dims(c.embedding) = vector_dims(p_embedding)
+  ORDER BY c.embedding <=> p_embedding
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Rate limit counters: count one request and return the window it landed in
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_key TEXT, p_window_seconds INTEGER)
+RETURNS TABLE (request_count INTEGER, window_started_at TIMESTAMPTZ) AS $$
+  INSERT INTO public.rate_limits AS r (key, request_count, window_started_at)
+  VALUES (p_key, 1, NOW())
+  ON CONFLICT (key) DO UPDATE SET
+    request_count = CASE
+      WHEN r.window_started_at <= NOW() - make_interval(secs => p_window_seconds) THEN 1
+      ELSE r.request_count + 1
+    END,
+    window_started_at = CASE
+      WHEN r.window_started_at <= NOW() - make_interval(secs => p_window_seconds) THEN NOW()
+      ELSE r.window_started_at
+    END
+  RETURNING r.request_count, r.window_started_at;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION public.prune_rate_limits()
+RETURNS VOID AS $$
+  DELETE FROM public.rate_limits WHERE window_started_at < NOW() - INTERVAL '1 day';
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_rate_limits() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prune_rate_limits() TO service_role;